@@ -0,0 +1,333 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
+import { backtestResultManager } from "@/storage/database/tradingManager";
+import { validateStrategyParams } from "@/utils/paramSchema";
+import { getRequestUserId } from "@/utils/requestAuth";
+import { TIMEFRAME_TO_MS, sortTimeframes } from "@/utils/timeframeAligner";
+import { BacktestWorkerPool, getDefaultConcurrency } from "@/backtest/BacktestWorkerPool";
+import { binanceKlineLoader } from "@/backtest/binanceKlineLoader";
+import {
+  MAX_GRID_COMBINATIONS,
+  buildSearchSpace,
+  collectSweepTimeframes,
+  countCombinations,
+  runOptimization,
+  sortOptimizationRuns,
+} from "@/backtest/optimizer";
+import type {
+  BacktestConfig,
+  BacktestResult,
+  OptimizationConfig,
+  OptimizationMode,
+  OptimizationObjective,
+  OptimizationParamRange,
+  OptimizationRun,
+} from "@/types/backtest";
+import type { KLineData } from "@/types/strategy";
+
+const MODES: OptimizationMode[] = ["grid", "random", "bayesian"];
+const OBJECTIVES: OptimizationObjective[] = ["net_profit", "sharpe", "profit_factor", "max_drawdown"];
+
+// 单个周期最多获取的K线数
+const MAX_KLINES_PER_TIMEFRAME = 100000;
+
+// random / bayesian 的最大回测次数
+const MAX_ITERATIONS = 500;
+
+/**
+ * 令牌无效时的响应
+ */
+function unauthorized(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: "未授权：请在 Authorization 请求头中提供有效的令牌" },
+    { status: 401 }
+  );
+}
+
+/**
+ * 单次优化回测保存为回测结果记录（同一批次共用 batchId）
+ */
+async function saveRun(
+  userId: string,
+  batchId: string,
+  config: BacktestConfig,
+  optimization: Pick<OptimizationConfig, "mode" | "objective">,
+  run: OptimizationRun,
+  result: BacktestResult
+): Promise<string> {
+  const record = await backtestResultManager.createResult({
+    userId,
+    strategyId: result.strategyId,
+    strategyName: result.strategyName,
+    strategyParams: result.params,
+    strategyHash: result.strategyHash,
+    presetId: config.presetId,
+    presetVersion: config.presetVersion,
+    symbol: result.symbol,
+    timeframe: result.timeframe,
+    startTime: new Date(result.startTime),
+    endTime: new Date(result.endTime),
+    initialBalance: config.initialBalance.toString(),
+    commissionRate: config.commissionRate.toString(),
+    slippage: config.slippage.toString(),
+    totalTrades: result.totalTrades,
+    winningTrades: result.winningTrades,
+    losingTrades: result.losingTrades,
+    winRate: result.winRate.toFixed(2),
+    totalProfit: result.totalProfit.toString(),
+    totalLoss: result.totalLoss.toString(),
+    netProfit: result.netProfit.toString(),
+    profitFactor: result.profitFactor.toString(),
+    maxDrawdown: result.maxDrawdown.toString(),
+    maxDrawdownPercent: result.maxDrawdownPercent.toFixed(2),
+    trades: JSON.stringify(result.trades),
+    signals: JSON.stringify(result.signals),
+    equityCurve: JSON.stringify(result.equityCurve),
+    batchId,
+    metadata: {
+      optimization: {
+        mode: optimization.mode,
+        objective: optimization.objective,
+        params: run.params,
+        score: run.score,
+        sharpeRatio: run.sharpeRatio,
+      },
+    },
+  });
+  return record.id;
+}
+
+// GET - 请求者某批次保存的回测结果（不含交易明细、信号和资金曲线）
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const batchId = request.nextUrl.searchParams.get("batchId");
+    if (!batchId) {
+      return NextResponse.json(
+        { success: false, error: "缺少批次ID" },
+        { status: 400 }
+      );
+    }
+
+    const records = await backtestResultManager.getResultsByBatchId(batchId);
+    return NextResponse.json({
+      success: true,
+      data: records.filter((record) => record.userId === userId).map((record) => ({
+        ...record,
+        trades: undefined,
+        signals: undefined,
+        equityCurve: undefined,
+      })),
+    });
+  } catch (error) {
+    console.error("Get optimization results error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - 参数优化
+ * body: 回测配置（strategyId、symbol、timeframe、startTime、endTime、params 等），
+ * optimizeParams（扫描的参数）、mode、objective、maxDrawdownLimit、iterations、concurrency，
+ * 以及结果表排序 sortBy / sortOrder（默认按目标值从高到低）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const { strategyId, symbol, timeframe, optimizeParams, mode, objective } = body;
+    const startTime = Number(body.startTime);
+    const endTime = Number(body.endTime);
+
+    if (!strategyId || !symbol || !timeframe || !startTime || !endTime) {
+      return NextResponse.json(
+        { success: false, error: "缺少必要参数: strategyId, symbol, timeframe, startTime, endTime" },
+        { status: 400 }
+      );
+    }
+    if (!TIMEFRAME_TO_MS[timeframe] || startTime >= endTime) {
+      return NextResponse.json(
+        { success: false, error: "周期或时间范围无效" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(optimizeParams) || optimizeParams.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "请至少选择一个要优化的参数" },
+        { status: 400 }
+      );
+    }
+    if (!MODES.includes(mode) || !OBJECTIVES.includes(objective)) {
+      return NextResponse.json(
+        { success: false, error: `mode 必须为 ${MODES.join("/")}，objective 必须为 ${OBJECTIVES.join("/")}` },
+        { status: 400 }
+      );
+    }
+    if (objective === "max_drawdown" && !(Number(body.maxDrawdownLimit) > 0)) {
+      return NextResponse.json(
+        { success: false, error: "回撤上限目标需要设置 maxDrawdownLimit（%）" },
+        { status: 400 }
+      );
+    }
+
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    const strategy = strategyRegistry.getStrategy(strategyId, body.strategyVersion);
+    if (!strategy) {
+      return NextResponse.json(
+        { success: false, error: `策略 [${strategyId}] 不存在` },
+        { status: 404 }
+      );
+    }
+
+    const validation = validateStrategyParams(strategy, body.params);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `参数验证失败: ${validation.errors.join(", ")}`,
+          fieldErrors: validation.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    let ranges: OptimizationParamRange[];
+    try {
+      ranges = buildSearchSpace(strategy.getConfigItems(), optimizeParams);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: `参数范围无效: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+    const totalCombinations = countCombinations(ranges);
+    if (mode === "grid" && totalCombinations > MAX_GRID_COMBINATIONS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `网格搜索共 ${totalCombinations} 组参数，超过上限 ${MAX_GRID_COMBINATIONS}，请减少参数或改用随机/贝叶斯搜索`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const config: BacktestConfig = {
+      strategyId,
+      strategyVersion: body.strategyVersion,
+      symbol,
+      timeframe,
+      startTime,
+      endTime,
+      initialBalance: body.initialBalance ?? 10000,
+      positionSize: body.positionSize ?? 10,
+      positionSizingMode: body.positionSizingMode ?? "percent",
+      riskPerTrade: body.riskPerTrade,
+      commissionRate: body.commissionRate ?? 0.0004,
+      slippage: body.slippage ?? 0,
+      entryFill: body.entryFill,
+      exitFill: body.exitFill,
+      params: validation.params,
+      presetId: body.presetId,
+      presetVersion: body.presetVersion,
+      stopLossPercent: body.stopLossPercent,
+      takeProfitPercent: body.takeProfitPercent,
+      maxDrawdownPercent: body.maxDrawdownPercent,
+    };
+
+    // 回测周期和扫描中任一参数取值声明的周期都需要获取
+    const timeframes = sortTimeframes([timeframe, ...collectSweepTimeframes(strategy, validation.params, ranges)]);
+    for (const tf of timeframes) {
+      if ((endTime - startTime) / TIMEFRAME_TO_MS[tf] > MAX_KLINES_PER_TIMEFRAME) {
+        return NextResponse.json(
+          { success: false, error: `${tf} 周期K线超过 ${MAX_KLINES_PER_TIMEFRAME} 根，请缩短时间范围` },
+          { status: 400 }
+        );
+      }
+    }
+    const klinesByTimeframe: Record<string, KLineData[]> = {};
+    for (const tf of timeframes) {
+      klinesByTimeframe[tf] = await binanceKlineLoader(symbol, tf, startTime, endTime);
+    }
+    const { [timeframe]: klines, ...timeframeKlines } = klinesByTimeframe;
+    if (klines.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "时间范围内没有K线数据" },
+        { status: 400 }
+      );
+    }
+
+    const concurrency = Math.max(1, Math.min(Number(body.concurrency) || getDefaultConcurrency(), getDefaultConcurrency()));
+    const optimization: OptimizationConfig = {
+      base: config,
+      params: optimizeParams,
+      mode,
+      objective,
+      maxDrawdownLimit: body.maxDrawdownLimit !== undefined ? Number(body.maxDrawdownLimit) : undefined,
+      iterations: body.iterations ? Math.min(Number(body.iterations), MAX_ITERATIONS) : undefined,
+      concurrency,
+    };
+    const batchId = randomUUID();
+
+    const pool = new BacktestWorkerPool(concurrency, { klines, timeframeKlines });
+    let result;
+    try {
+      result = await runOptimization(
+        optimization,
+        ranges,
+        (params) => pool.run({ ...config, params }),
+        async (run, backtest) => {
+          // 保存失败不影响优化结果
+          try {
+            run.resultId = await saveRun(userId, batchId, config, optimization, run, backtest);
+          } catch (error) {
+            console.error("Save optimization backtest result error:", error);
+          }
+        }
+      );
+    } finally {
+      await pool.close();
+    }
+
+    console.log(
+      `Optimization ${batchId} finished: ${result.runs.length} backtests, best score ${result.best?.score ?? "-"}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        batchId,
+        ...result,
+        runs: body.sortBy
+          ? sortOptimizationRuns(result.runs, body.sortBy, body.sortOrder === "asc" ? "asc" : "desc")
+          : result.runs,
+      },
+    });
+  } catch (error) {
+    console.error("Optimize backtest error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from "next/server";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
+import { validateStrategyParams } from "@/utils/paramSchema";
+import { TIMEFRAME_TO_MS, sortTimeframes } from "@/utils/timeframeAligner";
+import { BacktestWorkerPool, getDefaultConcurrency } from "@/backtest/BacktestWorkerPool";
+import { binanceKlineLoader } from "@/backtest/binanceKlineLoader";
+import {
+  MAX_GRID_COMBINATIONS,
+  buildSearchSpace,
+  collectSweepTimeframes,
+  countCombinations,
+} from "@/backtest/optimizer";
+import { MAX_WALK_FORWARD_WINDOWS, buildWalkForwardWindows, runWalkForward } from "@/backtest/walkForward";
+import type {
+  BacktestConfig,
+  OptimizationMode,
+  OptimizationObjective,
+  OptimizationParamRange,
+  WalkForwardConfig,
+  WalkForwardMode,
+} from "@/types/backtest";
+import type { KLineData } from "@/types/strategy";
+
+const MODES: OptimizationMode[] = ["grid", "random", "bayesian"];
+const OBJECTIVES: OptimizationObjective[] = ["net_profit", "sharpe", "profit_factor", "max_drawdown"];
+const WINDOW_MODES: WalkForwardMode[] = ["rolling", "anchored"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 单个周期最多获取的K线数
+const MAX_KLINES_PER_TIMEFRAME = 100000;
+
+// 每个样本内窗口 random / bayesian 的最大回测次数
+const MAX_ITERATIONS = 200;
+
+/**
+ * POST - 前推分析
+ * body: 回测配置（strategyId、symbol、timeframe、startTime、endTime、params 等），
+ * 优化配置 optimizeParams、mode、objective、maxDrawdownLimit、iterations、concurrency，
+ * 以及窗口配置 windowMode（rolling / anchored）、inSampleDays、outOfSampleDays
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { strategyId, symbol, timeframe, optimizeParams, mode, objective } = body;
+    const startTime = Number(body.startTime);
+    const endTime = Number(body.endTime);
+    const windowMode: WalkForwardMode = body.windowMode ?? "rolling";
+    const inSampleDuration = Number(body.inSampleDays) * DAY_MS;
+    const outOfSampleDuration = Number(body.outOfSampleDays) * DAY_MS;
+
+    if (!strategyId || !symbol || !timeframe || !startTime || !endTime) {
+      return NextResponse.json(
+        { success: false, error: "缺少必要参数: strategyId, symbol, timeframe, startTime, endTime" },
+        { status: 400 }
+      );
+    }
+    if (!TIMEFRAME_TO_MS[timeframe] || startTime >= endTime) {
+      return NextResponse.json(
+        { success: false, error: "周期或时间范围无效" },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(optimizeParams) || optimizeParams.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "请至少选择一个要优化的参数" },
+        { status: 400 }
+      );
+    }
+    if (!MODES.includes(mode) || !OBJECTIVES.includes(objective)) {
+      return NextResponse.json(
+        { success: false, error: `mode 必须为 ${MODES.join("/")}，objective 必须为 ${OBJECTIVES.join("/")}` },
+        { status: 400 }
+      );
+    }
+    if (objective === "max_drawdown" && !(Number(body.maxDrawdownLimit) > 0)) {
+      return NextResponse.json(
+        { success: false, error: "回撤上限目标需要设置 maxDrawdownLimit（%）" },
+        { status: 400 }
+      );
+    }
+    if (!WINDOW_MODES.includes(windowMode) || !(inSampleDuration > 0) || !(outOfSampleDuration > 0)) {
+      return NextResponse.json(
+        { success: false, error: `windowMode 必须为 ${WINDOW_MODES.join("/")}，inSampleDays 和 outOfSampleDays 必须大于 0` },
+        { status: 400 }
+      );
+    }
+
+    let windowCount: number;
+    try {
+      windowCount = buildWalkForwardWindows(startTime, endTime, windowMode, inSampleDuration, outOfSampleDuration).length;
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `时间范围需要至少容纳一个样本内窗口，且窗口数不超过 ${MAX_WALK_FORWARD_WINDOWS}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    const strategy = strategyRegistry.getStrategy(strategyId, body.strategyVersion);
+    if (!strategy) {
+      return NextResponse.json(
+        { success: false, error: `策略 [${strategyId}] 不存在` },
+        { status: 404 }
+      );
+    }
+
+    const validation = validateStrategyParams(strategy, body.params);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `参数验证失败: ${validation.errors.join(", ")}`,
+          fieldErrors: validation.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    let ranges: OptimizationParamRange[];
+    try {
+      ranges = buildSearchSpace(strategy.getConfigItems(), optimizeParams);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: `参数范围无效: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+    const totalCombinations = countCombinations(ranges);
+    if (mode === "grid" && totalCombinations > MAX_GRID_COMBINATIONS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `网格搜索共 ${totalCombinations} 组参数，超过上限 ${MAX_GRID_COMBINATIONS}，请减少参数或改用随机/贝叶斯搜索`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const config: BacktestConfig = {
+      strategyId,
+      strategyVersion: body.strategyVersion,
+      symbol,
+      timeframe,
+      startTime,
+      endTime,
+      initialBalance: body.initialBalance ?? 10000,
+      positionSize: body.positionSize ?? 10,
+      positionSizingMode: body.positionSizingMode ?? "percent",
+      riskPerTrade: body.riskPerTrade,
+      commissionRate: body.commissionRate ?? 0.0004,
+      slippage: body.slippage ?? 0,
+      entryFill: body.entryFill,
+      exitFill: body.exitFill,
+      params: validation.params,
+      presetId: body.presetId,
+      presetVersion: body.presetVersion,
+      stopLossPercent: body.stopLossPercent,
+      takeProfitPercent: body.takeProfitPercent,
+      maxDrawdownPercent: body.maxDrawdownPercent,
+    };
+
+    // 整个分析区间的K线只获取一次（包含扫描中任一参数取值声明的周期），各窗口的回测在 worker 内按时间范围截取
+    const timeframes = sortTimeframes([timeframe, ...collectSweepTimeframes(strategy, validation.params, ranges)]);
+    for (const tf of timeframes) {
+      if ((endTime - startTime) / TIMEFRAME_TO_MS[tf] > MAX_KLINES_PER_TIMEFRAME) {
+        return NextResponse.json(
+          { success: false, error: `${tf} 周期K线超过 ${MAX_KLINES_PER_TIMEFRAME} 根，请缩短时间范围` },
+          { status: 400 }
+        );
+      }
+    }
+    const klinesByTimeframe: Record<string, KLineData[]> = {};
+    for (const tf of timeframes) {
+      klinesByTimeframe[tf] = await binanceKlineLoader(symbol, tf, startTime, endTime);
+    }
+    const { [timeframe]: klines, ...timeframeKlines } = klinesByTimeframe;
+    if (klines.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "时间范围内没有K线数据" },
+        { status: 400 }
+      );
+    }
+
+    const concurrency = Math.max(1, Math.min(Number(body.concurrency) || getDefaultConcurrency(), getDefaultConcurrency()));
+    const walkForward: WalkForwardConfig = {
+      optimization: {
+        base: config,
+        params: optimizeParams,
+        mode,
+        objective,
+        maxDrawdownLimit: body.maxDrawdownLimit !== undefined ? Number(body.maxDrawdownLimit) : undefined,
+        iterations: body.iterations ? Math.min(Number(body.iterations), MAX_ITERATIONS) : undefined,
+        concurrency,
+      },
+      mode: windowMode,
+      inSampleDuration,
+      outOfSampleDuration,
+    };
+
+    const pool = new BacktestWorkerPool(concurrency, { klines, timeframeKlines });
+    let result;
+    try {
+      result = await runWalkForward(walkForward, ranges, (backtestConfig) => pool.run(backtestConfig));
+    } finally {
+      await pool.close();
+    }
+
+    console.log(
+      `Walk-forward ${strategyId} ${symbol} finished: ${windowCount} windows, ` +
+        `net profit ${result.netProfit.toFixed(2)}, efficiency ${result.efficiency?.toFixed(2) ?? "-"}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Walk-forward backtest error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
+
+// GET - 所有已注册策略的描述（元信息、来源、版本、配置项和默认参数）
+export async function GET() {
+  try {
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+
+    return NextResponse.json({
+      success: true,
+      data: strategyRegistry.describeAll(),
+    });
+  } catch (error) {
+    console.error("Get strategies error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
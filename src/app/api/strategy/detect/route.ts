@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { strategyManager } from "@/utils/strategyManager";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
 
 interface DetectRequest {
   strategyId: string;
@@ -12,7 +14,7 @@ interface DetectRequest {
     close: number;
     volume: number;
   }>;
-  params: Record<string, any>;
+  params?: Record<string, any>;
 }
 
 export async function POST(request: NextRequest) {
@@ -20,18 +22,20 @@ export async function POST(request: NextRequest) {
     const body: DetectRequest = await request.json();
 
     // 验证请求参数
-    if (!body.strategyId || !body.symbol || !body.klines || !body.params) {
+    if (!body.strategyId || !body.symbol || !body.klines) {
       return NextResponse.json(
         {
           success: false,
-          error: "缺少必要参数: strategyId, symbol, klines, params",
+          error: "缺少必要参数: strategyId, symbol, klines",
         },
         { status: 400 }
       );
     }
 
-    // 验证策略是否存在
-    if (!strategyManager.hasStrategy(body.strategyId)) {
+    // 验证策略是否存在（规则策略和脚本策略按需从数据库加载）
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    if (!strategyRegistry.hasStrategy(body.strategyId)) {
       return NextResponse.json(
         {
           success: false,
@@ -41,6 +45,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 校验参数（缺失的参数使用默认值）
+    const validation = strategyRegistry.resolveParams(body.strategyId, body.params);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `参数验证失败: ${validation.errors.join(", ")}`,
+          fieldErrors: validation.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
     // 转换K线数据格式
     const klines = body.klines.map((k) => ({
       timestamp: k.timestamp,
@@ -52,11 +69,11 @@ export async function POST(request: NextRequest) {
     }));
 
     // 调用策略检测信号
-    const result = strategyManager.detectSignal(
+    const result = strategyRegistry.detectSignal(
       body.strategyId,
       body.symbol,
       klines,
-      body.params
+      validation.params
     );
 
     return NextResponse.json({
@@ -78,7 +95,9 @@ export async function POST(request: NextRequest) {
 // 获取所有可用策略列表
 export async function GET() {
   try {
-    const strategies = strategyManager.getAllStrategyMetas();
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    const strategies = strategyRegistry.getAllStrategyMetas();
 
     return NextResponse.json({
       success: true,
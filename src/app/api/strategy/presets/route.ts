@@ -0,0 +1,371 @@
+import { NextRequest, NextResponse } from "next/server";
+import { strategyPresetManager } from "@/storage/database/tradingManager";
+import type { StrategyPreset, StrategyPresetVersion } from "@/storage/database/shared/schema";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
+import { BaseStrategyParams } from "@/types/strategy";
+import { validateStrategyParams } from "@/utils/paramSchema";
+import { getRequestUserId } from "@/utils/requestAuth";
+import {
+  diffPresetParams,
+  migratePresetParams,
+} from "@/utils/strategyPresets";
+
+/**
+ * 请求者的用户ID（见 utils/requestAuth），配置了令牌但令牌无效时返回错误响应
+ */
+function requireUser(request: NextRequest): string | NextResponse {
+  const userId = getRequestUserId(request);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: "未授权：请在 Authorization 请求头中提供有效的令牌" },
+      { status: 401 }
+    );
+  }
+  return userId;
+}
+
+/**
+ * 获取请求者自己的预设，不存在或属于其他用户时返回 null
+ */
+async function getOwnPreset(id: string, userId: string): Promise<StrategyPreset | null> {
+  const preset = await strategyPresetManager.getPresetById(id);
+  return preset && preset.userId === userId ? preset : null;
+}
+
+// 返回给前端的预设（附带最新版本参数）
+function toResponse(preset: StrategyPreset, version: StrategyPresetVersion | null) {
+  return {
+    ...preset,
+    params: (version?.params ?? {}) as BaseStrategyParams,
+  };
+}
+
+/**
+ * 策略版本变化时迁移预设：能自动迁移则保存为新版本，否则标记为 outdated
+ */
+async function syncPresetWithStrategy(preset: StrategyPreset) {
+  const latest = await strategyPresetManager.getPresetVersion(preset.id);
+  const strategy = strategyRegistry.getStrategy(preset.strategyId);
+  if (!strategy || !latest || preset.strategyVersion === strategy.meta.version) {
+    return toResponse(preset, latest);
+  }
+
+  const migration = migratePresetParams(strategy, latest.params as BaseStrategyParams);
+  if (migration.errors.length > 0) {
+    const flagged = preset.status === "outdated"
+      ? preset
+      : (await strategyPresetManager.updatePreset(preset.id, { status: "outdated" })) || preset;
+    return toResponse(flagged, latest);
+  }
+
+  if (migration.changes.length === 0) {
+    const updated = await strategyPresetManager.updatePreset(preset.id, {
+      strategyVersion: strategy.meta.version,
+      status: "active",
+    });
+    return toResponse(updated || preset, latest);
+  }
+
+  const saved = await strategyPresetManager.savePresetVersion(
+    preset.id,
+    migration.params,
+    strategy.meta.version,
+    `自动迁移：策略版本 ${preset.strategyVersion} → ${strategy.meta.version}`
+  );
+  console.log(`Migrated preset [${preset.id}] to strategy version ${strategy.meta.version}`);
+  return saved ? toResponse(saved.preset, saved.version) : toResponse(preset, latest);
+}
+
+// GET - 预设列表（strategyId）、版本历史（presetId）或两个版本的差异（presetId + from + to）
+export async function GET(request: NextRequest) {
+  try {
+    const userId = requireUser(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const presetId = searchParams.get("presetId");
+
+    if (presetId) {
+      const versions = (await getOwnPreset(presetId, userId))
+        ? await strategyPresetManager.getPresetVersions(presetId)
+        : [];
+      if (versions.length === 0) {
+        return NextResponse.json(
+          { success: false, error: "预设不存在" },
+          { status: 404 }
+        );
+      }
+
+      const from = searchParams.get("from");
+      const to = searchParams.get("to");
+      if (from && to) {
+        const fromVersion = versions.find((v) => v.version === Number(from));
+        const toVersion = versions.find((v) => v.version === Number(to));
+        if (!fromVersion || !toVersion) {
+          return NextResponse.json(
+            { success: false, error: "预设版本不存在" },
+            { status: 404 }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          data: {
+            from: fromVersion.version,
+            to: toVersion.version,
+            changes: diffPresetParams(
+              fromVersion.params as BaseStrategyParams,
+              toVersion.params as BaseStrategyParams
+            ),
+          },
+        });
+      }
+
+      // 版本按从新到旧排列，每个版本与上一版本比较
+      return NextResponse.json({
+        success: true,
+        data: versions.map((version, index) => ({
+          ...version,
+          changes: diffPresetParams(
+            (versions[index + 1]?.params ?? {}) as BaseStrategyParams,
+            version.params as BaseStrategyParams
+          ),
+        })),
+      });
+    }
+
+    const strategyId = searchParams.get("strategyId") || undefined;
+
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    const presets = await strategyPresetManager.getPresets(userId, strategyId);
+    const data = [];
+    for (const preset of presets) {
+      data.push(await syncPresetWithStrategy(preset));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    console.error("Get strategy presets error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - 创建预设
+export async function POST(request: NextRequest) {
+  try {
+    const userId = requireUser(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json();
+
+    if (!body.strategyId || !body.name || !body.params) {
+      return NextResponse.json(
+        { success: false, error: "缺少必要参数: strategyId, name, params" },
+        { status: 400 }
+      );
+    }
+
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    const strategy = strategyRegistry.getStrategy(body.strategyId);
+    if (!strategy) {
+      return NextResponse.json(
+        { success: false, error: `策略 [${body.strategyId}] 不存在` },
+        { status: 404 }
+      );
+    }
+
+    // 保存规范化后的参数（表单中的数字字符串、下拉框取值等），版本差异和迁移都基于保存的值
+    const validation = validateStrategyParams(strategy, body.params);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `参数验证失败: ${validation.errors.join(", ")}`,
+          fieldErrors: validation.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { preset, version } = await strategyPresetManager.createPreset(
+      {
+        userId,
+        strategyId: body.strategyId,
+        name: body.name,
+        description: body.description || "",
+        strategyVersion: strategy.meta.version,
+        status: "active",
+      },
+      validation.params,
+      body.note || ""
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: toResponse(preset, version),
+    });
+  } catch (error) {
+    console.error("Create strategy preset error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - 保存新版本（提供 params 时）或修改名称/描述
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = requireUser(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { success: false, error: "缺少预设ID" },
+        { status: 400 }
+      );
+    }
+
+    const preset = await getOwnPreset(body.id, userId);
+    if (!preset) {
+      return NextResponse.json(
+        { success: false, error: "预设不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (body.name !== undefined || body.description !== undefined) {
+      const updates: Partial<StrategyPreset> = {};
+      if (body.name !== undefined) {
+        updates.name = body.name;
+      }
+      if (body.description !== undefined) {
+        updates.description = body.description;
+      }
+      await strategyPresetManager.updatePreset(preset.id, updates);
+    }
+
+    if (body.params !== undefined) {
+      await ensureRuleStrategiesLoaded();
+      await ensureScriptStrategiesLoaded();
+      const strategy = strategyRegistry.getStrategy(preset.strategyId);
+      if (!strategy) {
+        return NextResponse.json(
+          { success: false, error: `策略 [${preset.strategyId}] 不存在` },
+          { status: 404 }
+        );
+      }
+
+      const validation = validateStrategyParams(strategy, body.params);
+      if (!validation.valid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `参数验证失败: ${validation.errors.join(", ")}`,
+            fieldErrors: validation.fieldErrors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const saved = await strategyPresetManager.savePresetVersion(
+        preset.id,
+        validation.params,
+        strategy.meta.version,
+        body.note || ""
+      );
+      if (!saved) {
+        return NextResponse.json(
+          { success: false, error: "预设不存在" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: toResponse(saved.preset, saved.version),
+      });
+    }
+
+    const updated = await strategyPresetManager.getPresetById(preset.id);
+    const latest = await strategyPresetManager.getPresetVersion(preset.id);
+    return NextResponse.json({
+      success: true,
+      data: toResponse(updated || preset, latest),
+    });
+  } catch (error) {
+    console.error("Update strategy preset error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - 删除预设（包括所有版本）
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = requireUser(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "缺少预设ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = (await getOwnPreset(id, userId)) && (await strategyPresetManager.deletePreset(id));
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "预设不存在" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { message: "预设已删除" },
+    });
+  } catch (error) {
+    console.error("Delete strategy preset error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
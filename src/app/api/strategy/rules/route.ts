@@ -0,0 +1,202 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ruleStrategyManager } from "@/storage/database/tradingManager";
+import type { RuleStrategy } from "@/storage/database/shared/schema";
+import { parseRuleSet } from "@/utils/ruleEngine";
+import { getRuleStrategyId } from "@/strategies/RuleBasedStrategy";
+import {
+  registerRuleStrategy,
+  unregisterRuleStrategy,
+} from "@/strategies/ruleStrategyLoader";
+
+// 未登录时使用的默认用户
+const DEFAULT_USER_ID = "default";
+
+// 返回给前端的规则策略（附带注册到策略管理器的ID）
+function toResponse(record: RuleStrategy) {
+  return {
+    ...record,
+    strategyId: getRuleStrategyId(record.id),
+  };
+}
+
+// GET - 获取规则策略列表
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.nextUrl.searchParams.get("userId") || DEFAULT_USER_ID;
+    const records = await ruleStrategyManager.getRuleStrategiesByUserId(userId);
+
+    // 同步注册到服务端策略管理器
+    for (const record of records) {
+      if (!record.enabled) {
+        continue;
+      }
+      try {
+        registerRuleStrategy(record);
+      } catch (error) {
+        console.warn(`Skipping invalid rule strategy [${record.id}]:`, error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: records.map(toResponse),
+    });
+  } catch (error) {
+    console.error("Get rule strategies error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - 创建规则策略
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name || !body.rules) {
+      return NextResponse.json(
+        { success: false, error: "缺少必要参数: name, rules" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseRuleSet(body.rules);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: `规则校验失败: ${parsed.errors.join("; ")}` },
+        { status: 400 }
+      );
+    }
+
+    const record = await ruleStrategyManager.createRuleStrategy({
+      userId: body.userId || DEFAULT_USER_ID,
+      name: body.name,
+      description: body.description || "",
+      rules: parsed.data,
+      enabled: body.enabled ?? true,
+    });
+    if (record.enabled) {
+      registerRuleStrategy(record);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toResponse(record),
+    });
+  } catch (error) {
+    console.error("Create rule strategy error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - 更新规则策略
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.id) {
+      return NextResponse.json(
+        { success: false, error: "缺少规则策略ID" },
+        { status: 400 }
+      );
+    }
+
+    const updates: Partial<RuleStrategy> = {};
+    if (body.name !== undefined) {
+      updates.name = body.name;
+    }
+    if (body.description !== undefined) {
+      updates.description = body.description;
+    }
+    if (body.enabled !== undefined) {
+      updates.enabled = Boolean(body.enabled);
+    }
+    if (body.rules !== undefined) {
+      const parsed = parseRuleSet(body.rules);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { success: false, error: `规则校验失败: ${parsed.errors.join("; ")}` },
+          { status: 400 }
+        );
+      }
+      updates.rules = parsed.data;
+    }
+
+    const record = await ruleStrategyManager.updateRuleStrategy(body.id, updates);
+    if (!record) {
+      return NextResponse.json(
+        { success: false, error: "规则策略不存在" },
+        { status: 404 }
+      );
+    }
+
+    if (record.enabled) {
+      registerRuleStrategy(record);
+    } else {
+      unregisterRuleStrategy(record.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toResponse(record),
+    });
+  } catch (error) {
+    console.error("Update rule strategy error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - 删除规则策略
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: "缺少规则策略ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await ruleStrategyManager.deleteRuleStrategy(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "规则策略不存在" },
+        { status: 404 }
+      );
+    }
+
+    unregisterRuleStrategy(id);
+
+    return NextResponse.json({
+      success: true,
+      data: { message: "规则策略已删除" },
+    });
+  } catch (error) {
+    console.error("Delete rule strategy error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
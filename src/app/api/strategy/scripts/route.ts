@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from "next/server";
+import { strategyScriptManager } from "@/storage/database/tradingManager";
+import type { StrategyScript } from "@/storage/database/shared/schema";
+import {
+  ScriptStrategy,
+  getScriptStrategyId,
+  hashScriptCode,
+} from "@/strategies/ScriptStrategy";
+import {
+  registerScriptStrategy,
+  unregisterScriptStrategy,
+} from "@/strategies/scriptStrategyLoader";
+import { getAuthenticatedUserId, isAuthConfigured } from "@/utils/requestAuth";
+
+// 未登录时使用的默认用户
+const DEFAULT_USER_ID = "default";
+
+// 脚本大小上限
+const MAX_SCRIPT_LENGTH = 200_000;
+
+// 脚本标识：小写字母、数字、下划线
+const SCRIPT_KEY_PATTERN = /^[a-z0-9_]{1,48}$/;
+
+/**
+ * 上传和删除会在服务端运行 / 移除脚本，必须由令牌识别出的用户操作（见 utils/requestAuth）
+ * 返回用户ID，未通过时返回错误响应
+ */
+function requireUser(request: NextRequest): string | NextResponse {
+  if (!isAuthConfigured()) {
+    return NextResponse.json(
+      { success: false, error: "脚本上传未启用：服务端未配置 API_USER_TOKENS" },
+      { status: 403 }
+    );
+  }
+
+  const userId = getAuthenticatedUserId(request);
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, error: "未授权：请在 Authorization 请求头中提供有效的令牌" },
+      { status: 401 }
+    );
+  }
+  return userId;
+}
+
+// 返回给前端的脚本（列表不返回代码）
+function toResponse(record: StrategyScript, includeCode = false) {
+  const { code, ...rest } = record;
+  return {
+    ...rest,
+    ...(includeCode ? { code } : {}),
+    strategyId: getScriptStrategyId(record.scriptKey),
+  };
+}
+
+// GET - 获取脚本列表（带 scriptKey 时返回该脚本的所有版本）
+export async function GET(request: NextRequest) {
+  try {
+    const scriptKey = request.nextUrl.searchParams.get("scriptKey");
+
+    if (scriptKey) {
+      const versions = await strategyScriptManager.getScriptVersions(scriptKey);
+      return NextResponse.json({
+        success: true,
+        data: versions.map((record) => toResponse(record, true)),
+      });
+    }
+
+    const userId = request.nextUrl.searchParams.get("userId") || DEFAULT_USER_ID;
+    const records = await strategyScriptManager.getScriptsByUserId(userId);
+
+    // 每个脚本只返回最新版本
+    const latest = new Map<string, StrategyScript>();
+    for (const record of records) {
+      const current = latest.get(record.scriptKey);
+      if (!current || record.version > current.version) {
+        latest.set(record.scriptKey, record);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: Array.from(latest.values()).map((record) => toResponse(record)),
+    });
+  } catch (error) {
+    console.error("Get strategy scripts error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - 上传脚本（同一 scriptKey 每次上传生成新版本，上传者为令牌对应的用户）
+export async function POST(request: NextRequest) {
+  try {
+    const userId = requireUser(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json();
+
+    if (!body.scriptKey || !body.name || typeof body.code !== "string") {
+      return NextResponse.json(
+        { success: false, error: "缺少必要参数: scriptKey, name, code" },
+        { status: 400 }
+      );
+    }
+
+    if (!SCRIPT_KEY_PATTERN.test(body.scriptKey)) {
+      return NextResponse.json(
+        { success: false, error: "scriptKey 只能包含小写字母、数字和下划线，且不超过48个字符" },
+        { status: 400 }
+      );
+    }
+
+    if (body.code.length > MAX_SCRIPT_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `脚本长度不能超过 ${MAX_SCRIPT_LENGTH} 个字符` },
+        { status: 400 }
+      );
+    }
+
+    // 确认脚本标识归属后才运行脚本
+    const latest = await strategyScriptManager.getLatestScript(body.scriptKey);
+    if (latest && latest.userId !== userId) {
+      return NextResponse.json(
+        { success: false, error: `脚本标识 [${body.scriptKey}] 已被占用` },
+        { status: 409 }
+      );
+    }
+
+    // 先在沙箱中加载一次，校验脚本接口
+    try {
+      new ScriptStrategy({
+        scriptKey: body.scriptKey,
+        name: body.name,
+        version: 0,
+        code: body.code,
+      }).dispose();
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `脚本校验失败: ${error instanceof Error ? error.message : "未知错误"}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const record = await strategyScriptManager.createScript({
+      userId,
+      scriptKey: body.scriptKey,
+      name: body.name,
+      description: body.description || "",
+      version: (latest?.version ?? 0) + 1,
+      code: body.code,
+      codeHash: hashScriptCode(body.code),
+    });
+    registerScriptStrategy(record);
+
+    return NextResponse.json({
+      success: true,
+      data: toResponse(record),
+    });
+  } catch (error) {
+    console.error("Upload strategy script error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - 删除脚本（包括所有版本，只有上传者可以删除）
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = requireUser(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const scriptKey = request.nextUrl.searchParams.get("scriptKey");
+
+    if (!scriptKey) {
+      return NextResponse.json(
+        { success: false, error: "缺少脚本标识" },
+        { status: 400 }
+      );
+    }
+
+    const latest = await strategyScriptManager.getLatestScript(scriptKey);
+    if (!latest) {
+      return NextResponse.json(
+        { success: false, error: "脚本不存在" },
+        { status: 404 }
+      );
+    }
+    if (latest.userId !== userId) {
+      return NextResponse.json(
+        { success: false, error: "无权删除其他用户的脚本" },
+        { status: 403 }
+      );
+    }
+
+    const deleted = await strategyScriptManager.deleteScript(scriptKey);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "脚本不存在" },
+        { status: 404 }
+      );
+    }
+
+    unregisterScriptStrategy(scriptKey);
+
+    return NextResponse.json({
+      success: true,
+      data: { message: "脚本已删除" },
+    });
+  } catch (error) {
+    console.error("Delete strategy script error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "未知错误",
+      },
+      { status: 500 }
+    );
+  }
+}
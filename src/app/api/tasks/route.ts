@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { strategyPresetManager } from "@/storage/database/tradingManager";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
 
 // 任务类型
 type TaskStatus = "idle" | "running" | "paused" | "stopped" | "error";
@@ -8,6 +12,8 @@ interface Task {
   name: string;
   strategyId: string;
   strategyParams: Record<string, any>;
+  presetId?: string;       // 使用的参数预设
+  presetVersion?: number;  // 使用的预设版本
   symbols: string[];
   status: TaskStatus;
   totalSignals: number;
@@ -48,11 +54,59 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    if (!body.name || !body.strategyId || !body.symbols || !body.strategyParams) {
+    if (!body.name || !body.strategyId || !body.symbols || (!body.strategyParams && !body.presetId)) {
       return NextResponse.json(
         {
           success: false,
-          error: "缺少必要参数: name, strategyId, symbols, strategyParams",
+          error: "缺少必要参数: name, strategyId, symbols, strategyParams 或 presetId",
+        },
+        { status: 400 }
+      );
+    }
+
+    // 使用预设时以预设版本的参数为准（未指定版本时使用最新版本）
+    let strategyParams: Task["strategyParams"] = body.strategyParams;
+    let presetVersion: number | undefined;
+    if (body.presetId) {
+      const preset = await strategyPresetManager.getPresetById(body.presetId);
+      if (!preset || preset.strategyId !== body.strategyId) {
+        return NextResponse.json(
+          { success: false, error: "预设不存在或不属于该策略" },
+          { status: 404 }
+        );
+      }
+
+      const version = await strategyPresetManager.getPresetVersion(
+        preset.id,
+        body.presetVersion !== undefined ? Number(body.presetVersion) : undefined
+      );
+      if (!version) {
+        return NextResponse.json(
+          { success: false, error: "预设版本不存在" },
+          { status: 404 }
+        );
+      }
+
+      strategyParams = version.params as Task["strategyParams"];
+      presetVersion = version.version;
+    }
+
+    // 校验参数（缺失的参数使用默认值）
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    if (!strategyRegistry.hasStrategy(body.strategyId)) {
+      return NextResponse.json(
+        { success: false, error: `策略 [${body.strategyId}] 不存在` },
+        { status: 404 }
+      );
+    }
+    const validation = strategyRegistry.resolveParams(body.strategyId, strategyParams);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `参数验证失败: ${validation.errors.join(", ")}`,
+          fieldErrors: validation.fieldErrors,
         },
         { status: 400 }
       );
@@ -62,7 +116,9 @@ export async function POST(request: NextRequest) {
       id: `task_${Date.now()}`,
       name: body.name,
       strategyId: body.strategyId,
-      strategyParams: body.strategyParams,
+      strategyParams: validation.params,
+      presetId: body.presetId || undefined,
+      presetVersion,
       symbols: body.symbols,
       status: "idle",
       totalSignals: 0,
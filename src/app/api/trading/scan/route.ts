@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { strategyManager } from "@/strategies/StrategyManager";
+import { strategyRegistry } from "@/strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "@/strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "@/strategies/scriptStrategyLoader";
+import {
+  getStrategyTimeframes,
+  buildMultiTimeframeContext,
+} from "@/utils/timeframeAligner";
+import { validateStrategyParams } from "@/utils/paramSchema";
+import type { KLineData } from "@/types/strategy";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { apiKey, apiSecret, strategyId, symbols, params, interval } = body;
+    const { apiKey, apiSecret, strategyId, symbols, interval } = body;
 
     // 验证参数
     if (!strategyId || !symbols || !Array.isArray(symbols)) {
@@ -14,8 +22,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 检查策略是否存在
-    const strategy = strategyManager.getStrategy(strategyId);
+    // 检查策略是否存在（规则策略和脚本策略按需从数据库加载）
+    await ensureRuleStrategiesLoaded();
+    await ensureScriptStrategiesLoaded();
+    const strategy = strategyRegistry.getStrategy(strategyId);
     if (!strategy) {
       return NextResponse.json(
         { error: `策略 ${strategyId} 不存在` },
@@ -23,29 +33,63 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 校验参数（缺失的参数使用默认值）
+    const validation = validateStrategyParams(strategy, body.params);
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: `参数验证失败: ${validation.errors.join(", ")}`,
+          fieldErrors: validation.fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    const params = validation.params;
+
+    // 策略声明的多个周期都需要获取，最小周期作为入场周期
+    const requiredTimeframes = getStrategyTimeframes(strategy, params);
+    const timeframes = requiredTimeframes.length > 0 ? requiredTimeframes : [interval || "15m"];
+    const entryTimeframe = timeframes[0];
+
     // 从币安获取K线数据
     const results = [];
     const errors = [];
 
     for (const symbol of symbols) {
       try {
-        const klines = await fetchKlines(symbol, interval);
+        const klinesByTimeframe: Record<string, KLineData[]> = {};
+        for (const timeframe of timeframes) {
+          klinesByTimeframe[timeframe] = await fetchKlines(symbol, timeframe);
+        }
 
-        if (!klines || klines.length === 0) {
+        const missingTimeframe = timeframes.find(
+          (timeframe) => !klinesByTimeframe[timeframe] || klinesByTimeframe[timeframe].length === 0
+        );
+        if (missingTimeframe) {
           errors.push({
             symbol,
-            error: "获取K线数据失败"
+            error: `获取K线数据失败 (${missingTimeframe})`
           });
           continue;
         }
 
         // 检测信号
-        const signalResult = strategy.detectSignal(symbol, klines, params);
+        const context = timeframes.length > 1
+          ? buildMultiTimeframeContext(klinesByTimeframe, entryTimeframe)
+          : undefined;
+        const signalResult = strategy.detectSignal(
+          symbol,
+          klinesByTimeframe[entryTimeframe],
+          params,
+          context
+        );
 
         if (signalResult.signal) {
           results.push({
             symbol,
+            timeframes,
             signal: signalResult.signal,
+            exitPlan: signalResult.signal.exitPlan ?? null,
             reason: signalResult.reason,
             details: signalResult.details,
           });
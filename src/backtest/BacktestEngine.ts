@@ -8,10 +8,66 @@ import {
   BacktestConfig,
   BacktestResult,
   BacktestTrade,
+  BacktestKlineLoader,
   EquityPoint,
+  GridPairResult,
+  LegGroupResult,
+  PortfolioBacktestConfig,
+  PortfolioBacktestResult,
 } from "../types/backtest";
-import { KLineData, Signal } from "../types/strategy";
-import { strategyManager } from "../utils/strategyManager";
+import type { RiskControlConfig } from "../types/execution";
+import {
+  DcaPlan,
+  ExitPlan,
+  GridPlan,
+  KLineData,
+  LinkedSignal,
+  MarketRegime,
+  MultiTimeframeContext,
+  Signal,
+  SignalAnnotation,
+  StrategyStream,
+  TradingStrategy,
+} from "../types/strategy";
+import { strategyRegistry } from "../strategies/StrategyRegistry";
+import { validateStrategyParams } from "../utils/paramSchema";
+import {
+  resolveExitPlan,
+  isSignalExpired,
+} from "../utils/exitPlan";
+import {
+  TIMEFRAME_TO_MS,
+  getStrategyTimeframes,
+  buildMultiTimeframeContext,
+  countClosedBars,
+  sortTimeframes,
+} from "../utils/timeframeAligner";
+import {
+  GridPairState,
+  createGridPairs,
+  getGridOrder,
+  getGridPairProfit,
+  isOutsideGrid,
+} from "../utils/gridPlan";
+import { getDcaNotional, getDcaTakeProfitPrice, scaleDcaPlan } from "../utils/dcaPlan";
+import {
+  ENTRY_FILL_MODELS,
+  EXIT_FILL_MODELS,
+  EntryFillModel,
+  applySlippage,
+  getIntrabarPath,
+  getPathFrom,
+} from "./fillModels";
+import {
+  LegPosition,
+  LinkedStrategy,
+  alignLegKlines,
+  getLegPnl,
+  getLegQuantities,
+  getLinkedPnl,
+  isLinkedStrategy,
+} from "../utils/linkedLegs";
+import { buildContributions, buildCorrelationMatrix, toDailyChanges } from "./portfolioStats";
 
 // 持仓状态
 interface Position {
@@ -21,9 +77,27 @@ interface Position {
   entryTime: number;
   entryPrice: number;
   quantity: number;
+  initialQuantity: number;
   entryReason: string;
+  entryRegime?: MarketRegime;
+  entryAnnotations?: SignalAnnotation[];
+  exitPlan: ExitPlan | null;
+  nextTargetIndex: number; // 下一个待触发的止盈目标
+  units: number; // 开仓 + 加仓次数
+  dca?: { plan: DcaPlan; nextSafetyIndex: number }; // DCA 阶梯与下一张待成交的安全单
   maxProfit: number;
   maxDrawdown: number;
+  markPrice: number; // 最近一根K线的收盘价（计算浮动盈亏）
+}
+
+// 多腿持仓（同一腿组的各腿）
+interface LegGroupPosition {
+  id: string;
+  groupId: string;
+  direction: "long" | "short";
+  entryTime: number;
+  entryReason: string;
+  legs: LegPosition[];
 }
 
 // 回测状态
@@ -34,9 +108,36 @@ interface BacktestState {
   currentDrawdown: number;
   maxDrawdown: number;
   positions: Map<string, Position>;
+  pendingEntries: Map<string, Signal>; // 等待后续K线成交的信号（下一根开盘价 / 限价单），每个交易对一个
   trades: BacktestTrade[];
   signals: Signal[];
   equityCurve: EquityPoint[];
+  portfolio?: PortfolioRiskState; // 组合回测的风控状态（单交易对回测不设置）
+}
+
+// 组合回测的风控状态
+interface PortfolioRiskState {
+  maxOpenPositions: number;
+  maxAllocationPercent?: number;
+  riskControl: Partial<RiskControlConfig>;
+  day: number;                      // 当前自然日（UTC，纪元以来的天数）
+  dayStartEquity: number;           // 当日开始时的权益
+  tradesToday: number;              // 当日开仓 + 加仓次数
+  rejected: Record<string, number>; // 放弃入场的次数（按原因）
+}
+
+// 单个交易对的逐根回放状态（组合回测每个交易对一个）
+interface SymbolReplay {
+  config: BacktestConfig;                        // 该交易对的回测配置（timeframes 已合并策略声明的周期）
+  stepTimeframe: string;                         // 逐根推进的周期（最小周期）
+  stepKlines: KLineData[];                       // 时间范围内的推进周期K线
+  stepSeries: KLineData[];                       // 预热K线 + stepKlines（非流式检测的历史数据）
+  warmupBars: number;                            // 回测开始前的预热K线数
+  higherTimeframes: string[];
+  seriesByTimeframe: Record<string, KLineData[]>;
+  closedCounts: Record<string, number>;          // 各高周期已暴露的K线数
+  barInterval: number;
+  stream?: StrategyStream;
 }
 
 /**
@@ -48,34 +149,35 @@ export class SimpleBacktestEngine implements BacktestEngine {
   private progress: number = 0;
   private cancelled: boolean = false;
 
+  /**
+   * @param klineLoader 可选的K线加载器，多时间框架策略缺少某个周期时用它补齐
+   */
+  constructor(private klineLoader?: BacktestKlineLoader) {}
+
   /**
    * 运行回测
+   *
+   * @param klines 回测主周期（config.timeframe）的K线，startTime 之前的K线只用于预热指标（网格策略用于计算区间）
+   * @param timeframeKlines 其他周期的K线，多时间框架回测使用（config.timeframes 或策略声明的周期）
+   * @param symbolKlines 其他交易对的K线（config.timeframe 周期），多交易对策略使用
    */
-  async run(config: BacktestConfig, klines: KLineData[]): Promise<BacktestResult> {
+  async run(
+    config: BacktestConfig,
+    klines: KLineData[],
+    timeframeKlines: Record<string, KLineData[]> = {},
+    symbolKlines: Record<string, KLineData[]> = {}
+  ): Promise<BacktestResult> {
     this.status = "running";
     this.error = null;
     this.progress = 0;
     this.cancelled = false;
 
     try {
-      // 获取策略
-      const strategy = strategyManager.getStrategy(config.strategyId);
-      if (!strategy) {
-        throw new Error(`Strategy [${config.strategyId}] not found`);
-      }
+      const { strategy, params } = this.resolveStrategy(config);
+      config = { ...config, params };
 
       // 初始化状态
-      const state: BacktestState = {
-        balance: config.initialBalance,
-        equity: config.initialBalance,
-        maxEquity: config.initialBalance,
-        currentDrawdown: 0,
-        maxDrawdown: 0,
-        positions: new Map(),
-        trades: [],
-        signals: [],
-        equityCurve: [],
-      };
+      const state = this.createState(config.initialBalance);
 
       // 过滤K线时间范围
       const filteredKlines = klines.filter((k) => {
@@ -86,8 +188,32 @@ export class SimpleBacktestEngine implements BacktestEngine {
         throw new Error("No kline data in the specified time range");
       }
 
-      const totalKlines = filteredKlines.length;
-      let processedKlines = 0;
+      // 网格策略：以挂单网格模式回测，网格区间只使用回测开始前的K线
+      if (strategy.getGridPlan) {
+        const history = klines.filter((k) => k.timestamp < config.startTime);
+        const plan = strategy.getGridPlan(config.symbol, history, config.params);
+        if (!plan) {
+          throw new Error(
+            "Unable to build grid plan: set a manual range or provide klines before startTime"
+          );
+        }
+
+        const result = this.runGrid(state, config, filteredKlines, plan);
+        this.status = "completed";
+        return result;
+      }
+
+      // 多交易对策略：各腿按时间对齐，同时开平仓
+      if (isLinkedStrategy(strategy)) {
+        const result = await this.runLinked(state, config, strategy, filteredKlines, symbolKlines);
+        this.status = "completed";
+        return result;
+      }
+
+      const replay = await this.prepareReplay(strategy, config, klines, timeframeKlines);
+      config = replay.config;
+      const stepKlines = replay.stepKlines;
+      const totalKlines = stepKlines.length;
 
       // 逐根K线回测
       for (let i = 0; i < totalKlines; i++) {
@@ -96,35 +222,14 @@ export class SimpleBacktestEngine implements BacktestEngine {
           throw new Error("Backtest cancelled");
         }
 
-        const kline = filteredKlines[i];
-
-        // 获取历史K线数据（用于策略计算）
-        const historyKlines = filteredKlines.slice(0, i + 1);
-
-        // 生成信号
-        const detectionResult = strategy.detectSignal(
-          config.symbol,
-          historyKlines,
-          config.params
-        );
-
-        if (detectionResult.signal) {
-          const signal = detectionResult.signal;
-          state.signals.push(signal);
-
-          // 执行信号
-          await this.executeSignal(state, signal, config);
-        }
-
-        // 更新持仓
-        this.updatePositions(state, kline, config);
+        const kline = stepKlines[i];
+        await this.processBar(state, strategy, replay, i);
 
         // 更新资金曲线
         this.updateEquityCurve(state, kline.timestamp);
 
         // 更新进度
-        processedKlines++;
-        this.progress = Math.round((processedKlines / totalKlines) * 100);
+        this.progress = Math.round(((i + 1) / totalKlines) * 100);
 
         // 检查最大回撤限制
         if (config.maxDrawdownPercent) {
@@ -137,7 +242,7 @@ export class SimpleBacktestEngine implements BacktestEngine {
       }
 
       // 平掉所有持仓
-      this.closeAllPositions(state, filteredKlines[filteredKlines.length - 1], config);
+      this.closeAllPositions(state, stepKlines[totalKlines - 1], config);
 
       // 计算结果
       const result = this.calculateResult(state, config);
@@ -152,7 +257,909 @@ export class SimpleBacktestEngine implements BacktestEngine {
   }
 
   /**
-   * 执行信号
+   * 组合回测
+   * 各交易对按推进周期的K线时间合并为统一时钟，共用一个账户余额：
+   * 每个时刻依次处理各交易对的挂单成交、出场和信号，再按全部持仓的浮动盈亏更新组合资金曲线。
+   * 入场受最大持仓数、单交易对资金占比和风控配置限制，超出限制的信号放弃或缩小仓位
+   *
+   * @param klinesBySymbol 各交易对 config.timeframe 周期的K线
+   * @param timeframeKlines 各交易对其他周期的K线（交易对 -> 周期 -> K线），缺失时通过加载器获取
+   */
+  async runPortfolio(
+    config: PortfolioBacktestConfig,
+    klinesBySymbol: Record<string, KLineData[]>,
+    timeframeKlines: Record<string, Record<string, KLineData[]>> = {}
+  ): Promise<PortfolioBacktestResult> {
+    this.status = "running";
+    this.error = null;
+    this.progress = 0;
+    this.cancelled = false;
+
+    try {
+      if (config.symbols.length === 0) {
+        throw new Error("Portfolio backtest requires at least one symbol");
+      }
+      if (!(config.maxOpenPositions >= 1)) {
+        throw new Error("maxOpenPositions must be at least 1");
+      }
+
+      const { strategy, params } = this.resolveStrategy(config);
+      config = { ...config, params };
+
+      // 网格和多交易对策略自行管理多笔仓位，不参与组合回测
+      if (strategy.getGridPlan || isLinkedStrategy(strategy)) {
+        throw new Error(`Strategy [${config.strategyId}] does not support portfolio backtest`);
+      }
+
+      const state = this.createState(config.initialBalance);
+      const risk: PortfolioRiskState = {
+        maxOpenPositions: config.maxOpenPositions,
+        maxAllocationPercent: config.maxAllocationPercent,
+        riskControl: config.riskControl || {},
+        day: -1,
+        dayStartEquity: config.initialBalance,
+        tradesToday: 0,
+        rejected: {},
+      };
+      state.portfolio = risk;
+
+      // 每个交易对一个回放状态，时间范围内没有K线的交易对跳过
+      const replays: SymbolReplay[] = [];
+      for (const symbol of config.symbols) {
+        const klines = klinesBySymbol[symbol] || [];
+        if (!klines.some((k) => k.timestamp >= config.startTime && k.timestamp <= config.endTime)) {
+          console.log(`Portfolio backtest: no kline data for ${symbol}, skipped`);
+          continue;
+        }
+
+        const symbolConfig: BacktestConfig = { ...config, symbol };
+        replays.push(await this.prepareReplay(strategy, symbolConfig, klines, timeframeKlines[symbol] || {}));
+      }
+      if (replays.length === 0) {
+        throw new Error("No kline data in the specified time range");
+      }
+      const symbols = replays.map((replay) => replay.config.symbol);
+
+      // 统一时钟：各交易对推进周期K线时间的并集
+      const clock = Array.from(
+        new Set(replays.flatMap((replay) => replay.stepKlines.map((k) => k.timestamp)))
+      ).sort((a, b) => a - b);
+      const cursors = replays.map(() => 0);
+
+      // 各交易对的累计盈亏（已实现 + 浮动），每个自然日结束时记录一次，用于计算日收益相关性
+      const realizedBySymbol: Record<string, number> = {};
+      const cumulativeBySymbol: Record<string, number[]> = {};
+      for (const symbol of symbols) {
+        realizedBySymbol[symbol] = 0;
+        cumulativeBySymbol[symbol] = [0];
+      }
+      let recordedTrades = 0;
+      const recordDay = () => {
+        for (; recordedTrades < state.trades.length; recordedTrades++) {
+          const trade = state.trades[recordedTrades];
+          realizedBySymbol[trade.symbol] += trade.profit || 0;
+        }
+        for (const symbol of symbols) {
+          const position = state.positions.get(symbol);
+          cumulativeBySymbol[symbol].push(
+            realizedBySymbol[symbol] + (position ? this.getUnrealizedPnl(position) : 0)
+          );
+        }
+      };
+
+      const dayMs = TIMEFRAME_TO_MS["1d"];
+      for (let i = 0; i < clock.length; i++) {
+        if (this.cancelled) {
+          this.status = "cancelled";
+          throw new Error("Backtest cancelled");
+        }
+
+        const time = clock[i];
+
+        // 跨日：记录上一日的累计盈亏，重置日亏损和每日交易次数
+        const day = Math.floor(time / dayMs);
+        if (day !== risk.day) {
+          if (risk.day >= 0) {
+            recordDay();
+          }
+          risk.day = day;
+          risk.dayStartEquity = state.equity;
+          risk.tradesToday = 0;
+        }
+
+        // 本时刻有K线的交易对按列表顺序推进（可用仓位数不足时靠前的交易对优先）
+        for (let j = 0; j < replays.length; j++) {
+          const replay = replays[j];
+          if (replay.stepKlines[cursors[j]]?.timestamp === time) {
+            await this.processBar(state, strategy, replay, cursors[j]);
+            cursors[j]++;
+          }
+        }
+
+        this.updateEquityCurve(state, time);
+        this.progress = Math.round(((i + 1) / clock.length) * 100);
+
+        if (config.maxDrawdownPercent) {
+          const drawdownPercent = (state.currentDrawdown / state.maxEquity) * 100;
+          if (drawdownPercent >= config.maxDrawdownPercent) {
+            console.log(`Backtest stopped due to max drawdown: ${drawdownPercent.toFixed(2)}%`);
+            break;
+          }
+        }
+      }
+
+      // 按各交易对最后推进的K线平掉剩余持仓
+      replays.forEach((replay, j) => {
+        const position = state.positions.get(replay.config.symbol);
+        const kline = replay.stepKlines[Math.max(cursors[j] - 1, 0)];
+        if (position) {
+          this.closePosition(
+            state,
+            position,
+            applySlippage(kline.close, this.getExitSide(position), config.slippage),
+            "End of Backtest",
+            replay.config,
+            kline.timestamp
+          );
+        }
+      });
+      recordDay();
+
+      const result = this.calculateResult(state, {
+        ...replays[0].config,
+        symbol: symbols.join(","),
+      });
+      const dailyPnlBySymbol: Record<string, number[]> = {};
+      for (const symbol of symbols) {
+        dailyPnlBySymbol[symbol] = toDailyChanges(cumulativeBySymbol[symbol]);
+      }
+      const portfolioDailyPnl = toDailyChanges(
+        cumulativeBySymbol[symbols[0]].map((_, k) =>
+          symbols.reduce((sum, symbol) => sum + cumulativeBySymbol[symbol][k], 0)
+        )
+      );
+
+      this.status = "completed";
+      return {
+        ...result,
+        symbols,
+        contributions: buildContributions(
+          symbols,
+          state.trades,
+          dailyPnlBySymbol,
+          portfolioDailyPnl,
+          result.netProfit
+        ),
+        correlation: buildCorrelationMatrix(symbols, dailyPnlBySymbol),
+        rejectedEntries: risk.rejected,
+      };
+    } catch (error) {
+      this.status = "error";
+      this.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取策略并校验参数（缺失的参数使用默认值）
+   */
+  private resolveStrategy(config: Pick<BacktestConfig, "strategyId" | "strategyVersion" | "params">) {
+    const strategy = strategyRegistry.getStrategy(config.strategyId, config.strategyVersion);
+    if (!strategy) {
+      throw new Error(
+        `Strategy [${config.strategyId}${config.strategyVersion ? `@${config.strategyVersion}` : ""}] not found`
+      );
+    }
+
+    const validation = validateStrategyParams(strategy, config.params);
+    if (!validation.valid) {
+      throw new Error(`Invalid params for strategy [${config.strategyId}]: ${validation.errors.join("; ")}`);
+    }
+
+    return { strategy, params: validation.params };
+  }
+
+  /**
+   * 初始化回测状态
+   */
+  private createState(initialBalance: number): BacktestState {
+    return {
+      balance: initialBalance,
+      equity: initialBalance,
+      maxEquity: initialBalance,
+      currentDrawdown: 0,
+      maxDrawdown: 0,
+      positions: new Map(),
+      pendingEntries: new Map(),
+      trades: [],
+      signals: [],
+      equityCurve: [],
+    };
+  }
+
+  /**
+   * 准备单个交易对的逐根回放
+   * 回测配置和策略声明的周期合并，按最小周期逐根推进（与实盘的入场周期一致），
+   * 其他周期只暴露当前K线收盘时已经收盘的K线
+   * startTime 之前的K线只用于预热指标：推送给流式检测（信号丢弃）或作为非流式检测历史数据的开头，不产生交易
+   *
+   * @param klines config.timeframe 周期的K线（可包含 startTime 之前的预热K线）
+   */
+  private async prepareReplay(
+    strategy: TradingStrategy,
+    config: BacktestConfig,
+    klines: KLineData[],
+    timeframeKlines: Record<string, KLineData[]>
+  ): Promise<SymbolReplay> {
+    const timeframes = sortTimeframes([
+      config.timeframe,
+      ...(config.timeframes || []),
+      ...getStrategyTimeframes(strategy, config.params),
+    ]);
+    config = { ...config, timeframes };
+    const stepTimeframe = timeframes[0];
+    const seriesByTimeframe = await this.loadTimeframeKlines(config, timeframes, klines, timeframeKlines);
+    const stepSeries = seriesByTimeframe[stepTimeframe].filter((k) => k.timestamp <= config.endTime);
+    const warmupBars = stepSeries.filter((k) => k.timestamp < config.startTime).length;
+    const stepKlines = stepSeries.slice(warmupBars);
+    if (stepKlines.length === 0) {
+      throw new Error(`No ${stepTimeframe} kline data in the specified time range for ${config.symbol}`);
+    }
+
+    const higherTimeframes = timeframes.slice(1);
+    const closedCounts: Record<string, number> = {};
+    for (const timeframe of higherTimeframes) {
+      closedCounts[timeframe] = 0;
+    }
+
+    // 策略支持流式检测时逐根推送，否则每根K线对历史数据调用 detectSignal
+    const stream = strategy.createStream?.();
+    stream?.init(config.symbol, config.params, timeframes);
+
+    const replay: SymbolReplay = {
+      config,
+      stepTimeframe,
+      stepKlines,
+      stepSeries,
+      warmupBars,
+      higherTimeframes,
+      seriesByTimeframe,
+      closedCounts,
+      barInterval: TIMEFRAME_TO_MS[stepTimeframe] || 0,
+      stream,
+    };
+
+    if (stream) {
+      for (let i = 0; i < warmupBars; i++) {
+        this.pushClosedBars(replay, stepSeries[i].timestamp + replay.barInterval);
+        stream.onBar(stepSeries[i], stepTimeframe);
+      }
+    }
+
+    return replay;
+  }
+
+  /**
+   * 向流式检测推送 closeTime 之前已收盘、尚未推送的高周期K线
+   */
+  private pushClosedBars(replay: SymbolReplay, closeTime: number): void {
+    for (const timeframe of replay.higherTimeframes) {
+      const series = replay.seriesByTimeframe[timeframe];
+      const count = countClosedBars(series, timeframe, closeTime, replay.closedCounts[timeframe]);
+      for (let j = replay.closedCounts[timeframe]; j < count; j++) {
+        replay.stream?.onBar(series[j], timeframe);
+      }
+      replay.closedCounts[timeframe] = count;
+    }
+  }
+
+  /**
+   * 推进一根K线：先成交上一根K线挂出的入场单，再检查持仓出场（开盘成交的持仓本根K线内即可能止损），
+   * 最后检测本根K线收盘时的信号并提交
+   */
+  private async processBar(
+    state: BacktestState,
+    strategy: TradingStrategy,
+    replay: SymbolReplay,
+    index: number
+  ): Promise<void> {
+    const { config, stepTimeframe, stepKlines, higherTimeframes, seriesByTimeframe, closedCounts, stream } = replay;
+    const kline = stepKlines[index];
+
+    await this.fillPendingEntry(state, kline, config);
+    this.updatePosition(state, kline, config);
+
+    const closeTime = kline.timestamp + replay.barInterval;
+    let signals: Signal[] = [];
+
+    if (stream) {
+      // 流式检测：先推送本根K线收盘前已收盘的其他周期K线，再推送本根K线
+      this.pushClosedBars(replay, closeTime);
+      signals = stream.onBar(kline, stepTimeframe);
+    } else {
+      // 获取历史K线数据（用于策略计算，包含预热K线）
+      const historyKlines = replay.stepSeries.slice(0, replay.warmupBars + index + 1);
+
+      // 多时间框架上下文：只暴露当前K线收盘时已经收盘的高周期K线，避免未来函数
+      let context: MultiTimeframeContext | undefined;
+      if (higherTimeframes.length > 0) {
+        const visible: Record<string, KLineData[]> = { [stepTimeframe]: historyKlines };
+        for (const timeframe of higherTimeframes) {
+          const series = seriesByTimeframe[timeframe];
+          closedCounts[timeframe] = countClosedBars(
+            series,
+            timeframe,
+            closeTime,
+            closedCounts[timeframe]
+          );
+          visible[timeframe] = series.slice(0, closedCounts[timeframe]);
+        }
+        context = buildMultiTimeframeContext(visible, stepTimeframe);
+      }
+
+      // 生成信号
+      const detectionResult = strategy.detectSignal(
+        config.symbol,
+        historyKlines,
+        config.params,
+        context
+      );
+      if (detectionResult.signal) {
+        signals = [detectionResult.signal];
+      }
+    }
+
+    for (const signal of signals) {
+      state.signals.push(signal);
+
+      // 按成交模型执行信号（已失效的信号不再入场）
+      if (!isSignalExpired(signal, kline.timestamp)) {
+        await this.submitSignal(state, signal, kline, config);
+      }
+    }
+  }
+
+  /**
+   * 网格模式回测
+   * 每根K线按 开→低→高→收（阳线）或 开→高→低→收（阴线）的路径检查限价单成交，
+   * 同一根K线内可以先成交开仓单、再成交新挂出的平仓单；收盘价离开区间时停止网格并平掉剩余仓位
+   */
+  private runGrid(
+    state: BacktestState,
+    config: BacktestConfig,
+    klines: KLineData[],
+    plan: GridPlan
+  ): BacktestResult {
+    const pairs = createGridPairs(plan, klines[0].open);
+    const pairResults: GridPairResult[] = pairs.map((pair) => ({
+      index: pair.index,
+      lowerPrice: pair.lowerPrice,
+      upperPrice: pair.upperPrice,
+      completedTrades: 0,
+      profit: 0,
+    }));
+    let lastKline = klines[0];
+
+    for (let i = 0; i < klines.length; i++) {
+      if (this.cancelled) {
+        this.status = "cancelled";
+        throw new Error("Backtest cancelled");
+      }
+
+      const kline = klines[i];
+      lastKline = kline;
+
+      const path = getIntrabarPath(kline);
+      for (let j = 1; j < path.length; j++) {
+        this.fillGridOrders(state, config, plan, pairs, pairResults, path[j - 1], path[j], kline.timestamp);
+      }
+
+      const outOfRange = isOutsideGrid(plan, kline.close);
+      if (outOfRange) {
+        console.log(`Grid stopped: ${config.symbol} closed at ${kline.close} outside ${plan.lowerPrice} - ${plan.upperPrice}`);
+        this.closeGridPairs(state, config, plan, pairs, pairResults, kline, "Grid Out of Range");
+      }
+
+      // 未平仓格子的浮动盈亏计入权益
+      const unrealizedPnl = pairs
+        .filter((pair) => pair.holding)
+        .reduce((sum, pair) => sum + getGridPairProfit(pair, kline.close, plan.quantityPerGrid), 0);
+      this.updateEquityCurve(state, kline.timestamp, unrealizedPnl);
+
+      this.progress = Math.round(((i + 1) / klines.length) * 100);
+
+      if (outOfRange) {
+        break;
+      }
+
+      if (config.maxDrawdownPercent) {
+        const drawdownPercent = (state.currentDrawdown / state.maxEquity) * 100;
+        if (drawdownPercent >= config.maxDrawdownPercent) {
+          console.log(`Backtest stopped due to max drawdown: ${drawdownPercent.toFixed(2)}%`);
+          break;
+        }
+      }
+    }
+
+    this.closeGridPairs(state, config, plan, pairs, pairResults, lastKline, "End of Backtest");
+
+    return {
+      ...this.calculateResult(state, config),
+      gridPairs: pairResults,
+    };
+  }
+
+  /**
+   * 价格从 from 运行到 to 时成交途经的网格挂单
+   * 成交后新挂出的单在另一侧，不会在同一段路径内成交
+   */
+  private fillGridOrders(
+    state: BacktestState,
+    config: BacktestConfig,
+    plan: GridPlan,
+    pairs: GridPairState[],
+    pairResults: GridPairResult[],
+    from: number,
+    to: number,
+    time: number
+  ): void {
+    const falling = to < from;
+    const fills = pairs
+      .map((pair) => ({ pair, order: getGridOrder(pair) }))
+      .filter(({ order }) =>
+        falling
+          ? order.side === "buy" && order.price <= from && order.price >= to
+          : order.side === "sell" && order.price >= from && order.price <= to
+      )
+      .sort((a, b) => (falling ? b.order.price - a.order.price : a.order.price - b.order.price));
+
+    for (const { pair, order } of fills) {
+      if (!pair.holding) {
+        pair.holding = true;
+        pair.entryTime = time;
+        pair.entryPrice = order.price;
+        continue;
+      }
+
+      this.closeGridPair(state, config, plan, pair, pairResults, order.price, time, "Grid Take Profit");
+    }
+  }
+
+  /**
+   * 平掉所有已开仓的格子
+   */
+  private closeGridPairs(
+    state: BacktestState,
+    config: BacktestConfig,
+    plan: GridPlan,
+    pairs: GridPairState[],
+    pairResults: GridPairResult[],
+    kline: KLineData,
+    reason: string
+  ): void {
+    for (const pair of pairs) {
+      if (pair.holding) {
+        this.closeGridPair(state, config, plan, pair, pairResults, kline.close, kline.timestamp, reason);
+      }
+    }
+  }
+
+  /**
+   * 格子平仓：记录一笔交易并计入该格子的收益
+   */
+  private closeGridPair(
+    state: BacktestState,
+    config: BacktestConfig,
+    plan: GridPlan,
+    pair: GridPairState,
+    pairResults: GridPairResult[],
+    exitPrice: number,
+    time: number,
+    reason: string
+  ): void {
+    const quantity = plan.quantityPerGrid;
+    const entryPrice = pair.entryPrice ?? exitPrice;
+    const entryTime = pair.entryTime ?? time;
+    const pnl = getGridPairProfit(pair, exitPrice, quantity);
+    const commission = (entryPrice * quantity + exitPrice * quantity) * config.commissionRate;
+    const netPnl = pnl - commission;
+
+    state.balance += netPnl;
+    state.trades.push({
+      id: `${config.symbol}_grid${pair.index}_${time}`,
+      symbol: config.symbol,
+      direction: pair.entrySide === "buy" ? "long" : "short",
+      entryTime,
+      entryPrice,
+      entryReason: `Grid ${pair.index + 1}: ${pair.lowerPrice.toFixed(4)} - ${pair.upperPrice.toFixed(4)}`,
+      exitTime: time,
+      exitPrice,
+      exitReason: reason,
+      quantity,
+      profit: netPnl,
+      profitPercent: (pnl / (entryPrice * quantity)) * 100,
+      holdingTime: time - entryTime,
+      gridIndex: pair.index,
+    });
+
+    const pairResult = pairResults[pair.index];
+    pairResult.profit += netPnl;
+    if (reason === "Grid Take Profit") {
+      pairResult.completedTrades++;
+    }
+
+    pair.holding = false;
+    pair.entryTime = undefined;
+    pair.entryPrice = undefined;
+  }
+
+  /**
+   * 多腿模式回测
+   * 每根K线收盘时把各腿对齐后的历史K线（策略声明了回看长度时只取最近的窗口）交给策略，
+   * 信号按入场成交模型同时成交所有腿（close：信号K线收盘价；next_open：下一根K线各腿开盘价），
+   * 平仓时所有腿一起平掉；未平仓腿组的浮动盈亏计入权益
+   * 各腿必须同时成交，不支持 limit 入场
+   */
+  private async runLinked(
+    state: BacktestState,
+    config: BacktestConfig,
+    strategy: LinkedStrategy,
+    primaryKlines: KLineData[],
+    provided: Record<string, KLineData[]>
+  ): Promise<BacktestResult> {
+    if (config.entryFill === "limit") {
+      throw new Error("Limit entry fill is not supported for linked strategies: all legs must fill together");
+    }
+
+    const fillModel = ENTRY_FILL_MODELS[config.entryFill || "next_open"];
+    const symbols = strategy.getLegSymbols(config.params);
+    const klinesBySymbol: Record<string, KLineData[]> = {};
+    for (const symbol of symbols) {
+      let series = symbol === config.symbol ? primaryKlines : provided[symbol];
+      if (!series && this.klineLoader) {
+        series = await this.klineLoader(symbol, config.timeframe, config.startTime, config.endTime);
+      }
+      if (!series) {
+        throw new Error(`Missing kline data for symbol ${symbol}`);
+      }
+      klinesBySymbol[symbol] = series.filter(
+        (k) => k.timestamp >= config.startTime && k.timestamp <= config.endTime
+      );
+    }
+
+    const aligned = alignLegKlines(klinesBySymbol, symbols);
+    const length = aligned[symbols[0]].length;
+    if (length === 0) {
+      throw new Error(`No aligned kline data for legs: ${symbols.join(", ")}`);
+    }
+
+    // 单根K线的检测量不随回测长度增长
+    const lookback = strategy.getLinkedLookback?.(config.params) ?? length;
+
+    const groups = new Map<string, LegGroupPosition>();
+    const legGroups: LegGroupResult[] = [];
+    let prices: Record<string, number> = {};
+    let time = aligned[symbols[0]][0].timestamp;
+    let pendingSignal: LinkedSignal | null = null;
+
+    for (let i = 0; i < length; i++) {
+      if (this.cancelled) {
+        this.status = "cancelled";
+        throw new Error("Backtest cancelled");
+      }
+
+      const history: Record<string, KLineData[]> = {};
+      const bars: Record<string, KLineData> = {};
+      prices = {};
+      for (const symbol of symbols) {
+        history[symbol] = aligned[symbol].slice(Math.max(0, i + 1 - lookback), i + 1);
+        bars[symbol] = aligned[symbol][i];
+        prices[symbol] = aligned[symbol][i].close;
+      }
+      time = aligned[symbols[0]][i].timestamp;
+
+      // 上一根K线的信号在本根K线成交
+      if (pendingSignal) {
+        const fillPrices = this.getLinkedFillPrices(fillModel, pendingSignal, bars, false);
+        if (fillPrices) {
+          this.executeLinkedSignal(state, config, groups, legGroups, pendingSignal, fillPrices, time);
+        }
+        pendingSignal = null;
+      }
+
+      const { signal } = strategy.detectLinkedSignal(history, config.params);
+      if (signal) {
+        state.signals.push(...signal.legs);
+        const fillPrices = this.getLinkedFillPrices(fillModel, signal, bars, true);
+        if (fillPrices) {
+          this.executeLinkedSignal(state, config, groups, legGroups, signal, fillPrices, time);
+        } else {
+          pendingSignal = signal;
+        }
+      }
+
+      let unrealizedPnl = 0;
+      groups.forEach((group) => {
+        unrealizedPnl += getLinkedPnl(group.legs, prices);
+      });
+      this.updateEquityCurve(state, time, unrealizedPnl);
+
+      this.progress = Math.round(((i + 1) / length) * 100);
+
+      if (config.maxDrawdownPercent) {
+        const drawdownPercent = (state.currentDrawdown / state.maxEquity) * 100;
+        if (drawdownPercent >= config.maxDrawdownPercent) {
+          console.log(`Backtest stopped due to max drawdown: ${drawdownPercent.toFixed(2)}%`);
+          break;
+        }
+      }
+    }
+
+    for (const group of Array.from(groups.values())) {
+      this.closeLegGroup(state, config, groups, legGroups, group, prices, time, "End of Backtest");
+    }
+
+    return {
+      ...this.calculateResult(state, config),
+      legGroups,
+    };
+  }
+
+  /**
+   * 多腿信号各交易对的成交价：onSignal 为信号K线收盘时（返回 null 表示等到下一根K线），否则为后续K线
+   */
+  private getLinkedFillPrices(
+    model: EntryFillModel,
+    signal: LinkedSignal,
+    bars: Record<string, KLineData>,
+    onSignal: boolean
+  ): Record<string, number> | null {
+    const fillPrices: Record<string, number> = {};
+    for (const [symbol, bar] of Object.entries(bars)) {
+      const legSignal: Signal = signal.legs.find((leg) => leg.symbol === symbol) ?? {
+        symbol,
+        direction: signal.direction,
+        time: signal.time,
+        reason: signal.reason,
+        confidence: signal.confidence,
+        entryPrice: bar.close,
+        action: "close",
+      };
+      const fill = onSignal ? model.fillOnSignal(legSignal, bar) : model.fillPending(legSignal, bar);
+      if (!fill) {
+        return null;
+      }
+      fillPrices[symbol] = fill.price;
+    }
+    return fillPrices;
+  }
+
+  /**
+   * 执行多腿信号：平仓信号平掉腿组，开仓信号在反向时先平仓、同向时忽略
+   * 各腿按成交价 prices 市价成交（计算滑点），仓位数量也按成交价计算
+   * 仓位：percent 模式为余额百分比，其他模式 positionSize 为第一腿名义价值（USD）
+   */
+  private executeLinkedSignal(
+    state: BacktestState,
+    config: BacktestConfig,
+    groups: Map<string, LegGroupPosition>,
+    legGroups: LegGroupResult[],
+    signal: LinkedSignal,
+    prices: Record<string, number>,
+    time: number
+  ): void {
+    const existing = groups.get(signal.groupId);
+    if (signal.action === "close") {
+      if (existing) {
+        this.closeLegGroup(state, config, groups, legGroups, existing, prices, time, signal.reason);
+      }
+      return;
+    }
+
+    if (existing) {
+      if (existing.direction === signal.direction) {
+        return;
+      }
+      this.closeLegGroup(state, config, groups, legGroups, existing, prices, time, "Signal Reversal");
+    }
+
+    const filled: LinkedSignal = {
+      ...signal,
+      legs: signal.legs.map((leg) => ({ ...leg, entryPrice: prices[leg.symbol] ?? leg.entryPrice })),
+    };
+    const notional = config.positionSizingMode === "percent"
+      ? state.balance * (config.positionSize / 100)
+      : config.positionSize;
+    const quantities = getLegQuantities(filled, notional);
+    if (quantities.some((quantity) => !(quantity > 0))) {
+      return;
+    }
+
+    groups.set(signal.groupId, {
+      id: `${signal.groupId}_${time}`,
+      groupId: signal.groupId,
+      direction: signal.direction,
+      entryTime: time,
+      entryReason: signal.reason,
+      legs: filled.legs.map((leg, index) => ({
+        symbol: leg.symbol,
+        direction: leg.direction,
+        entryPrice: applySlippage(leg.entryPrice, leg.direction === "long" ? "buy" : "sell", config.slippage),
+        quantity: quantities[index],
+      })),
+    });
+
+    console.log(`Open ${signal.direction} leg group: ${signal.groupId}, Legs: ${filled.legs.map((leg, index) => `${leg.direction} ${leg.symbol} ${quantities[index]} @ ${leg.entryPrice}`).join(", ")}`);
+  }
+
+  /**
+   * 腿组平仓：每条腿记录一笔交易，合并收益记入腿组结果
+   */
+  private closeLegGroup(
+    state: BacktestState,
+    config: BacktestConfig,
+    groups: Map<string, LegGroupPosition>,
+    legGroups: LegGroupResult[],
+    group: LegGroupPosition,
+    prices: Record<string, number>,
+    time: number,
+    reason: string
+  ): void {
+    let groupProfit = 0;
+    for (const leg of group.legs) {
+      const exitPrice = applySlippage(
+        prices[leg.symbol] ?? leg.entryPrice,
+        leg.direction === "long" ? "sell" : "buy",
+        config.slippage
+      );
+      const pnl = getLegPnl(leg, exitPrice);
+      const commission = (leg.entryPrice * leg.quantity + exitPrice * leg.quantity) * config.commissionRate;
+      const netPnl = pnl - commission;
+
+      state.balance += netPnl;
+      groupProfit += netPnl;
+      state.trades.push({
+        id: `${group.id}_${leg.symbol}`,
+        symbol: leg.symbol,
+        direction: leg.direction,
+        entryTime: group.entryTime,
+        entryPrice: leg.entryPrice,
+        entryReason: group.entryReason,
+        exitTime: time,
+        exitPrice,
+        exitReason: reason,
+        quantity: leg.quantity,
+        profit: netPnl,
+        profitPercent: (pnl / (leg.entryPrice * leg.quantity)) * 100,
+        holdingTime: time - group.entryTime,
+        legGroupId: group.id,
+      });
+    }
+
+    legGroups.push({
+      id: group.id,
+      groupId: group.groupId,
+      direction: group.direction,
+      symbols: group.legs.map((leg) => leg.symbol),
+      entryTime: group.entryTime,
+      exitTime: time,
+      entryReason: group.entryReason,
+      exitReason: reason,
+      profit: groupProfit,
+    });
+    groups.delete(group.groupId);
+
+    console.log(`Close ${group.direction} leg group: ${group.groupId}, PnL: ${groupProfit.toFixed(2)}, Reason: ${reason}`);
+  }
+
+  /**
+   * 准备策略声明的各周期K线：优先使用传入的数据，缺失时通过加载器获取
+   */
+  private async loadTimeframeKlines(
+    config: BacktestConfig,
+    timeframes: string[],
+    primaryKlines: KLineData[],
+    provided: Record<string, KLineData[]>
+  ): Promise<Record<string, KLineData[]>> {
+    const result: Record<string, KLineData[]> = {};
+
+    for (const timeframe of timeframes) {
+      if (timeframe === config.timeframe) {
+        result[timeframe] = primaryKlines;
+        continue;
+      }
+
+      let series = provided[timeframe];
+      if (!series && this.klineLoader) {
+        series = await this.klineLoader(
+          config.symbol,
+          timeframe,
+          config.startTime,
+          config.endTime
+        );
+      }
+      if (!series) {
+        throw new Error(`Missing kline data for timeframe ${timeframe}`);
+      }
+
+      result[timeframe] = [...series].sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    return result;
+  }
+
+  /**
+   * 信号K线收盘时提交信号：成交模型允许立即成交时直接执行，否则挂单等待后续K线
+   * 同一交易对的新信号替换尚未成交的挂单
+   */
+  private async submitSignal(
+    state: BacktestState,
+    signal: Signal,
+    kline: KLineData,
+    config: BacktestConfig
+  ): Promise<void> {
+    const model = ENTRY_FILL_MODELS[config.entryFill || "next_open"];
+    state.pendingEntries.delete(signal.symbol);
+
+    const fill = model.fillOnSignal(signal, kline);
+    if (fill) {
+      await this.executeSignal(state, this.toFilledSignal(signal, fill.price, fill.market, kline.timestamp, config), config);
+      return;
+    }
+
+    state.pendingEntries.set(signal.symbol, signal);
+  }
+
+  /**
+   * 成交 config.symbol 的挂单：已过失效时间的撤单，本根K线满足成交条件的按成交价执行
+   */
+  private async fillPendingEntry(
+    state: BacktestState,
+    kline: KLineData,
+    config: BacktestConfig
+  ): Promise<void> {
+    const symbol = config.symbol;
+    const signal = state.pendingEntries.get(symbol);
+    if (!signal) {
+      return;
+    }
+
+    if (isSignalExpired(signal, kline.timestamp)) {
+      state.pendingEntries.delete(symbol);
+      console.log(`Pending entry expired: ${symbol} ${signal.direction} @ ${signal.entryPrice}`);
+      return;
+    }
+
+    const fill = ENTRY_FILL_MODELS[config.entryFill || "next_open"].fillPending(signal, kline);
+    if (!fill) {
+      return;
+    }
+
+    state.pendingEntries.delete(symbol);
+    await this.executeSignal(state, this.toFilledSignal(signal, fill.price, fill.market, kline.timestamp, config), config);
+  }
+
+  /**
+   * 以实际成交价和成交K线时间替换信号的入场价和时间，市价成交按滑点调整
+   * 开仓/反手的成交方向与信号方向相同，平仓信号相反
+   */
+  private toFilledSignal(
+    signal: Signal,
+    price: number,
+    market: boolean,
+    time: number,
+    config: BacktestConfig
+  ): Signal {
+    const side = (signal.direction === "long") !== (signal.action === "close") ? "buy" : "sell";
+    return {
+      ...signal,
+      entryPrice: market ? applySlippage(price, side, config.slippage) : price,
+      time,
+    };
+  }
+
+  /**
+   * 执行已成交的信号（entryPrice / time 为成交价和成交时间）
    */
   private async executeSignal(
     state: BacktestState,
@@ -164,32 +1171,49 @@ export class SimpleBacktestEngine implements BacktestEngine {
     // 检查是否已有反向持仓
     const existingPosition = state.positions.get(positionKey);
 
+    // 平仓信号：只平掉同向持仓，不开新仓
+    if (signal.action === "close") {
+      if (existingPosition && existingPosition.direction === signal.direction) {
+        this.closePosition(state, existingPosition, signal.entryPrice, "Signal Exit", config, signal.time);
+      }
+      return;
+    }
+
     if (existingPosition) {
       // 如果有反向持仓，先平仓
       if (existingPosition.direction !== signal.direction) {
-        this.closePosition(state, existingPosition, signal.entryPrice, "Signal Reversal", config);
+        this.closePosition(state, existingPosition, signal.entryPrice, "Signal Reversal", config, signal.time);
       } else {
-        // 同向信号，忽略
+        // 同向信号：加仓信号在未达到最大单位数时加仓，其余忽略
+        const maxUnits = signal.unitSizing?.maxUnits;
+        if (signal.action === "add" && !(maxUnits && existingPosition.units >= maxUnits)) {
+          this.addToPosition(state, existingPosition, signal, config);
+        }
         return;
       }
+    } else if (signal.action === "add" && !signal.openIfFlat) {
+      // 没有持仓时忽略加仓信号
+      return;
     }
 
-    // 计算仓位大小
-    let quantity: number;
-    if (config.positionSizingMode === "fixed") {
-      quantity = config.positionSize;
-    } else if (config.positionSizingMode === "percent") {
-      const positionValue = state.balance * (config.positionSize / 100);
-      quantity = positionValue / signal.entryPrice;
-    } else if (config.positionSizingMode === "risk" && config.riskPerTrade) {
-      const riskAmount = state.balance * (config.riskPerTrade / 100);
-      const stopLossPrice = this.calculateStopLossPrice(signal, config);
-      const riskPerUnit = Math.abs(signal.entryPrice - stopLossPrice);
-      quantity = riskAmount / riskPerUnit;
-    } else {
-      // 默认固定数量
-      quantity = config.positionSize;
+    // 出场计划：优先使用策略给出的结构位，否则按配置百分比兜底
+    const exitPlan = resolveExitPlan(
+      signal,
+      config.stopLossPercent,
+      config.takeProfitPercent
+    );
+
+    // 计算仓位大小（DCA 按阶梯的基础单数量），组合回测再按组合限制缩小或放弃
+    const sized = this.applyPortfolioLimits(
+      state,
+      signal,
+      signal.dcaPlan ? signal.dcaPlan.baseQuantity : this.calculateQuantity(state, signal, exitPlan, config),
+      signal.dcaPlan
+    );
+    if (!sized) {
+      return;
     }
+    const { quantity, dcaPlan } = sized;
 
     // 创建持仓
     const position: Position = {
@@ -199,9 +1223,17 @@ export class SimpleBacktestEngine implements BacktestEngine {
       entryTime: signal.time,
       entryPrice: signal.entryPrice,
       quantity,
+      initialQuantity: quantity,
       entryReason: signal.reason,
+      entryRegime: signal.regime,
+      entryAnnotations: signal.annotations,
+      exitPlan: dcaPlan ? null : exitPlan,
+      nextTargetIndex: 0,
+      units: 1,
+      dca: dcaPlan ? { plan: dcaPlan, nextSafetyIndex: 0 } : undefined,
       maxProfit: 0,
       maxDrawdown: 0,
+      markPrice: signal.entryPrice,
     };
 
     state.positions.set(positionKey, position);
@@ -210,51 +1242,374 @@ export class SimpleBacktestEngine implements BacktestEngine {
   }
 
   /**
-   * 更新持仓
+   * 同向加仓：按成交量加权更新均价，出场计划替换为加仓信号的出场计划（如海龟法则整体上移止损）
    */
-  private updatePositions(
+  private addToPosition(
+    state: BacktestState,
+    position: Position,
+    signal: Signal,
+    config: BacktestConfig
+  ): void {
+    const exitPlan = resolveExitPlan(
+      signal,
+      config.stopLossPercent,
+      config.takeProfitPercent
+    );
+    const sized = this.applyPortfolioLimits(
+      state,
+      signal,
+      this.calculateQuantity(state, signal, exitPlan, config)
+    );
+    if (!sized || !(sized.quantity > 0)) {
+      return;
+    }
+    const quantity = sized.quantity;
+
+    this.averageInto(position, signal.entryPrice, quantity);
+
+    if (exitPlan) {
+      position.exitPlan = exitPlan;
+      position.nextTargetIndex = 0;
+    }
+
+    console.log(`Add to ${position.direction} position: ${signal.symbol} @ ${signal.entryPrice}, Qty: ${quantity}, Units: ${position.units}`);
+  }
+
+  /**
+   * 按成交量加权更新持仓均价和数量
+   */
+  private averageInto(position: Position, price: number, quantity: number): void {
+    const totalQuantity = position.quantity + quantity;
+    position.entryPrice =
+      (position.entryPrice * position.quantity + price * quantity) / totalQuantity;
+    position.quantity = totalQuantity;
+    position.initialQuantity = totalQuantity;
+    position.units++;
+  }
+
+  /**
+   * 组合回测的入场限制（单交易对回测直接放行）
+   * 先检查最大持仓数（仅开新仓）、最小余额、日亏损、回撤和每日交易次数，
+   * 再按单笔上限、单交易对资金占比和总仓位上限缩小名义价值（按入场价计算）；
+   * DCA 与实盘一致按完整阶梯（基础单 + 全部安全单）计算，尚未成交的安全单也占用总仓位额度
+   * @returns 缩小后的数量和 DCA 阶梯，放弃入场时返回 null
+   */
+  private applyPortfolioLimits(
+    state: BacktestState,
+    signal: Signal,
+    quantity: number,
+    dcaPlan?: DcaPlan
+  ): { quantity: number; dcaPlan?: DcaPlan } | null {
+    const risk = state.portfolio;
+    if (!risk) {
+      return { quantity, dcaPlan };
+    }
+
+    const reject = (reason: string) => {
+      risk.rejected[reason] = (risk.rejected[reason] || 0) + 1;
+      console.log(`Entry rejected: ${signal.symbol} ${signal.direction} @ ${signal.entryPrice}, Reason: ${reason}`);
+      return null;
+    };
+
+    const { riskControl } = risk;
+    const existing = state.positions.get(signal.symbol);
+    if (!existing && state.positions.size >= risk.maxOpenPositions) {
+      return reject("Max Open Positions");
+    }
+    if (riskControl.minBalance && state.balance < riskControl.minBalance) {
+      return reject("Min Balance");
+    }
+    if (riskControl.maxDailyLoss && risk.dayStartEquity - state.equity >= riskControl.maxDailyLoss) {
+      return reject("Max Daily Loss");
+    }
+    if (riskControl.maxDrawdown && (state.currentDrawdown / state.maxEquity) * 100 >= riskControl.maxDrawdown) {
+      return reject("Max Drawdown");
+    }
+    if (riskControl.maxTradesPerDay && risk.tradesToday >= riskControl.maxTradesPerDay) {
+      return reject("Max Trades Per Day");
+    }
+
+    const getCommitted = (position: Position) => {
+      let notional = position.entryPrice * position.quantity;
+      if (position.dca) {
+        notional += position.dca.plan.safetyOrders
+          .slice(position.dca.nextSafetyIndex)
+          .reduce((sum, order) => sum + order.price * order.quantity, 0);
+      }
+      return notional;
+    };
+    let totalCommitted = 0;
+    state.positions.forEach((position) => {
+      totalCommitted += getCommitted(position);
+    });
+
+    const notional = dcaPlan ? getDcaNotional(dcaPlan, signal.entryPrice) : quantity * signal.entryPrice;
+    let limit = notional;
+    if (riskControl.maxPositionSize) {
+      limit = Math.min(limit, riskControl.maxPositionSize);
+    }
+    if (risk.maxAllocationPercent) {
+      const symbolCommitted = existing ? getCommitted(existing) : 0;
+      limit = Math.min(limit, state.equity * (risk.maxAllocationPercent / 100) - symbolCommitted);
+    }
+    if (riskControl.maxTotalPosition) {
+      limit = Math.min(limit, riskControl.maxTotalPosition - totalCommitted);
+    }
+    if (!(limit > 0) || !(notional > 0)) {
+      return reject("Position Limit");
+    }
+
+    risk.tradesToday++;
+    if (limit >= notional) {
+      return { quantity, dcaPlan };
+    }
+
+    const factor = limit / notional;
+    return dcaPlan
+      ? { quantity: dcaPlan.baseQuantity * factor, dcaPlan: scaleDcaPlan(dcaPlan, factor) }
+      : { quantity: quantity * factor };
+  }
+
+  /**
+   * 计算开仓/加仓数量
+   * 信号提供波动率单位时按单位计算，否则按回测配置的仓位模式
+   */
+  private calculateQuantity(
+    state: BacktestState,
+    signal: Signal,
+    exitPlan: ExitPlan | null,
+    config: BacktestConfig
+  ): number {
+    if (signal.unitSizing && signal.unitSizing.riskDistance > 0) {
+      const riskAmount = state.balance * (signal.unitSizing.riskPercent / 100);
+      return riskAmount / signal.unitSizing.riskDistance;
+    }
+
+    if (config.positionSizingMode === "fixed") {
+      return config.positionSize;
+    } else if (config.positionSizingMode === "percent") {
+      const positionValue = state.balance * (config.positionSize / 100);
+      return positionValue / signal.entryPrice;
+    } else if (config.positionSizingMode === "risk" && config.riskPerTrade) {
+      const riskAmount = state.balance * (config.riskPerTrade / 100);
+      const stopLossPrice = exitPlan
+        ? exitPlan.stopLoss
+        : this.calculateStopLossPrice(signal, config);
+      const riskPerUnit = Math.abs(signal.entryPrice - stopLossPrice);
+      return riskAmount / riskPerUnit;
+    }
+
+    // 默认固定数量
+    return config.positionSize;
+  }
+
+  /**
+   * 更新 config.symbol 的持仓：记录浮动盈亏，检查止损止盈
+   */
+  private updatePosition(
     state: BacktestState,
     kline: KLineData,
     config: BacktestConfig
   ): void {
-    state.positions.forEach((position, key) => {
-      const closePrice = kline.close;
+    const position = state.positions.get(config.symbol);
+    if (!position) {
+      return;
+    }
 
-      // 计算当前盈亏
-      let pnl: number;
-      if (position.direction === "long") {
-        pnl = (closePrice - position.entryPrice) * position.quantity;
-      } else {
-        pnl = (position.entryPrice - closePrice) * position.quantity;
+    const closePrice = kline.close;
+    position.markPrice = closePrice;
+
+    // 计算当前盈亏
+    let pnl: number;
+    if (position.direction === "long") {
+      pnl = (closePrice - position.entryPrice) * position.quantity;
+    } else {
+      pnl = (position.entryPrice - closePrice) * position.quantity;
+    }
+
+    const pnlPercent = (pnl / (position.entryPrice * position.quantity)) * 100;
+
+    // 更新最大盈利和最大回撤
+    if (pnl > position.maxProfit) {
+      position.maxProfit = pnl;
+    }
+
+    if (pnl < position.maxDrawdown) {
+      position.maxDrawdown = pnl;
+    }
+
+    // DCA：按K线内价格路径成交安全单、检查均价止盈
+    if (position.dca) {
+      this.applyDcaPlan(state, position, position.dca, kline, config);
+      return;
+    }
+
+    // 按出场计划检查止损止盈
+    if (position.exitPlan) {
+      this.applyExitPlan(state, position, position.exitPlan, kline, config);
+      return;
+    }
+
+    const exitPrice = applySlippage(closePrice, this.getExitSide(position), config.slippage);
+
+    // 检查止损
+    if (config.stopLossPercent) {
+      if (Math.abs(pnlPercent) >= config.stopLossPercent) {
+        this.closePosition(state, position, exitPrice, "Stop Loss", config, kline.timestamp);
+        return;
+      }
+    }
+
+    // 检查止盈
+    if (config.takeProfitPercent) {
+      if (pnlPercent >= config.takeProfitPercent) {
+        this.closePosition(state, position, exitPrice, "Take Profit", config, kline.timestamp);
+        return;
       }
+    }
+  }
+
+  /**
+   * 按出场计划处理止损和分批止盈（触发与成交价由出场模型决定，止损优先）
+   */
+  private applyExitPlan(
+    state: BacktestState,
+    position: Position,
+    exitPlan: ExitPlan,
+    kline: KLineData,
+    config: BacktestConfig
+  ): void {
+    const model = EXIT_FILL_MODELS[config.exitFill || "intrabar"];
+    const side = this.getExitSide(position);
 
-      const pnlPercent = (pnl / (position.entryPrice * position.quantity)) * 100;
+    const stopPrice = model.stopFill(position.direction, exitPlan.stopLoss, kline);
+    if (stopPrice !== null) {
+      this.closePosition(
+        state,
+        position,
+        applySlippage(stopPrice, side, config.slippage),
+        "Stop Loss",
+        config,
+        kline.timestamp
+      );
+      return;
+    }
 
-      // 更新最大盈利和最大回撤
-      if (pnl > position.maxProfit) {
-        position.maxProfit = pnl;
+    while (position.nextTargetIndex < exitPlan.takeProfits.length) {
+      const target = exitPlan.takeProfits[position.nextTargetIndex];
+      const price = model.targetFill(position.direction, target.price, kline);
+      if (price === null) {
+        break;
       }
 
-      if (pnl < position.maxDrawdown) {
-        position.maxDrawdown = pnl;
+      position.nextTargetIndex++;
+      const isLastTarget = position.nextTargetIndex >= exitPlan.takeProfits.length;
+      const quantity = isLastTarget
+        ? position.quantity
+        : Math.min(position.initialQuantity * target.sizeFraction, position.quantity);
+
+      this.closePosition(
+        state,
+        position,
+        applySlippage(price, side, config.slippage),
+        `Take Profit${target.label ? ` (${target.label})` : ""}`,
+        config,
+        kline.timestamp,
+        quantity
+      );
+
+      if (!state.positions.has(position.symbol)) {
+        return;
       }
+    }
+  }
 
-      // 检查止损
-      if (config.stopLossPercent) {
-        if (Math.abs(pnlPercent) >= config.stopLossPercent) {
-          this.closePosition(state, position, closePrice, "Stop Loss", config);
-          return;
+  /**
+   * DCA 持仓：沿出场成交模型的价格路径逐段检查，逆向运行时依次成交安全单并摊平均价，
+   * 顺向运行时检查均价止盈；开仓K线从基础单成交价开始走剩余路径
+   */
+  private applyDcaPlan(
+    state: BacktestState,
+    position: Position,
+    dca: { plan: DcaPlan; nextSafetyIndex: number },
+    kline: KLineData,
+    config: BacktestConfig
+  ): void {
+    const model = EXIT_FILL_MODELS[config.exitFill || "intrabar"];
+    const isLong = position.direction === "long";
+    let path = model.getPath(kline);
+    if (kline.timestamp === position.entryTime) {
+      path = getPathFrom(path, position.entryPrice);
+    }
+
+    for (let i = 1; i < path.length; i++) {
+      const from = path[i - 1];
+      const to = path[i];
+      const segment: KLineData = {
+        ...kline,
+        open: from,
+        high: Math.max(from, to),
+        low: Math.min(from, to),
+        close: to,
+      };
+      const adverse = isLong ? to < from : to > from;
+
+      if (adverse) {
+        while (dca.nextSafetyIndex < dca.plan.safetyOrders.length) {
+          const safetyOrder = dca.plan.safetyOrders[dca.nextSafetyIndex];
+          if (isLong ? to > safetyOrder.price : to < safetyOrder.price) {
+            break;
+          }
+
+          this.averageInto(position, safetyOrder.price, safetyOrder.quantity);
+          dca.nextSafetyIndex++;
+          console.log(`Safety order ${dca.nextSafetyIndex} filled: ${position.symbol} @ ${safetyOrder.price}, Avg: ${position.entryPrice}`);
         }
-      }
 
-      // 检查止盈
-      if (config.takeProfitPercent) {
-        if (pnlPercent >= config.takeProfitPercent) {
-          this.closePosition(state, position, closePrice, "Take Profit", config);
+        const stopLoss = dca.plan.stopLoss;
+        const stopPrice = stopLoss !== undefined
+          ? model.stopFill(position.direction, stopLoss, segment)
+          : null;
+        if (stopPrice !== null) {
+          this.closePosition(
+            state,
+            position,
+            applySlippage(stopPrice, this.getExitSide(position), config.slippage),
+            "Stop Loss",
+            config,
+            kline.timestamp
+          );
+          return;
+        }
+      } else {
+        const takeProfit = getDcaTakeProfitPrice(
+          position.direction,
+          position.entryPrice,
+          dca.plan.takeProfitPercent
+        );
+        const price = model.targetFill(position.direction, takeProfit, segment);
+        if (price !== null) {
+          this.closePosition(state, position, price, "Take Profit", config, kline.timestamp);
           return;
         }
       }
-    });
+    }
+  }
+
+  /**
+   * 按最近收盘价计算的浮动盈亏（未扣手续费）
+   */
+  private getUnrealizedPnl(position: Position): number {
+    return position.direction === "long"
+      ? (position.markPrice - position.entryPrice) * position.quantity
+      : (position.entryPrice - position.markPrice) * position.quantity;
+  }
+
+  /**
+   * 平仓的成交方向
+   */
+  private getExitSide(position: Position): "buy" | "sell" {
+    return position.direction === "long" ? "sell" : "buy";
   }
 
   /**
@@ -280,48 +1635,58 @@ export class SimpleBacktestEngine implements BacktestEngine {
     position: Position,
     closePrice: number,
     reason: string,
-    config: BacktestConfig
+    config: BacktestConfig,
+    time: number,
+    quantity: number = position.quantity
   ): void {
     // 计算盈亏
     let pnl: number;
     if (position.direction === "long") {
-      pnl = (closePrice - position.entryPrice) * position.quantity;
+      pnl = (closePrice - position.entryPrice) * quantity;
     } else {
-      pnl = (position.entryPrice - closePrice) * position.quantity;
+      pnl = (position.entryPrice - closePrice) * quantity;
     }
 
-    const pnlPercent = (pnl / (position.entryPrice * position.quantity)) * 100;
+    const pnlPercent = (pnl / (position.entryPrice * quantity)) * 100;
 
     // 扣除手续费
-    const commission = (position.entryPrice * position.quantity + closePrice * position.quantity) * config.commissionRate;
+    const commission = (position.entryPrice * quantity + closePrice * quantity) * config.commissionRate;
     const netPnl = pnl - commission;
 
     // 更新余额
     state.balance += netPnl;
 
     // 创建交易记录
+    const isPartial = quantity < position.quantity;
     const trade: BacktestTrade = {
-      id: position.id,
+      id: isPartial ? `${position.id}_${position.nextTargetIndex}` : position.id,
       symbol: position.symbol,
       direction: position.direction,
       entryTime: position.entryTime,
       entryPrice: position.entryPrice,
       entryReason: position.entryReason,
-      exitTime: Date.now(), // 使用当前K线时间
+      entryRegime: position.entryRegime,
+      entryAnnotations: position.entryAnnotations,
+      exitTime: time,
       exitPrice: closePrice,
       exitReason: reason,
-      quantity: position.quantity,
+      quantity,
       profit: netPnl,
       profitPercent: pnlPercent,
-      holdingTime: Date.now() - position.entryTime,
+      holdingTime: time - position.entryTime,
       maxDrawdown: position.maxDrawdown,
       maxProfit: position.maxProfit,
+      safetyOrdersFilled: position.dca?.nextSafetyIndex,
     };
 
     state.trades.push(trade);
 
-    // 移除持仓
-    state.positions.delete(position.symbol);
+    // 部分平仓只减少持仓数量，全部平仓时移除持仓
+    if (isPartial) {
+      position.quantity -= quantity;
+    } else {
+      state.positions.delete(position.symbol);
+    }
 
     console.log(`Close ${position.direction} position: ${position.symbol} @ ${closePrice}, PnL: ${netPnl.toFixed(2)} (${pnlPercent.toFixed(2)}%), Reason: ${reason}`);
   }
@@ -336,18 +1701,29 @@ export class SimpleBacktestEngine implements BacktestEngine {
   ): void {
     const positions = Array.from(state.positions.values());
     positions.forEach((position) => {
-      this.closePosition(state, position, kline.close, "End of Backtest", config);
+      this.closePosition(
+        state,
+        position,
+        applySlippage(kline.close, this.getExitSide(position), config.slippage),
+        "End of Backtest",
+        config,
+        kline.timestamp
+      );
     });
   }
 
   /**
    * 更新资金曲线
    */
-  private updateEquityCurve(state: BacktestState, timestamp: number): void {
+  private updateEquityCurve(
+    state: BacktestState,
+    timestamp: number,
+    extraUnrealizedPnl: number = 0
+  ): void {
     // 计算当前权益（余额 + 未实现盈亏）
-    let unrealizedPnl = 0;
+    let unrealizedPnl = extraUnrealizedPnl;
     state.positions.forEach((position) => {
-      unrealizedPnl += position.maxDrawdown; // 使用当前盈亏
+      unrealizedPnl += this.getUnrealizedPnl(position);
     });
 
     state.equity = state.balance + unrealizedPnl;
@@ -390,11 +1766,19 @@ export class SimpleBacktestEngine implements BacktestEngine {
       ? holdingTimes.reduce((sum, t) => sum + t, 0) / holdingTimes.length
       : 0;
 
+    // 记录策略版本（脚本策略同时记录代码哈希）
+    const strategyMeta = strategyRegistry.getStrategy(config.strategyId, config.strategyVersion)?.meta;
+
     return {
       strategyId: config.strategyId,
-      strategyName: strategyManager.getStrategy(config.strategyId)?.meta.name || "",
+      strategyName: strategyMeta?.name || "",
+      strategyVersion: strategyMeta?.version,
+      strategyHash: strategyMeta?.codeHash,
+      presetId: config.presetId,
+      presetVersion: config.presetVersion,
       symbol: config.symbol,
       timeframe: config.timeframe,
+      timeframes: config.timeframes,
       startTime: config.startTime,
       endTime: config.endTime,
       duration: config.endTime - config.startTime,
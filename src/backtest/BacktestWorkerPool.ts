@@ -0,0 +1,170 @@
+/**
+ * 回测 worker 池（仅服务端使用）
+ * 多个 worker 线程并行运行回测，K线数据在启动 worker 时传入一次，之后只传递回测配置；
+ * 任务按提交顺序分配给空闲的 worker，worker 异常退出时当前任务失败并补充新的 worker
+ *
+ * worker 入口不经过 Next.js 打包，由 npm run build:worker（build / dev 前自动执行）编译为 dist/backtestWorker.js
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import type { BacktestConfig, BacktestResult } from "../types/backtest";
+import type { KLineData } from "../types/strategy";
+
+// 启动 worker 时传入的K线数据（与 SimpleBacktestEngine.run 的参数一致）
+export interface BacktestWorkerData {
+  klines: KLineData[];
+  timeframeKlines: Record<string, KLineData[]>;
+}
+
+export interface BacktestWorkerRequest {
+  id: number;
+  config: BacktestConfig;
+}
+
+export type BacktestWorkerResponse =
+  | { id: number; ok: true; result: BacktestResult }
+  | { id: number; ok: false; error: string };
+
+interface PoolTask {
+  id: number;
+  config: BacktestConfig;
+  resolve: (result: BacktestResult) => void;
+  reject: (error: Error) => void;
+}
+
+// 编译后的 worker 入口（相对项目根目录）
+const WORKER_PATH = path.join(process.cwd(), "dist", "backtestWorker.js");
+
+// 连续异常退出超过 worker 数的该倍数时不再补充 worker（如 worker 入口加载失败）
+const MAX_RESPAWN_FACTOR = 2;
+
+/**
+ * 默认 worker 数：CPU 核数减一，至少 1 个
+ */
+export function getDefaultConcurrency(): number {
+  return Math.max(1, os.cpus().length - 1);
+}
+
+export class BacktestWorkerPool {
+  private workers = new Set<Worker>();
+  private idle: Worker[] = [];
+  private queue: PoolTask[] = [];
+  private running = new Map<Worker, PoolTask>();
+  private nextId = 1;
+  private failures = 0;
+  private closed = false;
+
+  constructor(private size: number, private data: BacktestWorkerData) {
+    if (!fs.existsSync(WORKER_PATH)) {
+      throw new Error(`Backtest worker not found at ${WORKER_PATH}, run npm run build:worker`);
+    }
+    for (let i = 0; i < size; i++) {
+      this.spawn();
+    }
+  }
+
+  /**
+   * 提交一次回测（config 的时间范围可以是启动数据的任意子区间）
+   */
+  run(config: BacktestConfig): Promise<BacktestResult> {
+    if (this.closed) {
+      return Promise.reject(new Error("Backtest worker pool is closed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, config, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * 终止全部 worker，排队中的任务失败
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.rejectQueue("Backtest worker pool is closed");
+
+    const workers = Array.from(this.workers);
+    this.workers.clear();
+    this.idle = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.shift()!;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      const request: BacktestWorkerRequest = { id: task.id, config: task.config };
+      worker.postMessage(request);
+    }
+  }
+
+  private spawn(): void {
+    // 以 eval 方式加载，避免打包时把 worker 入口当作模块处理
+    const worker = new Worker(`require(${JSON.stringify(WORKER_PATH)});`, {
+      eval: true,
+      workerData: this.data,
+    });
+
+    worker.on("message", (response: BacktestWorkerResponse) => {
+      const task = this.running.get(worker);
+      if (!task || task.id !== response.id) {
+        return;
+      }
+
+      this.running.delete(worker);
+      this.failures = 0;
+      if (response.ok) {
+        task.resolve(response.result);
+      } else {
+        task.reject(new Error(response.error));
+      }
+      this.idle.push(worker);
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => {
+      console.warn("Backtest worker error:", error.message);
+    });
+
+    worker.on("exit", () => {
+      this.workers.delete(worker);
+      this.idle = this.idle.filter((w) => w !== worker);
+
+      const task = this.running.get(worker);
+      if (task) {
+        this.running.delete(worker);
+        task.reject(new Error("Backtest worker exited unexpectedly"));
+      }
+
+      if (this.closed) {
+        return;
+      }
+      this.failures++;
+      if (this.failures > this.size * MAX_RESPAWN_FACTOR) {
+        if (this.workers.size === 0) {
+          this.closed = true;
+          this.rejectQueue("Backtest workers keep exiting");
+        }
+        return;
+      }
+      this.spawn();
+      this.dispatch();
+    });
+
+    this.workers.add(worker);
+    this.idle.push(worker);
+  }
+
+  private rejectQueue(message: string): void {
+    const queue = this.queue;
+    this.queue = [];
+    for (const task of queue) {
+      task.reject(new Error(message));
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * 回测 worker 线程入口（仅服务端使用，由 BacktestWorkerPool 启动）
+ * 不经过 Next.js 打包，由 npm run build:worker 单独编译为 dist/backtestWorker.js（依赖包不打包，运行时从 node_modules 加载）
+ * 启动时接收一次K线数据，之后逐条处理回测配置并返回结果
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { SimpleBacktestEngine } from "./BacktestEngine";
+import { strategyRegistry } from "../strategies/StrategyRegistry";
+import { ensureRuleStrategiesLoaded } from "../strategies/ruleStrategyLoader";
+import { ensureScriptStrategiesLoaded } from "../strategies/scriptStrategyLoader";
+import type { BacktestWorkerData, BacktestWorkerRequest, BacktestWorkerResponse } from "./BacktestWorkerPool";
+
+// 引擎按交易逐条输出日志，批量回测时关闭，避免刷屏
+console.log = () => {};
+
+const { klines, timeframeKlines } = workerData as BacktestWorkerData;
+
+parentPort?.on("message", async (request: BacktestWorkerRequest) => {
+  let response: BacktestWorkerResponse;
+  try {
+    // 规则策略和脚本策略只注册在主线程，worker 内按需从数据库加载
+    if (!strategyRegistry.getStrategy(request.config.strategyId, request.config.strategyVersion)) {
+      await ensureRuleStrategiesLoaded();
+      await ensureScriptStrategiesLoaded();
+    }
+
+    const engine = new SimpleBacktestEngine();
+    const result = await engine.run(request.config, klines, timeframeKlines);
+    response = { id: request.id, ok: true, result };
+  } catch (error) {
+    response = { id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
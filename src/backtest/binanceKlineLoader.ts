@@ -0,0 +1,55 @@
+/**
+ * 从币安合约公共接口分页获取历史K线（仅服务端使用），可直接作为 BacktestKlineLoader
+ */
+
+import type { BacktestKlineLoader } from "../types/backtest";
+import type { KLineData } from "../types/strategy";
+import { TIMEFRAME_TO_MS } from "../utils/timeframeAligner";
+
+const BINANCE_KLINES_URL = "https://fapi.binance.com/fapi/v1/klines";
+
+// 单次请求的最大K线数（币安上限）
+const PAGE_LIMIT = 1500;
+
+export const binanceKlineLoader: BacktestKlineLoader = async (symbol, timeframe, startTime, endTime) => {
+  const interval = TIMEFRAME_TO_MS[timeframe];
+  if (!interval) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`);
+  }
+
+  const klines: KLineData[] = [];
+  let cursor = startTime;
+
+  while (cursor <= endTime) {
+    const query = new URLSearchParams({
+      symbol,
+      interval: timeframe,
+      startTime: cursor.toString(),
+      endTime: endTime.toString(),
+      limit: PAGE_LIMIT.toString(),
+    });
+    const response = await fetch(`${BINANCE_KLINES_URL}?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Binance klines error: ${response.status} - ${await response.text()}`);
+    }
+
+    const data: (string | number)[][] = await response.json();
+    for (const k of data) {
+      klines.push({
+        timestamp: Number(k[0]),
+        open: parseFloat(String(k[1])),
+        high: parseFloat(String(k[2])),
+        low: parseFloat(String(k[3])),
+        close: parseFloat(String(k[4])),
+        volume: parseFloat(String(k[5])),
+      });
+    }
+
+    if (data.length < PAGE_LIMIT) {
+      break;
+    }
+    cursor = Number(data[data.length - 1][0]) + interval;
+  }
+
+  return klines;
+};
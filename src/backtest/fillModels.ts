@@ -0,0 +1,139 @@
+/**
+ * 回测成交模型
+ * 决定信号在哪根K线、以什么价格成交，以及止损止盈在K线内如何触发
+ *
+ * 入场：
+ * - close：信号K线收盘价市价成交
+ * - next_open：下一根K线开盘价市价成交
+ * - limit：按信号价挂限价单，后续K线价格穿过挂单价（多单最低价低于、空单最高价高于）才成交，
+ *   开盘已越过挂单价时按开盘价成交；平仓信号仍按下一根K线开盘价市价成交
+ *
+ * 出场：
+ * - close：只用收盘价检查止损止盈，按收盘价成交
+ * - intrabar：用最高/最低价检查触及，按触发价成交（跳空越过时按开盘价）；
+ *   同一根K线同时触及止损和止盈时无法确定先后，按最坏情况先止损
+ *
+ * 需要逐段检查的出场（DCA 安全单/均价止盈）沿 getPath 给出的价格路径，
+ * 把每一段当作一根子K线交给 stopFill/targetFill
+ */
+
+import type { EntryFillModelType, ExitFillModelType } from "../types/backtest";
+import { KLineData, Signal } from "../types/strategy";
+import { isStopLossHit, isTargetHit } from "../utils/exitPlan";
+
+// 入场成交结果
+export interface EntryFill {
+  price: number;
+  market: boolean;  // 市价成交（计算滑点），限价成交不计滑点
+}
+
+export interface EntryFillModel {
+  // 信号K线收盘时立即成交，返回 null 表示转为挂单等待后续K线
+  fillOnSignal(signal: Signal, bar: KLineData): EntryFill | null;
+
+  // 挂单在后续K线的成交，返回 null 表示本根K线未成交
+  fillPending(signal: Signal, bar: KLineData): EntryFill | null;
+}
+
+export interface ExitFillModel {
+  // 止损成交价，null 表示本根K线未触发
+  stopFill(direction: "long" | "short", stopLoss: number, bar: KLineData): number | null;
+
+  // 止盈成交价，null 表示本根K线未触发
+  targetFill(direction: "long" | "short", target: number, bar: KLineData): number | null;
+
+  // K线内的价格路径
+  getPath(bar: KLineData): number[];
+}
+
+const closeEntry: EntryFillModel = {
+  fillOnSignal: (signal, bar) => ({ price: bar.close, market: true }),
+  fillPending: (signal, bar) => ({ price: bar.open, market: true }),
+};
+
+const nextOpenEntry: EntryFillModel = {
+  fillOnSignal: () => null,
+  fillPending: (signal, bar) => ({ price: bar.open, market: true }),
+};
+
+const limitEntry: EntryFillModel = {
+  fillOnSignal: () => null,
+  fillPending: (signal, bar) => {
+    if (signal.action === "close") {
+      return { price: bar.open, market: true };
+    }
+    if (signal.direction === "long") {
+      return bar.low < signal.entryPrice
+        ? { price: Math.min(signal.entryPrice, bar.open), market: false }
+        : null;
+    }
+    return bar.high > signal.entryPrice
+      ? { price: Math.max(signal.entryPrice, bar.open), market: false }
+      : null;
+  },
+};
+
+const closeExit: ExitFillModel = {
+  stopFill: (direction, stopLoss, bar) =>
+    isStopLossHit(direction, bar.close, stopLoss) ? bar.close : null,
+  targetFill: (direction, target, bar) =>
+    isTargetHit(direction, bar.close, target) ? bar.close : null,
+  getPath: (bar) => [bar.open, bar.close],
+};
+
+const intrabarExit: ExitFillModel = {
+  stopFill: (direction, stopLoss, bar) => {
+    if (direction === "long") {
+      return bar.low <= stopLoss ? Math.min(stopLoss, bar.open) : null;
+    }
+    return bar.high >= stopLoss ? Math.max(stopLoss, bar.open) : null;
+  },
+  targetFill: (direction, target, bar) => {
+    if (direction === "long") {
+      return bar.high >= target ? Math.max(target, bar.open) : null;
+    }
+    return bar.low <= target ? Math.min(target, bar.open) : null;
+  },
+  getPath: (bar) => getIntrabarPath(bar),
+};
+
+export const ENTRY_FILL_MODELS: Record<EntryFillModelType, EntryFillModel> = {
+  close: closeEntry,
+  next_open: nextOpenEntry,
+  limit: limitEntry,
+};
+
+export const EXIT_FILL_MODELS: Record<ExitFillModelType, ExitFillModel> = {
+  close: closeExit,
+  intrabar: intrabarExit,
+};
+
+/**
+ * K线内价格路径：阳线按 开→低→高→收，阴线按 开→高→低→收
+ */
+export function getIntrabarPath(bar: KLineData): number[] {
+  return bar.close >= bar.open
+    ? [bar.open, bar.low, bar.high, bar.close]
+    : [bar.open, bar.high, bar.low, bar.close];
+}
+
+/**
+ * 从成交价开始的剩余路径：找到第一段经过成交价的路径，从成交价接着走；
+ * 成交价不在路径上（如市价成交的滑点）时返回完整路径
+ */
+export function getPathFrom(path: number[], price: number): number[] {
+  for (let i = 1; i < path.length; i++) {
+    if (price >= Math.min(path[i - 1], path[i]) && price <= Math.max(path[i - 1], path[i])) {
+      return [price, ...path.slice(i)];
+    }
+  }
+  return path;
+}
+
+/**
+ * 按滑点（%）调整市价成交价：买入抬高、卖出压低
+ */
+export function applySlippage(price: number, side: "buy" | "sell", slippagePercent: number): number {
+  const sign = side === "buy" ? 1 : -1;
+  return price * (1 + sign * slippagePercent / 100);
+}
@@ -0,0 +1,461 @@
+/**
+ * 参数优化
+ * 按策略配置项的 min / max / step 构建搜索空间，以网格、随机或贝叶斯方式选择参数组合，
+ * 回测由调用方提供的 evaluate 执行（一般交给 BacktestWorkerPool 并行运行）
+ *
+ * 贝叶斯模式是简化的 TPE（Tree-structured Parzen Estimator）：先随机采样一部分组合，
+ * 之后每轮把已有结果按目标值分为好 / 差两组，在好组附近生成候选，选择好组密度与差组密度之比最大的候选
+ */
+
+import type {
+  BacktestResult,
+  EquityPoint,
+  OptimizationConfig,
+  OptimizationHeatmap,
+  OptimizationMetric,
+  OptimizationObjective,
+  OptimizationParamRange,
+  OptimizationResult,
+  OptimizationRun,
+} from "../types/backtest";
+import type { BaseStrategyParams, StrategyConfigItem, TradingStrategy } from "../types/strategy";
+import { getStrategyTimeframes, sortTimeframes } from "../utils/timeframeAligner";
+
+// 网格搜索的最大组合数
+export const MAX_GRID_COMBINATIONS = 1000;
+
+// random / bayesian 的默认回测次数
+export const DEFAULT_OPTIMIZATION_ITERATIONS = 50;
+
+// 贝叶斯模式：每个提议组合评估的候选数
+const TPE_CANDIDATES = 24;
+
+// 贝叶斯模式：好组占已有结果的比例
+const TPE_GOOD_FRACTION = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const METRICS: OptimizationMetric[] = [
+  "score",
+  "netProfit",
+  "sharpeRatio",
+  "profitFactor",
+  "maxDrawdownPercent",
+  "totalTrades",
+  "winRate",
+];
+
+// 已评估的组合（各参数取值的下标）
+interface EvaluatedPoint {
+  indices: number[];
+  score: number | null;
+}
+
+function countDecimals(value: number): number {
+  return (String(value).split(".")[1] || "").length;
+}
+
+/**
+ * 按配置项构建搜索范围：只支持声明了 min / max / step 的数字参数
+ */
+export function buildSearchSpace(items: StrategyConfigItem[], keys: string[]): OptimizationParamRange[] {
+  return keys.map((key) => {
+    const item = items.find((i) => i.key === key);
+    if (!item) {
+      throw new Error(`Unknown param: ${key}`);
+    }
+    const { min, max, step } = item;
+    if (item.type !== "number" || min === undefined || max === undefined || !step || step <= 0 || max < min) {
+      throw new Error(`Param ${key} has no numeric range (min / max / step)`);
+    }
+
+    // 按 step 和 min 的小数位取整，避免浮点累加误差
+    const decimals = Math.max(countDecimals(step), countDecimals(min));
+    const values: number[] = [];
+    for (let i = 0; min + i * step <= max + step * 1e-9; i++) {
+      values.push(Number((min + i * step).toFixed(decimals)));
+    }
+    return { key, label: item.label, values };
+  });
+}
+
+/**
+ * 搜索空间的组合总数
+ */
+export function countCombinations(ranges: OptimizationParamRange[]): number {
+  return ranges.reduce((total, range) => total * range.values.length, 1);
+}
+
+/**
+ * 扫描过程中需要的全部周期：基准参数声明的周期，加上每个扫描参数逐一取各个值（其他参数取基准值）时声明的周期
+ * 周期由多个扫描参数共同决定时，不在其中的组合回测会因缺少K线而失败（结果记为失败）
+ */
+export function collectSweepTimeframes<T extends BaseStrategyParams>(
+  strategy: TradingStrategy<T>,
+  baseParams: T,
+  ranges: OptimizationParamRange[]
+): string[] {
+  const timeframes = new Set(getStrategyTimeframes(strategy, baseParams));
+  for (const range of ranges) {
+    for (const value of range.values) {
+      for (const timeframe of getStrategyTimeframes(strategy, { ...baseParams, [range.key]: value })) {
+        timeframes.add(timeframe);
+      }
+    }
+  }
+  return sortTimeframes(Array.from(timeframes));
+}
+
+function toParams(ranges: OptimizationParamRange[], indices: number[]): Record<string, number> {
+  const params: Record<string, number> = {};
+  ranges.forEach((range, d) => {
+    params[range.key] = range.values[indices[d]];
+  });
+  return params;
+}
+
+function gridCombinations(ranges: OptimizationParamRange[]): number[][] {
+  let combinations: number[][] = [[]];
+  for (const range of ranges) {
+    const next: number[][] = [];
+    for (const combination of combinations) {
+      for (let i = 0; i < range.values.length; i++) {
+        next.push([...combination, i]);
+      }
+    }
+    combinations = next;
+  }
+  return combinations;
+}
+
+/**
+ * 随机采样未评估过的组合（采样结果同时加入 tried）
+ */
+function sampleRandom(ranges: OptimizationParamRange[], count: number, tried: Set<string>): number[][] {
+  const samples: number[][] = [];
+  const maxAttempts = count * 20;
+  for (let attempt = 0; samples.length < count && attempt < maxAttempts; attempt++) {
+    const indices = ranges.map((range) => Math.floor(Math.random() * range.values.length));
+    const key = indices.join(",");
+    if (!tried.has(key)) {
+      tried.add(key);
+      samples.push(indices);
+    }
+  }
+  return samples;
+}
+
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * 某个参数维度上的核密度（含均匀先验，保证未探索的取值密度不为 0）
+ */
+function kernelDensity(points: EvaluatedPoint[], d: number, index: number, size: number, bandwidth: number): number {
+  let density = 1 / size;
+  for (const point of points) {
+    const z = (index - point.indices[d]) / bandwidth;
+    density += Math.exp(-0.5 * z * z);
+  }
+  return density / (points.length + 1);
+}
+
+/**
+ * TPE 提议：已计分的结果少于 4 个时随机采样
+ */
+function proposeTpe(
+  ranges: OptimizationParamRange[],
+  history: EvaluatedPoint[],
+  count: number,
+  tried: Set<string>
+): number[][] {
+  const scored = history
+    .filter((point) => point.score !== null)
+    .sort((a, b) => b.score! - a.score!);
+  if (scored.length < 4) {
+    return sampleRandom(ranges, count, tried);
+  }
+
+  const goodCount = Math.max(2, Math.ceil(scored.length * TPE_GOOD_FRACTION));
+  const good = scored.slice(0, goodCount);
+  // 回测失败或不满足约束的组合归入差组
+  const bad = [...scored.slice(goodCount), ...history.filter((point) => point.score === null)];
+  const bandwidths = ranges.map((range) => Math.max(1, range.values.length / 10));
+
+  const proposals: number[][] = [];
+  for (let p = 0; p < count; p++) {
+    let best: number[] | null = null;
+    let bestRatio = -Infinity;
+
+    for (let c = 0; c < TPE_CANDIDATES; c++) {
+      const base = good[Math.floor(Math.random() * good.length)].indices;
+      const candidate = base.map((index, d) => {
+        const size = ranges[d].values.length;
+        return Math.min(size - 1, Math.max(0, Math.round(index + gaussian() * bandwidths[d])));
+      });
+      if (tried.has(candidate.join(","))) {
+        continue;
+      }
+
+      let ratio = 0;
+      candidate.forEach((index, d) => {
+        const size = ranges[d].values.length;
+        ratio += Math.log(kernelDensity(good, d, index, size, bandwidths[d]));
+        ratio -= Math.log(kernelDensity(bad, d, index, size, bandwidths[d]));
+      });
+      if (ratio > bestRatio) {
+        bestRatio = ratio;
+        best = candidate;
+      }
+    }
+
+    // 好组附近都已评估过时随机探索
+    if (best) {
+      tried.add(best.join(","));
+      proposals.push(best);
+    } else {
+      const [sample] = sampleRandom(ranges, 1, tried);
+      if (!sample) {
+        break;
+      }
+      proposals.push(sample);
+    }
+  }
+  return proposals;
+}
+
+/**
+ * 年化夏普比率：按自然日（UTC）的日末权益计算日收益率，无风险利率为 0，按 365 天年化
+ * 日收益少于 2 个或没有波动时为 0
+ */
+export function calculateSharpeRatio(equityCurve: EquityPoint[], initialBalance: number): number {
+  const dailyEquity: number[] = [initialBalance];
+  let currentDay: number | null = null;
+  for (const point of equityCurve) {
+    const day = Math.floor(point.time / DAY_MS);
+    if (day !== currentDay) {
+      dailyEquity.push(point.equity);
+      currentDay = day;
+    } else {
+      dailyEquity[dailyEquity.length - 1] = point.equity;
+    }
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < dailyEquity.length; i++) {
+    if (dailyEquity[i - 1] > 0) {
+      returns.push(dailyEquity[i] / dailyEquity[i - 1] - 1);
+    }
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  return std > 0 ? (mean / std) * Math.sqrt(365) : 0;
+}
+
+/**
+ * 目标值（越大越好），max_drawdown 目标超过回撤上限时返回 null
+ */
+export function getObjectiveScore(
+  objective: OptimizationObjective,
+  result: BacktestResult,
+  sharpeRatio: number,
+  maxDrawdownLimit?: number
+): number | null {
+  switch (objective) {
+    case "net_profit":
+      return result.netProfit;
+    case "sharpe":
+      return sharpeRatio;
+    case "profit_factor":
+      return result.profitFactor;
+    case "max_drawdown":
+      return maxDrawdownLimit === undefined || result.maxDrawdownPercent <= maxDrawdownLimit
+        ? result.netProfit
+        : null;
+  }
+}
+
+/**
+ * 回测结果转为结果表的一行
+ */
+export function toOptimizationRun(
+  params: Record<string, number>,
+  result: BacktestResult,
+  config: Pick<OptimizationConfig, "base" | "objective" | "maxDrawdownLimit">
+): OptimizationRun {
+  const sharpeRatio = calculateSharpeRatio(result.equityCurve, config.base.initialBalance);
+  return {
+    params,
+    score: getObjectiveScore(config.objective, result, sharpeRatio, config.maxDrawdownLimit),
+    netProfit: result.netProfit,
+    sharpeRatio,
+    profitFactor: result.profitFactor,
+    maxDrawdownPercent: result.maxDrawdownPercent,
+    totalTrades: result.totalTrades,
+    winRate: result.winRate,
+  };
+}
+
+/**
+ * 结果表排序：key 为指标列或扫描参数，没有值（null）的行始终排在最后
+ */
+export function sortOptimizationRuns(
+  runs: OptimizationRun[],
+  key: string,
+  order: "asc" | "desc" = "desc"
+): OptimizationRun[] {
+  const getValue = (run: OptimizationRun): number | null => {
+    if ((METRICS as string[]).includes(key)) {
+      return run[key as OptimizationMetric];
+    }
+    return run.params[key] ?? null;
+  };
+
+  return [...runs].sort((a, b) => {
+    const va = getValue(a);
+    const vb = getValue(b);
+    if (va === null || vb === null) {
+      return va === null ? (vb === null ? 0 : 1) : -1;
+    }
+    return order === "asc" ? va - vb : vb - va;
+  });
+}
+
+/**
+ * 每两个扫描参数一张热力图，格子取该组合下（其他参数任意）的最佳目标值
+ */
+export function buildHeatmaps(ranges: OptimizationParamRange[], runs: OptimizationRun[]): OptimizationHeatmap[] {
+  const heatmaps: OptimizationHeatmap[] = [];
+
+  for (let i = 0; i < ranges.length; i++) {
+    for (let j = i + 1; j < ranges.length; j++) {
+      const x = ranges[i];
+      const y = ranges[j];
+      const values: (number | null)[][] = y.values.map(() => x.values.map(() => null));
+
+      for (const run of runs) {
+        if (run.score === null) {
+          continue;
+        }
+        const xi = x.values.indexOf(run.params[x.key]);
+        const yi = y.values.indexOf(run.params[y.key]);
+        if (xi < 0 || yi < 0) {
+          continue;
+        }
+        const cell = values[yi][xi];
+        if (cell === null || run.score > cell) {
+          values[yi][xi] = run.score;
+        }
+      }
+
+      heatmaps.push({ xParam: x.key, yParam: y.key, xValues: x.values, yValues: y.values, values });
+    }
+  }
+
+  return heatmaps;
+}
+
+/**
+ * 运行参数优化
+ *
+ * @param ranges 扫描参数的搜索范围（buildSearchSpace）
+ * @param evaluate 用完整参数（base.params 覆盖扫描参数）运行一次回测
+ * @param onResult 每次回测完成后回调（如持久化），失败的回测不回调
+ */
+export async function runOptimization(
+  config: OptimizationConfig,
+  ranges: OptimizationParamRange[],
+  evaluate: (params: BaseStrategyParams) => Promise<BacktestResult>,
+  onResult?: (run: OptimizationRun, result: BacktestResult) => Promise<void>
+): Promise<OptimizationResult> {
+  if (ranges.length === 0) {
+    throw new Error("No params to optimize");
+  }
+  if (config.objective === "max_drawdown" && !(config.maxDrawdownLimit && config.maxDrawdownLimit > 0)) {
+    throw new Error("max_drawdown objective requires maxDrawdownLimit");
+  }
+
+  const totalCombinations = countCombinations(ranges);
+  const iterations = Math.min(config.iterations || DEFAULT_OPTIMIZATION_ITERATIONS, totalCombinations);
+  const concurrency = Math.max(1, config.concurrency || 1);
+  const tried = new Set<string>();
+  const history: EvaluatedPoint[] = [];
+  const runs: OptimizationRun[] = [];
+
+  const evaluateBatch = async (batch: number[][]) => {
+    await Promise.all(
+      batch.map(async (indices) => {
+        const params = toParams(ranges, indices);
+        let run: OptimizationRun;
+        let result: BacktestResult | null = null;
+        try {
+          result = await evaluate({ ...config.base.params, ...params });
+          run = toOptimizationRun(params, result, config);
+        } catch (error) {
+          run = {
+            params,
+            score: null,
+            netProfit: 0,
+            sharpeRatio: 0,
+            profitFactor: 0,
+            maxDrawdownPercent: 0,
+            totalTrades: 0,
+            winRate: 0,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+
+        if (result) {
+          await onResult?.(run, result);
+        }
+        runs.push(run);
+        history.push({ indices, score: run.score });
+      })
+    );
+  };
+
+  if (config.mode === "grid") {
+    if (totalCombinations > MAX_GRID_COMBINATIONS) {
+      throw new Error(
+        `Grid search would run ${totalCombinations} backtests (limit ${MAX_GRID_COMBINATIONS}), use random or bayesian mode`
+      );
+    }
+    await evaluateBatch(gridCombinations(ranges));
+  } else if (config.mode === "random") {
+    // 采样次数覆盖整个搜索空间时等同网格搜索
+    await evaluateBatch(
+      iterations >= totalCombinations ? gridCombinations(ranges) : sampleRandom(ranges, iterations, tried)
+    );
+  } else {
+    // 先随机采样约 30% 的次数，之后每轮按 worker 数提议一批组合
+    const initial = Math.min(iterations, Math.max(5, Math.round(iterations * 0.3)));
+    await evaluateBatch(sampleRandom(ranges, initial, tried));
+    while (history.length < iterations) {
+      const batch = proposeTpe(ranges, history, Math.min(concurrency, iterations - history.length), tried);
+      if (batch.length === 0) {
+        break;
+      }
+      await evaluateBatch(batch);
+    }
+  }
+
+  const sorted = sortOptimizationRuns(runs, "score", "desc");
+  return {
+    strategyId: config.base.strategyId,
+    mode: config.mode,
+    objective: config.objective,
+    ranges,
+    totalCombinations,
+    runs: sorted,
+    best: sorted.length > 0 && sorted[0].score !== null ? sorted[0] : null,
+    heatmaps: buildHeatmaps(ranges, runs),
+  };
+}
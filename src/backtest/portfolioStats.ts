@@ -0,0 +1,97 @@
+/**
+ * 组合回测统计
+ * 各交易对的收益贡献和日收益相关性
+ *
+ * 引擎在每个自然日（UTC）结束时记录各交易对的累计盈亏（已实现 + 浮动），
+ * 相邻两日之差即该交易对当日对组合的收益（金额），相关系数按日收益序列计算
+ */
+
+import type { BacktestTrade, CorrelationMatrix, SymbolContribution } from "../types/backtest";
+
+/**
+ * 累计序列转为逐期变化
+ */
+export function toDailyChanges(cumulative: number[]): number[] {
+  const changes: number[] = [];
+  for (let i = 1; i < cumulative.length; i++) {
+    changes.push(cumulative[i] - cumulative[i - 1]);
+  }
+  return changes;
+}
+
+/**
+ * 皮尔逊相关系数，样本少于 3 个或任一序列没有波动时返回 null
+ */
+export function pearsonCorrelation(a: number[], b: number[]): number | null {
+  const n = Math.min(a.length, b.length);
+  if (n < 3) {
+    return null;
+  }
+
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= n;
+  meanB /= n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) * (a[i] - meanA);
+    varianceB += (b[i] - meanB) * (b[i] - meanB);
+  }
+  if (varianceA === 0 || varianceB === 0) {
+    return null;
+  }
+
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * 各交易对日收益的相关系数矩阵
+ */
+export function buildCorrelationMatrix(
+  symbols: string[],
+  dailyPnlBySymbol: Record<string, number[]>
+): CorrelationMatrix {
+  const values = symbols.map((a, i) =>
+    symbols.map((b, j) => {
+      if (i === j) {
+        return dailyPnlBySymbol[a]?.some((v) => v !== 0) ? 1 : null;
+      }
+      return pearsonCorrelation(dailyPnlBySymbol[a] || [], dailyPnlBySymbol[b] || []);
+    })
+  );
+  return { symbols, values };
+}
+
+/**
+ * 各交易对的交易统计、收益占比及与组合日收益的相关性
+ */
+export function buildContributions(
+  symbols: string[],
+  trades: BacktestTrade[],
+  dailyPnlBySymbol: Record<string, number[]>,
+  portfolioDailyPnl: number[],
+  portfolioNetProfit: number
+): SymbolContribution[] {
+  return symbols.map((symbol) => {
+    const symbolTrades = trades.filter((t) => t.symbol === symbol);
+    const winningTrades = symbolTrades.filter((t) => t.profit! > 0).length;
+    const netProfit = symbolTrades.reduce((sum, t) => sum + (t.profit || 0), 0);
+
+    return {
+      symbol,
+      totalTrades: symbolTrades.length,
+      winRate: symbolTrades.length > 0 ? (winningTrades / symbolTrades.length) * 100 : 0,
+      netProfit,
+      contributionPercent: portfolioNetProfit !== 0 ? (netProfit / portfolioNetProfit) * 100 : 0,
+      correlationToPortfolio: pearsonCorrelation(dailyPnlBySymbol[symbol] || [], portfolioDailyPnl),
+    };
+  });
+}
@@ -0,0 +1,278 @@
+/**
+ * 前推分析（Walk-forward）
+ * 把分析区间切分为连续的样本内 / 样本外窗口：每个样本内窗口重新运行参数优化，
+ * 再用选出的最优参数回测紧随其后的样本外窗口。样本外回测承接上一窗口的期末权益，
+ * 各窗口的样本外资金曲线依次拼接，用于评估参数在未参与优化的数据上的表现
+ *
+ * 每个窗口只在窗口内交易，窗口之前的K线（回测引擎收到的整段K线中 startTime 之前的部分）用于预热指标，
+ * 样本外回测不会从冷启动开始
+ */
+
+import type {
+  BacktestConfig,
+  BacktestResult,
+  EquityPoint,
+  OptimizationParamRange,
+  OptimizationRun,
+  ParameterStability,
+  WalkForwardConfig,
+  WalkForwardMode,
+  WalkForwardResult,
+  WalkForwardWindow,
+} from "../types/backtest";
+import { calculateSharpeRatio, runOptimization, toOptimizationRun } from "./optimizer";
+
+// 最多切分的窗口数
+export const MAX_WALK_FORWARD_WINDOWS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type WindowRange = Pick<
+  WalkForwardWindow,
+  "index" | "inSampleStart" | "inSampleEnd" | "outOfSampleStart" | "outOfSampleEnd"
+>;
+
+/**
+ * 切分窗口：样本外窗口首尾相接地覆盖样本内窗口之后的区间，最后一个样本外窗口截断到 endTime
+ * （窗口的结束时间包含在内，与 BacktestConfig.endTime 一致）
+ */
+export function buildWalkForwardWindows(
+  startTime: number,
+  endTime: number,
+  mode: WalkForwardMode,
+  inSampleDuration: number,
+  outOfSampleDuration: number
+): WindowRange[] {
+  if (!(inSampleDuration > 0) || !(outOfSampleDuration > 0)) {
+    throw new Error("In-sample and out-of-sample durations must be positive");
+  }
+
+  const windows: WindowRange[] = [];
+  for (let oosStart = startTime + inSampleDuration; oosStart <= endTime; oosStart += outOfSampleDuration) {
+    if (windows.length >= MAX_WALK_FORWARD_WINDOWS) {
+      throw new Error(`Walk-forward would use more than ${MAX_WALK_FORWARD_WINDOWS} windows`);
+    }
+    windows.push({
+      index: windows.length,
+      inSampleStart: mode === "anchored" ? startTime : oosStart - inSampleDuration,
+      inSampleEnd: oosStart - 1,
+      outOfSampleStart: oosStart,
+      outOfSampleEnd: Math.min(oosStart + outOfSampleDuration - 1, endTime),
+    });
+  }
+
+  if (windows.length === 0) {
+    throw new Error("Time range is shorter than the in-sample window");
+  }
+  return windows;
+}
+
+/**
+ * 按复利折算的日均收益率（锚定模式的样本内窗口越来越长，按天数线性平均会高估）
+ */
+function dailyReturn(netProfit: number, initialBalance: number, start: number, end: number): number {
+  const days = (end - start + 1) / DAY_MS;
+  if (initialBalance <= 0 || days <= 0) {
+    return 0;
+  }
+  const growth = 1 + netProfit / initialBalance;
+  return growth > 0 ? Math.pow(growth, 1 / days) - 1 : -1;
+}
+
+function windowEfficiency(window: WalkForwardWindow, baseBalance: number): number | null {
+  if (!window.inSample || !window.outOfSample) {
+    return null;
+  }
+  const inSampleReturn = dailyReturn(window.inSample.netProfit, baseBalance, window.inSampleStart, window.inSampleEnd);
+  if (inSampleReturn <= 0) {
+    return null;
+  }
+  const outOfSampleReturn = dailyReturn(
+    window.outOfSample.netProfit,
+    window.initialBalance,
+    window.outOfSampleStart,
+    window.outOfSampleEnd
+  );
+  return outOfSampleReturn / inSampleReturn;
+}
+
+/**
+ * 整体前推效率：各窗口样本外日均收益率的平均值 / 样本内日均收益率的平均值
+ */
+function overallEfficiency(windows: WalkForwardWindow[], baseBalance: number): number | null {
+  let inSampleSum = 0;
+  let outOfSampleSum = 0;
+  let count = 0;
+  for (const window of windows) {
+    if (!window.inSample || !window.outOfSample) {
+      continue;
+    }
+    inSampleSum += dailyReturn(window.inSample.netProfit, baseBalance, window.inSampleStart, window.inSampleEnd);
+    outOfSampleSum += dailyReturn(
+      window.outOfSample.netProfit,
+      window.initialBalance,
+      window.outOfSampleStart,
+      window.outOfSampleEnd
+    );
+    count++;
+  }
+  return count > 0 && inSampleSum > 0 ? outOfSampleSum / inSampleSum : null;
+}
+
+/**
+ * 各扫描参数在窗口间的稳定性
+ */
+export function buildParameterStability(
+  ranges: OptimizationParamRange[],
+  windows: WalkForwardWindow[]
+): ParameterStability[] {
+  return ranges.map((range) => {
+    const values = windows
+      .map((window) => window.params?.[range.key])
+      .filter((value): value is number => value !== undefined);
+    if (values.length === 0) {
+      return { key: range.key, label: range.label, values, mean: 0, std: 0, min: 0, max: 0, normalizedStd: 0, changes: 0 };
+    }
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length);
+    const width = Math.max(...range.values) - Math.min(...range.values);
+    let changes = 0;
+    for (let i = 1; i < values.length; i++) {
+      if (values[i] !== values[i - 1]) {
+        changes++;
+      }
+    }
+
+    return {
+      key: range.key,
+      label: range.label,
+      values,
+      mean,
+      std,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      normalizedStd: width > 0 ? std / width : 0,
+      changes,
+    };
+  });
+}
+
+/**
+ * 拼接样本外资金曲线，回撤按整条曲线的历史最高权益重新计算
+ */
+function stitchEquityCurves(curves: EquityPoint[][], initialBalance: number): EquityPoint[] {
+  const stitched: EquityPoint[] = [];
+  let peak = initialBalance;
+  for (const curve of curves) {
+    for (const point of curve) {
+      peak = Math.max(peak, point.equity);
+      const drawdown = peak - point.equity;
+      stitched.push({
+        time: point.time,
+        equity: point.equity,
+        drawdown,
+        drawdownPercent: peak > 0 ? (drawdown / peak) * 100 : 0,
+      });
+    }
+  }
+  return stitched;
+}
+
+/**
+ * 运行前推分析
+ *
+ * @param ranges 扫描参数的搜索范围（buildSearchSpace）
+ * @param evaluate 运行一次回测（config 的时间范围为某个窗口）
+ */
+export async function runWalkForward(
+  config: WalkForwardConfig,
+  ranges: OptimizationParamRange[],
+  evaluate: (config: BacktestConfig) => Promise<BacktestResult>
+): Promise<WalkForwardResult> {
+  const { optimization } = config;
+  const base = optimization.base;
+  const spans = buildWalkForwardWindows(
+    base.startTime,
+    base.endTime,
+    config.mode,
+    config.inSampleDuration,
+    config.outOfSampleDuration
+  );
+
+  const windows: WalkForwardWindow[] = [];
+  const curves: EquityPoint[][] = [];
+  let balance = base.initialBalance;
+  let totalTrades = 0;
+  let winningTrades = 0;
+
+  for (const span of spans) {
+    const window: WalkForwardWindow = {
+      ...span,
+      params: null,
+      inSample: null,
+      outOfSample: null,
+      initialBalance: balance,
+      efficiency: null,
+    };
+    windows.push(window);
+
+    try {
+      const inSampleConfig: BacktestConfig = { ...base, startTime: span.inSampleStart, endTime: span.inSampleEnd };
+      const optimized = await runOptimization({ ...optimization, base: inSampleConfig }, ranges, (params) =>
+        evaluate({ ...inSampleConfig, params })
+      );
+      if (!optimized.best) {
+        window.error = "No param combination scored in the in-sample window";
+        continue;
+      }
+      window.params = optimized.best.params;
+      window.inSample = optimized.best;
+
+      const outOfSampleConfig: BacktestConfig = {
+        ...base,
+        startTime: span.outOfSampleStart,
+        endTime: span.outOfSampleEnd,
+        initialBalance: balance,
+        params: { ...base.params, ...optimized.best.params },
+      };
+      const result = await evaluate(outOfSampleConfig);
+      const outOfSample: OptimizationRun = toOptimizationRun(optimized.best.params, result, {
+        base: outOfSampleConfig,
+        objective: optimization.objective,
+        maxDrawdownLimit: optimization.maxDrawdownLimit,
+      });
+      window.outOfSample = outOfSample;
+      window.efficiency = windowEfficiency(window, base.initialBalance);
+
+      curves.push(result.equityCurve);
+      balance += result.netProfit;
+      totalTrades += result.totalTrades;
+      winningTrades += result.winningTrades;
+    } catch (error) {
+      window.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const equityCurve = stitchEquityCurves(curves, base.initialBalance);
+  const netProfit = balance - base.initialBalance;
+
+  return {
+    strategyId: base.strategyId,
+    mode: config.mode,
+    objective: optimization.objective,
+    windows,
+    equityCurve,
+    initialBalance: base.initialBalance,
+    finalBalance: balance,
+    netProfit,
+    returnPercent: base.initialBalance > 0 ? (netProfit / base.initialBalance) * 100 : 0,
+    maxDrawdown: equityCurve.reduce((max, point) => Math.max(max, point.drawdown), 0),
+    maxDrawdownPercent: equityCurve.reduce((max, point) => Math.max(max, point.drawdownPercent), 0),
+    sharpeRatio: calculateSharpeRatio(equityCurve, base.initialBalance),
+    totalTrades,
+    winRate: totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0,
+    efficiency: overallEfficiency(windows, base.initialBalance),
+    parameterStability: buildParameterStability(ranges, windows),
+  };
+}
@@ -2,8 +2,12 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import StrategySelector from "./StrategySelector";
-import { strategyManager } from "../utils/strategyManager";
+import RuleStrategyEditor from "./RuleStrategyEditor";
+import { strategyRegistry } from "../strategies/StrategyRegistry";
 import { BaseStrategyParams, KLineData } from "../types/strategy";
+import type { PresetReference } from "../utils/strategyPresets";
+import { buildMultiTimeframeContext } from "../utils/timeframeAligner";
+import { DEFAULT_EMA_TREND_PARAMS, getEMATrendDirection } from "../strategies/EMATrendStrategy";
 
 // 类型定义
 interface FuturesSymbol {
@@ -134,6 +138,7 @@ export default function BinanceAutoTrader() {
   // 策略相关状态
   const [selectedStrategyId, setSelectedStrategyId] = useState<string>("");
   const [strategyParams, setStrategyParams] = useState<BaseStrategyParams>({});
+  const [ruleStrategyVersion, setRuleStrategyVersion] = useState(0); // 规则策略保存后刷新策略列表
 
   const [tradingConfig, setTradingConfig] = useState<TradingConfig>(DEFAULT_TRADING_CONFIG);
   const [loading, setLoading] = useState(false);
@@ -148,10 +153,17 @@ export default function BinanceAutoTrader() {
   const [contractPool, setContractPool] = useState<string[]>([]); // 合约池（高成交量合约列表）
 
   // 处理策略变更
-  const handleStrategyChange = (strategyId: string, params: BaseStrategyParams) => {
+  const handleStrategyChange = (
+    strategyId: string,
+    params: BaseStrategyParams,
+    preset?: PresetReference | null
+  ) => {
     setSelectedStrategyId(strategyId);
     setStrategyParams(params);
-    addSystemLog(`切换策略到: ${strategyManager.getStrategy(strategyId)?.meta.name}`, 'info');
+    addSystemLog(`切换策略到: ${strategyRegistry.getStrategy(strategyId)?.meta.name}`, 'info');
+    if (preset) {
+      addSystemLog(`使用参数预设 v${preset.presetVersion}`, 'info');
+    }
   };
 
   const wsRef = useRef<WebSocket | null>(null);
@@ -178,11 +190,11 @@ export default function BinanceAutoTrader() {
     if (savedApiSecret) setApiSecret(savedApiSecret);
 
     // 初始化策略选择
-    const strategies = strategyManager.getAllStrategyMetas();
+    const strategies = strategyRegistry.getAllStrategyMetas();
     if (strategies.length > 0 && !selectedStrategyId) {
       const defaultStrategy = strategies[0];
       setSelectedStrategyId(defaultStrategy.id);
-      const defaultParams = strategyManager.getDefaultParams(defaultStrategy.id);
+      const defaultParams = strategyRegistry.getDefaultParams(defaultStrategy.id);
       if (defaultParams) {
         setStrategyParams(defaultParams);
       }
@@ -356,7 +368,7 @@ export default function BinanceAutoTrader() {
           // 检测信号（使用策略管理器）- 独立 try-catch
           try {
             // 获取策略要求的K线周期
-            const strategy = strategyManager.getStrategy(selectedStrategyId);
+            const strategy = strategyRegistry.getStrategy(selectedStrategyId);
             const requiredTimeframe = strategy?.meta.timeframe || ["15m", "5m"];
 
             // 检查K线数据是否足够
@@ -1024,425 +1036,28 @@ export default function BinanceAutoTrader() {
     }
   }, [connected, autoTrading, positions]);
 
-  // 计算EMA
-  const calculateEMA = (data: KLineData[], period: number): number[] => {
-    if (data.length < period) return [];
-
-    const ema: number[] = [];
-    const multiplier = 2 / (period + 1);
-
-    let sum = 0;
-    for (let i = 0; i < period; i++) {
-      sum += data[i].close;
-    }
-    ema.push(sum / period);
-
-    for (let i = period; i < data.length; i++) {
-      const currentEMA = (data[i].close - ema[i - period]) * multiplier + ema[i - period];
-      ema.push(currentEMA);
-    }
-
-    return ema;
-  };
-
-  const calculateVolumeMA = (data: KLineData[], period: number): number[] => {
-    if (data.length < period) return [];
-
-    const ma: number[] = [];
-    for (let i = 0; i < data.length; i++) {
-      const start = Math.max(0, i - period + 1);
-      const slice = data.slice(start, i + 1);
-      const avg = slice.reduce((sum, k) => sum + k.volume, 0) / slice.length;
-      ma.push(avg);
-    }
-    return ma;
-  };
-
-  // 计算RSI
-  const calculateRSI = (data: KLineData[], period: number): number[] => {
-    const rsi: number[] = new Array(data.length).fill(50);
-    const gains: number[] = [];
-    const losses: number[] = [];
-
-    for (let i = 1; i < data.length; i++) {
-      const change = data[i].close - data[i - 1].close;
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-
-    if (gains.length < period) {
-      return rsi;
-    }
-
-    // 初始平均
-    let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
-    let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
-
-    // 计算第一个RSI值
-    let firstRSI: number;
-    if (avgLoss === 0) {
-      firstRSI = 100;
-    } else {
-      const rs = avgGain / avgLoss;
-      firstRSI = 100 - 100 / (1 + rs);
-    }
-    rsi[period] = firstRSI;
-
-    // 后续RSI值
-    for (let i = period; i < gains.length; i++) {
-      avgGain = (avgGain * (period - 1) + gains[i]) / period;
-      avgLoss = (avgLoss * (period - 1) + losses[i]) / period;
-
-      const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-      rsi[i + 1] = 100 - 100 / (1 + rs);
-    }
-
-    return rsi;
-  };
-
-  // 15分钟趋势判断（优化版：更宽松的条件）
-  const getTrendDirection = (
-    data15m: KLineData[],
-    emaShort: number[],
-    emaLong: number[],
-    volumeMA: number[],
-    params: any
-  ): "long" | "short" | "none" => {
-    if (data15m.length < params.emaLong) return "none";
-
-    // EMA数组的索引：EMA数组长度 = data.length - period + 1
-    // 使用最短的EMA数组长度作为索引，避免越界
-    const minEmaLength = Math.min(emaShort.length, emaLong.length, volumeMA.length);
-    const emaIndex = minEmaLength - 1;
-    const dataIndex = data15m.length - 1;
-
-    const emaS = emaShort[emaIndex];
-    const emaL = emaLong[emaIndex];
-    const close = data15m[dataIndex].close;
-    const volume = data15m[dataIndex].volume;
-    const volMA = volumeMA[emaIndex];
-
-    // 安全检查：确保EMA值存在
-    if (emaS === undefined || emaL === undefined || emaL === 0) {
-      console.log(`[趋势判断] EMA值无效: emaS=${emaS}, emaL=${emaL}`);
-      return "none";
-    }
-
-    // 检查趋势距离
-    const distance = Math.abs(emaS - emaL) / emaL * 100;
-    if (distance < params.minTrendDistance) {
-      console.log(`[趋势判断] 距离不足: ${distance.toFixed(3)}% < ${params.minTrendDistance}%`);
-      return "none";
-    }
-
-    // 简化多头条件：只需要EMA多头排列且价格在EMA${params.emaShort}上方
-    const bullish = emaS > emaL && close > emaS;
-    if (bullish) {
-      console.log(`[趋势判断] 多头条件满足: EMA${params.emaShort}(${emaS.toFixed(2)}) > EMA${params.emaLong}(${emaL.toFixed(2)}), 价格(${close.toFixed(2)}) > EMA${params.emaShort}`);
-      // 可选：检查最近3根K线是否跌破EMA60（宽松版本移除此检查）
-      return "long";
-    }
-
-    // 简化空头条件：只需要EMA空头排列且价格在EMA${params.emaShort}下方
-    const bearish = emaS < emaL && close < emaS;
-    if (bearish) {
-      console.log(`[趋势判断] 空头条件满足: EMA${params.emaShort}(${emaS.toFixed(2)}) < EMA${params.emaLong}(${emaL.toFixed(2)}), 价格(${close.toFixed(2)}) < EMA${params.emaShort}`);
-      // 可选：检查最近3根K线是否突破EMA60（宽松版本移除此检查）
-      return "short";
-    }
-
-    console.log(`[趋势判断] 趋势不明确: EMA${params.emaShort}=${emaS.toFixed(2)}, EMA${params.emaLong}=${emaL.toFixed(2)}, 价格=${close.toFixed(2)}`);
-    return "none";
-  };
-
-  // 5分钟进场逻辑（优化版：更简单的条件，支持配置开关）
-  const checkEntrySignal = (
-    data5m: KLineData[],
-    trendDirection: "long" | "short",
-    emaShort5m: number[],
-    emaLong5m: number[],
-    rsi5m: number[],
-    params: any
-  ): { signal: boolean; type: "long" | "short"; reason: string; details: string } => {
-    if (data5m.length < params.emaLong + 10) return {
-      signal: false,
-      type: trendDirection,
-      reason: "数据不足",
-      details: `需要${params.emaLong + 10}条K线，实际只有${data5m.length}条`
-    };
-
-    // EMA和RSI数组的索引：EMA数组长度 = data.length - period + 1
-    // 使用最短的数组长度作为索引，避免越界
-    const minArrayLength = Math.min(emaShort5m.length, emaLong5m.length, rsi5m.length);
-    const dataIndex = data5m.length - 1;
-    const emaIndex = minArrayLength - 1;
-
-    const current = data5m[dataIndex];
-    const prev = data5m[dataIndex - 1];
-    const prev2 = data5m[dataIndex - 2];
-
-    // 对于EMA和RSI，需要使用对应的索引
-    // ema[emaIndex] 对应 data[dataIndex]
-    // ema[emaIndex - 1] 对应 data[dataIndex - 1]
-    const emaS = emaShort5m[emaIndex];
-    const emaL = emaLong5m[emaIndex];
-    const emaS_Prev = emaShort5m[emaIndex - 1];
-    const rsi = rsi5m[emaIndex];
-    const rsiPrev = rsi5m[emaIndex - 1];
-
-    // 安全检查：确保指标值存在
-    if (emaS === undefined || emaL === undefined || rsi === undefined || rsiPrev === undefined) {
-      console.log(`[5分钟进场] 指标值无效: emaS=${emaS}, emaL=${emaL}, rsi=${rsi}`);
-      return {
-        signal: false,
-        type: trendDirection,
-        reason: "指标计算失败",
-        details: `EMA或RSI值无效`
-      };
-    }
-
-    console.log(`[5分钟进场] 趋势: ${trendDirection}, 价格: ${current.close.toFixed(2)}, EMA${params.emaShort}: ${emaS.toFixed(2)}, EMA${params.emaLong}: ${emaL.toFixed(2)}, RSI: ${rsi.toFixed(1)}`);
-
-    const failedChecks: string[] = [];
-
-    if (trendDirection === "long") {
-      // 优化后的做多条件：价格在EMA${params.emaShort}上方且满足以下任一条件
-      const priceAboveEMA = current.close > emaS;
-      if (params.enablePriceEMAFilter && !priceAboveEMA) {
-        failedChecks.push(`价格${current.close.toFixed(2)}不在EMA${params.emaShort}(${emaS.toFixed(2)})上方`);
-      }
-
-      // 条件1：RSI从超卖区反弹（RSI < 阈值 且 RSI上升）
-      const rsiRecovery = rsi < params.rsiThreshold && rsi > rsiPrev;
-      if (params.enableRSIFilter && !rsiRecovery) {
-        if (rsi >= params.rsiThreshold) {
-          failedChecks.push(`RSI=${rsi.toFixed(1)}不在超卖区(需要<${params.rsiThreshold})`);
-        } else if (rsi <= rsiPrev) {
-          failedChecks.push(`RSI未反弹(${rsi.toFixed(1)} <= ${rsiPrev.toFixed(1)})`);
-        }
-      }
-
-      // 条件2：最近N根K线有回踩（价格曾触及EMA${params.emaShort}）
-      const touchedEma = prev.low <= emaS || prev2.low <= emaS;
-      if (params.enableTouchedEmaFilter && !touchedEma) {
-        failedChecks.push(`最近${params.emaTouchLookback}根K线未触及EMA${params.emaShort}(${prev2.low.toFixed(2)}, ${prev.low.toFixed(2)} > ${emaS.toFixed(2)})`);
-      }
-
-      // 条件3：阳线确认（当前K线收阳且涨幅 > 0.1%）
-      const candleChange = (current.close - current.open) / current.open * 100;
-      const bullishCandle = current.close > current.open &&
-                           candleChange >= params.minCandleChangePercent;
-      if (params.enableCandleColorFilter && !bullishCandle) {
-        if (current.close <= current.open) {
-          failedChecks.push(`当前不是阳线(${current.close.toFixed(2)} <= ${current.open.toFixed(2)})`);
-        } else {
-          failedChecks.push(`阳线涨幅${candleChange.toFixed(3)}%不足${params.minCandleChangePercent}%`);
-        }
-      }
-
-      console.log(`[5分钟进场 多头] 价格>EMA: ${priceAboveEMA}, RSI反弹: ${rsiRecovery}, 回踩: ${touchedEma}, 阳线: ${bullishCandle}, 失败检查: [${failedChecks.join(', ')}]`);
-
-      // 计算满足的条件数（关闭的条件自动视为已满足）
-      let passedConditions = 0;
-      if (!params.enablePriceEMAFilter || priceAboveEMA) passedConditions++;
-      if (!params.enableRSIFilter || rsiRecovery) passedConditions++;
-      if (!params.enableTouchedEmaFilter || touchedEma) passedConditions++;
-      if (!params.enableCandleColorFilter || bullishCandle) passedConditions++;
-
-      // 动态计算开启的条件数量
-      const enabledConditionsCount = [
-        params.enablePriceEMAFilter,
-        params.enableRSIFilter,
-        params.enableTouchedEmaFilter,
-        params.enableCandleColorFilter
-      ].filter(Boolean).length || 4; // 如果全部关闭，默认为4个条件
-
-      const minRequired = Math.min(params.minConditionsRequired, enabledConditionsCount);
-
-      if (passedConditions >= minRequired) {
-        console.log(`[5分钟进场] ✅ 多头信号触发 (${passedConditions}/${enabledConditionsCount}条件, 需要${minRequired}个)`);
-        return {
-          signal: true,
-          type: "long",
-          reason: `多头进场（${passedConditions}/${enabledConditionsCount}条件满足）`,
-          details: `价格:${current.close.toFixed(2)}, RSI:${rsi.toFixed(1)}, EMA${params.emaShort}:${emaS.toFixed(2)}`
-        };
-      } else {
-        console.log(`[5分钟进场] ❌ 多头未触发 (${passedConditions}/${enabledConditionsCount}条件, 需要${minRequired}个)`);
-        return {
-          signal: false,
-          type: trendDirection,
-          reason: `多头进场未通过 (${passedConditions}/${enabledConditionsCount}条件, 需要${minRequired}个)`,
-          details: `未满足条件: ${failedChecks.length > 0 ? failedChecks.join('; ') : '满足条件不足' + minRequired + '个'}`
-        };
-      }
-    } else {
-      // 优化后的做空条件：价格在EMA${params.emaShort}下方且满足以下任一条件
-      const priceBelowEMA = current.close < emaS;
-      if (params.enablePriceEMAFilter && !priceBelowEMA) {
-        failedChecks.push(`价格${current.close.toFixed(2)}不在EMA${params.emaShort}(${emaS.toFixed(2)})下方`);
-      }
-
-      // 条件1：RSI从超买区回落（RSI > 阈值 且 RSI下降）
-      const rsiDecline = rsi > params.rsiThreshold && rsi < rsiPrev;
-      if (params.enableRSIFilter && !rsiDecline) {
-        if (rsi <= params.rsiThreshold) {
-          failedChecks.push(`RSI=${rsi.toFixed(1)}不在超买区(需要>${params.rsiThreshold})`);
-        } else if (rsi >= rsiPrev) {
-          failedChecks.push(`RSI未回落(${rsi.toFixed(1)} >= ${rsiPrev.toFixed(1)})`);
-        }
-      }
-
-      // 条件2：最近3根K线有反弹（价格曾触及EMA${params.emaShort}）
-      const touchedEma = prev.high >= emaS || prev2.high >= emaS;
-      if (params.enableTouchedEmaFilter && !touchedEma) {
-        failedChecks.push(`最近3根K线未触及EMA${params.emaShort}(${prev2.high.toFixed(2)}, ${prev.high.toFixed(2)} < ${emaS.toFixed(2)})`);
-      }
-
-      // 条件3：阴线确认（当前K线收阴且跌幅 > 0.1%）
-      const candleChange = (current.open - current.close) / current.open * 100;
-      const bearishCandle = current.close < current.open &&
-                           candleChange >= params.minCandleChangePercent;
-      if (params.enableCandleColorFilter && !bearishCandle) {
-        if (current.close >= current.open) {
-          failedChecks.push(`当前不是阴线(${current.close.toFixed(2)} >= ${current.open.toFixed(2)})`);
-        } else {
-          failedChecks.push(`阴线跌幅${candleChange.toFixed(3)}%不足${params.minCandleChangePercent}%`);
-        }
-      }
-
-      console.log(`[5分钟进场 空头] 价格<EMA: ${priceBelowEMA}, RSI回落: ${rsiDecline}, 反弹: ${touchedEma}, 阴线: ${bearishCandle}, 失败检查: [${failedChecks.join(', ')}]`);
-
-      // 计算满足的条件数（关闭的条件自动视为已满足）
-      let passedConditions = 0;
-      if (!params.enablePriceEMAFilter || priceBelowEMA) passedConditions++;
-      if (!params.enableRSIFilter || rsiDecline) passedConditions++;
-      if (!params.enableTouchedEmaFilter || touchedEma) passedConditions++;
-      if (!params.enableCandleColorFilter || bearishCandle) passedConditions++;
-
-      // 动态计算开启的条件数量
-      const enabledConditionsCount = [
-        params.enablePriceEMAFilter,
-        params.enableRSIFilter,
-        params.enableTouchedEmaFilter,
-        params.enableCandleColorFilter
-      ].filter(Boolean).length || 4; // 如果全部关闭，默认为4个条件
-
-      const minRequired = Math.min(params.minConditionsRequired, enabledConditionsCount);
-
-      if (passedConditions >= minRequired) {
-        console.log(`[5分钟进场] ✅ 空头信号触发 (${passedConditions}/${enabledConditionsCount}条件, 需要${minRequired}个)`);
-        return {
-          signal: true,
-          type: "short",
-          reason: `空头进场（${passedConditions}/${enabledConditionsCount}条件满足）`,
-          details: `价格:${current.close.toFixed(2)}, RSI:${rsi.toFixed(1)}, EMA${params.emaShort}:${emaS.toFixed(2)}`
-        };
-      } else {
-        console.log(`[5分钟进场] ❌ 空头未触发 (${passedConditions}/${enabledConditionsCount}条件, 需要${minRequired}个)`);
-        return {
-          signal: false,
-          type: trendDirection,
-          reason: `空头进场未通过 (${passedConditions}/${enabledConditionsCount}条件, 需要${minRequired}个)`,
-          details: `未满足条件: ${failedChecks.length > 0 ? failedChecks.join('; ') : '满足条件不足' + minRequired + '个'}`
-        };
-      }
-    }
-  };
-
-  // 使用策略管理器检测信号（多时间框架：15分钟趋势 + 5分钟回调进场）
+  // 使用策略管理器检测信号（15分钟和5分钟K线作为多时间框架上下文传给所选策略）
   const checkSignalsWithStrategy = (
     symbol: string,
     data15m: KLineData[],
     data5m: KLineData[],
     strategyId: string,
-    params: any
+    params: BaseStrategyParams
   ): { signal: Signal | null; reason: string; details: string } => {
-    try {
-      // 检查数据量
-      const emaLong = params.emaLong || 60;
-      if (data15m.length < emaLong + 10 || data5m.length < emaLong + 10) {
-        return {
-          signal: null,
-          reason: `数据不足`,
-          details: `15m:${data15m.length}条, 5m:${data5m.length}条, 需要${emaLong + 10}条`
-        };
-      }
-
-      // 步骤1: 15分钟趋势过滤
-      const emaShort15m = calculateEMA(data15m, params.emaShort);
-      const emaLong15m = calculateEMA(data15m, params.emaLong);
-      const volumeMA15m = calculateVolumeMA(data15m, params.volumePeriod);
-
-      const trendDirection = getTrendDirection(
-        data15m,
-        emaShort15m,
-        emaLong15m,
-        volumeMA15m,
-        params
-      );
-
-      if (trendDirection === "none") {
-        const minEmaLength = Math.min(emaShort15m.length, emaLong15m.length);
-        const emaIndex = minEmaLength - 1;
-        const dataIndex = data15m.length - 1;
-
-        const emaS = emaShort15m[emaIndex];
-        const emaL = emaLong15m[emaIndex];
-        const close = data15m[dataIndex].close;
-
-        if (emaS === undefined || emaL === undefined || emaL === 0) {
-          return {
-            signal: null,
-            reason: `EMA计算失败`,
-            details: `EMA数组长度不足或计算异常`
-          };
-        }
-
-        const distance = Math.abs(emaS - emaL) / emaL * 100;
-        return {
-          signal: null,
-          reason: `趋势不明确`,
-          details: `EMA${params.emaShort}:${emaS.toFixed(2)}, EMA${params.emaLong}:${emaL.toFixed(2)}, 价格:${close.toFixed(2)}, 距离:${distance.toFixed(2)}% < ${params.minTrendDistance}%`
-        };
-      }
+    const strategy = strategyRegistry.getStrategy(strategyId);
+    if (!strategy) {
+      return { signal: null, reason: `策略不存在`, details: strategyId };
+    }
 
-      // 步骤2: 5分钟回调进场
-      const emaShort5m = calculateEMA(data5m, params.emaShort);
-      const emaLong5m = calculateEMA(data5m, params.emaLong);
-      const rsi5m = calculateRSI(data5m, params.rsiPeriod);
-
-      const { signal, type, reason: entryReason, details: entryDetails } = checkEntrySignal(
-        data5m,
-        trendDirection,
-        emaShort5m,
-        emaLong5m,
-        rsi5m,
-        params
-      );
+    try {
+      const context = buildMultiTimeframeContext({ "15m": data15m, "5m": data5m }, "5m");
+      const result = strategy.detectSignal(symbol, data5m, params, context);
 
-      if (!signal) {
-        return {
-          signal: null,
-          reason: `${trendDirection === 'long' ? '多头' : '空头'}趋势，但进场条件不满足`,
-          details: `${entryReason}; ${entryDetails}`
-        };
+      // 这里只执行开仓信号，规则策略的平仓信号交给止损止盈单处理
+      if (result.signal?.action === "close") {
+        return { signal: null, reason: result.reason, details: result.details };
       }
-
-      const current5m = data5m[data5m.length - 1];
-      const signalReason = `15分钟${trendDirection === "long" ? "多头" : "空头"}趋势 + 5分钟回调进场 (${entryReason})`;
-      return {
-        signal: {
-          symbol,
-          direction: type,
-          time: current5m.timestamp,
-          reason: signalReason,
-          confidence: 0.85,
-          entryPrice: current5m.close,
-        },
-        reason: "信号触发",
-        details: entryDetails
-      };
+      return result;
     } catch (err: any) {
       console.error(`[checkSignalsWithStrategy] 策略检测失败:`, err);
       return {
@@ -1458,20 +1073,14 @@ export default function BinanceAutoTrader() {
     symbol: string,
     data15m: KLineData[]
   ): Signal | null => {
-    if (data15m.length < strategyParams.emaLong + 10) return null;
-
-    const emaShort15m = calculateEMA(data15m, strategyParams.emaShort);
-    const emaLong15m = calculateEMA(data15m, strategyParams.emaLong);
-    const volumeMA15m = calculateVolumeMA(data15m, strategyParams.volumePeriod);
-
-    const trendDirection = getTrendDirection(
-      data15m,
-      emaShort15m,
-      emaLong15m,
-      volumeMA15m,
-      strategyParams
-    );
+    const trendParams = {
+      emaShort: strategyParams.emaShort ?? DEFAULT_EMA_TREND_PARAMS.emaShort,
+      emaLong: strategyParams.emaLong ?? DEFAULT_EMA_TREND_PARAMS.emaLong,
+      minTrendDistance: strategyParams.minTrendDistance ?? DEFAULT_EMA_TREND_PARAMS.minTrendDistance,
+    };
+    if (data15m.length < trendParams.emaLong + 10) return null;
 
+    const { direction: trendDirection } = getEMATrendDirection(data15m, trendParams);
     if (trendDirection === "none") return null;
 
     const current15m = data15m[data15m.length - 1];
@@ -2041,7 +1650,12 @@ export default function BinanceAutoTrader() {
 
       {/* 策略选择和配置 */}
       {connected && (
-        <StrategySelector onStrategyChange={handleStrategyChange} />
+        <StrategySelector onStrategyChange={handleStrategyChange} refreshKey={ruleStrategyVersion} />
+      )}
+
+      {/* 自定义规则策略 */}
+      {connected && (
+        <RuleStrategyEditor onSaved={() => setRuleStrategyVersion((version) => version + 1)} />
       )}
 
       {/* 交易参数配置 */}
@@ -1,14 +1,32 @@
 "use client";
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   createChart,
   IChartApi,
+  IPriceLine,
+  ISeriesApi,
   ColorType,
   LineData,
+  LineStyle,
   CandlestickData,
+  SeriesMarker,
   Time,
+  WhitespaceData,
 } from "lightweight-charts";
+import type { SignalAnnotation } from "../types/strategy";
+import { adx, rsi } from "../indicators";
+import { ChartOverlayPrimitive, OverlaySegment, OverlayZone } from "./ChartOverlayPrimitive";
+
+// 全宽价格线（如持仓的止损/止盈、当前有效的流动性）
+export interface ChartPriceLine {
+  price: number;
+  kind: "liquidity" | "entry" | "stopLoss" | "takeProfit";
+  title?: string;
+}
+
+// 可在图例中开关的图层
+export type ChartLayer = "ema" | "trades" | "zones" | "levels" | "volume" | "rsi" | "adx";
 
 interface CandlestickChartProps {
   klines: Array<{
@@ -29,23 +47,122 @@ interface CandlestickChartProps {
     exitPrice: number;
     pnl: number;
   }>;
+  annotations?: SignalAnnotation[];
+  priceLines?: ChartPriceLine[];
+  defaultLayers?: Partial<Record<ChartLayer, boolean>>;
   height?: number;
 }
 
+// 图例（顺序即显示顺序）
+const LAYERS: Array<{ key: ChartLayer; label: string; color: string }> = [
+  { key: "ema", label: "EMA", color: "#3b82f6" },
+  { key: "trades", label: "交易", color: "#22c55e" },
+  { key: "zones", label: "区域 (FVG/OB)", color: "#a855f7" },
+  { key: "levels", label: "价位线", color: "#f59e0b" },
+  { key: "volume", label: "成交量", color: "#6b7280" },
+  { key: "rsi", label: "RSI", color: "#ec4899" },
+  { key: "adx", label: "ADX", color: "#14b8a6" },
+];
+
+const DEFAULT_LAYERS: Record<ChartLayer, boolean> = {
+  ema: true,
+  trades: true,
+  zones: true,
+  levels: true,
+  volume: true,
+  rsi: false,
+  adx: false,
+};
+
+// 副图（自上而下），每个副图占图表高度的比例
+const SUB_PANES = ["volume", "rsi", "adx"] as const;
+const SUB_PANE_HEIGHT = 0.15;
+
+const INDICATOR_PERIOD = 14;
+
+// 标注颜色
+const ANNOTATION_COLORS = {
+  bullish: "#22c55e",
+  bearish: "#ef4444",
+  orderBlockBullish: "#06b6d4",
+  orderBlockBearish: "#f97316",
+  liquidity: "#a855f7",
+  displacement: "#f59e0b",
+  entry: "#3b82f6",
+  stopLoss: "#ef4444",
+  takeProfit: "#22c55e",
+};
+
+// 默认值放在组件外，避免每次渲染生成新数组导致叠加层重建
+const NO_TRADES: NonNullable<CandlestickChartProps["trades"]> = [];
+const NO_ANNOTATIONS: SignalAnnotation[] = [];
+const NO_PRICE_LINES: ChartPriceLine[] = [];
+
+function toTime(timestamp: number): Time {
+  return Math.floor(timestamp / 1000) as Time;
+}
+
+/**
+ * 把任意时间戳对齐到图表上不晚于它的最后一根K线
+ * 标注可能来自更小的周期，叠加层只能定位到图表上存在的K线时间
+ */
+function toChartTime(timestamps: number[], timestamp: number): Time {
+  let low = 0;
+  let high = timestamps.length - 1;
+  let index = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timestamps[mid] <= timestamp) {
+      index = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return toTime(timestamps[index]);
+}
+
+/**
+ * 指标值转换为线图数据（预热阶段的 NaN 作为空白点）
+ */
+function toLineData(
+  klines: CandlestickChartProps["klines"],
+  values: number[]
+): Array<LineData | WhitespaceData> {
+  return klines.map((k, i) =>
+    Number.isFinite(values[i])
+      ? { time: toTime(k.timestamp), value: values[i] }
+      : { time: toTime(k.timestamp) }
+  );
+}
+
 export default function CandlestickChart({
   klines,
   emaShort,
   emaLong,
-  trades = [],
+  trades = NO_TRADES,
+  annotations = NO_ANNOTATIONS,
+  priceLines = NO_PRICE_LINES,
+  defaultLayers,
   height = 400,
 }: CandlestickChartProps) {
+  const [layers, setLayers] = useState<Record<ChartLayer, boolean>>(() => ({
+    ...DEFAULT_LAYERS,
+    ...defaultLayers,
+  }));
+
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
-  const candlestickSeriesRef = useRef<any>(null);
-  const emaShortSeriesRef = useRef<any>(null);
-  const emaLongSeriesRef = useRef<any>(null);
-  const volumeSeriesRef = useRef<any>(null);
+  const candlestickSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
+  const emaShortSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const emaLongSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<"Histogram"> | null>(null);
+  const rsiSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const adxSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const overlayRef = useRef<ChartOverlayPrimitive | null>(null);
+  const priceLineRefs = useRef<IPriceLine[]>([]);
 
+  // 图表只创建一次，之后所有属性变化都通过 setData / applyOptions 增量更新
   useEffect(() => {
     if (!chartContainerRef.current) return;
 
@@ -82,11 +199,11 @@ export default function CandlestickChart({
         secondsVisible: false,
       },
       width: chartContainerRef.current.clientWidth,
-      height,
+      height: chartContainerRef.current.clientHeight,
     });
 
     // Add candlestick series
-    candlestickSeriesRef.current = chart.addCandlestickSeries({
+    const candlestickSeries = chart.addCandlestickSeries({
       upColor: "#22c55e",
       downColor: "#ef4444",
       borderUpColor: "#22c55e",
@@ -94,37 +211,56 @@ export default function CandlestickChart({
       wickUpColor: "#22c55e",
       wickDownColor: "#ef4444",
     });
+    candlestickSeriesRef.current = candlestickSeries;
 
-    // Add EMA short series
+    // 区域和线段叠加层
+    const overlay = new ChartOverlayPrimitive();
+    candlestickSeries.attachPrimitive(overlay);
+    overlayRef.current = overlay;
+
+    // Add EMA series
     emaShortSeriesRef.current = chart.addLineSeries({
       color: "#3b82f6",
       lineWidth: 1,
-      title: "EMA" + (emaShort?.length || 20),
+      title: "EMA 短",
     });
-
-    // Add EMA long series
     emaLongSeriesRef.current = chart.addLineSeries({
       color: "#f59e0b",
       lineWidth: 1,
-      title: "EMA" + (emaLong?.length || 60),
+      title: "EMA 长",
     });
 
-    // Add volume series
+    // 副图：成交量 / RSI / ADX 各使用独立的价格轴，按 scaleMargins 分区显示
     volumeSeriesRef.current = chart.addHistogramSeries({
       color: "#6b7280",
       priceFormat: {
         type: "volume",
       },
-      priceScaleId: "",
+      priceScaleId: "volume",
+      lastValueVisible: false,
+      priceLineVisible: false,
     });
 
-    // Apply options to volume series
-    volumeSeriesRef.current.priceScale().applyOptions({
-      scaleMargins: {
-        top: 0.8,
-        bottom: 0,
-      },
+    const rsiSeries = chart.addLineSeries({
+      color: "#ec4899",
+      lineWidth: 1,
+      title: `RSI${INDICATOR_PERIOD}`,
+      priceScaleId: "rsi",
+      priceLineVisible: false,
+    });
+    rsiSeries.createPriceLine({ price: 70, color: "#6b7280", lineWidth: 1, lineStyle: LineStyle.Dotted, axisLabelVisible: false, title: "" });
+    rsiSeries.createPriceLine({ price: 30, color: "#6b7280", lineWidth: 1, lineStyle: LineStyle.Dotted, axisLabelVisible: false, title: "" });
+    rsiSeriesRef.current = rsiSeries;
+
+    const adxSeries = chart.addLineSeries({
+      color: "#14b8a6",
+      lineWidth: 1,
+      title: `ADX${INDICATOR_PERIOD}`,
+      priceScaleId: "adx",
+      priceLineVisible: false,
     });
+    adxSeries.createPriceLine({ price: 20, color: "#6b7280", lineWidth: 1, lineStyle: LineStyle.Dotted, axisLabelVisible: false, title: "" });
+    adxSeriesRef.current = adxSeries;
 
     chartRef.current = chart;
 
@@ -140,88 +276,262 @@ export default function CandlestickChart({
 
     return () => {
       window.removeEventListener("resize", handleResize);
+      chartRef.current = null;
+      overlayRef.current = null;
+      priceLineRefs.current = [];
       chart.remove();
     };
+  }, []);
+
+  useEffect(() => {
+    chartRef.current?.applyOptions({ height });
   }, [height]);
 
+  const timestamps = useMemo(() => klines.map((k) => k.timestamp), [klines]);
+
   useEffect(() => {
-    if (!candlestickSeriesRef.current || klines.length === 0) return;
+    if (!candlestickSeriesRef.current || !volumeSeriesRef.current) return;
 
     const candlestickData: CandlestickData[] = klines.map((k) => ({
-      time: (Math.floor(k.timestamp / 1000) as Time),
+      time: toTime(k.timestamp),
       open: k.open,
       high: k.high,
       low: k.low,
       close: k.close,
     }));
-
     candlestickSeriesRef.current.setData(candlestickData);
+
+    volumeSeriesRef.current.setData(
+      klines.map((k) => ({
+        time: toTime(k.timestamp),
+        value: k.volume,
+        color: k.close >= k.open ? "rgba(34, 197, 94, 0.3)" : "rgba(239, 68, 68, 0.3)",
+      }))
+    );
   }, [klines]);
 
   useEffect(() => {
-    if (!emaShortSeriesRef.current || !emaShort || emaShort.length === 0) return;
-
-    const emaShortData: LineData[] = klines.map((k, i) => ({
-      time: (Math.floor(k.timestamp / 1000) as Time),
-      value: emaShort[i] || k.close,
-    }));
+    if (!emaShortSeriesRef.current) return;
 
+    const emaShortData: LineData[] = emaShort && emaShort.length > 0
+      ? klines.map((k, i) => ({
+          time: toTime(k.timestamp),
+          value: emaShort[i] || k.close,
+        }))
+      : [];
     emaShortSeriesRef.current.setData(emaShortData);
   }, [emaShort, klines]);
 
   useEffect(() => {
-    if (!emaLongSeriesRef.current || !emaLong || emaLong.length === 0) return;
-
-    const emaLongData: LineData[] = klines.map((k, i) => ({
-      time: (Math.floor(k.timestamp / 1000) as Time),
-      value: emaLong[i] || k.close,
-    }));
+    if (!emaLongSeriesRef.current) return;
 
+    const emaLongData: LineData[] = emaLong && emaLong.length > 0
+      ? klines.map((k, i) => ({
+          time: toTime(k.timestamp),
+          value: emaLong[i] || k.close,
+        }))
+      : [];
     emaLongSeriesRef.current.setData(emaLongData);
   }, [emaLong, klines]);
 
-  useEffect(() => {
-    if (!volumeSeriesRef.current || klines.length === 0) return;
+  // 指标只在对应副图打开时计算
+  const rsiValues = useMemo(
+    () => (layers.rsi ? rsi(klines.map((k) => k.close), INDICATOR_PERIOD) : null),
+    [klines, layers.rsi]
+  );
+  const adxValues = useMemo(
+    () => (layers.adx ? adx(klines, INDICATOR_PERIOD).map((v) => v.adx) : null),
+    [klines, layers.adx]
+  );
 
-    const volumeData = klines.map((k) => ({
-      time: (Math.floor(k.timestamp / 1000) as Time),
-      value: k.volume,
-      color: k.close >= k.open ? "rgba(34, 197, 94, 0.3)" : "rgba(239, 68, 68, 0.3)",
-    }));
+  useEffect(() => {
+    if (rsiSeriesRef.current && rsiValues) {
+      rsiSeriesRef.current.setData(toLineData(klines, rsiValues));
+    }
+  }, [rsiValues, klines]);
 
-    volumeSeriesRef.current.setData(volumeData);
-  }, [klines]);
+  useEffect(() => {
+    if (adxSeriesRef.current && adxValues) {
+      adxSeriesRef.current.setData(toLineData(klines, adxValues));
+    }
+  }, [adxValues, klines]);
 
+  // 图层显示/隐藏与副图布局
   useEffect(() => {
-    if (!candlestickSeriesRef.current || trades.length === 0) return;
-
-    const markers = trades.flatMap((trade) => {
-      const entryTime = Math.floor(trade.entryTime / 1000) as Time;
-      const exitTime = Math.floor(trade.exitTime / 1000) as Time;
-
-      return [
-        {
-          time: entryTime,
-          position: trade.direction === "long" ? "belowBar" : "aboveBar" as const,
-          color: trade.direction === "long" ? "#22c55e" : "#ef4444",
-          shape: trade.direction === "long" ? "arrowUp" : "arrowDown" as const,
-          text: trade.direction === "long" ? "多" : "空",
-        },
-        {
-          time: exitTime,
-          position: trade.direction === "long" ? "aboveBar" : "belowBar" as const,
-          color: trade.pnl >= 0 ? "#22c55e" : "#ef4444",
-          shape: "circle" as const,
-          text: trade.pnl >= 0 ? "盈" : "亏",
+    const chart = chartRef.current;
+    if (!chart) return;
+
+    emaShortSeriesRef.current?.applyOptions({ visible: layers.ema });
+    emaLongSeriesRef.current?.applyOptions({ visible: layers.ema });
+    volumeSeriesRef.current?.applyOptions({ visible: layers.volume });
+    rsiSeriesRef.current?.applyOptions({ visible: layers.rsi });
+    adxSeriesRef.current?.applyOptions({ visible: layers.adx });
+    overlayRef.current?.setVisibility(layers.zones, layers.levels);
+
+    const visiblePanes = SUB_PANES.filter((pane) => layers[pane]);
+    const count = visiblePanes.length;
+    chart.priceScale("right").applyOptions({
+      scaleMargins: { top: 0.05, bottom: count > 0 ? count * SUB_PANE_HEIGHT + 0.03 : 0.05 },
+    });
+    visiblePanes.forEach((pane, index) => {
+      chart.priceScale(pane).applyOptions({
+        scaleMargins: {
+          top: 1 - (count - index) * SUB_PANE_HEIGHT + 0.01,
+          bottom: (count - index - 1) * SUB_PANE_HEIGHT,
         },
-      ];
+      });
     });
+  }, [layers]);
 
+  // 标注转换为叠加层图形（时间对齐到图表K线）
+  const overlayData = useMemo(() => {
+    const zones: OverlayZone[] = [];
+    const segments: OverlaySegment[] = [];
+    const sweeps: SeriesMarker<Time>[] = [];
+    if (timestamps.length === 0) {
+      return { zones, segments, sweeps };
+    }
+
+    for (const annotation of annotations) {
+      switch (annotation.type) {
+        case "fvg":
+        case "orderBlock":
+          zones.push({
+            startTime: toChartTime(timestamps, annotation.startTime),
+            endTime: toChartTime(timestamps, annotation.endTime),
+            top: annotation.top,
+            bottom: annotation.bottom,
+            color: annotation.type === "fvg"
+              ? ANNOTATION_COLORS[annotation.direction]
+              : annotation.direction === "bullish"
+                ? ANNOTATION_COLORS.orderBlockBullish
+                : ANNOTATION_COLORS.orderBlockBearish,
+            label: annotation.label,
+          });
+          break;
+        case "displacement":
+          zones.push({
+            startTime: toChartTime(timestamps, annotation.startTime),
+            endTime: toChartTime(timestamps, annotation.endTime),
+            top: annotation.high,
+            bottom: annotation.low,
+            color: ANNOTATION_COLORS.displacement,
+            label: annotation.label,
+          });
+          break;
+        case "liquidity":
+          segments.push({
+            startTime: toChartTime(timestamps, annotation.startTime),
+            endTime: toChartTime(timestamps, annotation.endTime),
+            price: annotation.price,
+            color: ANNOTATION_COLORS.liquidity,
+            dashed: true,
+            label: annotation.label,
+          });
+          break;
+        case "level":
+          segments.push({
+            startTime: toChartTime(timestamps, annotation.startTime),
+            endTime: toChartTime(timestamps, annotation.endTime),
+            price: annotation.price,
+            color: ANNOTATION_COLORS[annotation.role],
+            dashed: annotation.role !== "entry",
+            label: annotation.label,
+          });
+          break;
+        case "sweep":
+          sweeps.push({
+            time: toChartTime(timestamps, annotation.time),
+            position: annotation.side === "high" ? "aboveBar" : "belowBar",
+            color: ANNOTATION_COLORS.liquidity,
+            shape: "square",
+            text: annotation.label || "扫荡",
+          });
+          break;
+      }
+    }
+
+    return { zones, segments, sweeps };
+  }, [annotations, timestamps]);
+
+  useEffect(() => {
+    overlayRef.current?.setData(overlayData.zones, overlayData.segments);
+  }, [overlayData]);
+
+  // 交易标记和流动性扫荡标记（标记需要按时间排序）
+  useEffect(() => {
+    if (!candlestickSeriesRef.current) return;
+
+    const markers: SeriesMarker<Time>[] = layers.trades
+      ? trades.flatMap((trade) => [
+          {
+            time: toTime(trade.entryTime),
+            position: trade.direction === "long" ? "belowBar" : "aboveBar" as const,
+            color: trade.direction === "long" ? "#22c55e" : "#ef4444",
+            shape: trade.direction === "long" ? "arrowUp" : "arrowDown" as const,
+            text: trade.direction === "long" ? "多" : "空",
+          },
+          {
+            time: toTime(trade.exitTime),
+            position: trade.direction === "long" ? "aboveBar" : "belowBar" as const,
+            color: trade.pnl >= 0 ? "#22c55e" : "#ef4444",
+            shape: "circle" as const,
+            text: trade.pnl >= 0 ? "盈" : "亏",
+          },
+        ])
+      : [];
+    if (layers.levels) {
+      markers.push(...overlayData.sweeps);
+    }
+
+    markers.sort((a, b) => (a.time as number) - (b.time as number));
     candlestickSeriesRef.current.setMarkers(markers);
-  }, [trades]);
+  }, [trades, overlayData, layers.trades, layers.levels]);
+
+  // 全宽价格线
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    if (!series) return;
+
+    for (const line of priceLineRefs.current) {
+      series.removePriceLine(line);
+    }
+    priceLineRefs.current = [];
+    if (!layers.levels) return;
+
+    priceLineRefs.current = priceLines.map((line) =>
+      series.createPriceLine({
+        price: line.price,
+        color: ANNOTATION_COLORS[line.kind],
+        lineWidth: 1,
+        lineStyle: line.kind === "entry" ? LineStyle.Solid : LineStyle.Dashed,
+        axisLabelVisible: true,
+        title: line.title || "",
+      })
+    );
+  }, [priceLines, layers.levels]);
+
+  const toggleLayer = (layer: ChartLayer) => {
+    setLayers((prev) => ({ ...prev, [layer]: !prev[layer] }));
+  };
 
   return (
     <div className="w-full">
+      {/* 图例（点击开关图层） */}
+      <div className="flex flex-wrap gap-2 mb-2 text-xs">
+        {LAYERS.map((layer) => (
+          <button
+            key={layer.key}
+            onClick={() => toggleLayer(layer.key)}
+            className={`flex items-center gap-1 px-2 py-1 rounded border border-gray-700 transition-opacity ${
+              layers[layer.key] ? "bg-gray-700 text-gray-200" : "text-gray-500 opacity-60"
+            }`}
+          >
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: layer.color }} />
+            {layer.label}
+          </button>
+        ))}
+      </div>
       <div ref={chartContainerRef} style={{ height }} />
     </div>
   );
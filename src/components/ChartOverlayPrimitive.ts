@@ -0,0 +1,257 @@
+/**
+ * K线图叠加层（lightweight-charts 4.1 series primitive）
+ * 在蜡烛图上绘制矩形区域（FVG、订单块、位移区间）和带时间范围的水平线段（流动性、入场/止损/止盈），
+ * 数据变化时只更新本对象并请求重绘，不重建图表和序列；绘制时跳过可视区域外的图形
+ */
+
+import type {
+  ISeriesPrimitive,
+  ISeriesPrimitivePaneRenderer,
+  ISeriesPrimitivePaneView,
+  SeriesAttachedParameter,
+  SeriesPrimitivePaneViewZOrder,
+  Time,
+} from "lightweight-charts";
+
+type RenderingTarget = Parameters<ISeriesPrimitivePaneRenderer["draw"]>[0];
+
+// 矩形区域（时间为图表时间，即秒）
+export interface OverlayZone {
+  startTime: Time;
+  endTime: Time;
+  top: number;
+  bottom: number;
+  color: string;
+  label?: string;
+}
+
+// 水平线段
+export interface OverlaySegment {
+  startTime: Time;
+  endTime: Time;
+  price: number;
+  color: string;
+  dashed?: boolean;
+  label?: string;
+}
+
+interface ZoneCoordinates {
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+  color: string;
+  label?: string;
+}
+
+interface SegmentCoordinates {
+  x1: number;
+  x2: number;
+  y: number;
+  color: string;
+  dashed: boolean;
+  label?: string;
+}
+
+// 区域只有一根K线宽时的最小绘制宽度（像素）
+const MIN_ZONE_WIDTH = 4;
+
+class ZonesRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private readonly zones: ZoneCoordinates[]) {}
+
+  draw(target: RenderingTarget): void {
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      context.save();
+      context.font = "10px sans-serif";
+      for (const zone of this.zones) {
+        const left = Math.min(zone.x1, zone.x2);
+        const width = Math.max(Math.abs(zone.x2 - zone.x1), MIN_ZONE_WIDTH);
+        if (left > mediaSize.width || left + width < 0) {
+          continue;
+        }
+        const top = Math.min(zone.y1, zone.y2);
+        const height = Math.max(Math.abs(zone.y2 - zone.y1), 1);
+
+        context.globalAlpha = 0.18;
+        context.fillStyle = zone.color;
+        context.fillRect(left, top, width, height);
+        context.globalAlpha = 0.8;
+        context.strokeStyle = zone.color;
+        context.lineWidth = 1;
+        context.strokeRect(left, top, width, height);
+        if (zone.label) {
+          context.fillText(zone.label, left + 2, top + 10);
+        }
+      }
+      context.restore();
+    });
+  }
+}
+
+class SegmentsRenderer implements ISeriesPrimitivePaneRenderer {
+  constructor(private readonly segments: SegmentCoordinates[]) {}
+
+  draw(target: RenderingTarget): void {
+    target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+      context.save();
+      context.font = "10px sans-serif";
+      context.lineWidth = 1;
+      for (const segment of this.segments) {
+        const left = Math.min(segment.x1, segment.x2);
+        const right = Math.max(segment.x1, segment.x2, left + MIN_ZONE_WIDTH);
+        if (left > mediaSize.width || right < 0) {
+          continue;
+        }
+
+        context.strokeStyle = segment.color;
+        context.fillStyle = segment.color;
+        context.setLineDash(segment.dashed ? [4, 3] : []);
+        context.beginPath();
+        context.moveTo(left, segment.y);
+        context.lineTo(right, segment.y);
+        context.stroke();
+        if (segment.label) {
+          context.fillText(segment.label, right + 2, segment.y + 3);
+        }
+      }
+      context.restore();
+    });
+  }
+}
+
+class ZonesPaneView implements ISeriesPrimitivePaneView {
+  private coordinates: ZoneCoordinates[] = [];
+
+  constructor(private readonly source: ChartOverlayPrimitive) {}
+
+  update(): void {
+    this.coordinates = this.source.zoneCoordinates();
+  }
+
+  renderer(): ISeriesPrimitivePaneRenderer {
+    return new ZonesRenderer(this.coordinates);
+  }
+
+  // 区域画在K线下方
+  zOrder(): SeriesPrimitivePaneViewZOrder {
+    return "bottom";
+  }
+}
+
+class SegmentsPaneView implements ISeriesPrimitivePaneView {
+  private coordinates: SegmentCoordinates[] = [];
+
+  constructor(private readonly source: ChartOverlayPrimitive) {}
+
+  update(): void {
+    this.coordinates = this.source.segmentCoordinates();
+  }
+
+  renderer(): ISeriesPrimitivePaneRenderer {
+    return new SegmentsRenderer(this.coordinates);
+  }
+}
+
+export class ChartOverlayPrimitive implements ISeriesPrimitive<Time> {
+  private attachedParams: SeriesAttachedParameter<Time> | null = null;
+  private zones: OverlayZone[] = [];
+  private segments: OverlaySegment[] = [];
+  private zonesVisible = true;
+  private segmentsVisible = true;
+  private readonly views: ISeriesPrimitivePaneView[];
+  private readonly zonesView: ZonesPaneView;
+  private readonly segmentsView: SegmentsPaneView;
+
+  constructor() {
+    this.zonesView = new ZonesPaneView(this);
+    this.segmentsView = new SegmentsPaneView(this);
+    this.views = [this.zonesView, this.segmentsView];
+  }
+
+  attached(param: SeriesAttachedParameter<Time>): void {
+    this.attachedParams = param;
+  }
+
+  detached(): void {
+    this.attachedParams = null;
+  }
+
+  paneViews(): readonly ISeriesPrimitivePaneView[] {
+    return this.views;
+  }
+
+  updateAllViews(): void {
+    this.zonesView.update();
+    this.segmentsView.update();
+  }
+
+  /**
+   * 替换全部图形
+   */
+  setData(zones: OverlayZone[], segments: OverlaySegment[]): void {
+    this.zones = zones;
+    this.segments = segments;
+    this.requestUpdate();
+  }
+
+  /**
+   * 显示/隐藏区域和线段
+   */
+  setVisibility(zonesVisible: boolean, segmentsVisible: boolean): void {
+    this.zonesVisible = zonesVisible;
+    this.segmentsVisible = segmentsVisible;
+    this.requestUpdate();
+  }
+
+  zoneCoordinates(): ZoneCoordinates[] {
+    if (!this.zonesVisible || !this.attachedParams) {
+      return [];
+    }
+
+    const { chart, series } = this.attachedParams;
+    const timeScale = chart.timeScale();
+    const result: ZoneCoordinates[] = [];
+    for (const zone of this.zones) {
+      const x1 = timeScale.timeToCoordinate(zone.startTime);
+      const x2 = timeScale.timeToCoordinate(zone.endTime);
+      const y1 = series.priceToCoordinate(zone.top);
+      const y2 = series.priceToCoordinate(zone.bottom);
+      if (x1 === null || x2 === null || y1 === null || y2 === null) {
+        continue;
+      }
+      result.push({ x1, x2, y1, y2, color: zone.color, label: zone.label });
+    }
+    return result;
+  }
+
+  segmentCoordinates(): SegmentCoordinates[] {
+    if (!this.segmentsVisible || !this.attachedParams) {
+      return [];
+    }
+
+    const { chart, series } = this.attachedParams;
+    const timeScale = chart.timeScale();
+    const result: SegmentCoordinates[] = [];
+    for (const segment of this.segments) {
+      const x1 = timeScale.timeToCoordinate(segment.startTime);
+      const x2 = timeScale.timeToCoordinate(segment.endTime);
+      const y = series.priceToCoordinate(segment.price);
+      if (x1 === null || x2 === null || y === null) {
+        continue;
+      }
+      result.push({
+        x1,
+        x2,
+        y,
+        color: segment.color,
+        dashed: !!segment.dashed,
+        label: segment.label,
+      });
+    }
+    return result;
+  }
+
+  private requestUpdate(): void {
+    this.attachedParams?.requestUpdate();
+  }
+}
@@ -1,10 +1,17 @@
 "use client";
 
-import React, { useState } from "react";
-import CandlestickChart from "./CandlestickChart";
+import React, { useEffect, useMemo, useState } from "react";
+import CandlestickChart, { ChartPriceLine } from "./CandlestickChart";
 import { SMCLiquidityFVGStrategy, SMCLiquidityFVGParams } from "../strategies/SMCLiquidityFVGStrategy";
 import { alignTimeframes, getMainBars, getMidBars, getLowBars, isMainBarUpdated } from "../utils/timeframeAligner";
 import { LiquidityFVGTracker } from "../utils/liquidityFVGTracker";
+import { ema } from "../indicators";
+import { DEFAULT_REGIME_FILTER_PARAMS, REGIME_LABELS } from "../strategies/regimeFilter";
+import { BaseStrategyParams, MarketRegime, SignalAnnotation } from "../types/strategy";
+import { PresetReference, diffPresetParams } from "../utils/strategyPresets";
+import { createMarketStructureAnnotations } from "../utils/signalAnnotations";
+import type { StrategyDescriptor } from "../strategies/StrategyRegistry";
+import PresetPicker from "./PresetPicker";
 
 // 类型定义
 interface KLine {
@@ -35,6 +42,8 @@ interface Trade {
   quantity: number;
   leverage: number;
   reason: string;
+  regime?: MarketRegime; // 入场时的市场状态
+  annotations?: SignalAnnotation[]; // 入场信号的图表标注
 }
 
 interface BacktestResult {
@@ -74,6 +83,8 @@ export interface StrategyParams {
   stopLossBuffer?: number;
   takeProfitTP1?: number;
   takeProfitTP2?: number;
+  tp1SizeFraction?: number;
+  signalValidBars?: number;
   riskPercent?: number;
   maxConsecutiveLosses?: number;
   cooldownBars?: number;
@@ -105,6 +116,8 @@ export const DEFAULT_PARAMS: StrategyParams = {
   stopLossBuffer: 0.01,
   takeProfitTP1: 0.8,
   takeProfitTP2: 1.5,
+  tp1SizeFraction: 0.5,
+  signalValidBars: 5,
   riskPercent: 1,
   maxConsecutiveLosses: 3,
   cooldownBars: 20,
@@ -120,20 +133,30 @@ export const DEFAULT_PARAMS: StrategyParams = {
   endDate: "",
 };
 
-// 策略定义
-const STRATEGIES = [
-  {
-    id: "smc_liquidity_fvg",
-    name: "SMC 流动性 + FVG",
-    description: "基于 ICT/SMC 理论的智能资金策略。识别流动性扫荡、确认机构位移，通过 FVG 回踩进行低风险入场。",
-    icon: "💧",
-    params: ["mainTimeframe", "midTimeframe", "lowTimeframe", "liquidityLookback", "liquidityTolerance", "displacementThreshold", "displacementMinBars", "fvgMinSize", "fvgMaxSize", "entryFVGPercent", "stopLossBuffer", "takeProfitTP1", "takeProfitTP2", "riskPercent", "minVolumeRatio", "filterSideways"]
-  }
-];
+// 本地回测引擎只支持 SMC 策略
+const BACKTEST_STRATEGY_ID = "smc_liquidity_fvg";
+
+const RISK_LEVEL_LABELS = {
+  low: "低",
+  medium: "中",
+  high: "高",
+} as const;
+
+const RISK_LEVEL_COLORS = {
+  low: "text-green-400",
+  medium: "text-yellow-400",
+  high: "text-red-400",
+} as const;
+
+const RISK_LEVEL_BADGES = {
+  low: "bg-green-500/20 text-green-400 border-green-500/30",
+  medium: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  high: "bg-red-500/20 text-red-400 border-red-500/30",
+} as const;
 
 export default function CryptoBacktestTool() {
   const [step, setStep] = useState<1 | 2 | 3>(1);
-  const [selectedStrategy, setSelectedStrategy] = useState(STRATEGIES[0].id);
+  const [descriptor, setDescriptor] = useState<StrategyDescriptor | null>(null);
   const strategy = new SMCLiquidityFVGStrategy();
   const strategyDefaultParams = strategy.getDefaultParams();
 
@@ -146,44 +169,104 @@ export default function CryptoBacktestTool() {
   const [klines5m, setKlines5m] = useState<KLine[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showTrades, setShowTrades] = useState(false);
+  // 在K线图上显示标注的交易（序号）
+  const [selectedTradeIndex, setSelectedTradeIndex] = useState<number | null>(null);
+  // 回测结束时仍然有效的 FVG / 订单块 / 流动性
+  const [marketAnnotations, setMarketAnnotations] = useState<SignalAnnotation[]>([]);
+  // 最近应用的参数预设版本，以及本次回测实际使用的预设（参数被修改过则为 null）
+  const [appliedPreset, setAppliedPreset] = useState<{ reference: PresetReference; params: BaseStrategyParams } | null>(null);
+  const [resultPreset, setResultPreset] = useState<PresetReference | null>(null);
+
+  // K线图上的 EMA20 / EMA60
+  const chartEMAs = useMemo(() => {
+    const closes = klines15m.map((k) => k.close);
+    return { short: ema(closes, 20), long: ema(closes, 60) };
+  }, [klines15m]);
+
+  // K线图叠加层：市场结构 + 选中交易的信号标注和止损/止盈价位线
+  const selectedTrade = selectedTradeIndex !== null ? result?.trades[selectedTradeIndex] : undefined;
+  const chartAnnotations = useMemo(
+    () => [...marketAnnotations, ...(selectedTrade?.annotations || [])],
+    [marketAnnotations, selectedTrade]
+  );
+  const chartPriceLines = useMemo<ChartPriceLine[]>(() => {
+    if (!selectedTrade) return [];
+    return [
+      { price: selectedTrade.entryPrice, kind: "entry", title: "入场" },
+      { price: selectedTrade.stopLoss, kind: "stopLoss", title: "SL" },
+      { price: selectedTrade.takeProfit1, kind: "takeProfit", title: "TP1" },
+      { price: selectedTrade.takeProfit2, kind: "takeProfit", title: "TP2" },
+    ];
+  }, [selectedTrade]);
+
+  // 从策略注册表加载策略信息
+  useEffect(() => {
+    const loadStrategy = async () => {
+      try {
+        const response = await fetch("/api/strategies");
+        const result = await response.json();
+        if (result.success) {
+          const found = (result.data as StrategyDescriptor[]).find((s) => s.id === BACKTEST_STRATEGY_ID);
+          setDescriptor(found || null);
+        }
+      } catch (error) {
+        console.error("Failed to load strategies:", error);
+      }
+    };
+
+    loadStrategy();
+  }, []);
 
-  // 获取当前策略
-  const currentStrategy = STRATEGIES.find(s => s.id === selectedStrategy);
+  // 获取当前策略（接口未返回前使用本地实例的元信息）
+  const currentStrategy = descriptor?.meta ?? strategy.meta;
+
+  // 策略参数（预设只保存策略参数，不包含资金和回测区间）
+  const strategyParams: BaseStrategyParams = {};
+  for (const key of Object.keys(strategyDefaultParams)) {
+    strategyParams[key] = params[key as keyof StrategyParams];
+  }
+
+  const handlePresetApply = (presetParams: BaseStrategyParams, reference: PresetReference | null) => {
+    setParams({ ...params, ...presetParams });
+    setAppliedPreset(reference ? { reference, params: presetParams } : null);
+  };
 
   // 步骤1：策略信息展示
   if (step === 1) {
     return (
       <div className="animate-fadeIn">
         <div className="text-center mb-8">
-          <h2 className="text-2xl font-bold mb-2">SMC 流动性 + FVG 回测策略</h2>
-          <p className="text-gray-400">基于 ICT/SMC 理论的智能资金策略。识别流动性扫荡、确认机构位移，通过 FVG 回踩进行低风险入场。</p>
+          <h2 className="text-2xl font-bold mb-2">{currentStrategy.name} 回测策略</h2>
+          <p className="text-gray-400">{currentStrategy.description}</p>
         </div>
 
         <div className="bg-gray-800 rounded-xl p-6 mb-8">
           <div className="flex items-start justify-between mb-4">
             <div className="text-4xl mb-4">💧</div>
-            <div className="px-3 py-1 rounded-full bg-red-500/20 text-red-400 border border-red-500/30 text-sm">
-              高风险
+            <div className={`px-3 py-1 rounded-full border text-sm ${RISK_LEVEL_BADGES[currentStrategy.riskLevel]}`}>
+              {RISK_LEVEL_LABELS[currentStrategy.riskLevel]}风险
             </div>
           </div>
-          <h3 className="text-lg font-bold mb-2">{STRATEGIES[0].name}</h3>
-          <p className="text-sm text-gray-400 mb-4">{STRATEGIES[0].description}</p>
+          <h3 className="text-lg font-bold mb-2">{currentStrategy.name}</h3>
+          <p className="text-sm text-gray-400 mb-4">{currentStrategy.description}</p>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div>
               <div className="text-gray-400">版本</div>
-              <div className="font-medium">1.0.0</div>
+              <div className="font-medium">{descriptor?.version ?? currentStrategy.version}</div>
             </div>
             <div>
               <div className="text-gray-400">分类</div>
-              <div className="font-medium">Smart Money Concepts</div>
+              <div className="font-medium">{currentStrategy.category}</div>
             </div>
             <div>
               <div className="text-gray-400">支持周期</div>
-              <div className="font-medium">1m, 5m, 15m</div>
+              <div className="font-medium">{currentStrategy.timeframe.join(", ")}</div>
             </div>
             <div>
               <div className="text-gray-400">风险等级</div>
-              <div className="font-medium text-red-400">高</div>
+              <div className={`font-medium ${RISK_LEVEL_COLORS[currentStrategy.riskLevel]}`}>
+                {RISK_LEVEL_LABELS[currentStrategy.riskLevel]}
+              </div>
             </div>
           </div>
         </div>
@@ -212,7 +295,15 @@ export default function CryptoBacktestTool() {
             ← 返回选择策略
           </button>
           <h2 className="text-2xl font-bold mb-2">配置回测参数</h2>
-          <p className="text-gray-400">当前策略：{currentStrategy?.name}</p>
+          <p className="text-gray-400">当前策略：{currentStrategy.name}</p>
+        </div>
+
+        <div className="mb-6">
+          <PresetPicker
+            strategyId={BACKTEST_STRATEGY_ID}
+            params={strategyParams}
+            onApply={handlePresetApply}
+          />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -529,7 +620,10 @@ export default function CryptoBacktestTool() {
           ← 返回配置参数
         </button>
         <h2 className="text-2xl font-bold mb-2">回测结果</h2>
-        <p className="text-gray-400">策略：{currentStrategy?.name}</p>
+        <p className="text-gray-400">
+          策略：{currentStrategy.name}
+          {resultPreset && <span className="ml-3 text-sm">参数预设 v{resultPreset.presetVersion}</span>}
+        </p>
       </div>
 
       {isLoading ? (
@@ -567,12 +661,26 @@ export default function CryptoBacktestTool() {
 
           {/* K线图 */}
           <div className="bg-gray-800 rounded-lg p-6">
-            <h3 className="text-lg font-bold mb-4">K线图</h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold">K线图</h3>
+              {selectedTradeIndex !== null ? (
+                <button
+                  onClick={() => setSelectedTradeIndex(null)}
+                  className="text-sm text-blue-400 hover:text-blue-300"
+                >
+                  隐藏第 {selectedTradeIndex + 1} 笔交易的信号标注
+                </button>
+              ) : (
+                <span className="text-xs text-gray-500">点击交易明细中的一行，查看该笔交易的信号依据</span>
+              )}
+            </div>
             <CandlestickChart
               klines={klines15m}
-              emaShort={[]}
-              emaLong={[]}
+              emaShort={chartEMAs.short}
+              emaLong={chartEMAs.long}
               trades={result.trades}
+              annotations={chartAnnotations}
+              priceLines={chartPriceLines}
               height={500}
             />
           </div>
@@ -653,11 +761,18 @@ export default function CryptoBacktestTool() {
                       <th className="px-2 py-2 text-left whitespace-nowrap">手续费</th>
                       <th className="px-2 py-2 text-left whitespace-nowrap">净盈亏</th>
                       <th className="px-2 py-2 text-left whitespace-nowrap">原因</th>
+                      <th className="px-2 py-2 text-left whitespace-nowrap">市场状态</th>
                     </tr>
                   </thead>
                   <tbody>
                     {result.trades.map((trade, index) => (
-                      <tr key={index} className="border-t border-gray-700 hover:bg-gray-700/50">
+                      <tr
+                        key={index}
+                        onClick={() => setSelectedTradeIndex(index)}
+                        className={`border-t border-gray-700 cursor-pointer hover:bg-gray-700/50 ${
+                          selectedTradeIndex === index ? "bg-blue-500/10" : ""
+                        }`}
+                      >
                         <td className="px-2 py-2">{index + 1}</td>
                         <td className="px-2 py-2">
                           <span className={`px-2 py-1 rounded text-xs ${trade.direction === "long" ? "bg-green-600" : "bg-red-600"}`}>
@@ -678,6 +793,7 @@ export default function CryptoBacktestTool() {
                           {formatNumber(trade.netPnl, 2)} USDT
                         </td>
                         <td className="px-2 py-2">{trade.reason}</td>
+                        <td className="px-2 py-2">{trade.regime ? REGIME_LABELS[trade.regime] : "-"}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -819,17 +935,22 @@ export default function CryptoBacktestTool() {
       liquidityTolerance: params.liquidityTolerance || 0.05,
       displacementThreshold: params.displacementThreshold || 1.5,
       displacementMinBars: params.displacementMinBars || 3,
+      requireCHoCH: false,
+      structureSwingLength: 3,
       fvgMinSize: params.fvgMinSize || 0.01,
       fvgMaxSize: params.fvgMaxSize || 0.5,
       entryFVGPercent: params.entryFVGPercent || 0.5,
       stopLossBuffer: params.stopLossBuffer || 0.01,
       takeProfitTP1: params.takeProfitTP1 || 0.8,
       takeProfitTP2: params.takeProfitTP2 || 1.5,
+      tp1SizeFraction: params.tp1SizeFraction || 0.5,
+      signalValidBars: params.signalValidBars || 5,
       riskPercent: params.riskPercent || 1,
       maxConsecutiveLosses: params.maxConsecutiveLosses || 3,
       cooldownBars: params.cooldownBars || 20,
       minVolumeRatio: params.minVolumeRatio || 1.2,
       filterSideways: params.filterSideways !== undefined ? params.filterSideways : true,
+      ...DEFAULT_REGIME_FILTER_PARAMS,
       adxThreshold: params.adxThreshold || 20,
     };
 
@@ -844,6 +965,9 @@ export default function CryptoBacktestTool() {
       );
 
       console.log("Tracker 处理完成");
+      setMarketAnnotations(
+        createMarketStructureAnnotations(tracker, klineData15m[klineData15m.length - 1].timestamp)
+      );
 
       // 使用策略检测历史信号
       const signals = smcStrategy.detectHistoricalSignals(klineData15m, smcParams);
@@ -910,6 +1034,8 @@ export default function CryptoBacktestTool() {
             quantity,
             leverage: 1,
             reason: exitResult.exitType === "stop_loss" ? "止损" : exitResult.exitType === "take_profit" ? "止盈" : "超时",
+            regime: signal.regime,
+            annotations: signal.annotations,
           });
         }
       }
@@ -926,6 +1052,13 @@ export default function CryptoBacktestTool() {
   function runBacktest() {
     setIsLoading(true);
     setResult(null);
+    setSelectedTradeIndex(null);
+    setMarketAnnotations([]);
+    setResultPreset(
+      appliedPreset && diffPresetParams(appliedPreset.params, strategyParams).length === 0
+        ? appliedPreset.reference
+        : null
+    );
 
     // 生成 SMC 策略用的数据
     const generated = generateMockDataSMC();
@@ -0,0 +1,340 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { BaseStrategyParams } from "@/types/strategy";
+import {
+  PresetReference,
+  StrategyPresetRecord,
+  StrategyPresetVersionRecord,
+  diffPresetParams,
+  formatPresetValue,
+} from "@/utils/strategyPresets";
+
+interface PresetPickerProps {
+  strategyId: string;
+  params: BaseStrategyParams;
+  onApply: (params: BaseStrategyParams, reference: PresetReference | null) => void;
+  disabled?: boolean;
+}
+
+const INPUT_CLASS =
+  "bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const CHANGE_LABELS = {
+  added: "新增",
+  removed: "删除",
+  changed: "修改",
+} as const;
+
+export default function PresetPicker({
+  strategyId,
+  params,
+  onApply,
+  disabled = false,
+}: PresetPickerProps) {
+  const [presets, setPresets] = useState<StrategyPresetRecord[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [appliedParams, setAppliedParams] = useState<BaseStrategyParams | null>(null);
+  const [versions, setVersions] = useState<StrategyPresetVersionRecord[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 加载当前策略的预设（服务端会顺带迁移策略版本已变化的预设）
+  const loadPresets = async (id: string) => {
+    try {
+      const response = await fetch(`/api/strategy/presets?strategyId=${encodeURIComponent(id)}`);
+      const result = await response.json();
+      if (result.success) {
+        setPresets(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to load strategy presets:", err);
+    }
+  };
+
+  const loadVersions = async (presetId: string) => {
+    try {
+      const response = await fetch(`/api/strategy/presets?presetId=${encodeURIComponent(presetId)}`);
+      const result = await response.json();
+      if (result.success) {
+        setVersions(result.data);
+      }
+    } catch (err) {
+      console.error("Failed to load preset versions:", err);
+    }
+  };
+
+  useEffect(() => {
+    if (!strategyId) {
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/strategy/presets?strategyId=${encodeURIComponent(strategyId)}`);
+        const result = await response.json();
+        if (!cancelled && result.success) {
+          setPresets(result.data);
+          setSelectedId("");
+          setAppliedParams(null);
+          setVersions([]);
+          setShowHistory(false);
+        }
+      } catch (err) {
+        console.error("Failed to load strategy presets:", err);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [strategyId]);
+
+  const selected = presets.find((p) => p.id === selectedId) || null;
+  const modified = selected
+    ? diffPresetParams(appliedParams || selected.params, params).length > 0
+    : false;
+
+  // 应用预设版本的参数，记录下来用于判断参数是否被修改
+  const apply = (presetParams: BaseStrategyParams, reference: PresetReference | null) => {
+    setAppliedParams(reference ? presetParams : null);
+    onApply(presetParams, reference);
+  };
+
+  const handleSelect = (presetId: string) => {
+    setSelectedId(presetId);
+    setVersions([]);
+    setShowHistory(false);
+    setError(null);
+
+    const preset = presets.find((p) => p.id === presetId);
+    if (preset) {
+      apply(preset.params, { presetId: preset.id, presetVersion: preset.latestVersion });
+    } else {
+      apply(params, null);
+    }
+  };
+
+  const toggleHistory = () => {
+    if (!showHistory && selected) {
+      loadVersions(selected.id);
+    }
+    setShowHistory(!showHistory);
+  };
+
+  const request = async (method: "POST" | "PUT", body: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/strategy/presets", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || "保存失败");
+        return null;
+      }
+      return result.data as StrategyPresetRecord;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "保存失败");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 另存为新预设
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      setError("请输入预设名称");
+      return;
+    }
+
+    const preset = await request("POST", { strategyId, name: newName.trim(), params, note });
+    if (preset) {
+      setNewName("");
+      setNote("");
+      await loadPresets(strategyId);
+      setSelectedId(preset.id);
+      apply(preset.params, { presetId: preset.id, presetVersion: preset.latestVersion });
+    }
+  };
+
+  // 把当前参数保存为所选预设的新版本
+  const handleSaveVersion = async () => {
+    if (!selected) {
+      return;
+    }
+
+    const preset = await request("PUT", { id: selected.id, params, note });
+    if (preset) {
+      setNote("");
+      await loadPresets(strategyId);
+      if (showHistory) {
+        await loadVersions(preset.id);
+      }
+      apply(preset.params, { presetId: preset.id, presetVersion: preset.latestVersion });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`确定删除预设「${selected.name}」及其所有版本吗？`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/strategy/presets?id=${encodeURIComponent(selected.id)}`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || "删除失败");
+        return;
+      }
+      setSelectedId("");
+      setVersions([]);
+      setShowHistory(false);
+      apply(params, null);
+      await loadPresets(strategyId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "删除失败");
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">参数预设</h4>
+        {selected && (
+          <span className="text-xs text-gray-400">
+            v{selected.latestVersion} · 策略版本 {selected.strategyVersion}
+            {modified && <span className="text-yellow-400 ml-2">参数已修改（未保存）</span>}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          className={`flex-1 ${INPUT_CLASS} disabled:opacity-50`}
+        >
+          <option value="">不使用预设</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name} (v{preset.latestVersion}){preset.status === "outdated" ? " ⚠ 需要更新" : ""}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <>
+            <button
+              onClick={toggleHistory}
+              className="px-3 py-2 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+            >
+              {showHistory ? "收起历史" : "版本历史"}
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={disabled}
+              className="px-3 py-2 rounded bg-red-600/20 text-red-400 hover:bg-red-600/30 text-sm disabled:opacity-50"
+            >
+              删除
+            </button>
+          </>
+        )}
+      </div>
+
+      {selected?.status === "outdated" && (
+        <p className="text-xs text-yellow-400">
+          策略版本已更新，该预设的参数无法自动迁移，请检查参数后保存为新版本
+        </p>
+      )}
+
+      {/* 保存 */}
+      {!disabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="版本说明（可选）"
+            className={`w-full ${INPUT_CLASS}`}
+          />
+          {selected ? (
+            <button
+              onClick={handleSaveVersion}
+              disabled={saving || !modified}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              保存为 v{selected.latestVersion + 1}
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="预设名称，如 SMC 激进"
+                className={`flex-1 ${INPUT_CLASS}`}
+              />
+              <button
+                onClick={handleCreate}
+                disabled={saving}
+                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium disabled:opacity-50"
+              >
+                另存为预设
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* 版本历史（每个版本与上一版本的差异） */}
+      {showHistory && selected && (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {versions.map((version) => (
+            <div key={version.id} className="p-3 rounded-lg border border-gray-700 bg-gray-900/50">
+              <div className="flex items-center justify-between text-sm">
+                <div>
+                  <span className="font-medium">v{version.version}</span>
+                  <span className="text-xs text-gray-500 ml-2">
+                    {new Date(version.createdAt).toLocaleString()} · 策略版本 {version.strategyVersion}
+                  </span>
+                </div>
+                <button
+                  onClick={() =>
+                    apply(version.params, { presetId: selected.id, presetVersion: version.version })
+                  }
+                  disabled={disabled}
+                  className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                >
+                  使用此版本
+                </button>
+              </div>
+              {version.note && <div className="text-xs text-gray-400 mt-1">{version.note}</div>}
+              {version.changes.length > 0 && version.version > 1 && (
+                <ul className="text-xs text-gray-400 mt-2 space-y-0.5">
+                  {version.changes.map((change) => (
+                    <li key={change.key}>
+                      <span className="text-gray-500">[{CHANGE_LABELS[change.type]}]</span>{" "}
+                      {change.key}: {formatPresetValue(change.before)} → {formatPresetValue(change.after)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
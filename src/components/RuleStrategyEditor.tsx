@@ -0,0 +1,680 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  RuleCondition,
+  RuleGroup,
+  RuleIndicator,
+  RuleNode,
+  RuleOperand,
+  RuleOperator,
+  RuleSet,
+} from "@/types/ruleStrategy";
+import {
+  RULE_INDICATOR_LABELS,
+  RULE_INDICATOR_DEFAULT_PERIODS,
+  RULE_OPERATOR_LABELS,
+  parseRuleSet,
+} from "@/utils/ruleEngine";
+
+// 接口返回的规则策略记录
+export interface RuleStrategyRecord {
+  id: string;
+  strategyId: string;
+  name: string;
+  description: string;
+  rules: RuleSet;
+  enabled: boolean;
+}
+
+interface RuleStrategyEditorProps {
+  onSaved?: () => void;
+}
+
+const TIMEFRAMES = ["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "12h", "1d"];
+
+const INPUT_CLASS =
+  "bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const createCondition = (): RuleCondition => ({
+  type: "condition",
+  left: { kind: "indicator", indicator: "close" },
+  operator: "crosses_above",
+  right: { kind: "indicator", indicator: "ema", period: 20 },
+});
+
+const createGroup = (): RuleGroup => ({
+  type: "group",
+  logic: "and",
+  rules: [createCondition()],
+});
+
+const createRuleSet = (): RuleSet => ({
+  entryTimeframe: "15m",
+  riskLevel: "medium",
+  longEntry: createGroup(),
+  exit: {
+    stopLossType: "atr",
+    stopLossValue: 2,
+    takeProfitType: "risk_reward",
+    takeProfitValue: 2,
+    atrPeriod: 14,
+    signalValidBars: 2,
+  },
+});
+
+// 规则分组的各个位置
+const RULE_SECTIONS = [
+  { key: "longEntry", label: "做多条件" },
+  { key: "shortEntry", label: "做空条件" },
+  { key: "longExit", label: "平多条件" },
+  { key: "shortExit", label: "平空条件" },
+] as const;
+
+type RuleSectionKey = (typeof RULE_SECTIONS)[number]["key"];
+
+export default function RuleStrategyEditor({ onSaved }: RuleStrategyEditorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [records, setRecords] = useState<RuleStrategyRecord[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rules, setRules] = useState<RuleSet>(createRuleSet());
+  const [jsonMode, setJsonMode] = useState(false);
+  const [jsonText, setJsonText] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // 加载已保存的规则策略
+  const loadRecords = async () => {
+    try {
+      const response = await fetch("/api/strategy/rules");
+      const result = await response.json();
+      if (result.success) {
+        setRecords(result.data);
+      }
+    } catch (error) {
+      console.error("Failed to load rule strategies:", error);
+    }
+  };
+
+  // 展开时刷新列表
+  const toggleExpanded = () => {
+    if (!expanded) {
+      loadRecords();
+    }
+    setExpanded(!expanded);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setRules(createRuleSet());
+    setJsonMode(false);
+    setErrors([]);
+  };
+
+  const handleEdit = (record: RuleStrategyRecord) => {
+    setEditingId(record.id);
+    setName(record.name);
+    setDescription(record.description);
+    setRules(record.rules);
+    setJsonMode(false);
+    setErrors([]);
+  };
+
+  // 切换 JSON 编辑模式（切回表单时先校验 JSON）
+  const toggleJsonMode = () => {
+    if (!jsonMode) {
+      setJsonText(JSON.stringify(rules, null, 2));
+      setJsonMode(true);
+      setErrors([]);
+      return;
+    }
+
+    const parsed = parseRuleSet(jsonText);
+    if (!parsed.success) {
+      setErrors(parsed.errors);
+      return;
+    }
+    setRules(parsed.data);
+    setJsonMode(false);
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    const parsed = parseRuleSet(jsonMode ? jsonText : rules);
+    const validationErrors = parsed.success ? [] : parsed.errors;
+    if (!name.trim()) {
+      validationErrors.unshift("策略名称不能为空");
+    }
+    if (!parsed.success || validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/strategy/rules", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: editingId || undefined,
+          name: name.trim(),
+          description,
+          rules: parsed.data,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setErrors([result.error || "保存失败"]);
+        return;
+      }
+
+      resetForm();
+      await loadRecords();
+      onSaved?.();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : "保存失败"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (record: RuleStrategyRecord) => {
+    await fetch("/api/strategy/rules", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: record.id, enabled: !record.enabled }),
+    });
+    await loadRecords();
+    onSaved?.();
+  };
+
+  const handleDelete = async (record: RuleStrategyRecord) => {
+    if (!confirm(`确定删除规则策略「${record.name}」吗？`)) {
+      return;
+    }
+    await fetch(`/api/strategy/rules?id=${record.id}`, { method: "DELETE" });
+    if (editingId === record.id) {
+      resetForm();
+    }
+    await loadRecords();
+    onSaved?.();
+  };
+
+  const getSectionGroup = (key: RuleSectionKey): RuleGroup | undefined =>
+    key === "longEntry" || key === "shortEntry" ? rules[key] : rules.exit[key];
+
+  const setSectionGroup = (key: RuleSectionKey, group: RuleGroup | undefined) => {
+    if (key === "longEntry" || key === "shortEntry") {
+      setRules({ ...rules, [key]: group });
+    } else {
+      setRules({ ...rules, exit: { ...rules.exit, [key]: group } });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl overflow-hidden">
+      <button
+        onClick={toggleExpanded}
+        className="w-full px-6 py-4 flex items-center justify-between hover:bg-gray-800/80 transition-colors"
+      >
+        <div className="text-left">
+          <h3 className="font-semibold text-lg">自定义规则策略</h3>
+          <p className="text-xs text-gray-400">用指标条件组合交易规则，无需编写代码</p>
+        </div>
+        <svg
+          className={`w-5 h-5 transition-transform ${expanded ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="p-6 space-y-6 border-t border-gray-700">
+          {/* 已保存的规则策略 */}
+          {records.length > 0 && (
+            <div className="space-y-2">
+              {records.map((record) => (
+                <div
+                  key={record.id}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    editingId === record.id ? "border-blue-500 bg-blue-500/10" : "border-gray-700 bg-gray-900"
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium">{record.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {record.rules.entryTimeframe} · {record.enabled ? "已启用" : "已停用"}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 text-sm">
+                    <button onClick={() => handleEdit(record)} className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600">
+                      编辑
+                    </button>
+                    <button
+                      onClick={() => handleToggleEnabled(record)}
+                      className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600"
+                    >
+                      {record.enabled ? "停用" : "启用"}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(record)}
+                      className="px-3 py-1 rounded bg-red-600/20 text-red-400 hover:bg-red-600/30"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* 基本信息 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">策略名称</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={`w-full ${INPUT_CLASS}`} />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">描述</label>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={`w-full ${INPUT_CLASS}`}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button onClick={toggleJsonMode} className="text-sm text-blue-400 hover:text-blue-300">
+              {jsonMode ? "返回表单编辑" : "JSON 编辑"}
+            </button>
+          </div>
+
+          {jsonMode ? (
+            <textarea
+              value={jsonText}
+              onChange={(e) => setJsonText(e.target.value)}
+              rows={20}
+              className={`w-full font-mono ${INPUT_CLASS}`}
+            />
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">入场周期</label>
+                  <select
+                    value={rules.entryTimeframe}
+                    onChange={(e) => setRules({ ...rules, entryTimeframe: e.target.value })}
+                    className={`w-full ${INPUT_CLASS}`}
+                  >
+                    {TIMEFRAMES.map((timeframe) => (
+                      <option key={timeframe} value={timeframe}>
+                        {timeframe}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">风险等级</label>
+                  <select
+                    value={rules.riskLevel}
+                    onChange={(e) => setRules({ ...rules, riskLevel: e.target.value as RuleSet["riskLevel"] })}
+                    className={`w-full ${INPUT_CLASS}`}
+                  >
+                    <option value="low">低风险</option>
+                    <option value="medium">中风险</option>
+                    <option value="high">高风险</option>
+                  </select>
+                </div>
+              </div>
+
+              {/* 条件分组 */}
+              {RULE_SECTIONS.map((section) => {
+                const group = getSectionGroup(section.key);
+                return (
+                  <div key={section.key} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-semibold">{section.label}</h4>
+                      {group ? (
+                        <button
+                          onClick={() => setSectionGroup(section.key, undefined)}
+                          className="text-xs text-red-400 hover:text-red-300"
+                        >
+                          移除
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setSectionGroup(section.key, createGroup())}
+                          className="text-xs text-blue-400 hover:text-blue-300"
+                        >
+                          + 添加
+                        </button>
+                      )}
+                    </div>
+                    {group && (
+                      <GroupEditor
+                        group={group}
+                        entryTimeframe={rules.entryTimeframe}
+                        onChange={(next) => setSectionGroup(section.key, next)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* 止损止盈 */}
+              <div className="space-y-2">
+                <h4 className="font-semibold">止损止盈</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">止损方式</label>
+                    <select
+                      value={rules.exit.stopLossType}
+                      onChange={(e) =>
+                        setRules({
+                          ...rules,
+                          exit: {
+                            ...rules.exit,
+                            stopLossType: e.target.value as RuleSet["exit"]["stopLossType"],
+                          },
+                        })
+                      }
+                      className={`w-full ${INPUT_CLASS}`}
+                    >
+                      <option value="none">不设置（使用风控配置）</option>
+                      <option value="percent">百分比</option>
+                      <option value="atr">ATR 倍数</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">止损值</label>
+                    <input
+                      type="number"
+                      step={0.1}
+                      value={rules.exit.stopLossValue}
+                      onChange={(e) =>
+                        setRules({ ...rules, exit: { ...rules.exit, stopLossValue: parseFloat(e.target.value) || 0 } })
+                      }
+                      className={`w-full ${INPUT_CLASS}`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">止盈方式</label>
+                    <select
+                      value={rules.exit.takeProfitType}
+                      onChange={(e) =>
+                        setRules({
+                          ...rules,
+                          exit: {
+                            ...rules.exit,
+                            takeProfitType: e.target.value as RuleSet["exit"]["takeProfitType"],
+                          },
+                        })
+                      }
+                      className={`w-full ${INPUT_CLASS}`}
+                    >
+                      <option value="none">不设置</option>
+                      <option value="percent">百分比</option>
+                      <option value="atr">ATR 倍数</option>
+                      <option value="risk_reward">盈亏比</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">止盈值</label>
+                    <input
+                      type="number"
+                      step={0.1}
+                      value={rules.exit.takeProfitValue}
+                      onChange={(e) =>
+                        setRules({ ...rules, exit: { ...rules.exit, takeProfitValue: parseFloat(e.target.value) || 0 } })
+                      }
+                      className={`w-full ${INPUT_CLASS}`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">ATR 周期</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={rules.exit.atrPeriod}
+                      onChange={(e) =>
+                        setRules({ ...rules, exit: { ...rules.exit, atrPeriod: parseInt(e.target.value) || 14 } })
+                      }
+                      className={`w-full ${INPUT_CLASS}`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">信号有效K线数</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={rules.exit.signalValidBars}
+                      onChange={(e) =>
+                        setRules({ ...rules, exit: { ...rules.exit, signalValidBars: parseInt(e.target.value) || 0 } })
+                      }
+                      className={`w-full ${INPUT_CLASS}`}
+                    />
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* 校验错误 */}
+          {errors.length > 0 && (
+            <ul className="list-disc list-inside text-sm text-red-400 bg-red-900/20 border border-red-800 rounded-lg p-3">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium disabled:opacity-50"
+            >
+              {saving ? "保存中..." : editingId ? "更新规则策略" : "保存规则策略"}
+            </button>
+            {editingId && (
+              <button onClick={resetForm} className="px-6 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg">
+                新建
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 条件分组编辑（可嵌套）
+function GroupEditor({
+  group,
+  entryTimeframe,
+  onChange,
+  onRemove,
+}: {
+  group: RuleGroup;
+  entryTimeframe: string;
+  onChange: (group: RuleGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateRule = (index: number, rule: RuleNode) => {
+    onChange({ ...group, rules: group.rules.map((item, i) => (i === index ? rule : item)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-2 bg-gray-900/50">
+      <div className="flex items-center gap-2 text-sm">
+        <select
+          value={group.logic}
+          onChange={(e) => onChange({ ...group, logic: e.target.value as RuleGroup["logic"] })}
+          className={INPUT_CLASS}
+        >
+          <option value="and">全部满足 (AND)</option>
+          <option value="or">任一满足 (OR)</option>
+        </select>
+        <button
+          onClick={() => onChange({ ...group, rules: [...group.rules, createCondition()] })}
+          className="text-blue-400 hover:text-blue-300"
+        >
+          + 条件
+        </button>
+        <button
+          onClick={() => onChange({ ...group, rules: [...group.rules, createGroup()] })}
+          className="text-blue-400 hover:text-blue-300"
+        >
+          + 分组
+        </button>
+        {onRemove && (
+          <button onClick={onRemove} className="ml-auto text-red-400 hover:text-red-300">
+            删除分组
+          </button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) =>
+        rule.type === "group" ? (
+          <GroupEditor
+            key={index}
+            group={rule}
+            entryTimeframe={entryTimeframe}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <ConditionEditor
+            key={index}
+            condition={rule}
+            entryTimeframe={entryTimeframe}
+            onChange={(next) => updateRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        )
+      )}
+    </div>
+  );
+}
+
+// 单个条件编辑
+function ConditionEditor({
+  condition,
+  entryTimeframe,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleCondition;
+  entryTimeframe: string;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.timeframe || ""}
+        onChange={(e) => onChange({ ...condition, timeframe: e.target.value || undefined })}
+        className={INPUT_CLASS}
+      >
+        <option value="">{entryTimeframe}（入场周期）</option>
+        {TIMEFRAMES.filter((timeframe) => timeframe !== entryTimeframe).map((timeframe) => (
+          <option key={timeframe} value={timeframe}>
+            {timeframe}
+          </option>
+        ))}
+      </select>
+      <OperandEditor operand={condition.left} onChange={(left) => onChange({ ...condition, left })} />
+      <select
+        value={condition.operator}
+        onChange={(e) => onChange({ ...condition, operator: e.target.value as RuleOperator })}
+        className={INPUT_CLASS}
+      >
+        {(Object.keys(RULE_OPERATOR_LABELS) as RuleOperator[]).map((operator) => (
+          <option key={operator} value={operator}>
+            {RULE_OPERATOR_LABELS[operator]}
+          </option>
+        ))}
+      </select>
+      <OperandEditor operand={condition.right} onChange={(right) => onChange({ ...condition, right })} />
+      <button onClick={onRemove} className="text-red-400 hover:text-red-300 text-sm">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+// 指标表达式 / 常数编辑
+function OperandEditor({
+  operand,
+  onChange,
+}: {
+  operand: RuleOperand;
+  onChange: (operand: RuleOperand) => void;
+}) {
+  const selected = operand.kind === "value" ? "value" : operand.indicator;
+
+  const handleTypeChange = (value: string) => {
+    if (value === "value") {
+      onChange({ kind: "value", value: 0 });
+      return;
+    }
+    const indicator = value as RuleIndicator;
+    onChange({ kind: "indicator", indicator, period: RULE_INDICATOR_DEFAULT_PERIODS[indicator] });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <select value={selected} onChange={(e) => handleTypeChange(e.target.value)} className={INPUT_CLASS}>
+        <option value="value">数值</option>
+        {(Object.keys(RULE_INDICATOR_LABELS) as RuleIndicator[]).map((indicator) => (
+          <option key={indicator} value={indicator}>
+            {RULE_INDICATOR_LABELS[indicator]}
+          </option>
+        ))}
+      </select>
+
+      {operand.kind === "value" ? (
+        <input
+          type="number"
+          value={operand.value}
+          onChange={(e) => onChange({ ...operand, value: parseFloat(e.target.value) || 0 })}
+          className={`w-24 ${INPUT_CLASS}`}
+        />
+      ) : (
+        <>
+          {RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator] !== undefined && (
+            <input
+              type="number"
+              min={1}
+              title="周期"
+              value={operand.period ?? RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator]}
+              onChange={(e) => onChange({ ...operand, period: parseInt(e.target.value) || undefined })}
+              className={`w-16 ${INPUT_CLASS}`}
+            />
+          )}
+          <input
+            type="number"
+            min={0}
+            title="向前偏移K线数"
+            placeholder="偏移"
+            value={operand.offset ?? ""}
+            onChange={(e) => onChange({ ...operand, offset: parseInt(e.target.value) || undefined })}
+            className={`w-16 ${INPUT_CLASS}`}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,52 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { strategyManager } from "@/utils/strategyManager";
-import { StrategyConfigItem, StrategyMeta, BaseStrategyParams } from "@/types/strategy";
+import { strategyRegistry, StrategyDescriptor, StrategySource } from "@/strategies/StrategyRegistry";
+import { StrategyConfigItem, BaseStrategyParams } from "@/types/strategy";
+import { RuleBasedStrategy, RULE_STRATEGY_ID_PREFIX } from "@/strategies/RuleBasedStrategy";
+import type { PresetReference } from "@/utils/strategyPresets";
+import { GENERAL_PARAM_ERROR_KEY } from "@/utils/paramSchema";
+import type { RuleStrategyRecord } from "./RuleStrategyEditor";
+import PresetPicker from "./PresetPicker";
 
 interface StrategySelectorProps {
-  onStrategyChange: (strategyId: string, params: BaseStrategyParams) => void;
+  // preset：参数来自预设版本时提供，手动修改参数后为 null
+  onStrategyChange: (
+    strategyId: string,
+    params: BaseStrategyParams,
+    preset?: PresetReference | null
+  ) => void;
   initialStrategyId?: string;
   disabled?: boolean;
+  refreshKey?: number;           // 变化时重新加载规则策略
 }
 
+const SOURCE_LABELS: Record<StrategySource, string> = {
+  builtin: "内置",
+  rule: "规则",
+  script: "脚本",
+};
+
 export default function StrategySelector({
   onStrategyChange,
   initialStrategyId,
   disabled = false,
+  refreshKey = 0,
 }: StrategySelectorProps) {
-  const [strategies, setStrategies] = useState<StrategyMeta[]>([]);
+  // 策略列表来自 /api/strategies，加载完成前先显示本地注册表中的策略
+  const [strategies, setStrategies] = useState<StrategyDescriptor[]>(() => strategyRegistry.describeAll());
   const [selectedStrategyId, setSelectedStrategyId] = useState<string>(initialStrategyId || "");
   const [params, setParams] = useState<BaseStrategyParams>({});
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set(["基本参数"]));
 
   // 加载策略列表
   useEffect(() => {
-    const allStrategies = strategyManager.getAllStrategyMetas();
-    setStrategies(allStrategies);
+    const allStrategies = strategyRegistry.getAllStrategyMetas();
 
     // 如果有初始策略ID，设置它
     if (initialStrategyId) {
       setSelectedStrategyId(initialStrategyId);
-      const defaultParams = strategyManager.getDefaultParams(initialStrategyId);
+      const defaultParams = strategyRegistry.getDefaultParams(initialStrategyId);
       if (defaultParams) {
         setParams(defaultParams);
       }
@@ -36,28 +54,101 @@ export default function StrategySelector({
       // 否则使用第一个策略
       const firstStrategy = allStrategies[0];
       setSelectedStrategyId(firstStrategy.id);
-      const defaultParams = strategyManager.getDefaultParams(firstStrategy.id);
+      const defaultParams = strategyRegistry.getDefaultParams(firstStrategy.id);
       if (defaultParams) {
         setParams(defaultParams);
       }
     }
   }, [initialStrategyId]);
 
+  // 规则策略在浏览器中也注册到策略注册表（前端检测信号时使用），再从服务端加载完整的策略列表
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRuleStrategies = async () => {
+      try {
+        const response = await fetch("/api/strategy/rules");
+        const result = await response.json();
+        if (cancelled || !result.success) {
+          return;
+        }
+
+        // 先注销已删除或停用的规则策略
+        const records: RuleStrategyRecord[] = result.data;
+        const activeIds = new Set(records.filter((r) => r.enabled).map((r) => r.strategyId));
+        for (const id of strategyRegistry.getStrategyIds()) {
+          if (id.startsWith(RULE_STRATEGY_ID_PREFIX) && !activeIds.has(id)) {
+            strategyRegistry.unregister(id);
+          }
+        }
+
+        for (const record of records) {
+          if (!record.enabled) {
+            continue;
+          }
+          try {
+            strategyRegistry.register(
+              new RuleBasedStrategy({
+                id: record.strategyId,
+                name: record.name,
+                description: record.description,
+                rules: record.rules,
+              }),
+              { source: "rule" }
+            );
+          } catch (error) {
+            console.error(`规则策略 [${record.name}] 无效:`, error);
+          }
+        }
+
+      } catch (error) {
+        console.error("Failed to load rule strategies:", error);
+      }
+    };
+
+    const loadStrategies = async () => {
+      await loadRuleStrategies();
+      try {
+        const response = await fetch("/api/strategies");
+        const result = await response.json();
+        if (!cancelled) {
+          setStrategies(result.success ? result.data : strategyRegistry.describeAll());
+        }
+      } catch (error) {
+        console.error("Failed to load strategies:", error);
+        if (!cancelled) {
+          setStrategies(strategyRegistry.describeAll());
+        }
+      }
+    };
+
+    loadStrategies();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
   // 策略改变时，加载默认参数
   const handleStrategyChange = (strategyId: string) => {
     setSelectedStrategyId(strategyId);
-    const defaultParams = strategyManager.getDefaultParams(strategyId);
+    const defaultParams = strategies.find((s) => s.id === strategyId)?.defaultParams;
     if (defaultParams) {
       setParams(defaultParams);
       onStrategyChange(strategyId, defaultParams);
     }
   };
 
-  // 参数改变时，更新并通知父组件
+  // 参数改变时，更新并通知父组件（参数不再等于预设版本）
   const handleParamChange = (key: string, value: any) => {
     const newParams = { ...params, [key]: value };
     setParams(newParams);
-    onStrategyChange(selectedStrategyId, newParams);
+    onStrategyChange(selectedStrategyId, newParams, null);
+  };
+
+  // 应用预设版本的参数
+  const handlePresetApply = (presetParams: BaseStrategyParams, preset: PresetReference | null) => {
+    setParams(presetParams);
+    onStrategyChange(selectedStrategyId, presetParams, preset);
   };
 
   // 切换分组展开/收起
@@ -72,10 +163,18 @@ export default function StrategySelector({
   };
 
   // 获取当前策略
-  const currentStrategy = strategies.find((s) => s.id === selectedStrategyId);
-  const configItems = currentStrategy
-    ? strategyManager.getConfigItems(selectedStrategyId)
-    : [];
+  const currentDescriptor = strategies.find((s) => s.id === selectedStrategyId);
+  const currentStrategy = currentDescriptor?.meta;
+  const configItems = currentDescriptor?.configItems || [];
+
+  // 参数校验（字段错误显示在对应输入框下方）
+  const validation = selectedStrategyId && strategyRegistry.hasStrategy(selectedStrategyId)
+    ? strategyRegistry.validateParams(selectedStrategyId, params)
+    : null;
+  const generalErrors = validation?.fieldErrors[GENERAL_PARAM_ERROR_KEY] || [];
+  const invalidFieldCount = validation
+    ? Object.keys(validation.fieldErrors).filter((key) => key !== GENERAL_PARAM_ERROR_KEY).length
+    : 0;
 
   // 按分组组织配置项
   const groupedConfigs = configItems.reduce((acc, item) => {
@@ -102,41 +201,49 @@ export default function StrategySelector({
           选择交易策略
         </label>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {strategies.map((strategy) => (
-            <button
-              key={strategy.id}
-              onClick={() => !disabled && handleStrategyChange(strategy.id)}
-              disabled={disabled}
-              className={`relative p-4 rounded-xl border-2 transition-all text-left ${
-                selectedStrategyId === strategy.id
-                  ? "border-blue-500 bg-blue-500/10"
-                  : "border-gray-700 bg-gray-800 hover:border-gray-600"
-              } ${disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
-            >
-              <div className="flex items-start justify-between mb-2">
-                <h3 className="font-semibold text-lg">{strategy.name}</h3>
-                {selectedStrategyId === strategy.id && (
-                  <span className="w-5 h-5 bg-blue-500 rounded-full flex items-center justify-center">
-                    <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                    </svg>
+          {strategies.map(({ meta: strategy, source }) => {
+            // 脚本策略只在服务端运行，浏览器中没有实例，不能用于前端自动交易
+            const available = strategyRegistry.hasStrategy(strategy.id);
+            const selectable = !disabled && available;
+            return (
+              <button
+                key={strategy.id}
+                onClick={() => selectable && handleStrategyChange(strategy.id)}
+                disabled={!selectable}
+                className={`relative p-4 rounded-xl border-2 transition-all text-left ${
+                  selectedStrategyId === strategy.id
+                    ? "border-blue-500 bg-blue-500/10"
+                    : "border-gray-700 bg-gray-800 hover:border-gray-600"
+                } ${selectable ? "cursor-pointer" : "opacity-50 cursor-not-allowed"}`}
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <h3 className="font-semibold text-lg">{strategy.name}</h3>
+                  {selectedStrategyId === strategy.id && (
+                    <span className="w-5 h-5 bg-blue-500 rounded-full flex items-center justify-center">
+                      <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                      </svg>
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-400 mb-3 line-clamp-2">
+                  {strategy.description}
+                </p>
+                <div className="flex items-center justify-between text-xs">
+                  <span className={`px-2 py-1 rounded-full border ${
+                    riskLevelColors[strategy.riskLevel]
+                  }`}>
+                    {strategy.riskLevel === "low" ? "低风险" :
+                     strategy.riskLevel === "medium" ? "中风险" : "高风险"}
                   </span>
-                )}
-              </div>
-              <p className="text-sm text-gray-400 mb-3 line-clamp-2">
-                {strategy.description}
-              </p>
-              <div className="flex items-center justify-between text-xs">
-                <span className={`px-2 py-1 rounded-full border ${
-                  riskLevelColors[strategy.riskLevel]
-                }`}>
-                  {strategy.riskLevel === "low" ? "低风险" :
-                   strategy.riskLevel === "medium" ? "中风险" : "高风险"}
-                </span>
-                <span className="text-gray-500">{strategy.category}</span>
-              </div>
-            </button>
-          ))}
+                  <span className="text-gray-500">
+                    {strategy.category} · {SOURCE_LABELS[source]}
+                    {!available && <span className="ml-1 text-yellow-400">仅服务端</span>}
+                  </span>
+                </div>
+              </button>
+            );
+          })}
         </div>
       </div>
 
@@ -165,6 +272,16 @@ export default function StrategySelector({
         </div>
       )}
 
+      {/* 参数预设 */}
+      {currentStrategy && (
+        <PresetPicker
+          strategyId={selectedStrategyId}
+          params={params}
+          onApply={handlePresetApply}
+          disabled={disabled}
+        />
+      )}
+
       {/* 策略参数配置 */}
       {Object.keys(groupedConfigs).length > 0 && (
         <div className="space-y-4">
@@ -177,7 +294,12 @@ export default function StrategySelector({
                 onClick={() => toggleGroup(category)}
                 className="w-full px-6 py-4 flex items-center justify-between bg-gray-800/50 hover:bg-gray-800 transition-colors"
               >
-                <h4 className="font-semibold">{category}</h4>
+                <h4 className="font-semibold">
+                  {category}
+                  {items.some((item) => validation?.fieldErrors[item.key]) && (
+                    <span className="ml-2 text-xs text-red-400">参数有误</span>
+                  )}
+                </h4>
                 <svg
                   className={`w-5 h-5 transition-transform ${
                     expandedGroups.has(category) ? "rotate-180" : ""
@@ -270,6 +392,11 @@ export default function StrategySelector({
                       {item.description && (
                         <p className="text-xs text-gray-500 mt-2">{item.description}</p>
                       )}
+
+                      {/* 参数错误 */}
+                      {validation?.fieldErrors[item.key]?.map((error, index) => (
+                        <p key={index} className="text-xs text-red-400 mt-1">{error}</p>
+                      ))}
                     </div>
                   ))}
                 </div>
@@ -280,12 +407,11 @@ export default function StrategySelector({
       )}
 
       {/* 参数验证信息 */}
-      {selectedStrategyId && (
+      {validation && (
         <div className="bg-gray-800 rounded-xl p-4 border border-gray-700">
           <h4 className="font-semibold mb-3">参数验证</h4>
           <div className="text-sm text-gray-400">
             {(() => {
-              const validation = strategyManager.validateParams(selectedStrategyId, params);
               if (validation.valid) {
                 return (
                   <div className="flex items-center text-green-400">
@@ -305,7 +431,10 @@ export default function StrategySelector({
                       参数配置错误
                     </div>
                     <ul className="list-disc list-inside text-red-400 ml-7">
-                      {validation.errors.map((error, index) => (
+                      {invalidFieldCount > 0 && (
+                        <li>{invalidFieldCount} 个参数不符合要求，请查看参数下方的提示</li>
+                      )}
+                      {generalErrors.map((error, index) => (
                         <li key={index}>{error}</li>
                       ))}
                     </ul>
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState, useEffect, useRef } from "react";
+import type { StrategyDescriptor } from "@/strategies/StrategyRegistry";
 
 // 类型定义
 type TaskStatus = "idle" | "running" | "paused" | "stopped" | "error";
@@ -84,22 +85,14 @@ export const DEFAULT_TRADING_PARAMS: TradingParams = {
   scanInterval: 5,
 };
 
-const STRATEGIES = [
-  {
-    id: "ema_trend_recognition",
-    name: "EMA趋势识别",
-    description: "多时间框架策略：使用自定义周期EMA确认趋势方向，在小周期图中寻找回调进场点。结合RSI、成交量、K线颜色等多重过滤条件。",
-    icon: "📈",
-    params: ["trendTimeframe", "entryTimeframe", "emaShort", "emaLong", "rsiPeriod", "volumePeriod", "stopLossPercent", "stopLossPositionSize", "takeProfitPercent", "takeProfitPositionSize", "leverage", "minTrendDistance"]
-  },
-  {
-    id: "smc_liquidity_fvg",
-    name: "SMC 流动性 + FVG",
-    description: "基于 ICT/SMC 理论的智能资金策略。识别流动性扫荡、确认机构位移，通过 FVG 回踩进行低风险入场。",
-    icon: "💧",
-    params: ["mainTimeframe", "midTimeframe", "lowTimeframe", "liquidityLookback", "liquidityTolerance", "displacementThreshold", "displacementMinBars", "fvgMinSize", "fvgMaxSize", "entryFVGPercent", "stopLossBuffer", "takeProfitTP1", "takeProfitTP2", "riskPercent", "minVolumeRatio", "filterSideways"]
-  }
-];
+const DEFAULT_STRATEGY_ID = "ema_trend_recognition";
+
+// 策略图标（未配置的策略使用默认图标）
+const STRATEGY_ICONS: Record<string, string> = {
+  ema_trend_recognition: "📈",
+  smc_liquidity_fvg: "💧",
+};
+const DEFAULT_STRATEGY_ICON = "📊";
 
 interface TradingMonitorProps {
   isMobile?: boolean;
@@ -107,7 +100,8 @@ interface TradingMonitorProps {
 
 export default function TradingMonitor({ isMobile = false }: TradingMonitorProps) {
   const [step, setStep] = useState<1 | 2 | 3>(1);
-  const [selectedStrategy, setSelectedStrategy] = useState(STRATEGIES[0].id);
+  const [strategies, setStrategies] = useState<StrategyDescriptor[]>([]);
+  const [selectedStrategy, setSelectedStrategy] = useState(DEFAULT_STRATEGY_ID);
   const [params, setParams] = useState<TradingParams>(DEFAULT_TRADING_PARAMS);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [signals, setSignals] = useState<Signal[]>([]);
@@ -135,6 +129,23 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
     }
   }, []);
 
+  // 加载策略列表（内置、规则和脚本策略）
+  useEffect(() => {
+    const loadStrategies = async () => {
+      try {
+        const response = await fetch("/api/strategies");
+        const result = await response.json();
+        if (result.success) {
+          setStrategies(result.data);
+        }
+      } catch (error) {
+        console.error("Failed to load strategies:", error);
+      }
+    };
+
+    loadStrategies();
+  }, []);
+
   // 清理定时器
   useEffect(() => {
     return () => {
@@ -144,7 +155,14 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
     };
   }, []);
 
-  const currentStrategy = STRATEGIES.find(s => s.id === selectedStrategy);
+  const currentDescriptor = strategies.find(s => s.id === selectedStrategy);
+  const currentStrategy = currentDescriptor?.meta;
+
+  // 当前策略是否有某个参数（只显示策略用到的参数）
+  const hasStrategyParam = (key: string) =>
+    !!currentDescriptor &&
+    (key in currentDescriptor.defaultParams ||
+      currentDescriptor.configItems.some((item) => item.key === key));
 
   // 连接账户并获取余额
   const connectToAccount = async (key: string, secret: string) => {
@@ -492,7 +510,10 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-          {STRATEGIES.map((strategy) => (
+          {strategies.length === 0 && (
+            <div className="md:col-span-3 text-center text-gray-500 py-8">加载策略中...</div>
+          )}
+          {strategies.map(({ meta: strategy }) => (
             <div
               key={strategy.id}
               onClick={() => setSelectedStrategy(strategy.id)}
@@ -502,7 +523,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   : "border-gray-700 bg-gray-800 hover:border-gray-600"
               }`}
             >
-              <div className="text-4xl mb-4">{strategy.icon}</div>
+              <div className="text-4xl mb-4">{STRATEGY_ICONS[strategy.id] || DEFAULT_STRATEGY_ICON}</div>
               <h3 className="text-lg font-bold mb-2">{strategy.name}</h3>
               <p className="text-sm text-gray-400">{strategy.description}</p>
               {selectedStrategy === strategy.id && (
@@ -558,7 +579,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
               策略参数
             </h3>
             <div className="space-y-4">
-              {currentStrategy?.params.includes("trendTimeframe") && (
+              {hasStrategyParam("trendTimeframe") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">趋势识别周期</label>
                   <select
@@ -581,7 +602,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   </select>
                 </div>
               )}
-              {currentStrategy?.params.includes("entryTimeframe") && (
+              {hasStrategyParam("entryTimeframe") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">进场信号周期</label>
                   <select
@@ -604,7 +625,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   </select>
                 </div>
               )}
-              {currentStrategy?.params.includes("emaShort") && (
+              {hasStrategyParam("emaShort") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">EMA短期周期</label>
                   <input
@@ -615,7 +636,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   />
                 </div>
               )}
-              {currentStrategy?.params.includes("emaLong") && (
+              {hasStrategyParam("emaLong") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">EMA长期周期</label>
                   <input
@@ -626,7 +647,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   />
                 </div>
               )}
-              {currentStrategy?.params.includes("rsiPeriod") && (
+              {hasStrategyParam("rsiPeriod") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">RSI周期</label>
                   <input
@@ -637,7 +658,7 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   />
                 </div>
               )}
-              {currentStrategy?.params.includes("volumePeriod") && (
+              {hasStrategyParam("volumePeriod") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">成交量周期</label>
                   <input
@@ -688,18 +709,16 @@ export default function TradingMonitor({ isMobile = false }: TradingMonitorProps
                   className="w-full bg-gray-700 rounded px-3 py-2 text-white"
                 />
               </div>
-              {currentStrategy?.params.includes("leverage") && (
-                <div>
-                  <label className="block text-sm text-gray-400 mb-1">杠杆倍数</label>
-                  <input
-                    type="number"
-                    value={params.leverage}
-                    onChange={(e) => setParams({ ...params, leverage: Number(e.target.value) })}
-                    className="w-full bg-gray-700 rounded px-3 py-2 text-white"
-                  />
-                </div>
-              )}
-              {currentStrategy?.params.includes("minTrendDistance") && (
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">杠杆倍数</label>
+                <input
+                  type="number"
+                  value={params.leverage}
+                  onChange={(e) => setParams({ ...params, leverage: Number(e.target.value) })}
+                  className="w-full bg-gray-700 rounded px-3 py-2 text-white"
+                />
+              </div>
+              {hasStrategyParam("minTrendDistance") && (
                 <div>
                   <label className="block text-sm text-gray-400 mb-1">最小趋势距离 (%)</label>
                   <input
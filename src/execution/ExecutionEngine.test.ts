@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BinanceExecutionEngine } from "./ExecutionEngine";
+import { FakeExchange } from "../test/fakeExchange";
+import { OrderSide, OrderStatus } from "../types/exchange";
+import type { TradeTask } from "../types/execution";
+import type { Signal } from "../types/strategy";
+
+type TaskRuntime = Parameters<BinanceExecutionEngine["executeSignal"]>[0];
+type GridStrategy = Parameters<BinanceExecutionEngine["initGrids"]>[1];
+
+const SYMBOL = "BTCUSDT";
+
+function createRuntime(): TaskRuntime {
+  const task: TradeTask = {
+    id: "task_1",
+    name: "test",
+    strategyId: "test",
+    strategyName: "test",
+    strategyParams: {},
+    symbols: [SYMBOL],
+    timeframes: ["1h"],
+    status: "running",
+    totalSignals: 0,
+    executedTrades: 0,
+    skippedTrades: 0,
+    failedTrades: 0,
+    totalProfit: 0,
+    netProfit: 0,
+    winRate: 0,
+    riskStatus: "normal",
+    lastUpdateTime: Date.now(),
+  };
+  return {
+    task,
+    klines: new Map(),
+    lastScanTime: 0,
+    unsubscribers: [],
+    streams: new Map(),
+    streamSnapshots: new Map(),
+    pendingSignals: [],
+    exitOrderIds: new Map(),
+    grids: new Map(),
+    dcaDeals: new Map(),
+    legGroups: new Map(),
+    positionUnits: new Map(),
+  };
+}
+
+function createSignal(direction: "long" | "short", entryPrice: number): Signal {
+  const sign = direction === "long" ? 1 : -1;
+  return {
+    symbol: SYMBOL,
+    direction,
+    time: Date.now(),
+    reason: "test",
+    confidence: 1,
+    entryPrice,
+    exitPlan: {
+      stopLoss: entryPrice * (1 - sign * 0.02),
+      takeProfits: [
+        { price: entryPrice * (1 + sign * 0.02), sizeFraction: 0.5, label: "TP1" },
+        { price: entryPrice * (1 + sign * 0.04), sizeFraction: 0.5, label: "TP2" },
+      ],
+    },
+  };
+}
+
+describe("BinanceExecutionEngine exit orders", () => {
+  let exchange: FakeExchange;
+  let engine: BinanceExecutionEngine;
+  let runtime: TaskRuntime;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    exchange = new FakeExchange();
+    exchange.setPrice(SYMBOL, 100);
+    engine = new BinanceExecutionEngine({
+      exchange,
+      riskControl: {
+        maxPositionSize: 1000,
+        maxTotalPosition: 5000,
+        maxDailyLoss: 100,
+        maxDrawdown: 20,
+        stopLossPercent: 2,
+        takeProfitPercent: 4,
+        maxTradesPerDay: 10,
+        enableEmergencyStop: false,
+        emergencyStopPercent: 10,
+        minBalance: 0,
+        maxLeverage: 10,
+      },
+      scanInterval: 1000,
+      enableAutoTrade: true,
+      enableLogging: false,
+    });
+    runtime = createRuntime();
+  });
+
+  it("places a stop and take-profits for a new position", async () => {
+    await engine["executeSignal"](runtime, createSignal("long", 100));
+
+    const exitOrderIds = runtime.exitOrderIds.get(SYMBOL) || [];
+    expect(exitOrderIds).toHaveLength(3);
+    expect(exchange.getOpenOrderIds(SYMBOL).map(String)).toEqual(exitOrderIds);
+  });
+
+  it("cancels the previous exit orders before opening a new position", async () => {
+    await engine["executeSignal"](runtime, createSignal("long", 100));
+    const [stopId] = (runtime.exitOrderIds.get(SYMBOL) || []).map(Number);
+
+    // 止损成交后（尚未同步）反向开仓：上一笔的止盈单不能留在新持仓上
+    exchange.fillOrder(stopId);
+    exchange.setPrice(SYMBOL, 98);
+    await engine["executeSignal"](runtime, createSignal("short", 98));
+
+    const exitOrderIds = runtime.exitOrderIds.get(SYMBOL) || [];
+    expect(exitOrderIds).toHaveLength(3);
+    expect(exchange.getOpenOrderIds(SYMBOL).map(String)).toEqual(exitOrderIds);
+  });
+
+  it("cancels the previous exit orders when opening the other side", async () => {
+    await engine["executeSignal"](runtime, createSignal("long", 100));
+    const previous = runtime.exitOrderIds.get(SYMBOL) || [];
+
+    exchange.setPrice(SYMBOL, 101);
+    await engine["executeSignal"](runtime, createSignal("short", 101));
+
+    const open = exchange.getOpenOrderIds(SYMBOL).map(String);
+    expect(open).toEqual(runtime.exitOrderIds.get(SYMBOL));
+    expect(open.some((orderId) => previous.includes(orderId))).toBe(false);
+  });
+
+  it("cancels the remaining exit orders once the stop fills", async () => {
+    await engine["executeSignal"](runtime, createSignal("long", 100));
+    const [stopId] = (runtime.exitOrderIds.get(SYMBOL) || []).map(Number);
+
+    exchange.fillOrder(stopId);
+    await engine["syncExitOrders"](runtime);
+
+    expect(exchange.getOpenOrderIds(SYMBOL)).toEqual([]);
+    expect(runtime.exitOrderIds.has(SYMBOL)).toBe(false);
+  });
+
+  it("keeps the plan after a partial take-profit and cancels the stop after the last one", async () => {
+    await engine["executeSignal"](runtime, createSignal("long", 100));
+    const [stopId, firstTakeProfitId, lastTakeProfitId] = (runtime.exitOrderIds.get(SYMBOL) || []).map(Number);
+
+    exchange.fillOrder(firstTakeProfitId);
+    await engine["syncExitOrders"](runtime);
+    expect(exchange.getOpenOrderIds(SYMBOL)).toEqual([stopId, lastTakeProfitId]);
+    expect(runtime.exitOrderIds.get(SYMBOL)).toHaveLength(3);
+
+    exchange.fillOrder(lastTakeProfitId);
+    await engine["syncExitOrders"](runtime);
+    expect(exchange.getOpenOrderIds(SYMBOL)).toEqual([]);
+    expect(runtime.exitOrderIds.has(SYMBOL)).toBe(false);
+  });
+
+  it("adds units up to maxUnits and skips further add signals", async () => {
+    const unitSignal = (action: "open" | "add"): Signal => ({
+      ...createSignal("long", 100),
+      action,
+      unitSizing: { riskPercent: 1, riskDistance: 2, maxUnits: 2 },
+    });
+
+    await engine["executeSignal"](runtime, unitSignal("open"));
+    await engine["executeSignal"](runtime, unitSignal("add"));
+    await engine["executeSignal"](runtime, unitSignal("add"));
+
+    const [position] = await exchange.getPositions(SYMBOL);
+    expect(position.positionAmt).toBeCloseTo(10);
+    expect(runtime.task.skippedTrades).toBe(1);
+  });
+
+  it("ignores add signals without a position unless they may open", async () => {
+    await engine["executeSignal"](runtime, { ...createSignal("long", 100), action: "add" });
+    expect(await exchange.getPositions(SYMBOL)).toEqual([]);
+
+    await engine["executeSignal"](runtime, { ...createSignal("long", 100), action: "add", openIfFlat: true });
+    expect(await exchange.getPositions(SYMBOL)).toHaveLength(1);
+  });
+
+  it("tracks realized PnL per grid pair, including the market close when the grid stops", async () => {
+    const setPrice = (price: number) => {
+      exchange.setPrice(SYMBOL, price);
+      runtime.klines.set(`${SYMBOL}_1h`, [{ timestamp: 0, open: price, high: price, low: price, close: price, volume: 1 }]);
+    };
+    const strategy = {
+      getGridPlan: () => ({ lowerPrice: 90, upperPrice: 110, levels: [90, 95, 100, 105, 110], quantityPerGrid: 1 }),
+    } as unknown as GridStrategy;
+    const openOrderAt = (side: OrderSide, price: number) =>
+      Array.from(exchange.orders.values()).find(
+        (order) => order.status === OrderStatus.NEW && order.side === side && order.price === price
+      )!;
+
+    setPrice(100);
+    await engine["initGrids"](runtime, strategy);
+
+    // 第 2 格（95 - 100）买入开仓后在 100 平仓：完成一次套利
+    exchange.fillOrder(openOrderAt(OrderSide.BUY, 95).orderId);
+    await engine["syncGrids"](runtime);
+    exchange.fillOrder(openOrderAt(OrderSide.SELL, 100).orderId);
+    await engine["syncGrids"](runtime);
+
+    // 再次开仓后价格跌出区间，按市价平仓
+    exchange.fillOrder(openOrderAt(OrderSide.BUY, 95).orderId);
+    await engine["syncGrids"](runtime);
+    setPrice(85);
+    await engine["syncGrids"](runtime);
+
+    const pairs = runtime.task.gridPairs?.[SYMBOL] || [];
+    expect(pairs).toHaveLength(4);
+    expect(pairs[1]).toMatchObject({ lowerPrice: 95, upperPrice: 100, completedTrades: 1 });
+    expect(pairs[1].profit).toBeCloseTo(5 - 10);
+    expect(pairs.filter((pair) => pair.index !== 1).every((pair) => pair.profit === 0)).toBe(true);
+  });
+});
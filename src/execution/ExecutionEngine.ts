@@ -14,9 +14,74 @@ import {
   ManualInterventionType,
   SignalExecutionRecord,
 } from "../types/execution";
-import { Exchange, OrderSide, PositionSide, Position, OrderType } from "../types/exchange";
-import { KLineData, Signal } from "../types/strategy";
-import { strategyManager } from "../utils/strategyManager";
+import {
+  Exchange,
+  Order,
+  OrderSide,
+  OrderStatus,
+  PositionSide,
+  Position,
+  OrderType,
+} from "../types/exchange";
+import {
+  DcaPlan,
+  ExitPlan,
+  GridPlan,
+  KLineData,
+  LinkedSignal,
+  Signal,
+  TradingStrategy,
+  StrategyStream,
+  StrategyStreamState,
+} from "../types/strategy";
+import { strategyRegistry } from "../strategies/StrategyRegistry";
+import { resolveExitPlan, isSignalExpired } from "../utils/exitPlan";
+import {
+  TIMEFRAME_TO_MS,
+  getStrategyTimeframes,
+  buildMultiTimeframeContext,
+  sortTimeframes,
+} from "../utils/timeframeAligner";
+import {
+  GridPairState,
+  createGridPairs,
+  getGridOrder,
+  getGridPairProfit,
+  isOutsideGrid,
+} from "../utils/gridPlan";
+import { getDcaNotional, getDcaTakeProfitPrice, scaleDcaPlan } from "../utils/dcaPlan";
+import {
+  LegPosition,
+  LinkedStrategy,
+  alignLegKlines,
+  capLegNotional,
+  getLegPnl,
+  getLegQuantities,
+  isLinkedStrategy,
+} from "../utils/linkedLegs";
+
+// 网格运行状态（每个交易对一个）
+interface GridRuntime {
+  plan: GridPlan;
+  pairs: GridPairState[];
+  orderIds: Map<string, number>; // 挂单ID -> 格子序号
+  stopped: boolean;
+}
+
+// DCA 进行中的一轮（每个交易对一个）
+interface DcaDeal {
+  signal: Signal;
+  plan: DcaPlan;
+  safetyOrderIds: string[];
+  positionAmt: number; // 上次同步时的持仓数量，增加说明有安全单成交
+}
+
+// 多交易对策略进行中的腿组（每个腿组标识一个）
+interface LegGroupRuntime {
+  id: string;
+  signal: LinkedSignal;
+  legs: LegPosition[]; // 已成交、尚未平仓的腿
+}
 
 // 任务运行状态
 interface TaskRuntime {
@@ -25,6 +90,14 @@ interface TaskRuntime {
   klines: Map<string, KLineData[]>; // symbol -> klines
   lastScanTime: number;
   unsubscribers: Array<() => void>;
+  streams: Map<string, StrategyStream>; // 流式检测实例：多周期策略按 symbol，否则按 symbol_timeframe
+  streamSnapshots: Map<string, StrategyStreamState>; // 停止任务时保存的流式状态
+  pendingSignals: Signal[]; // K线收盘时流式检测产生、等待扫描执行的信号
+  exitOrderIds: Map<string, string[]>; // symbol -> 当前挂出的止损止盈单（开仓、加仓时撤销重挂，止损或最后一个止盈成交后撤销其余）
+  grids: Map<string, GridRuntime>; // 网格策略：symbol -> 网格状态
+  dcaDeals: Map<string, DcaDeal>; // DCA：symbol -> 进行中的一轮
+  legGroups: Map<string, LegGroupRuntime>; // 多交易对策略：腿组标识 -> 持仓腿
+  positionUnits: Map<string, number>; // symbol_方向 -> 当前持仓的单位数（开仓为 1，每次加仓成交后加 1）
 }
 
 /**
@@ -141,6 +214,14 @@ export class BinanceExecutionEngine implements ExecutionEngine {
       klines: new Map(),
       lastScanTime: 0,
       unsubscribers: [],
+      streams: new Map(),
+      streamSnapshots: new Map(),
+      pendingSignals: [],
+      exitOrderIds: new Map(),
+      grids: new Map(),
+      dcaDeals: new Map(),
+      legGroups: new Map(),
+      positionUnits: new Map(),
     };
 
     this.tasks.set(task.id, runtime);
@@ -186,6 +267,22 @@ export class BinanceExecutionEngine implements ExecutionEngine {
     runtime.task.startTime = Date.now();
     runtime.task.lastUpdateTime = Date.now();
 
+    // 补齐策略声明需要的周期
+    const strategy = strategyRegistry.getStrategy(runtime.task.strategyId);
+    if (strategy) {
+      runtime.task.timeframes = sortTimeframes([
+        ...runtime.task.timeframes,
+        ...getStrategyTimeframes(strategy, runtime.task.strategyParams),
+      ]);
+    }
+
+    // 多交易对策略：补齐各腿的交易对
+    if (strategy && isLinkedStrategy(strategy)) {
+      runtime.task.symbols = Array.from(
+        new Set([...runtime.task.symbols, ...strategy.getLegSymbols(runtime.task.strategyParams)])
+      );
+    }
+
     // 初始化K线数据
     for (const symbol of runtime.task.symbols) {
       for (const timeframe of runtime.task.timeframes) {
@@ -194,6 +291,13 @@ export class BinanceExecutionEngine implements ExecutionEngine {
       }
     }
 
+    // 网格策略挂出网格，其他策略初始化流式检测（策略支持时）
+    if (strategy?.getGridPlan) {
+      await this.initGrids(runtime, strategy);
+    } else if (strategy) {
+      this.initStreams(runtime, strategy);
+    }
+
     // 订阅实时数据
     for (const symbol of runtime.task.symbols) {
       for (const timeframe of runtime.task.timeframes) {
@@ -241,6 +345,19 @@ export class BinanceExecutionEngine implements ExecutionEngine {
     runtime.unsubscribers.forEach((unsub) => unsub());
     runtime.unsubscribers = [];
 
+    // 保存流式检测状态，重新启动时从快照恢复
+    runtime.streamSnapshots.clear();
+    runtime.streams.forEach((stream, key) => {
+      runtime.streamSnapshots.set(key, stream.snapshot());
+    });
+    runtime.pendingSignals = [];
+
+    // 撤销网格挂单（已有持仓保留）
+    for (const [symbol, grid] of Array.from(runtime.grids)) {
+      await this.cancelGridOrders(symbol, grid);
+    }
+    runtime.grids.clear();
+
     this.notifyTaskUpdate(runtime.task);
 
     console.log(`Task [${taskId}] stopped`);
@@ -310,7 +427,7 @@ export class BinanceExecutionEngine implements ExecutionEngine {
 
     try {
       // 获取策略
-      const strategy = strategyManager.getStrategy(runtime.task.strategyId);
+      const strategy = strategyRegistry.getStrategy(runtime.task.strategyId);
       if (!strategy) {
         console.error(`Strategy [${runtime.task.strategyId}] not found`);
         return;
@@ -324,30 +441,32 @@ export class BinanceExecutionEngine implements ExecutionEngine {
         return;
       }
 
-      // 扫描所有交易对
-      for (const symbol of runtime.task.symbols) {
-        for (const timeframe of runtime.task.timeframes) {
-          const key = `${symbol}_${timeframe}`;
-          const klines = runtime.klines.get(key);
-
-          if (!klines || klines.length === 0) {
-            continue;
-          }
-
-          // 检测信号
-          const detectionResult = strategy.detectSignal(
-            symbol,
-            klines,
-            runtime.task.strategyParams
-          );
+      // 同步 DCA 安全单成交和止盈情况
+      if (runtime.dcaDeals.size > 0) {
+        await this.syncDcaDeals(runtime);
+      }
 
-          if (detectionResult.signal) {
-            runtime.task.totalSignals++;
+      // 止损或最后一个止盈成交后撤销其余出场单
+      if (runtime.exitOrderIds.size > 0) {
+        await this.syncExitOrders(runtime);
+      }
 
-            // 执行信号
-            await this.executeSignal(runtime, detectionResult.signal);
-          }
+      if (runtime.grids.size > 0) {
+        // 网格模式：同步挂单成交情况
+        await this.syncGrids(runtime);
+      } else if (isLinkedStrategy(strategy)) {
+        // 多交易对策略：各腿对齐后检测，腿组同时开平仓
+        await this.detectLinkedSignals(runtime, strategy);
+      } else if (runtime.streams.size > 0) {
+        // 流式检测：执行K线收盘时产生的信号
+        const signals = runtime.pendingSignals;
+        runtime.pendingSignals = [];
+        for (const signal of signals) {
+          runtime.task.totalSignals++;
+          await this.executeSignal(runtime, signal);
         }
+      } else {
+        await this.detectSignalsBatch(runtime, strategy);
       }
 
       // 更新任务统计
@@ -362,6 +481,576 @@ export class BinanceExecutionEngine implements ExecutionEngine {
     }
   }
 
+  /**
+   * 批量检测：每次扫描对当前K线调用 detectSignal
+   */
+  private async detectSignalsBatch(
+    runtime: TaskRuntime,
+    strategy: TradingStrategy
+  ): Promise<void> {
+    const requiredTimeframes = getStrategyTimeframes(
+      strategy,
+      runtime.task.strategyParams
+    );
+
+    // 扫描所有交易对
+    for (const symbol of runtime.task.symbols) {
+      // 多时间框架策略：每个交易对只检测一次，最小周期作为入场周期
+      if (requiredTimeframes.length > 0) {
+        const klinesByTimeframe: Record<string, KLineData[]> = {};
+        for (const timeframe of requiredTimeframes) {
+          klinesByTimeframe[timeframe] = runtime.klines.get(`${symbol}_${timeframe}`) || [];
+        }
+
+        if (requiredTimeframes.some((timeframe) => klinesByTimeframe[timeframe].length === 0)) {
+          continue;
+        }
+
+        const entryTimeframe = requiredTimeframes[0];
+        const detectionResult = strategy.detectSignal(
+          symbol,
+          klinesByTimeframe[entryTimeframe],
+          runtime.task.strategyParams,
+          buildMultiTimeframeContext(klinesByTimeframe, entryTimeframe)
+        );
+
+        if (detectionResult.signal) {
+          runtime.task.totalSignals++;
+          await this.executeSignal(runtime, detectionResult.signal);
+        }
+        continue;
+      }
+
+      for (const timeframe of runtime.task.timeframes) {
+        const key = `${symbol}_${timeframe}`;
+        const klines = runtime.klines.get(key);
+
+        if (!klines || klines.length === 0) {
+          continue;
+        }
+
+        // 检测信号
+        const detectionResult = strategy.detectSignal(
+          symbol,
+          klines,
+          runtime.task.strategyParams
+        );
+
+        if (detectionResult.signal) {
+          runtime.task.totalSignals++;
+
+          // 执行信号
+          await this.executeSignal(runtime, detectionResult.signal);
+        }
+      }
+    }
+  }
+
+  /**
+   * 多腿检测：各腿使用任务的第一个周期，按时间对齐后调用 detectLinkedSignal
+   */
+  private async detectLinkedSignals(
+    runtime: TaskRuntime,
+    strategy: LinkedStrategy
+  ): Promise<void> {
+    const timeframe = runtime.task.timeframes[0];
+    const symbols = strategy.getLegSymbols(runtime.task.strategyParams);
+    const klinesBySymbol: Record<string, KLineData[]> = {};
+    for (const symbol of symbols) {
+      klinesBySymbol[symbol] = runtime.klines.get(`${symbol}_${timeframe}`) || [];
+    }
+
+    const aligned = alignLegKlines(klinesBySymbol, symbols);
+    if (symbols.some((symbol) => aligned[symbol].length === 0)) {
+      return;
+    }
+
+    const { signal } = strategy.detectLinkedSignal(aligned, runtime.task.strategyParams);
+    if (!signal) {
+      return;
+    }
+
+    // 开仓信号在已有同向腿组时、平仓信号在没有腿组时不计数
+    const existing = runtime.legGroups.get(signal.groupId);
+    if (signal.action === "close" ? !existing : existing?.signal.direction === signal.direction) {
+      return;
+    }
+
+    runtime.task.totalSignals++;
+    await this.executeLinkedSignal(runtime, signal);
+  }
+
+  /**
+   * 执行多腿信号
+   * 各腿依次市价下单，任意一条腿失败时把已成交的腿市价平掉（回滚），整个腿组记为失败
+   */
+  private async executeLinkedSignal(
+    runtime: TaskRuntime,
+    signal: LinkedSignal
+  ): Promise<void> {
+    if (!this.config.enableAutoTrade) {
+      console.log(`Auto-trading disabled, skipping linked signal: ${signal.groupId} ${signal.action}`);
+      runtime.task.skippedTrades++;
+      return;
+    }
+
+    const existing = runtime.legGroups.get(signal.groupId);
+    if (signal.action === "close") {
+      if (existing) {
+        await this.closeLegGroup(runtime, existing);
+      }
+      return;
+    }
+
+    if (existing) {
+      if (existing.signal.direction === signal.direction) {
+        return;
+      }
+      // 反向：先平掉原腿组，未能全部平仓时不开新仓
+      if (!(await this.closeLegGroup(runtime, existing))) {
+        runtime.task.skippedTrades++;
+        return;
+      }
+    }
+
+    // 第一腿按单笔上限开仓，名义价值最大的腿同样不超过单笔上限
+    const { maxPositionSize } = this.config.riskControl;
+    const notional = capLegNotional(signal, maxPositionSize, maxPositionSize);
+    const quantities = getLegQuantities(signal, notional);
+    const groupId = `${signal.groupId}_${Date.now()}`;
+    const filled: LegPosition[] = [];
+    const records: SignalExecutionRecord[] = [];
+
+    for (let i = 0; i < signal.legs.length; i++) {
+      const leg = signal.legs[i];
+      try {
+        const order = await this.config.exchange.placeOrder({
+          symbol: leg.symbol,
+          side: leg.direction === "long" ? OrderSide.BUY : OrderSide.SELL,
+          type: OrderType.MARKET,
+          positionSide: leg.direction === "long" ? PositionSide.LONG : PositionSide.SHORT,
+          quantity: quantities[i],
+          reduceOnly: false,
+        });
+        const avgPrice = order.executedQty > 0 ? order.cumQuote / order.executedQty : order.price;
+
+        filled.push({
+          symbol: leg.symbol,
+          direction: leg.direction,
+          entryPrice: avgPrice || leg.entryPrice,
+          quantity: order.executedQty || quantities[i],
+        });
+        records.push({
+          id: `exec_${Date.now()}_${Math.random()}`,
+          taskId: runtime.task.id,
+          signal: leg,
+          executed: true,
+          executionTime: Date.now(),
+          orderId: order.orderId.toString(),
+          signalPrice: leg.entryPrice.toString(),
+          executionPrice: avgPrice.toString(),
+          slippage: Math.abs(avgPrice - leg.entryPrice),
+          quantity: order.executedQty.toString(),
+          positionValue: (order.executedQty * avgPrice).toString(),
+          legGroupId: groupId,
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        console.error(`Failed to execute leg ${leg.symbol} of ${signal.groupId}, rolling back:`, error);
+
+        const rolledBack = await this.closeLegs(runtime, filled);
+        const remaining = filled.filter((position) => !rolledBack.includes(position));
+        if (remaining.length > 0) {
+          console.error(`Rollback incomplete for ${signal.groupId}, manual intervention required: ${remaining.map((position) => position.symbol).join(", ")}`);
+        }
+
+        records.push({
+          id: `exec_${Date.now()}_${Math.random()}`,
+          taskId: runtime.task.id,
+          signal: leg,
+          executed: false,
+          signalPrice: leg.entryPrice.toString(),
+          quantity: "0",
+          positionValue: "0",
+          error: `Leg ${leg.symbol} failed (${error instanceof Error ? error.message : String(error)}), rolled back ${rolledBack.length}/${filled.length} filled leg(s)`,
+          legGroupId: groupId,
+          timestamp: Date.now(),
+        });
+        runtime.task.failedTrades++;
+        records.forEach((record) => {
+          this.executionRecords.push(record);
+          this.notifySignalExecution(record);
+        });
+        return;
+      }
+    }
+
+    runtime.legGroups.set(signal.groupId, { id: groupId, signal, legs: filled });
+    runtime.task.executedTrades++;
+    records.forEach((record) => {
+      this.executionRecords.push(record);
+      this.notifySignalExecution(record);
+    });
+
+    console.log(`Linked signal executed: ${signal.groupId} ${signal.direction}, Legs: ${filled.map((position) => `${position.direction} ${position.symbol} ${position.quantity} @ ${position.entryPrice}`).join(", ")}`);
+  }
+
+  /**
+   * 平掉腿组的所有腿，合并盈亏计入任务统计
+   * @returns 是否全部平仓（未平掉的腿保留在腿组中，下次平仓信号重试）
+   */
+  private async closeLegGroup(runtime: TaskRuntime, group: LegGroupRuntime): Promise<boolean> {
+    const closed = await this.closeLegs(runtime, group.legs);
+    group.legs = group.legs.filter((leg) => !closed.includes(leg));
+
+    if (group.legs.length > 0) {
+      console.error(`Failed to close legs of ${group.signal.groupId}: ${group.legs.map((leg) => leg.symbol).join(", ")}`);
+      return false;
+    }
+
+    runtime.legGroups.delete(group.signal.groupId);
+    console.log(`Leg group closed: ${group.signal.groupId}, Task leg PnL: ${(runtime.task.legGroupPnl || 0).toFixed(2)}`);
+    return true;
+  }
+
+  /**
+   * 市价平掉若干条腿（逐条下单，单条失败不影响其他腿）
+   * @returns 成功平仓的腿
+   */
+  private async closeLegs(runtime: TaskRuntime, legs: LegPosition[]): Promise<LegPosition[]> {
+    const closed: LegPosition[] = [];
+
+    for (const leg of legs) {
+      try {
+        const order = await this.config.exchange.placeOrder({
+          symbol: leg.symbol,
+          side: leg.direction === "long" ? OrderSide.SELL : OrderSide.BUY,
+          type: OrderType.MARKET,
+          positionSide: leg.direction === "long" ? PositionSide.LONG : PositionSide.SHORT,
+          quantity: leg.quantity,
+          reduceOnly: true,
+        });
+        const exitPrice = order.executedQty > 0 ? order.cumQuote / order.executedQty : order.price;
+
+        runtime.task.legGroupPnl = (runtime.task.legGroupPnl || 0) + getLegPnl(leg, exitPrice || leg.entryPrice);
+        closed.push(leg);
+      } catch (error) {
+        console.error(`Failed to close leg ${leg.symbol} ${leg.direction}:`, error);
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * 初始化流式检测实例，并用已获取的历史K线预热
+   */
+  private initStreams(runtime: TaskRuntime, strategy: TradingStrategy): void {
+    runtime.streams.clear();
+    runtime.pendingSignals = [];
+    if (!strategy.createStream) {
+      return;
+    }
+
+    const params = runtime.task.strategyParams;
+    const requiredTimeframes = getStrategyTimeframes(strategy, params);
+
+    for (const symbol of runtime.task.symbols) {
+      // 多周期策略每个交易对一个实例，单周期策略每个交易对/周期一个实例
+      const groups: Array<{ key: string; timeframes: string[] }> =
+        requiredTimeframes.length > 0
+          ? [{ key: symbol, timeframes: requiredTimeframes }]
+          : runtime.task.timeframes.map((timeframe) => ({
+              key: `${symbol}_${timeframe}`,
+              timeframes: [timeframe],
+            }));
+
+      for (const { key, timeframes } of groups) {
+        const stream = strategy.createStream();
+        stream.init(symbol, params, timeframes);
+
+        const snapshot = runtime.streamSnapshots.get(key);
+        if (snapshot) {
+          stream.restore(snapshot);
+        }
+
+        // 按收盘时间推送历史K线（最后一根尚未收盘，不推送），同一时刻高周期优先；预热期间的信号丢弃
+        const history: Array<{ bar: KLineData; timeframe: string; closeTime: number }> = [];
+        for (const timeframe of timeframes) {
+          const klines = runtime.klines.get(`${symbol}_${timeframe}`) || [];
+          for (const bar of klines.slice(0, -1)) {
+            history.push({
+              bar,
+              timeframe,
+              closeTime: bar.timestamp + (TIMEFRAME_TO_MS[timeframe] || 0),
+            });
+          }
+        }
+        history.sort(
+          (a, b) =>
+            a.closeTime - b.closeTime ||
+            (TIMEFRAME_TO_MS[b.timeframe] || 0) - (TIMEFRAME_TO_MS[a.timeframe] || 0)
+        );
+        for (const { bar, timeframe } of history) {
+          stream.onBar(bar, timeframe);
+        }
+
+        runtime.streams.set(key, stream);
+      }
+    }
+  }
+
+  /**
+   * 初始化网格：按网格计划为每个交易对挂出限价单阶梯
+   */
+  private async initGrids(runtime: TaskRuntime, strategy: TradingStrategy): Promise<void> {
+    runtime.grids.clear();
+    if (!strategy.getGridPlan) {
+      return;
+    }
+
+    const timeframe = runtime.task.timeframes[0];
+    for (const symbol of runtime.task.symbols) {
+      const klines = runtime.klines.get(`${symbol}_${timeframe}`) || [];
+      const plan = strategy.getGridPlan(symbol, klines, runtime.task.strategyParams);
+      const price = klines[klines.length - 1]?.close;
+
+      if (!plan || price === undefined) {
+        console.warn(`Unable to build grid plan for ${symbol}, skipping`);
+        continue;
+      }
+      if (isOutsideGrid(plan, price)) {
+        console.warn(`Price ${price} is outside grid ${plan.lowerPrice} - ${plan.upperPrice} for ${symbol}, skipping`);
+        continue;
+      }
+
+      const grid: GridRuntime = {
+        plan,
+        pairs: createGridPairs(plan, price),
+        orderIds: new Map(),
+        stopped: false,
+      };
+      runtime.grids.set(symbol, grid);
+      runtime.task.gridPairs = {
+        ...runtime.task.gridPairs,
+        [symbol]: grid.pairs.map((pair) => ({
+          index: pair.index,
+          lowerPrice: pair.lowerPrice,
+          upperPrice: pair.upperPrice,
+          completedTrades: 0,
+          profit: 0,
+        })),
+      };
+
+      for (const pair of grid.pairs) {
+        await this.placeGridOrder(symbol, grid, pair);
+      }
+
+      console.log(`Grid started: ${symbol} ${plan.lowerPrice} - ${plan.upperPrice}, ${grid.pairs.length} grids`);
+    }
+  }
+
+  /**
+   * 为格子挂出当前应挂的限价单
+   */
+  private async placeGridOrder(
+    symbol: string,
+    grid: GridRuntime,
+    pair: GridPairState
+  ): Promise<void> {
+    const gridOrder = getGridOrder(pair);
+
+    try {
+      const order = await this.config.exchange.placeOrder({
+        symbol,
+        side: gridOrder.side === "buy" ? OrderSide.BUY : OrderSide.SELL,
+        type: OrderType.LIMIT,
+        positionSide: pair.entrySide === "buy" ? PositionSide.LONG : PositionSide.SHORT,
+        quantity: grid.plan.quantityPerGrid,
+        price: gridOrder.price,
+        timeInForce: "GTC",
+        reduceOnly: gridOrder.reduceOnly,
+      });
+      grid.orderIds.set(order.orderId.toString(), pair.index);
+    } catch (error) {
+      // 下次同步时重试
+      console.error(`Failed to place grid order ${pair.index + 1} for ${symbol}:`, error);
+    }
+  }
+
+  /**
+   * 同步网格挂单：成交的格子在相邻一格挂反向单，价格离开区间时停止网格
+   */
+  private async syncGrids(runtime: TaskRuntime): Promise<void> {
+    const timeframe = runtime.task.timeframes[0];
+
+    for (const [symbol, grid] of Array.from(runtime.grids)) {
+      if (grid.stopped) {
+        continue;
+      }
+
+      const klines = runtime.klines.get(`${symbol}_${timeframe}`) || [];
+      const price = klines[klines.length - 1]?.close;
+      if (price !== undefined && isOutsideGrid(grid.plan, price)) {
+        await this.stopGrid(runtime, symbol, grid, price);
+        continue;
+      }
+
+      const openOrders = await this.config.exchange.getOpenOrders(symbol);
+      const openOrderIds = new Set(openOrders.map((order) => order.orderId.toString()));
+
+      for (const [orderId, index] of Array.from(grid.orderIds)) {
+        if (openOrderIds.has(orderId)) {
+          continue;
+        }
+
+        const order = await this.config.exchange.getOrder(symbol, Number(orderId));
+        const pair = grid.pairs[index];
+        if (order.status === OrderStatus.FILLED) {
+          this.recordGridFill(runtime, grid, pair, order);
+          pair.holding = !pair.holding;
+        } else if (
+          order.status !== OrderStatus.CANCELED &&
+          order.status !== OrderStatus.EXPIRED &&
+          order.status !== OrderStatus.REJECTED
+        ) {
+          // 仍在处理中，下次同步再检查
+          continue;
+        }
+
+        grid.orderIds.delete(orderId);
+      }
+
+      // 成交或被撤销的格子重新挂单
+      const activePairs = new Set(grid.orderIds.values());
+      for (const pair of grid.pairs) {
+        if (!activePairs.has(pair.index)) {
+          await this.placeGridOrder(symbol, grid, pair);
+        }
+      }
+    }
+  }
+
+  /**
+   * 记录网格成交
+   */
+  private recordGridFill(
+    runtime: TaskRuntime,
+    grid: GridRuntime,
+    pair: GridPairState,
+    order: Order
+  ): void {
+    const avgPrice = order.executedQty > 0 ? order.cumQuote / order.executedQty : order.price;
+    const direction = pair.entrySide === "buy" ? "long" : "short";
+
+    if (pair.holding) {
+      const profit = getGridPairProfit(pair, avgPrice, order.executedQty);
+      const pairResult = runtime.task.gridPairs?.[order.symbol]?.[pair.index];
+      if (pairResult) {
+        pairResult.completedTrades++;
+        pairResult.profit += profit;
+      }
+      console.log(`Grid ${pair.index + 1} closed: ${order.symbol} ${pair.lowerPrice} - ${pair.upperPrice}, PnL: ${profit.toFixed(4)}`);
+      pair.entryTime = undefined;
+      pair.entryPrice = undefined;
+    } else {
+      pair.entryTime = order.updateTime;
+      pair.entryPrice = avgPrice;
+    }
+
+    const record: SignalExecutionRecord = {
+      id: `exec_${Date.now()}_${Math.random()}`,
+      taskId: runtime.task.id,
+      signal: {
+        symbol: order.symbol,
+        direction,
+        time: order.updateTime,
+        reason: `Grid ${pair.index + 1} ${pair.holding ? "close" : "open"} ${order.side} @ ${order.price}`,
+        confidence: 1,
+        entryPrice: order.price,
+      },
+      executed: true,
+      executionTime: order.updateTime,
+      orderId: order.orderId.toString(),
+      signalPrice: order.price.toString(),
+      executionPrice: avgPrice.toString(),
+      slippage: Math.abs(avgPrice - order.price),
+      quantity: order.executedQty.toString(),
+      positionValue: order.cumQuote.toString(),
+      timestamp: Date.now(),
+    };
+
+    this.executionRecords.push(record);
+    runtime.task.executedTrades++;
+
+    this.notifySignalExecution(record);
+  }
+
+  /**
+   * 停止网格：撤销挂单，按已开仓的格子数量市价平仓
+   */
+  private async stopGrid(
+    runtime: TaskRuntime,
+    symbol: string,
+    grid: GridRuntime,
+    price: number
+  ): Promise<void> {
+    grid.stopped = true;
+    await this.cancelGridOrders(symbol, grid);
+
+    for (const entrySide of ["buy", "sell"] as const) {
+      const holdingCount = grid.pairs.filter(
+        (pair) => pair.holding && pair.entrySide === entrySide
+      ).length;
+      if (holdingCount === 0) {
+        continue;
+      }
+
+      try {
+        const order = await this.config.exchange.placeOrder({
+          symbol,
+          side: entrySide === "buy" ? OrderSide.SELL : OrderSide.BUY,
+          type: OrderType.MARKET,
+          positionSide: entrySide === "buy" ? PositionSide.LONG : PositionSide.SHORT,
+          quantity: grid.plan.quantityPerGrid * holdingCount,
+          reduceOnly: true,
+        });
+
+        // 区间外平仓的盈亏计入各格子（与回测一致，不计为完成的套利）
+        const exitPrice = order.executedQty > 0 ? order.cumQuote / order.executedQty : price;
+        for (const pair of grid.pairs) {
+          const pairResult = runtime.task.gridPairs?.[symbol]?.[pair.index];
+          if (pair.holding && pair.entrySide === entrySide && pairResult) {
+            pairResult.profit += getGridPairProfit(pair, exitPrice, grid.plan.quantityPerGrid);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to close grid position for ${symbol}:`, error);
+        runtime.task.failedTrades++;
+      }
+    }
+
+    for (const pair of grid.pairs) {
+      pair.holding = false;
+    }
+
+    console.log(`Grid stopped: ${symbol} price ${price} outside ${grid.plan.lowerPrice} - ${grid.plan.upperPrice}`);
+  }
+
+  /**
+   * 撤销网格的全部挂单
+   */
+  private async cancelGridOrders(symbol: string, grid: GridRuntime): Promise<void> {
+    for (const orderId of Array.from(grid.orderIds.keys())) {
+      try {
+        await this.config.exchange.cancelOrder(symbol, Number(orderId));
+      } catch (error) {
+        console.warn(`Failed to cancel grid order ${orderId} for ${symbol}:`, error);
+      }
+    }
+    grid.orderIds.clear();
+  }
+
   /**
    * 执行信号
    */
@@ -375,6 +1064,13 @@ export class BinanceExecutionEngine implements ExecutionEngine {
       return;
     }
 
+    // 信号超过失效时间，不再入场
+    if (isSignalExpired(signal, Date.now())) {
+      console.log(`Signal expired, skipping: ${signal.symbol} ${signal.direction}`);
+      runtime.task.skippedTrades++;
+      return;
+    }
+
     try {
       // 获取当前持仓
       const positions = await this.config.exchange.getPositions(signal.symbol);
@@ -382,29 +1078,94 @@ export class BinanceExecutionEngine implements ExecutionEngine {
         (p) => p.positionSide === (signal.direction === "long" ? "LONG" : "SHORT")
       );
 
-      // 如果有反向持仓，先平仓
+      // 平仓信号：只平掉同向持仓，不开新仓
+      if (signal.action === "close") {
+        if (existingPosition) {
+          await this.cancelExitOrders(runtime, signal.symbol);
+          await this.closePosition(runtime, existingPosition);
+        }
+        return;
+      }
+
+      // 如果有反向持仓，先平仓；同向持仓只接受未达到最大单位数的加仓信号
+      const maxUnits = signal.unitSizing?.maxUnits;
+      const unitsKey = `${signal.symbol}_${signal.direction}`;
       if (existingPosition) {
         if (
           (signal.direction === "long" && existingPosition.positionSide === "SHORT") ||
           (signal.direction === "short" && existingPosition.positionSide === "LONG")
         ) {
+          await this.cancelExitOrders(runtime, signal.symbol);
           await this.closePosition(runtime, existingPosition);
-        } else {
-          // 同向持仓，忽略
+        } else if (signal.action !== "add") {
+          // 同向持仓，非加仓信号忽略
+          return;
+        } else if (maxUnits && (runtime.positionUnits.get(unitsKey) ?? 1) >= maxUnits) {
+          console.log(`Position already has ${maxUnits} units, skipping add: ${signal.symbol} ${signal.direction}`);
+          runtime.task.skippedTrades++;
           return;
         }
+      } else if (signal.action === "add" && !signal.openIfFlat) {
+        console.log(`No open position to add to, skipping: ${signal.symbol} ${signal.direction}`);
+        runtime.task.skippedTrades++;
+        return;
+      }
+      const isAdd = signal.action === "add" && !!existingPosition;
+
+      // DCA：风控上限作用于整个阶梯（基础单 + 全部安全单）
+      const dcaPlan = signal.dcaPlan ? await this.capDcaPlan(signal.dcaPlan, signal.entryPrice) : null;
+      if (signal.dcaPlan && !dcaPlan) {
+        console.log(`No position limit left for DCA ladder, skipping: ${signal.symbol} ${signal.direction}`);
+        runtime.task.skippedTrades++;
+        return;
       }
 
-      // 计算订单参数
-      const orderParams = this.calculateOrderParams(runtime, signal);
+      // 计算订单参数（波动率单位仓位需要账户权益）
+      const equity = signal.unitSizing
+        ? (await this.config.exchange.getAccountInfo()).totalMarginBalance
+        : undefined;
+      const orderParams = this.calculateOrderParams(runtime, signal, equity);
+      if (dcaPlan) {
+        orderParams.quantity = dcaPlan.baseQuantity;
+      }
 
       // 下单
       const order = await this.config.exchange.placeOrder(orderParams);
+      runtime.positionUnits.set(unitsKey, isAdd ? (runtime.positionUnits.get(unitsKey) ?? 1) + 1 : 1);
 
       // 创建执行记录
       // 计算平均成交价（使用cumQuote/executedQty）
       const avgPrice = order.executedQty > 0 ? order.cumQuote / order.executedQty : order.price;
 
+      // 撤销该交易对之前的出场单：加仓时按整体持仓重新挂单，新开仓时残留的 reduce-only 单会误平新持仓
+      await this.cancelExitOrders(runtime, signal.symbol);
+
+      let exitOrderIds: string[];
+      if (dcaPlan) {
+        // DCA：挂安全单，按基础单成交均价挂止盈
+        exitOrderIds = await this.startDcaDeal(
+          runtime,
+          signal,
+          dcaPlan,
+          order.executedQty || orderParams.quantity,
+          avgPrice || signal.entryPrice
+        );
+      } else {
+        // 按出场计划挂止损止盈单（策略未提供时使用风控配置的百分比）
+        const exitPlan = resolveExitPlan(
+          signal,
+          this.config.riskControl.stopLossPercent,
+          this.config.riskControl.takeProfitPercent
+        );
+        const exitQuantity =
+          (order.executedQty || orderParams.quantity) +
+          (isAdd && existingPosition ? Math.abs(existingPosition.positionAmt) : 0);
+        exitOrderIds = exitPlan
+          ? await this.placeExitOrders(signal, exitPlan, exitQuantity)
+          : [];
+        runtime.exitOrderIds.set(signal.symbol, exitOrderIds);
+      }
+
       const record: SignalExecutionRecord = {
         id: `exec_${Date.now()}_${Math.random()}`,
         taskId: runtime.task.id,
@@ -417,6 +1178,7 @@ export class BinanceExecutionEngine implements ExecutionEngine {
         slippage: Math.abs(avgPrice - signal.entryPrice),
         quantity: order.executedQty.toString(),
         positionValue: (order.executedQty * order.price).toString(),
+        exitOrderIds,
         timestamp: Date.now(),
       };
 
@@ -452,17 +1214,24 @@ export class BinanceExecutionEngine implements ExecutionEngine {
   /**
    * 计算订单参数
    */
-  private calculateOrderParams(runtime: TaskRuntime, signal: Signal): any {
+  private calculateOrderParams(runtime: TaskRuntime, signal: Signal, equity?: number): any {
     const side = signal.direction === "long" ? OrderSide.BUY : OrderSide.SELL;
     const positionSide = signal.direction === "long" ? PositionSide.LONG : PositionSide.SHORT;
 
     // 计算数量（基于风险控制）
     const maxPositionSize = this.config.riskControl.maxPositionSize;
-    const quantity = Math.min(
+    let quantity = Math.min(
       maxPositionSize / signal.entryPrice,
       100 // 默认限制
     );
 
+    // 波动率单位仓位，仍受风控上限约束
+    if (signal.unitSizing && equity && signal.unitSizing.riskDistance > 0) {
+      const unitQuantity =
+        (equity * (signal.unitSizing.riskPercent / 100)) / signal.unitSizing.riskDistance;
+      quantity = Math.min(unitQuantity, quantity);
+    }
+
     return {
       symbol: signal.symbol,
       side,
@@ -473,6 +1242,290 @@ export class BinanceExecutionEngine implements ExecutionEngine {
     };
   }
 
+  /**
+   * 按出场计划挂止损单和分批止盈单
+   * @returns 成功挂出的订单ID列表
+   */
+  private async placeExitOrders(
+    signal: Signal,
+    exitPlan: ExitPlan,
+    quantity: number
+  ): Promise<string[]> {
+    const side = signal.direction === "long" ? OrderSide.SELL : OrderSide.BUY;
+    const positionSide = signal.direction === "long" ? PositionSide.LONG : PositionSide.SHORT;
+    const orderIds: string[] = [];
+
+    try {
+      const stopOrder = await this.config.exchange.placeOrder({
+        symbol: signal.symbol,
+        side,
+        type: OrderType.STOP_MARKET,
+        positionSide,
+        quantity,
+        stopPrice: exitPlan.stopLoss,
+        reduceOnly: true,
+      });
+      orderIds.push(stopOrder.orderId.toString());
+    } catch (error) {
+      console.error(`Failed to place stop loss for ${signal.symbol}:`, error);
+    }
+
+    let remaining = quantity;
+    for (let i = 0; i < exitPlan.takeProfits.length; i++) {
+      const target = exitPlan.takeProfits[i];
+      const isLastTarget = i === exitPlan.takeProfits.length - 1;
+      const targetQuantity = isLastTarget
+        ? remaining
+        : Math.min(quantity * target.sizeFraction, remaining);
+
+      if (targetQuantity <= 0) {
+        break;
+      }
+
+      try {
+        const takeProfitOrder = await this.config.exchange.placeOrder({
+          symbol: signal.symbol,
+          side,
+          type: OrderType.TAKE_PROFIT_MARKET,
+          positionSide,
+          quantity: targetQuantity,
+          stopPrice: target.price,
+          reduceOnly: true,
+        });
+        orderIds.push(takeProfitOrder.orderId.toString());
+        remaining -= targetQuantity;
+      } catch (error) {
+        console.error(`Failed to place take profit ${target.label || i + 1} for ${signal.symbol}:`, error);
+      }
+    }
+
+    return orderIds;
+  }
+
+  /**
+   * 按风控上限缩放 DCA 阶梯
+   * 单笔上限（maxPositionSize）和总仓位上限（maxTotalPosition）都按完整阶梯计算，
+   * 其他进行中的 DCA 尚未成交的安全单也占用总仓位额度
+   * @returns 缩放后的阶梯，没有可用额度时返回 null
+   */
+  private async capDcaPlan(plan: DcaPlan, entryPrice: number): Promise<DcaPlan | null> {
+    const { maxPositionSize, maxTotalPosition } = this.config.riskControl;
+
+    const positions = await this.config.exchange.getPositions();
+    let committed = positions.reduce((sum, position) => sum + Math.abs(position.notional), 0);
+    this.tasks.forEach((runtime) => {
+      runtime.dcaDeals.forEach((deal) => {
+        const ladderNotional = getDcaNotional(deal.plan, deal.signal.entryPrice);
+        committed += Math.max(ladderNotional - deal.positionAmt * deal.signal.entryPrice, 0);
+      });
+    });
+
+    const limit = Math.min(maxPositionSize, maxTotalPosition - committed);
+    const notional = getDcaNotional(plan, entryPrice);
+    if (limit <= 0 || notional <= 0) {
+      return null;
+    }
+
+    return notional > limit ? scaleDcaPlan(plan, limit / notional) : plan;
+  }
+
+  /**
+   * 开始一轮 DCA：挂出全部安全单（限价），并按基础单均价挂止盈止损
+   * @returns 安全单和出场单的订单ID列表
+   */
+  private async startDcaDeal(
+    runtime: TaskRuntime,
+    signal: Signal,
+    plan: DcaPlan,
+    quantity: number,
+    averagePrice: number
+  ): Promise<string[]> {
+    const side = signal.direction === "long" ? OrderSide.BUY : OrderSide.SELL;
+    const positionSide = signal.direction === "long" ? PositionSide.LONG : PositionSide.SHORT;
+    const safetyOrderIds: string[] = [];
+
+    for (let i = 0; i < plan.safetyOrders.length; i++) {
+      const safetyOrder = plan.safetyOrders[i];
+      try {
+        const order = await this.config.exchange.placeOrder({
+          symbol: signal.symbol,
+          side,
+          type: OrderType.LIMIT,
+          positionSide,
+          quantity: safetyOrder.quantity,
+          price: safetyOrder.price,
+          timeInForce: "GTC",
+          reduceOnly: false,
+        });
+        safetyOrderIds.push(order.orderId.toString());
+      } catch (error) {
+        console.error(`Failed to place safety order ${i + 1} for ${signal.symbol}:`, error);
+      }
+    }
+
+    runtime.dcaDeals.set(signal.symbol, {
+      signal,
+      plan,
+      safetyOrderIds,
+      positionAmt: quantity,
+    });
+
+    const exitOrderIds = await this.placeDcaExitOrders(signal, plan, quantity, averagePrice);
+    runtime.exitOrderIds.set(signal.symbol, exitOrderIds);
+
+    return [...safetyOrderIds, ...exitOrderIds];
+  }
+
+  /**
+   * 按持仓均价挂 DCA 的止盈单（设置了止损时同时挂止损单）
+   */
+  private async placeDcaExitOrders(
+    signal: Signal,
+    plan: DcaPlan,
+    quantity: number,
+    averagePrice: number
+  ): Promise<string[]> {
+    const takeProfit = {
+      price: getDcaTakeProfitPrice(signal.direction, averagePrice, plan.takeProfitPercent),
+      sizeFraction: 1,
+      label: "TP",
+    };
+
+    if (plan.stopLoss !== undefined) {
+      return this.placeExitOrders(
+        signal,
+        { stopLoss: plan.stopLoss, takeProfits: [takeProfit] },
+        quantity
+      );
+    }
+
+    try {
+      const order = await this.config.exchange.placeOrder({
+        symbol: signal.symbol,
+        side: signal.direction === "long" ? OrderSide.SELL : OrderSide.BUY,
+        type: OrderType.TAKE_PROFIT_MARKET,
+        positionSide: signal.direction === "long" ? PositionSide.LONG : PositionSide.SHORT,
+        quantity,
+        stopPrice: takeProfit.price,
+        reduceOnly: true,
+      });
+      return [order.orderId.toString()];
+    } catch (error) {
+      console.error(`Failed to place DCA take profit for ${signal.symbol}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 同步 DCA：持仓增加时按新均价重挂止盈，持仓归零时撤销剩余安全单并结束本轮
+   */
+  private async syncDcaDeals(runtime: TaskRuntime): Promise<void> {
+    for (const [symbol, deal] of Array.from(runtime.dcaDeals)) {
+      const positions = await this.config.exchange.getPositions(symbol);
+      const position = positions.find(
+        (p) => p.positionSide === (deal.signal.direction === "long" ? "LONG" : "SHORT")
+      );
+      const positionAmt = position ? Math.abs(position.positionAmt) : 0;
+
+      if (!position || positionAmt === 0) {
+        for (const orderId of deal.safetyOrderIds) {
+          try {
+            await this.config.exchange.cancelOrder(symbol, Number(orderId));
+          } catch (error) {
+            // 已成交或已撤销的订单无需处理
+            console.warn(`Failed to cancel safety order ${orderId} for ${symbol}:`, error);
+          }
+        }
+        await this.cancelExitOrders(runtime, symbol);
+        runtime.dcaDeals.delete(symbol);
+
+        console.log(`DCA deal closed: ${symbol} ${deal.signal.direction}`);
+        continue;
+      }
+
+      if (positionAmt > deal.positionAmt) {
+        await this.cancelExitOrders(runtime, symbol);
+        const exitOrderIds = await this.placeDcaExitOrders(
+          deal.signal,
+          deal.plan,
+          positionAmt,
+          position.entryPrice
+        );
+        runtime.exitOrderIds.set(symbol, exitOrderIds);
+        deal.positionAmt = positionAmt;
+
+        console.log(`DCA safety order filled: ${symbol}, Amount: ${positionAmt}, Avg: ${position.entryPrice}`);
+      }
+    }
+  }
+
+  /**
+   * 同步出场单：止损单或最后一个止盈单（承接剩余数量）成交后持仓已全部平掉，
+   * 撤销同一出场计划仍挂着的订单，避免误平该交易对之后的持仓（DCA 由 syncDcaDeals 处理）
+   */
+  private async syncExitOrders(runtime: TaskRuntime): Promise<void> {
+    for (const [symbol, orderIds] of Array.from(runtime.exitOrderIds)) {
+      if (runtime.dcaDeals.has(symbol) || orderIds.length === 0) {
+        continue;
+      }
+
+      const openOrders = await this.config.exchange.getOpenOrders(symbol);
+      const openOrderIds = new Set(openOrders.map((order) => order.orderId.toString()));
+      const remaining = orderIds.filter((orderId) => openOrderIds.has(orderId));
+      if (remaining.length === orderIds.length) {
+        continue;
+      }
+
+      let finished = remaining.length === 0;
+      const lastOrderId = orderIds[orderIds.length - 1];
+      for (const orderId of orderIds) {
+        if (finished || openOrderIds.has(orderId)) {
+          continue;
+        }
+        const order = await this.config.exchange.getOrder(symbol, Number(orderId));
+        if (order.status !== OrderStatus.FILLED) {
+          continue;
+        }
+        if (
+          order.type === OrderType.STOP_MARKET ||
+          (order.type === OrderType.TAKE_PROFIT_MARKET && orderId === lastOrderId)
+        ) {
+          finished = true;
+        }
+      }
+      if (!finished) {
+        continue;
+      }
+
+      for (const orderId of remaining) {
+        try {
+          await this.config.exchange.cancelOrder(symbol, Number(orderId));
+        } catch (error) {
+          console.warn(`Failed to cancel exit order ${orderId} for ${symbol}:`, error);
+        }
+      }
+      runtime.exitOrderIds.delete(symbol);
+
+      console.log(`Exit plan finished: ${symbol}, cancelled ${remaining.length} remaining exit orders`);
+    }
+  }
+
+  /**
+   * 撤销该交易对当前挂出的止损止盈单
+   */
+  private async cancelExitOrders(runtime: TaskRuntime, symbol: string): Promise<void> {
+    const orderIds = runtime.exitOrderIds.get(symbol) || [];
+    for (const orderId of orderIds) {
+      try {
+        await this.config.exchange.cancelOrder(symbol, Number(orderId));
+      } catch (error) {
+        // 已成交或已撤销的订单无需处理
+        console.warn(`Failed to cancel exit order ${orderId} for ${symbol}:`, error);
+      }
+    }
+    runtime.exitOrderIds.delete(symbol);
+  }
+
   /**
    * 平仓
    */
@@ -549,6 +1602,15 @@ export class BinanceExecutionEngine implements ExecutionEngine {
       volume: parseFloat(data.k.v),
     };
 
+    // K线收盘时推送给流式检测
+    if (data.k.x) {
+      const stream =
+        runtime.streams.get(symbol) || runtime.streams.get(`${symbol}_${timeframe}`);
+      if (stream) {
+        runtime.pendingSignals.push(...stream.onBar(newKline, timeframe));
+      }
+    }
+
     if (lastKline && lastKline.timestamp === newKline.timestamp) {
       // 更新当前K线
       klines[klines.length - 1] = newKline;
@@ -0,0 +1,95 @@
+import { KLineData } from "../types/strategy";
+import { trueRange } from "./atr";
+import { IncrementalIndicator, runIndicator } from "./types";
+
+// ADX/DMI 指标值
+export interface ADXValue {
+  adx: number;      // 平均趋向指数（趋势强度）
+  plusDI: number;   // +DI
+  minusDI: number;  // -DI
+}
+
+/**
+ * 平均趋向指数（ADX/DMI，Wilder 平滑）增量计算
+ * +DI/-DI 从第 period + 1 根K线开始有值，ADX 从第 2 * period 根开始有值
+ */
+export class ADX implements IncrementalIndicator<KLineData, ADXValue> {
+  private prev: KLineData | null = null;
+  private count = 0;
+  private smoothedTR = 0;
+  private smoothedPlusDM = 0;
+  private smoothedMinusDM = 0;
+  private dxCount = 0;
+  private dxSum = 0;
+  value: ADXValue = { adx: NaN, plusDI: NaN, minusDI: NaN };
+
+  constructor(private period: number = 14) {
+    if (period < 1) {
+      throw new Error(`Invalid ADX period: ${period}`);
+    }
+  }
+
+  update(bar: KLineData): ADXValue {
+    const prev = this.prev;
+    this.prev = bar;
+    if (!prev) {
+      return this.value;
+    }
+
+    const upMove = bar.high - prev.high;
+    const downMove = prev.low - bar.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const tr = trueRange(bar, prev.close);
+    this.count++;
+
+    if (this.count <= this.period) {
+      this.smoothedTR += tr;
+      this.smoothedPlusDM += plusDM;
+      this.smoothedMinusDM += minusDM;
+      if (this.count < this.period) {
+        return this.value;
+      }
+    } else {
+      this.smoothedTR = this.smoothedTR - this.smoothedTR / this.period + tr;
+      this.smoothedPlusDM = this.smoothedPlusDM - this.smoothedPlusDM / this.period + plusDM;
+      this.smoothedMinusDM = this.smoothedMinusDM - this.smoothedMinusDM / this.period + minusDM;
+    }
+
+    const plusDI = this.smoothedTR === 0 ? 0 : (100 * this.smoothedPlusDM) / this.smoothedTR;
+    const minusDI = this.smoothedTR === 0 ? 0 : (100 * this.smoothedMinusDM) / this.smoothedTR;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / diSum;
+
+    let adx = this.value.adx;
+    this.dxCount++;
+    if (this.dxCount < this.period) {
+      this.dxSum += dx;
+    } else if (this.dxCount === this.period) {
+      adx = (this.dxSum + dx) / this.period;
+    } else {
+      adx = (adx * (this.period - 1) + dx) / this.period;
+    }
+
+    this.value = { adx, plusDI, minusDI };
+    return this.value;
+  }
+
+  reset(): void {
+    this.prev = null;
+    this.count = 0;
+    this.smoothedTR = 0;
+    this.smoothedPlusDM = 0;
+    this.smoothedMinusDM = 0;
+    this.dxCount = 0;
+    this.dxSum = 0;
+    this.value = { adx: NaN, plusDI: NaN, minusDI: NaN };
+  }
+}
+
+/**
+ * 平均趋向指数（ADX/DMI）批量计算
+ */
+export function adx(klines: KLineData[], period: number = 14): ADXValue[] {
+  return runIndicator(new ADX(period), klines);
+}
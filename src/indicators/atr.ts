@@ -0,0 +1,66 @@
+import { KLineData } from "../types/strategy";
+import { IncrementalIndicator, runIndicator } from "./types";
+
+/**
+ * 真实波幅（TR），没有前收盘价时取最高价与最低价之差
+ */
+export function trueRange(bar: KLineData, prevClose?: number): number {
+  if (prevClose === undefined) {
+    return bar.high - bar.low;
+  }
+
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - prevClose),
+    Math.abs(bar.low - prevClose)
+  );
+}
+
+/**
+ * 平均真实波幅（ATR，Wilder 平滑）增量计算
+ * 前 period 根K线的 TR 简单平均作为初始值
+ */
+export class ATR implements IncrementalIndicator<KLineData, number> {
+  private prevClose: number | undefined = undefined;
+  private count = 0;
+  private seedSum = 0;
+  value = NaN;
+
+  constructor(private period: number = 14) {
+    if (period < 1) {
+      throw new Error(`Invalid ATR period: ${period}`);
+    }
+  }
+
+  update(bar: KLineData): number {
+    const tr = trueRange(bar, this.prevClose);
+    this.prevClose = bar.close;
+    this.count++;
+
+    if (this.count < this.period) {
+      this.seedSum += tr;
+      return this.value;
+    }
+
+    if (this.count === this.period) {
+      this.value = (this.seedSum + tr) / this.period;
+    } else {
+      this.value = (this.value * (this.period - 1) + tr) / this.period;
+    }
+    return this.value;
+  }
+
+  reset(): void {
+    this.prevClose = undefined;
+    this.count = 0;
+    this.seedSum = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * 平均真实波幅（ATR）批量计算
+ */
+export function atr(klines: KLineData[], period: number = 14): number[] {
+  return runIndicator(new ATR(period), klines);
+}
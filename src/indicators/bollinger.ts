@@ -0,0 +1,59 @@
+import { IncrementalIndicator, runIndicator } from "./types";
+
+// 布林带指标值
+export interface BollingerValue {
+  middle: number;  // 中轨（SMA）
+  upper: number;   // 上轨
+  lower: number;   // 下轨
+}
+
+/**
+ * 布林带增量计算（总体标准差）
+ */
+export class BollingerBands implements IncrementalIndicator<number, BollingerValue> {
+  private window: number[] = [];
+  value: BollingerValue = { middle: NaN, upper: NaN, lower: NaN };
+
+  constructor(
+    private period: number = 20,
+    private stdDevMultiplier: number = 2
+  ) {
+    if (period < 1) {
+      throw new Error(`Invalid Bollinger period: ${period}`);
+    }
+  }
+
+  update(input: number): BollingerValue {
+    this.window.push(input);
+    if (this.window.length > this.period) {
+      this.window.shift();
+    }
+    if (this.window.length < this.period) {
+      return this.value;
+    }
+
+    const middle = this.window.reduce((sum, v) => sum + v, 0) / this.period;
+    const variance =
+      this.window.reduce((sum, v) => sum + (v - middle) * (v - middle), 0) / this.period;
+    const deviation = Math.sqrt(variance) * this.stdDevMultiplier;
+
+    this.value = { middle, upper: middle + deviation, lower: middle - deviation };
+    return this.value;
+  }
+
+  reset(): void {
+    this.window = [];
+    this.value = { middle: NaN, upper: NaN, lower: NaN };
+  }
+}
+
+/**
+ * 布林带批量计算
+ */
+export function bollingerBands(
+  values: number[],
+  period: number = 20,
+  stdDevMultiplier: number = 2
+): BollingerValue[] {
+  return runIndicator(new BollingerBands(period, stdDevMultiplier), values);
+}
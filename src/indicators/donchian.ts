@@ -0,0 +1,55 @@
+import { KLineData } from "../types/strategy";
+import { IncrementalIndicator, runIndicator } from "./types";
+
+// 唐奇安通道指标值
+export interface DonchianValue {
+  upper: number;   // 最近 period 根K线最高价
+  lower: number;   // 最近 period 根K线最低价
+  middle: number;  // 上下轨均值
+}
+
+/**
+ * 唐奇安通道增量计算（包含当前K线）
+ */
+export class DonchianChannel implements IncrementalIndicator<KLineData, DonchianValue> {
+  private window: KLineData[] = [];
+  value: DonchianValue = { upper: NaN, lower: NaN, middle: NaN };
+
+  constructor(private period: number = 20) {
+    if (period < 1) {
+      throw new Error(`Invalid Donchian period: ${period}`);
+    }
+  }
+
+  update(bar: KLineData): DonchianValue {
+    this.window.push(bar);
+    if (this.window.length > this.period) {
+      this.window.shift();
+    }
+    if (this.window.length < this.period) {
+      return this.value;
+    }
+
+    let upper = -Infinity;
+    let lower = Infinity;
+    for (const k of this.window) {
+      upper = Math.max(upper, k.high);
+      lower = Math.min(lower, k.low);
+    }
+
+    this.value = { upper, lower, middle: (upper + lower) / 2 };
+    return this.value;
+  }
+
+  reset(): void {
+    this.window = [];
+    this.value = { upper: NaN, lower: NaN, middle: NaN };
+  }
+}
+
+/**
+ * 唐奇安通道批量计算
+ */
+export function donchianChannel(klines: KLineData[], period: number = 20): DonchianValue[] {
+  return runIndicator(new DonchianChannel(period), klines);
+}
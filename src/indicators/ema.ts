@@ -0,0 +1,48 @@
+import { IncrementalIndicator, runIndicator } from "./types";
+
+/**
+ * 指数移动平均（EMA）增量计算
+ * 以前 period 个数据的简单平均作为初始值
+ */
+export class EMA implements IncrementalIndicator<number, number> {
+  private multiplier: number;
+  private count = 0;
+  private seedSum = 0;
+  value = NaN;
+
+  constructor(private period: number) {
+    if (period < 1) {
+      throw new Error(`Invalid EMA period: ${period}`);
+    }
+    this.multiplier = 2 / (period + 1);
+  }
+
+  update(input: number): number {
+    this.count++;
+
+    if (this.count < this.period) {
+      this.seedSum += input;
+      return this.value;
+    }
+
+    if (this.count === this.period) {
+      this.value = (this.seedSum + input) / this.period;
+    } else {
+      this.value = (input - this.value) * this.multiplier + this.value;
+    }
+    return this.value;
+  }
+
+  reset(): void {
+    this.count = 0;
+    this.seedSum = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * 指数移动平均（EMA）批量计算
+ */
+export function ema(values: number[], period: number): number[] {
+  return runIndicator(new EMA(period), values);
+}
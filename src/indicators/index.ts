@@ -0,0 +1,25 @@
+/**
+ * 技术指标库
+ * 每个指标同时提供批量形式（数组输入、与输入等长的数组输出，预热阶段为 NaN）
+ * 和增量形式（类实例，逐根 update），批量形式基于增量实现，两者结果一致
+ */
+
+export type { IncrementalIndicator } from "./types";
+export { runIndicator } from "./types";
+export { SMA, sma } from "./sma";
+export { EMA, ema } from "./ema";
+export { RSI, rsi } from "./rsi";
+export { ATR, atr, trueRange } from "./atr";
+export { ADX, adx } from "./adx";
+export type { ADXValue } from "./adx";
+export { MACD, macd } from "./macd";
+export type { MACDValue } from "./macd";
+export { BollingerBands, bollingerBands } from "./bollinger";
+export type { BollingerValue } from "./bollinger";
+export { VWAP, vwap } from "./vwap";
+export { DonchianChannel, donchianChannel } from "./donchian";
+export type { DonchianValue } from "./donchian";
+export { OBV, obv } from "./obv";
+
+export { classifyMarketRegime, MarketRegimeClassifier } from "./regime";
+export type { RegimeOptions, RegimeResult } from "./regime";
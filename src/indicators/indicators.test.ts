@@ -0,0 +1,379 @@
+import { describe, expect, it } from "vitest";
+import type { KLineData } from "../types/strategy";
+import type { IncrementalIndicator } from "./types";
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  DonchianChannel,
+  EMA,
+  MACD,
+  MarketRegimeClassifier,
+  OBV,
+  RSI,
+  SMA,
+  VWAP,
+  adx,
+  atr,
+  bollingerBands,
+  classifyMarketRegime,
+  donchianChannel,
+  ema,
+  macd,
+  obv,
+  rsi,
+  sma,
+  vwap,
+} from "./index";
+import { generateKlines } from "../test/fixtures";
+
+const klines = generateKlines(400, { seed: 7 });
+const closes = klines.map((k) => k.close);
+
+// 预热阶段两边都应为 NaN，之后数值相同（允许浮点误差）
+function expectSeries(actual: number[], expected: number[], digits = 8) {
+  expect(actual.length).toBe(expected.length);
+  actual.forEach((value, i) => {
+    if (Number.isNaN(expected[i])) {
+      expect(value, `index ${i}`).toBeNaN();
+    } else {
+      expect(value, `index ${i}`).toBeCloseTo(expected[i], digits);
+    }
+  });
+}
+
+/**
+ * 增量形式逐根推送：每次 update 的返回值和 value 都与批量结果一致，reset 后重新推送结果不变
+ */
+function expectParity<TInput, TOutput>(
+  create: () => IncrementalIndicator<TInput, TOutput>,
+  inputs: TInput[],
+  batch: TOutput[]
+) {
+  const indicator = create();
+  inputs.forEach((input, i) => {
+    expect(indicator.update(input)).toEqual(batch[i]);
+    expect(indicator.value).toEqual(batch[i]);
+  });
+
+  indicator.reset();
+  const replay = inputs.map((input) => indicator.update(input));
+  expect(replay).toEqual(batch);
+}
+
+// ===== 参考实现：直接按定义计算整段序列，不复用指标类 =====
+
+function referenceSma(values: number[], period: number): number[] {
+  return values.map((_, i) => {
+    if (i < period - 1) {
+      return NaN;
+    }
+    return values.slice(i - period + 1, i + 1).reduce((sum, v) => sum + v, 0) / period;
+  });
+}
+
+function referenceEma(values: number[], period: number): number[] {
+  const k = 2 / (period + 1);
+  const result: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(NaN);
+    } else if (i === period - 1) {
+      result.push(values.slice(0, period).reduce((sum, v) => sum + v, 0) / period);
+    } else {
+      result.push(values[i] * k + result[i - 1] * (1 - k));
+    }
+  }
+  return result;
+}
+
+// Wilder 平滑：前 period 个值简单平均，之后 (prev * (period - 1) + x) / period
+function referenceWilder(values: number[], period: number): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(NaN);
+    } else if (i === period - 1) {
+      result.push(values.slice(0, period).reduce((sum, v) => sum + v, 0) / period);
+    } else {
+      result.push((result[i - 1] * (period - 1) + values[i]) / period);
+    }
+  }
+  return result;
+}
+
+function referenceTrueRanges(bars: KLineData[]): number[] {
+  return bars.map((bar, i) => {
+    if (i === 0) {
+      return bar.high - bar.low;
+    }
+    const prevClose = bars[i - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+  });
+}
+
+describe("SMA", () => {
+  it("matches known values", () => {
+    expectSeries(sma([1, 2, 3, 4, 5], 3), [NaN, NaN, 2, 3, 4]);
+  });
+
+  it("matches the reference implementation", () => {
+    expectSeries(sma(closes, 20), referenceSma(closes, 20));
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new SMA(20), closes, sma(closes, 20));
+  });
+});
+
+describe("EMA", () => {
+  it("matches known values", () => {
+    // 种子为前 3 个的平均 2，之后 (x - prev) * 0.5 + prev
+    expectSeries(ema([1, 2, 3, 5, 9], 3), [NaN, NaN, 2, 3.5, 6.25]);
+  });
+
+  it("matches the reference implementation", () => {
+    expectSeries(ema(closes, 21), referenceEma(closes, 21));
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new EMA(21), closes, ema(closes, 21));
+  });
+});
+
+describe("RSI", () => {
+  // Wilder 原书示例（StockCharts 的 RSI 计算表）
+  const wilderCloses = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+    46.0, 46.03, 46.41, 46.22, 45.64,
+  ];
+
+  it("matches Wilder's reference values", () => {
+    const values = rsi(wilderCloses, 14);
+    expect(values.slice(0, 14).every(Number.isNaN)).toBe(true);
+    // StockCharts 表格对中间的平均涨跌幅取整后得到 70.53、66.32…，不取整时为以下值（与 TA-Lib 一致）
+    const expected = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92];
+    expected.forEach((value, i) => {
+      expect(values[14 + i]).toBeCloseTo(value, 2);
+    });
+  });
+
+  it("returns 100 when there are no losses", () => {
+    expect(rsi([1, 2, 3, 4, 5], 3)[4]).toBe(100);
+  });
+
+  it("matches the reference implementation", () => {
+    const changes = closes.slice(1).map((close, i) => close - closes[i]);
+    const gains = referenceWilder(changes.map((c) => Math.max(c, 0)), 14);
+    const losses = referenceWilder(changes.map((c) => Math.max(-c, 0)), 14);
+    const expected = [NaN, ...gains.map((gain, i) => (losses[i] === 0 ? 100 : 100 - 100 / (1 + gain / losses[i])))];
+    expectSeries(rsi(closes, 14), expected);
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new RSI(14), closes, rsi(closes, 14));
+  });
+});
+
+describe("ATR", () => {
+  it("matches known values", () => {
+    const bars = [
+      { timestamp: 0, open: 10, high: 12, low: 9, close: 11, volume: 1 },
+      { timestamp: 1, open: 11, high: 13, low: 10, close: 12, volume: 1 },
+      { timestamp: 2, open: 12, high: 12.5, low: 8, close: 9, volume: 1 },
+      { timestamp: 3, open: 9, high: 15, low: 9, close: 14, volume: 1 },
+    ];
+    // TR = 3, 3, 4.5, 6；种子 (3 + 3) / 2 = 3，之后 (3 + 4.5) / 2、(3.75 + 6) / 2
+    expectSeries(atr(bars, 2), [NaN, 3, 3.75, 4.875]);
+  });
+
+  it("matches the reference implementation", () => {
+    expectSeries(atr(klines, 14), referenceWilder(referenceTrueRanges(klines), 14));
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new ATR(14), klines, atr(klines, 14));
+  });
+});
+
+describe("ADX", () => {
+  function referenceAdx(bars: KLineData[], period: number) {
+    const trs = referenceTrueRanges(bars).slice(1);
+    const plusDMs: number[] = [];
+    const minusDMs: number[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      const up = bars[i].high - bars[i - 1].high;
+      const down = bars[i - 1].low - bars[i].low;
+      plusDMs.push(up > down && up > 0 ? up : 0);
+      minusDMs.push(down > up && down > 0 ? down : 0);
+    }
+    // Wilder 平滑的累计形式（与平均形式相差 period 倍，DI 为比值不受影响）
+    const smoothTR = referenceWilder(trs, period).map((v) => v * period);
+    const smoothPlus = referenceWilder(plusDMs, period).map((v) => v * period);
+    const smoothMinus = referenceWilder(minusDMs, period).map((v) => v * period);
+
+    const plusDI = smoothTR.map((tr, i) => (100 * smoothPlus[i]) / tr);
+    const minusDI = smoothTR.map((tr, i) => (100 * smoothMinus[i]) / tr);
+    const dx = plusDI.map((p, i) => (100 * Math.abs(p - minusDI[i])) / (p + minusDI[i]));
+    const adxValues = [...dx.slice(0, period - 1), ...referenceWilder(dx.slice(period - 1), period)];
+    return {
+      adx: [NaN, ...adxValues.map((v, i) => (i < 2 * period - 2 ? NaN : v))],
+      plusDI: [NaN, ...plusDI],
+      minusDI: [NaN, ...minusDI],
+    };
+  }
+
+  it("matches the reference implementation", () => {
+    const values = adx(klines, 14);
+    const expected = referenceAdx(klines, 14);
+    expectSeries(values.map((v) => v.plusDI), expected.plusDI);
+    expectSeries(values.map((v) => v.minusDI), expected.minusDI);
+    expectSeries(values.map((v) => v.adx), expected.adx);
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new ADX(14), klines, adx(klines, 14));
+  });
+});
+
+describe("MACD", () => {
+  it("matches the reference implementation", () => {
+    const fast = referenceEma(closes, 12);
+    const slow = referenceEma(closes, 26);
+    const line = closes.map((_, i) => fast[i] - slow[i]);
+    const signal = [...line.slice(0, 25), ...referenceEma(line.slice(25), 9)];
+
+    const values = macd(closes, 12, 26, 9);
+    expectSeries(values.map((v) => v.macd), line);
+    expectSeries(values.map((v) => v.signal), signal);
+    expectSeries(values.map((v) => v.histogram), line.map((m, i) => m - signal[i]));
+  });
+
+  it("rejects a fast period not below the slow period", () => {
+    expect(() => new MACD(26, 12)).toThrow();
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new MACD(12, 26, 9), closes, macd(closes, 12, 26, 9));
+  });
+});
+
+describe("BollingerBands", () => {
+  it("matches known values", () => {
+    // [2, 4, 4, 4, 5, 5, 7, 9]：均值 5，总体标准差 2
+    const [value] = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2).slice(-1);
+    expect(value).toEqual({ middle: 5, upper: 9, lower: 1 });
+  });
+
+  it("matches the reference implementation", () => {
+    const middle = referenceSma(closes, 20);
+    const deviation = closes.map((_, i) => {
+      if (i < 19) {
+        return NaN;
+      }
+      const window = closes.slice(i - 19, i + 1);
+      return Math.sqrt(window.reduce((sum, v) => sum + (v - middle[i]) ** 2, 0) / 20) * 2;
+    });
+
+    const values = bollingerBands(closes, 20, 2);
+    expectSeries(values.map((v) => v.middle), middle);
+    expectSeries(values.map((v) => v.upper), middle.map((m, i) => m + deviation[i]));
+    expectSeries(values.map((v) => v.lower), middle.map((m, i) => m - deviation[i]));
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new BollingerBands(20, 2), closes, bollingerBands(closes, 20, 2));
+  });
+});
+
+describe("VWAP", () => {
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  function referenceVwap(bars: KLineData[], sessionMs?: number): number[] {
+    return bars.map((bar, i) => {
+      const session = sessionMs ? Math.floor(bar.timestamp / sessionMs) : 0;
+      let priceVolume = 0;
+      let volume = 0;
+      for (let j = 0; j <= i; j++) {
+        if (sessionMs && Math.floor(bars[j].timestamp / sessionMs) !== session) {
+          continue;
+        }
+        priceVolume += ((bars[j].high + bars[j].low + bars[j].close) / 3) * bars[j].volume;
+        volume += bars[j].volume;
+      }
+      return priceVolume / volume;
+    });
+  }
+
+  it("matches known values", () => {
+    const bars = [
+      { timestamp: 0, open: 10, high: 12, low: 9, close: 9, volume: 1 },
+      { timestamp: 1, open: 9, high: 21, low: 15, close: 18, volume: 3 },
+    ];
+    // 典型价 10、18，按成交量加权 (10 + 54) / 4
+    expectSeries(vwap(bars), [10, 16]);
+  });
+
+  it("matches the reference implementation and resets at session boundaries", () => {
+    expectSeries(vwap(klines), referenceVwap(klines));
+    expectSeries(vwap(klines, dayMs), referenceVwap(klines, dayMs));
+
+    const values = vwap(klines, dayMs);
+    const sessionStart = klines.findIndex((k) => k.timestamp % dayMs === 0 && k.timestamp > klines[0].timestamp);
+    const first = klines[sessionStart];
+    expect(values[sessionStart]).toBeCloseTo((first.high + first.low + first.close) / 3, 10);
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new VWAP(dayMs), klines, vwap(klines, dayMs));
+  });
+});
+
+describe("DonchianChannel", () => {
+  it("matches the reference implementation", () => {
+    const values = donchianChannel(klines, 20);
+    const upper = klines.map((_, i) =>
+      i < 19 ? NaN : Math.max(...klines.slice(i - 19, i + 1).map((k) => k.high))
+    );
+    const lower = klines.map((_, i) =>
+      i < 19 ? NaN : Math.min(...klines.slice(i - 19, i + 1).map((k) => k.low))
+    );
+    expectSeries(values.map((v) => v.upper), upper);
+    expectSeries(values.map((v) => v.lower), lower);
+    expectSeries(values.map((v) => v.middle), upper.map((u, i) => (u + lower[i]) / 2));
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new DonchianChannel(20), klines, donchianChannel(klines, 20));
+  });
+});
+
+describe("OBV", () => {
+  it("matches known values", () => {
+    const bars = [10, 11, 11, 9, 12].map((close, i) => ({
+      timestamp: i,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: (i + 1) * 10,
+    }));
+    // 0，+20，持平，-40，+50
+    expectSeries(obv(bars), [0, 20, 20, -20, 30]);
+  });
+
+  it("gives the same values in batch and incremental form", () => {
+    expectParity(() => new OBV(), klines, obv(klines));
+  });
+});
+
+describe("MarketRegimeClassifier", () => {
+  it("classifies each bar the same as classifyMarketRegime on the history up to it", () => {
+    const options = { atrLookback: 50, highVolatilityPercentile: 80 };
+    const expected = klines.map((_, i) => classifyMarketRegime(klines.slice(0, i + 1), options));
+    expect(expected.some((result) => result === null)).toBe(true);
+    expect(new Set(expected.map((result) => result?.regime)).size).toBeGreaterThan(2);
+
+    expectParity(() => new MarketRegimeClassifier(options), klines, expected);
+  });
+});
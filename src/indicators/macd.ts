@@ -0,0 +1,64 @@
+import { EMA } from "./ema";
+import { IncrementalIndicator, runIndicator } from "./types";
+
+// MACD 指标值
+export interface MACDValue {
+  macd: number;       // 快线 - 慢线
+  signal: number;     // MACD 的信号线（EMA）
+  histogram: number;  // macd - signal
+}
+
+/**
+ * MACD 增量计算
+ */
+export class MACD implements IncrementalIndicator<number, MACDValue> {
+  private fast: EMA;
+  private slow: EMA;
+  private signalLine: EMA;
+  value: MACDValue = { macd: NaN, signal: NaN, histogram: NaN };
+
+  constructor(
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9
+  ) {
+    if (fastPeriod >= slowPeriod) {
+      throw new Error(`MACD fast period (${fastPeriod}) must be less than slow period (${slowPeriod})`);
+    }
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signalLine = new EMA(signalPeriod);
+  }
+
+  update(input: number): MACDValue {
+    const fast = this.fast.update(input);
+    const slow = this.slow.update(input);
+    if (Number.isNaN(slow)) {
+      return this.value;
+    }
+
+    const macd = fast - slow;
+    const signal = this.signalLine.update(macd);
+    this.value = { macd, signal, histogram: macd - signal };
+    return this.value;
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.signalLine.reset();
+    this.value = { macd: NaN, signal: NaN, histogram: NaN };
+  }
+}
+
+/**
+ * MACD 批量计算
+ */
+export function macd(
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDValue[] {
+  return runIndicator(new MACD(fastPeriod, slowPeriod, signalPeriod), values);
+}
@@ -0,0 +1,35 @@
+import { KLineData } from "../types/strategy";
+import { IncrementalIndicator, runIndicator } from "./types";
+
+/**
+ * 能量潮（OBV）增量计算，第一根K线为 0
+ */
+export class OBV implements IncrementalIndicator<KLineData, number> {
+  private prevClose = NaN;
+  value = NaN;
+
+  update(bar: KLineData): number {
+    if (Number.isNaN(this.prevClose)) {
+      this.value = 0;
+    } else if (bar.close > this.prevClose) {
+      this.value += bar.volume;
+    } else if (bar.close < this.prevClose) {
+      this.value -= bar.volume;
+    }
+
+    this.prevClose = bar.close;
+    return this.value;
+  }
+
+  reset(): void {
+    this.prevClose = NaN;
+    this.value = NaN;
+  }
+}
+
+/**
+ * 能量潮（OBV）批量计算
+ */
+export function obv(klines: KLineData[]): number[] {
+  return runIndicator(new OBV(), klines);
+}
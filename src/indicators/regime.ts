@@ -0,0 +1,155 @@
+import { KLineData, MarketRegime } from "../types/strategy";
+import { ADX, adx } from "./adx";
+import { ATR, atr } from "./atr";
+import { BollingerBands, BollingerValue, bollingerBands } from "./bollinger";
+import { IncrementalIndicator } from "./types";
+
+// 市场状态分类参数
+export interface RegimeOptions {
+  adxPeriod?: number;                 // ADX 周期
+  adxThreshold?: number;              // ADX 高于该值视为有趋势
+  atrPeriod?: number;                 // ATR 周期
+  atrLookback?: number;               // ATR 百分位的统计窗口（K线数）
+  highVolatilityPercentile?: number;  // ATR 百分位高于该值视为高波动
+  bollingerPeriod?: number;           // 布林带周期
+  bollingerStdDev?: number;           // 布林带标准差倍数
+  minBandwidthPercent?: number;       // 布林带宽度（%）低于该值视为收敛，不认定为趋势
+}
+
+// 市场状态分类结果
+export interface RegimeResult {
+  regime: MarketRegime;
+  adx: number;
+  atrPercentile: number;     // 当前 ATR 在统计窗口中的百分位（0-100）
+  bandwidthPercent: number;  // 布林带宽度 (上轨 - 下轨) / 中轨 * 100
+}
+
+const DEFAULT_REGIME_OPTIONS: Required<RegimeOptions> = {
+  adxPeriod: 14,
+  adxThreshold: 20,
+  atrPeriod: 14,
+  atrLookback: 100,
+  highVolatilityPercentile: 90,
+  bollingerPeriod: 20,
+  bollingerStdDev: 2,
+  minBandwidthPercent: 0.5,
+};
+
+/**
+ * 市场状态分类
+ * 1. ATR 百分位过高 → 高波动
+ * 2. ADX 达到阈值且布林带未收敛 → 趋势
+ * 3. 其他 → 震荡
+ *
+ * @returns 分类结果，数据不足时返回 null
+ */
+export function classifyMarketRegime(
+  klines: KLineData[],
+  options: RegimeOptions = {}
+): RegimeResult | null {
+  const resolved = resolveOptions(options);
+
+  const lastIndex = klines.length - 1;
+  if (lastIndex < 0) {
+    return null;
+  }
+
+  const currentADX = adx(klines, resolved.adxPeriod)[lastIndex].adx;
+  const bands = bollingerBands(
+    klines.map((k) => k.close),
+    resolved.bollingerPeriod,
+    resolved.bollingerStdDev
+  )[lastIndex];
+  const atrValues = atr(klines, resolved.atrPeriod).slice(-resolved.atrLookback);
+
+  return classify(currentADX, bands, atrValues, resolved);
+}
+
+/**
+ * 市场状态分类增量计算（逐根K线 update，结果与 classifyMarketRegime 对同一段历史的结果一致）
+ * ADX、布林带和 ATR 增量更新，只保留 ATR 百分位窗口内的 ATR 值
+ */
+export class MarketRegimeClassifier implements IncrementalIndicator<KLineData, RegimeResult | null> {
+  private options: Required<RegimeOptions>;
+  private adx: ADX;
+  private bands: BollingerBands;
+  private atr: ATR;
+  private atrWindow: number[] = [];
+  value: RegimeResult | null = null;
+
+  constructor(options: RegimeOptions = {}) {
+    this.options = resolveOptions(options);
+    this.adx = new ADX(this.options.adxPeriod);
+    this.bands = new BollingerBands(this.options.bollingerPeriod, this.options.bollingerStdDev);
+    this.atr = new ATR(this.options.atrPeriod);
+  }
+
+  update(bar: KLineData): RegimeResult | null {
+    const currentADX = this.adx.update(bar).adx;
+    const bands = this.bands.update(bar.close);
+    this.atrWindow.push(this.atr.update(bar));
+    if (this.options.atrLookback > 0 && this.atrWindow.length > this.options.atrLookback) {
+      this.atrWindow.shift();
+    }
+
+    this.value = classify(currentADX, bands, this.atrWindow, this.options);
+    return this.value;
+  }
+
+  reset(): void {
+    this.adx.reset();
+    this.bands.reset();
+    this.atr.reset();
+    this.atrWindow = [];
+    this.value = null;
+  }
+}
+
+/**
+ * 未设置（undefined）的参数使用默认值
+ */
+function resolveOptions(options: RegimeOptions): Required<RegimeOptions> {
+  const resolved = { ...DEFAULT_REGIME_OPTIONS };
+  for (const key of Object.keys(resolved) as Array<keyof RegimeOptions>) {
+    resolved[key] = options[key] ?? resolved[key];
+  }
+  return resolved;
+}
+
+/**
+ * 按当前 ADX、布林带和最近一段 ATR 分类
+ */
+function classify(
+  currentADX: number,
+  bands: BollingerValue,
+  recentATR: number[],
+  options: Required<RegimeOptions>
+): RegimeResult | null {
+  const atrValues = recentATR.filter((value) => Number.isFinite(value));
+  const currentATR = atrValues[atrValues.length - 1];
+
+  if (!Number.isFinite(currentADX) || !Number.isFinite(bands.middle) || currentATR === undefined) {
+    return null;
+  }
+
+  const atrPercentile =
+    (atrValues.filter((value) => value <= currentATR).length / atrValues.length) * 100;
+  const bandwidthPercent =
+    bands.middle === 0 ? 0 : ((bands.upper - bands.lower) / bands.middle) * 100;
+
+  let regime: MarketRegime;
+  if (atrPercentile >= options.highVolatilityPercentile) {
+    regime = "high_volatility";
+  } else if (currentADX >= options.adxThreshold && bandwidthPercent >= options.minBandwidthPercent) {
+    regime = "trending";
+  } else {
+    regime = "ranging";
+  }
+
+  return {
+    regime,
+    adx: currentADX,
+    atrPercentile,
+    bandwidthPercent,
+  };
+}
@@ -0,0 +1,65 @@
+import { IncrementalIndicator, runIndicator } from "./types";
+
+/**
+ * 相对强弱指数（RSI，Wilder 平滑）增量计算
+ * 第 period + 1 个数据开始有值
+ */
+export class RSI implements IncrementalIndicator<number, number> {
+  private prev = NaN;
+  private count = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  value = NaN;
+
+  constructor(private period: number) {
+    if (period < 1) {
+      throw new Error(`Invalid RSI period: ${period}`);
+    }
+  }
+
+  update(input: number): number {
+    if (Number.isNaN(this.prev)) {
+      this.prev = input;
+      return this.value;
+    }
+
+    const change = input - this.prev;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    this.prev = input;
+    this.count++;
+
+    if (this.count < this.period) {
+      this.avgGain += gain;
+      this.avgLoss += loss;
+      return this.value;
+    }
+
+    if (this.count === this.period) {
+      this.avgGain = (this.avgGain + gain) / this.period;
+      this.avgLoss = (this.avgLoss + loss) / this.period;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.value =
+      this.avgLoss === 0 ? 100 : 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    return this.value;
+  }
+
+  reset(): void {
+    this.prev = NaN;
+    this.count = 0;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * 相对强弱指数（RSI）批量计算
+ */
+export function rsi(values: number[], period: number = 14): number[] {
+  return runIndicator(new RSI(period), values);
+}
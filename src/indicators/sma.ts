@@ -0,0 +1,40 @@
+import { IncrementalIndicator, runIndicator } from "./types";
+
+/**
+ * 简单移动平均（SMA）增量计算
+ */
+export class SMA implements IncrementalIndicator<number, number> {
+  private window: number[] = [];
+  private sum = 0;
+  value = NaN;
+
+  constructor(private period: number) {
+    if (period < 1) {
+      throw new Error(`Invalid SMA period: ${period}`);
+    }
+  }
+
+  update(input: number): number {
+    this.window.push(input);
+    this.sum += input;
+    if (this.window.length > this.period) {
+      this.sum -= this.window.shift()!;
+    }
+
+    this.value = this.window.length === this.period ? this.sum / this.period : NaN;
+    return this.value;
+  }
+
+  reset(): void {
+    this.window = [];
+    this.sum = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * 简单移动平均（SMA）批量计算
+ */
+export function sma(values: number[], period: number): number[] {
+  return runIndicator(new SMA(period), values);
+}
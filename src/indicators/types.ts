@@ -0,0 +1,28 @@
+/**
+ * 技术指标通用类型
+ */
+
+/**
+ * 增量指标：逐个推送数据，返回最新值
+ * 预热阶段（数据不足一个周期）返回 NaN
+ */
+export interface IncrementalIndicator<TInput, TOutput> {
+  // 推送一个新数据，返回最新指标值
+  update(input: TInput): TOutput;
+
+  // 当前指标值
+  readonly value: TOutput;
+
+  // 清空状态
+  reset(): void;
+}
+
+/**
+ * 用增量指标计算整段序列（批量形式与增量形式共用同一实现，保证结果一致）
+ */
+export function runIndicator<TInput, TOutput>(
+  indicator: IncrementalIndicator<TInput, TOutput>,
+  inputs: TInput[]
+): TOutput[] {
+  return inputs.map((input) => indicator.update(input));
+}
@@ -0,0 +1,47 @@
+import { KLineData } from "../types/strategy";
+import { IncrementalIndicator, runIndicator } from "./types";
+
+/**
+ * 成交量加权平均价（VWAP）增量计算
+ * sessionMs 指定时按该时长分段重置（如 86400000 为按 UTC 日重置），不指定则全程累计
+ */
+export class VWAP implements IncrementalIndicator<KLineData, number> {
+  private session = NaN;
+  private priceVolume = 0;
+  private volume = 0;
+  value = NaN;
+
+  constructor(private sessionMs?: number) {}
+
+  update(bar: KLineData): number {
+    if (this.sessionMs) {
+      const session = Math.floor(bar.timestamp / this.sessionMs);
+      if (session !== this.session) {
+        this.session = session;
+        this.priceVolume = 0;
+        this.volume = 0;
+      }
+    }
+
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+    this.priceVolume += typicalPrice * bar.volume;
+    this.volume += bar.volume;
+
+    this.value = this.volume === 0 ? typicalPrice : this.priceVolume / this.volume;
+    return this.value;
+  }
+
+  reset(): void {
+    this.session = NaN;
+    this.priceVolume = 0;
+    this.volume = 0;
+    this.value = NaN;
+  }
+}
+
+/**
+ * 成交量加权平均价（VWAP）批量计算
+ */
+export function vwap(klines: KLineData[], sessionMs?: number): number[] {
+  return runIndicator(new VWAP(sessionMs), klines);
+}
@@ -54,6 +54,8 @@ export const tradeTasks = pgTable(
     strategyId: varchar("strategy_id", { length: 255 }).notNull(),
     strategyName: varchar("strategy_name", { length: 255 }).notNull(),
     strategyParams: jsonb("strategy_params").notNull().default(sql`'{}'::jsonb`),
+    presetId: varchar("preset_id", { length: 36 }),
+    presetVersion: integer("preset_version"),
     symbols: jsonb("symbols").notNull().default(sql`'[]'::jsonb`),
     timeframes: jsonb("timeframes").notNull().default(sql`'[]'::jsonb`),
     riskControl: jsonb("risk_control").notNull().default(sql`'{}'::jsonb`),
@@ -77,6 +79,101 @@ export const tradeTasks = pgTable(
   })
 );
 
+// 规则策略表（声明式 JSON 规则，运行时注册到策略管理器）
+export const ruleStrategies = pgTable(
+  "rule_strategies",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id", { length: 36 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description").notNull().default(""),
+    rules: jsonb("rules").notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }),
+  },
+  (table) => ({
+    userIdIdx: index("rule_strategies_user_id_idx").on(table.userId),
+  })
+);
+
+// 脚本策略表（每次上传新增一个版本，按 scriptKey 归组）
+export const strategyScripts = pgTable(
+  "strategy_scripts",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id", { length: 36 }).notNull(),
+    scriptKey: varchar("script_key", { length: 64 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description").notNull().default(""),
+    version: integer("version").notNull(),
+    code: text("code").notNull(),
+    codeHash: varchar("code_hash", { length: 64 }).notNull(),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("strategy_scripts_user_id_idx").on(table.userId),
+    scriptKeyIdx: index("strategy_scripts_script_key_idx").on(table.scriptKey, table.version),
+  })
+);
+
+// 策略参数预设表（按策略ID命名保存的一组参数，参数内容按版本保存在 strategy_preset_versions）
+export const strategyPresets = pgTable(
+  "strategy_presets",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id", { length: 36 }).notNull(),
+    strategyId: varchar("strategy_id", { length: 255 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description").notNull().default(""),
+    latestVersion: integer("latest_version").default(1).notNull(),
+    strategyVersion: varchar("strategy_version", { length: 50 }).notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("active"),
+    metadata: jsonb("metadata"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }),
+  },
+  (table) => ({
+    userIdIdx: index("strategy_presets_user_id_idx").on(table.userId),
+    strategyIdIdx: index("strategy_presets_strategy_id_idx").on(table.strategyId),
+  })
+);
+
+// 策略参数预设版本表（每次保存新增一个版本，不修改历史版本）
+export const strategyPresetVersions = pgTable(
+  "strategy_preset_versions",
+  {
+    id: varchar("id", { length: 36 })
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    presetId: varchar("preset_id", { length: 36 }).notNull(),
+    version: integer("version").notNull(),
+    params: jsonb("params").notNull().default(sql`'{}'::jsonb`),
+    strategyVersion: varchar("strategy_version", { length: 50 }).notNull(),
+    note: text("note").notNull().default(""),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    presetIdIdx: index("strategy_preset_versions_preset_id_idx").on(table.presetId, table.version),
+  })
+);
+
 // 信号执行记录表
 export const signalExecutionRecords = pgTable(
   "signal_execution_records",
@@ -129,6 +226,9 @@ export const backtestResults = pgTable(
     strategyId: varchar("strategy_id", { length: 255 }).notNull(),
     strategyName: varchar("strategy_name", { length: 255 }).notNull(),
     strategyParams: jsonb("strategy_params").notNull().default(sql`'{}'::jsonb`),
+    strategyHash: varchar("strategy_hash", { length: 64 }),
+    presetId: varchar("preset_id", { length: 36 }),
+    presetVersion: integer("preset_version"),
     symbol: varchar("symbol", { length: 50 }).notNull(),
     timeframe: varchar("timeframe", { length: 20 }).notNull(),
     startTime: timestamp("start_time", { withTimezone: true }).notNull(),
@@ -149,6 +249,7 @@ export const backtestResults = pgTable(
     trades: text("trades").notNull(),
     signals: text("signals").notNull(),
     equityCurve: text("equity_curve").notNull(),
+    batchId: varchar("batch_id", { length: 36 }), // 同一批参数优化的回测共用一个批次ID
     metadata: jsonb("metadata"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -157,6 +258,7 @@ export const backtestResults = pgTable(
   (table) => ({
     userIdIdx: index("backtest_results_user_id_idx").on(table.userId),
     strategyIdIdx: index("backtest_results_strategy_id_idx").on(table.strategyId),
+    batchIdIdx: index("backtest_results_batch_id_idx").on(table.batchId),
   })
 );
 
@@ -247,6 +349,18 @@ export type InsertUserConfig = z.infer<typeof insertUserConfigSchema>;
 export type TradeTask = typeof tradeTasks.$inferSelect;
 export type InsertTradeTask = z.infer<typeof insertTradeTaskSchema>;
 
+export type RuleStrategy = typeof ruleStrategies.$inferSelect;
+export type InsertRuleStrategy = z.infer<typeof insertRuleStrategySchema>;
+
+export type StrategyScript = typeof strategyScripts.$inferSelect;
+export type InsertStrategyScript = z.infer<typeof insertStrategyScriptSchema>;
+
+export type StrategyPreset = typeof strategyPresets.$inferSelect;
+export type InsertStrategyPreset = z.infer<typeof insertStrategyPresetSchema>;
+
+export type StrategyPresetVersion = typeof strategyPresetVersions.$inferSelect;
+export type InsertStrategyPresetVersion = z.infer<typeof insertStrategyPresetVersionSchema>;
+
 export type SignalExecutionRecord = typeof signalExecutionRecords.$inferSelect;
 export type InsertSignalExecutionRecord = z.infer<typeof insertSignalExecutionRecordSchema>;
 
@@ -279,6 +393,8 @@ export const insertTradeTaskSchema = createCoercedInsertSchema(tradeTasks).pick(
   strategyId: true,
   strategyName: true,
   strategyParams: true,
+  presetId: true,
+  presetVersion: true,
   symbols: true,
   timeframes: true,
   riskControl: true,
@@ -286,6 +402,45 @@ export const insertTradeTaskSchema = createCoercedInsertSchema(tradeTasks).pick(
   metadata: true,
 });
 
+export const insertRuleStrategySchema = createCoercedInsertSchema(ruleStrategies).pick({
+  userId: true,
+  name: true,
+  description: true,
+  rules: true,
+  enabled: true,
+  metadata: true,
+});
+
+export const insertStrategyScriptSchema = createCoercedInsertSchema(strategyScripts).pick({
+  userId: true,
+  scriptKey: true,
+  name: true,
+  description: true,
+  version: true,
+  code: true,
+  codeHash: true,
+  metadata: true,
+});
+
+export const insertStrategyPresetSchema = createCoercedInsertSchema(strategyPresets).pick({
+  userId: true,
+  strategyId: true,
+  name: true,
+  description: true,
+  latestVersion: true,
+  strategyVersion: true,
+  status: true,
+  metadata: true,
+});
+
+export const insertStrategyPresetVersionSchema = createCoercedInsertSchema(strategyPresetVersions).pick({
+  presetId: true,
+  version: true,
+  params: true,
+  strategyVersion: true,
+  note: true,
+});
+
 export const insertSignalExecutionRecordSchema = createCoercedInsertSchema(signalExecutionRecords).pick({
   taskId: true,
   userId: true,
@@ -315,6 +470,9 @@ export const insertBacktestResultSchema = createCoercedInsertSchema(backtestResu
   strategyId: true,
   strategyName: true,
   strategyParams: true,
+  strategyHash: true,
+  presetId: true,
+  presetVersion: true,
   symbol: true,
   timeframe: true,
   startTime: true,
@@ -335,6 +493,7 @@ export const insertBacktestResultSchema = createCoercedInsertSchema(backtestResu
   trades: true,
   signals: true,
   equityCurve: true,
+  batchId: true,
   metadata: true,
 });
 
@@ -3,6 +3,10 @@ import { getDb } from "coze-coding-dev-sdk";
 import {
   userConfigs,
   tradeTasks,
+  ruleStrategies,
+  strategyScripts,
+  strategyPresets,
+  strategyPresetVersions,
   signalExecutionRecords,
   backtestResults,
   manualInterventions,
@@ -10,6 +14,10 @@ import {
   systemStats,
   insertUserConfigSchema,
   insertTradeTaskSchema,
+  insertRuleStrategySchema,
+  insertStrategyScriptSchema,
+  insertStrategyPresetSchema,
+  insertStrategyPresetVersionSchema,
   insertSignalExecutionRecordSchema,
   insertBacktestResultSchema,
   insertManualInterventionSchema,
@@ -19,6 +27,10 @@ import {
 import type {
   UserConfig,
   TradeTask,
+  RuleStrategy,
+  StrategyScript,
+  StrategyPreset,
+  StrategyPresetVersion,
   SignalExecutionRecord,
   BacktestResult,
   ManualIntervention,
@@ -26,6 +38,9 @@ import type {
   SystemStat,
   InsertUserConfig,
   InsertTradeTask,
+  InsertRuleStrategy,
+  InsertStrategyScript,
+  InsertStrategyPreset,
   InsertSignalExecutionRecord,
   InsertBacktestResult,
   InsertManualIntervention,
@@ -146,6 +161,247 @@ export class TradeTaskManager {
   }
 }
 
+// 规则策略管理器
+export class RuleStrategyManager {
+  async createRuleStrategy(data: InsertRuleStrategy): Promise<RuleStrategy> {
+    const db = await getDb();
+    const validated = insertRuleStrategySchema.parse(data);
+    const [strategy] = await db.insert(ruleStrategies).values(validated).returning();
+    return strategy;
+  }
+
+  async getRuleStrategyById(id: string): Promise<RuleStrategy | null> {
+    const db = await getDb();
+    const [strategy] = await db.select().from(ruleStrategies).where(eq(ruleStrategies.id, id));
+    return strategy || null;
+  }
+
+  async getRuleStrategiesByUserId(userId: string): Promise<RuleStrategy[]> {
+    const db = await getDb();
+    return db
+      .select()
+      .from(ruleStrategies)
+      .where(eq(ruleStrategies.userId, userId))
+      .orderBy(desc(ruleStrategies.createdAt));
+  }
+
+  async getEnabledRuleStrategies(): Promise<RuleStrategy[]> {
+    const db = await getDb();
+    return db.select().from(ruleStrategies).where(eq(ruleStrategies.enabled, true));
+  }
+
+  async updateRuleStrategy(id: string, data: Partial<RuleStrategy>): Promise<RuleStrategy | null> {
+    const db = await getDb();
+    const [strategy] = await db
+      .update(ruleStrategies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(ruleStrategies.id, id))
+      .returning();
+    return strategy || null;
+  }
+
+  async deleteRuleStrategy(id: string): Promise<boolean> {
+    const db = await getDb();
+    const result = await db.delete(ruleStrategies).where(eq(ruleStrategies.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+// 脚本策略管理器
+export class StrategyScriptManager {
+  async createScript(data: InsertStrategyScript): Promise<StrategyScript> {
+    const db = await getDb();
+    const validated = insertStrategyScriptSchema.parse(data);
+    const [script] = await db.insert(strategyScripts).values(validated).returning();
+    return script;
+  }
+
+  async getScriptVersions(scriptKey: string): Promise<StrategyScript[]> {
+    const db = await getDb();
+    return db
+      .select()
+      .from(strategyScripts)
+      .where(eq(strategyScripts.scriptKey, scriptKey))
+      .orderBy(desc(strategyScripts.version));
+  }
+
+  async getLatestScript(scriptKey: string): Promise<StrategyScript | null> {
+    const [script] = await this.getScriptVersions(scriptKey);
+    return script || null;
+  }
+
+  async getScriptsByUserId(userId: string): Promise<StrategyScript[]> {
+    const db = await getDb();
+    return db
+      .select()
+      .from(strategyScripts)
+      .where(eq(strategyScripts.userId, userId))
+      .orderBy(desc(strategyScripts.createdAt));
+  }
+
+  /**
+   * 所有脚本的最新版本
+   */
+  async getLatestScripts(): Promise<StrategyScript[]> {
+    const db = await getDb();
+    const scripts = await db
+      .select()
+      .from(strategyScripts)
+      .orderBy(desc(strategyScripts.version));
+
+    const latest = new Map<string, StrategyScript>();
+    for (const script of scripts) {
+      if (!latest.has(script.scriptKey)) {
+        latest.set(script.scriptKey, script);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  async deleteScript(scriptKey: string): Promise<boolean> {
+    const db = await getDb();
+    const result = await db.delete(strategyScripts).where(eq(strategyScripts.scriptKey, scriptKey));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+// 策略参数预设管理器
+export class StrategyPresetManager {
+  /**
+   * 创建预设，同时保存第 1 个版本
+   */
+  async createPreset(
+    data: InsertStrategyPreset,
+    params: Record<string, unknown>,
+    note = ""
+  ): Promise<{ preset: StrategyPreset; version: StrategyPresetVersion }> {
+    const db = await getDb();
+    const validated = insertStrategyPresetSchema.parse({ ...data, latestVersion: 1 });
+    const [preset] = await db.insert(strategyPresets).values(validated).returning();
+
+    const [version] = await db
+      .insert(strategyPresetVersions)
+      .values(
+        insertStrategyPresetVersionSchema.parse({
+          presetId: preset.id,
+          version: 1,
+          params,
+          strategyVersion: preset.strategyVersion,
+          note,
+        })
+      )
+      .returning();
+
+    return { preset, version };
+  }
+
+  async getPresetById(id: string): Promise<StrategyPreset | null> {
+    const db = await getDb();
+    const [preset] = await db.select().from(strategyPresets).where(eq(strategyPresets.id, id));
+    return preset || null;
+  }
+
+  async getPresets(userId: string, strategyId?: string): Promise<StrategyPreset[]> {
+    const db = await getDb();
+    const conditions: SQL[] = [eq(strategyPresets.userId, userId)];
+    if (strategyId) {
+      conditions.push(eq(strategyPresets.strategyId, strategyId));
+    }
+
+    return db
+      .select()
+      .from(strategyPresets)
+      .where(and(...conditions))
+      .orderBy(desc(strategyPresets.updatedAt), desc(strategyPresets.createdAt));
+  }
+
+  async getPresetVersions(presetId: string): Promise<StrategyPresetVersion[]> {
+    const db = await getDb();
+    return db
+      .select()
+      .from(strategyPresetVersions)
+      .where(eq(strategyPresetVersions.presetId, presetId))
+      .orderBy(desc(strategyPresetVersions.version));
+  }
+
+  /**
+   * 获取指定版本（不指定时返回最新版本）
+   */
+  async getPresetVersion(presetId: string, version?: number): Promise<StrategyPresetVersion | null> {
+    const db = await getDb();
+    if (version === undefined) {
+      const [latest] = await db
+        .select()
+        .from(strategyPresetVersions)
+        .where(eq(strategyPresetVersions.presetId, presetId))
+        .orderBy(desc(strategyPresetVersions.version))
+        .limit(1);
+      return latest || null;
+    }
+
+    const [record] = await db
+      .select()
+      .from(strategyPresetVersions)
+      .where(and(eq(strategyPresetVersions.presetId, presetId), eq(strategyPresetVersions.version, version)));
+    return record || null;
+  }
+
+  /**
+   * 保存新版本（版本号 = 最新版本 + 1），并把预设标记为对应策略版本的可用状态
+   */
+  async savePresetVersion(
+    presetId: string,
+    params: Record<string, unknown>,
+    strategyVersion: string,
+    note = ""
+  ): Promise<{ preset: StrategyPreset; version: StrategyPresetVersion } | null> {
+    const preset = await this.getPresetById(presetId);
+    if (!preset) {
+      return null;
+    }
+
+    const db = await getDb();
+    const nextVersion = preset.latestVersion + 1;
+    const [version] = await db
+      .insert(strategyPresetVersions)
+      .values(
+        insertStrategyPresetVersionSchema.parse({
+          presetId,
+          version: nextVersion,
+          params,
+          strategyVersion,
+          note,
+        })
+      )
+      .returning();
+
+    const updated = await this.updatePreset(presetId, {
+      latestVersion: nextVersion,
+      strategyVersion,
+      status: "active",
+    });
+
+    return { preset: updated || preset, version };
+  }
+
+  async updatePreset(id: string, data: Partial<StrategyPreset>): Promise<StrategyPreset | null> {
+    const db = await getDb();
+    const [preset] = await db
+      .update(strategyPresets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(strategyPresets.id, id))
+      .returning();
+    return preset || null;
+  }
+
+  async deletePreset(id: string): Promise<boolean> {
+    const db = await getDb();
+    await db.delete(strategyPresetVersions).where(eq(strategyPresetVersions.presetId, id));
+    const result = await db.delete(strategyPresets).where(eq(strategyPresets.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
 // 信号执行记录管理器
 export class SignalExecutionManager {
   async createRecord(data: InsertSignalExecutionRecord): Promise<SignalExecutionRecord> {
@@ -290,6 +546,15 @@ export class BacktestResultManager {
     return await query;
   }
 
+  async getResultsByBatchId(batchId: string): Promise<BacktestResult[]> {
+    const db = await getDb();
+    return await db
+      .select()
+      .from(backtestResults)
+      .where(eq(backtestResults.batchId, batchId))
+      .orderBy(desc(backtestResults.createdAt));
+  }
+
   async deleteResult(id: string): Promise<boolean> {
     const db = await getDb();
     const result = await db.delete(backtestResults).where(eq(backtestResults.id, id));
@@ -466,6 +731,9 @@ export class SystemStatsManager {
 // 导出单例实例
 export const userConfigManager = new UserConfigManager();
 export const tradeTaskManager = new TradeTaskManager();
+export const ruleStrategyManager = new RuleStrategyManager();
+export const strategyScriptManager = new StrategyScriptManager();
+export const strategyPresetManager = new StrategyPresetManager();
 export const signalExecutionManager = new SignalExecutionManager();
 export const backtestResultManager = new BacktestResultManager();
 export const manualInterventionManager = new ManualInterventionManager();
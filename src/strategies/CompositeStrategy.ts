@@ -0,0 +1,476 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  MultiTimeframeContext,
+  Signal,
+  StrategyStream,
+} from "../types/strategy";
+import { WindowedStrategyStream } from "./WindowedStrategyStream";
+import {
+  buildMultiTimeframeContext,
+  getStrategyTimeframes,
+  sortTimeframes,
+} from "../utils/timeframeAligner";
+
+/**
+ * 组合策略
+ * 把多个已注册的策略组合成一个策略，按投票方式合成信号，不需要复制子策略的代码
+ *
+ * 组合方式：
+ * - unanimous：所有子策略方向一致
+ * - majority：多数投票（按票数）
+ * - weighted：按权重 × 置信度加权，得分超过阈值
+ * - primary_confirm：主策略（第一个子策略）出信号，其余子策略作为确认过滤
+ *
+ * 子策略没有入场信号但实现了 getBias 时（如 EMA 趋势），用其方向倾向作为投票
+ * 子策略参数以 `${子策略ID}.${参数名}` 为键放在组合策略参数中
+ */
+export type CompositeMode = "unanimous" | "majority" | "weighted" | "primary_confirm";
+
+// 组合策略的子策略
+export interface CompositeChild {
+  strategyId: string;
+  weight?: number;               // 加权模式下的默认权重（默认 1）
+}
+
+// 组合策略定义
+export interface CompositeStrategyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  children: CompositeChild[];    // 第一个子策略为主策略
+  defaultMode?: CompositeMode;
+  riskLevel?: StrategyMeta["riskLevel"];
+}
+
+export interface CompositeParams extends BaseStrategyParams {
+  mode: CompositeMode;
+  confidenceThreshold: number;   // 加权模式：获胜方向得分占总权重的最低比例
+}
+
+// 子策略的单次投票
+interface ChildVote {
+  strategyId: string;
+  name: string;
+  vote: "long" | "short" | null;
+  source: "signal" | "bias" | "none";
+  confidence: number;
+  weight: number;
+  signal: Signal | null;
+  reason: string;
+}
+
+// 通过策略ID查找已注册策略（由策略管理器注入，避免循环引用）
+export type StrategyResolver = (id: string) => TradingStrategy | null | undefined;
+
+const MODE_LABELS: Record<CompositeMode, string> = {
+  unanimous: "全部一致",
+  majority: "多数投票",
+  weighted: "加权置信度",
+  primary_confirm: "主策略 + 确认",
+};
+
+// 内置组合：SMC 流动性 + FVG 入场，EMA 趋势过滤
+export const SMC_EMA_TREND_COMPOSITE: CompositeStrategyDefinition = {
+  id: "smc_ema_trend",
+  name: "SMC + EMA 趋势过滤",
+  description:
+    "SMC 流动性扫荡 + FVG 回踩作为主策略，只在 EMA 趋势方向与信号一致时入场。",
+  children: [
+    { strategyId: "smc_liquidity_fvg" },
+    { strategyId: "ema_trend_recognition" },
+  ],
+  defaultMode: "primary_confirm",
+  riskLevel: "medium",
+};
+
+// 方向倾向投票的置信度
+const BIAS_CONFIDENCE = 0.5;
+
+// 流式检测时保留的K线数量
+const STREAM_WINDOW_BARS = 500;
+
+export class CompositeStrategy implements TradingStrategy<CompositeParams> {
+  readonly meta: StrategyMeta;
+
+  constructor(
+    private definition: CompositeStrategyDefinition,
+    private resolve: StrategyResolver
+  ) {
+    if (definition.children.length === 0) {
+      throw new Error(`Composite strategy ${definition.id} requires at least one child`);
+    }
+
+    this.meta = {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      version: "1.0.0",
+      category: "组合策略",
+      author: "Vibe Trading",
+      timeframe: ["1m", "5m", "15m", "1h", "4h"],
+      riskLevel: definition.riskLevel || "medium",
+    };
+  }
+
+  getDefaultParams(): CompositeParams {
+    const params: CompositeParams = {
+      mode: this.definition.defaultMode || "primary_confirm",
+      confidenceThreshold: 0.6,
+    };
+
+    for (const child of this.definition.children) {
+      params[`weight_${child.strategyId}`] = child.weight ?? 1;
+
+      const strategy = this.resolve(child.strategyId);
+      if (!strategy) {
+        continue;
+      }
+      for (const [key, value] of Object.entries(strategy.getDefaultParams())) {
+        params[`${child.strategyId}.${key}`] = value;
+      }
+    }
+
+    return params;
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    const items: StrategyConfigItem[] = [
+      {
+        key: "mode",
+        label: "组合方式",
+        type: "select",
+        defaultValue: this.definition.defaultMode || "primary_confirm",
+        options: (Object.keys(MODE_LABELS) as CompositeMode[]).map((mode) => ({
+          value: mode,
+          label: MODE_LABELS[mode],
+        })),
+        description: "主策略 + 确认模式下第一个子策略为主策略，其余子策略作为过滤条件",
+        category: "组合",
+      },
+      {
+        key: "confidenceThreshold",
+        label: "加权阈值",
+        type: "number",
+        defaultValue: 0.6,
+        min: 0.1,
+        max: 1,
+        step: 0.05,
+        description: "加权模式下，获胜方向的加权置信度占总权重的最低比例",
+        category: "组合",
+      },
+    ];
+
+    for (const child of this.definition.children) {
+      const strategy = this.resolve(child.strategyId);
+      const name = strategy?.meta.name || child.strategyId;
+
+      items.push({
+        key: `weight_${child.strategyId}`,
+        label: `${name} 权重`,
+        type: "number",
+        defaultValue: child.weight ?? 1,
+        min: 0,
+        max: 10,
+        step: 0.1,
+        description: "加权模式下该子策略的权重",
+        category: "组合",
+      });
+    }
+
+    // 子策略参数（键名加子策略前缀，分组加子策略名称）
+    for (const child of this.definition.children) {
+      const strategy = this.resolve(child.strategyId);
+      if (!strategy) {
+        continue;
+      }
+      for (const item of strategy.getConfigItems()) {
+        items.push({
+          ...item,
+          key: `${child.strategyId}.${item.key}`,
+          category: `${strategy.meta.name}${item.category ? ` · ${item.category}` : ""}`,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  getRequiredTimeframes(params: CompositeParams): string[] {
+    const timeframes = new Set<string>();
+    for (const child of this.definition.children) {
+      const strategy = this.resolve(child.strategyId);
+      if (!strategy) {
+        continue;
+      }
+      for (const timeframe of getStrategyTimeframes(strategy, this.getChildParams(child.strategyId, params))) {
+        timeframes.add(timeframe);
+      }
+    }
+    return sortTimeframes([...timeframes]);
+  }
+
+  validateParams(params: CompositeParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!(params.mode in MODE_LABELS)) {
+      errors.push(`未知的组合方式: ${params.mode}`);
+    }
+    if (params.confidenceThreshold <= 0 || params.confidenceThreshold > 1) {
+      errors.push("加权阈值必须在 0 到 1 之间");
+    }
+
+    for (const child of this.definition.children) {
+      const strategy = this.resolve(child.strategyId);
+      if (!strategy) {
+        errors.push(`子策略不存在: ${child.strategyId}`);
+        continue;
+      }
+      if (strategy.getGridPlan) {
+        errors.push(`网格策略不能作为子策略: ${strategy.meta.name}`);
+        continue;
+      }
+      if (strategy.detectLinkedSignal) {
+        errors.push(`多交易对策略不能作为子策略: ${strategy.meta.name}`);
+        continue;
+      }
+      if (this.getWeight(child, params) < 0) {
+        errors.push(`${strategy.meta.name} 权重不能为负数`);
+      }
+
+      const validation = strategy.validateParams?.(this.getChildParams(child.strategyId, params));
+      if (validation && !validation.valid) {
+        errors.push(...validation.errors.map((error) => `${strategy.meta.name}: ${error}`));
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  createStream(): StrategyStream<CompositeParams> {
+    return new WindowedStrategyStream(this, STREAM_WINDOW_BARS);
+  }
+
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: CompositeParams,
+    context?: MultiTimeframeContext
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    if (klines.length === 0) {
+      return {
+        signal: null,
+        reason: "K线数据不足",
+        details: "",
+      };
+    }
+
+    const votes = this.definition.children.map((child) =>
+      this.collectVote(child, symbol, klines, params, context)
+    );
+    const details = votes.map((vote) => this.formatVote(vote)).join(" | ");
+    const label = MODE_LABELS[params.mode];
+
+    if (params.mode === "primary_confirm") {
+      const [primary, ...confirmations] = votes;
+      if (!primary.signal) {
+        return {
+          signal: null,
+          reason: `主策略无信号: ${primary.reason}`,
+          details,
+        };
+      }
+
+      const rejected = confirmations.filter((vote) => vote.vote !== primary.signal!.direction);
+      if (rejected.length > 0) {
+        return {
+          signal: null,
+          reason: `确认未通过: ${rejected.map((vote) => vote.name).join(", ")}`,
+          details,
+        };
+      }
+
+      return {
+        signal: {
+          ...primary.signal,
+          reason: `[${label}] ${primary.signal.reason}`,
+        },
+        reason: `主策略 ${primary.name} 信号已被 ${confirmations.length} 个过滤条件确认`,
+        details,
+      };
+    }
+
+    // 统计各方向的票数和加权得分
+    const tally = { long: 0, short: 0 };
+    const score = { long: 0, short: 0 };
+    let totalWeight = 0;
+    for (const vote of votes) {
+      totalWeight += vote.weight;
+      if (vote.vote) {
+        tally[vote.vote]++;
+        score[vote.vote] += vote.weight * vote.confidence;
+      }
+    }
+
+    let direction: "long" | "short" | null = null;
+    let confidence = 0;
+    if (params.mode === "unanimous") {
+      if (tally.long === votes.length || tally.short === votes.length) {
+        direction = tally.long === votes.length ? "long" : "short";
+        confidence = 1;
+      }
+    } else if (params.mode === "majority") {
+      if (tally.long > votes.length / 2 || tally.short > votes.length / 2) {
+        direction = tally.long > tally.short ? "long" : "short";
+        confidence = tally[direction] / votes.length;
+      }
+    } else {
+      const winner = score.long >= score.short ? "long" : "short";
+      const ratio = totalWeight > 0 ? score[winner] / totalWeight : 0;
+      if (score[winner] > 0 && ratio >= params.confidenceThreshold) {
+        direction = winner;
+        confidence = ratio;
+      }
+    }
+
+    const summary = `多 ${tally.long} / 空 ${tally.short} / 共 ${votes.length}`;
+    if (!direction) {
+      return {
+        signal: null,
+        reason: `${label}未达成 (${summary})`,
+        details,
+      };
+    }
+
+    // 使用获胜方向中置信度最高的子策略信号（包含入场价和出场计划）
+    const source = votes
+      .filter((vote) => vote.signal && vote.signal.direction === direction)
+      .sort((a, b) => b.confidence - a.confidence)[0];
+    if (!source) {
+      return {
+        signal: null,
+        reason: `${label}方向为 ${direction}，但只有方向倾向，没有子策略给出入场信号`,
+        details,
+      };
+    }
+
+    return {
+      signal: {
+        ...source.signal!,
+        reason: `[${label}] ${source.signal!.reason}`,
+        confidence: Math.min(1, confidence),
+      },
+      reason: `${label}: ${direction} (${summary})`,
+      details,
+    };
+  }
+
+  /**
+   * 提取子策略参数（子策略默认参数 + 组合参数中带前缀的覆盖值）
+   */
+  private getChildParams(strategyId: string, params: CompositeParams): BaseStrategyParams {
+    const strategy = this.resolve(strategyId);
+    const childParams: BaseStrategyParams = strategy ? strategy.getDefaultParams() : {};
+    const prefix = `${strategyId}.`;
+
+    for (const [key, value] of Object.entries(params)) {
+      if (key.startsWith(prefix)) {
+        childParams[key.slice(prefix.length)] = value;
+      }
+    }
+
+    return childParams;
+  }
+
+  private getWeight(child: CompositeChild, params: CompositeParams): number {
+    const weight = params[`weight_${child.strategyId}`];
+    return typeof weight === "number" ? weight : child.weight ?? 1;
+  }
+
+  /**
+   * 运行子策略并收集投票
+   * 子策略使用自己的入场周期K线，多周期子策略只拿到自己需要的周期
+   */
+  private collectVote(
+    child: CompositeChild,
+    symbol: string,
+    klines: KLineData[],
+    params: CompositeParams,
+    context?: MultiTimeframeContext
+  ): ChildVote {
+    const strategy = this.resolve(child.strategyId)!;
+    const childParams = this.getChildParams(child.strategyId, params);
+    const timeframes = getStrategyTimeframes(strategy, childParams);
+
+    let childKlines = klines;
+    let childContext: MultiTimeframeContext | undefined;
+    if (context && timeframes.length > 0) {
+      childKlines = context.klines[timeframes[0]] || klines;
+
+      const available: Record<string, KLineData[]> = {};
+      for (const timeframe of timeframes) {
+        if (context.klines[timeframe]) {
+          available[timeframe] = context.klines[timeframe];
+        }
+      }
+      if (Object.keys(available).length > 1) {
+        childContext = buildMultiTimeframeContext(available, timeframes[0]);
+      }
+    }
+
+    const vote: ChildVote = {
+      strategyId: child.strategyId,
+      name: strategy.meta.name,
+      vote: null,
+      source: "none",
+      confidence: 0,
+      weight: this.getWeight(child, params),
+      signal: null,
+      reason: "",
+    };
+
+    const result = strategy.detectSignal(symbol, childKlines, childParams, childContext);
+    vote.reason = result.reason;
+    if (result.signal) {
+      vote.vote = result.signal.direction;
+      vote.source = "signal";
+      vote.confidence = result.signal.confidence;
+      vote.signal = result.signal;
+      return vote;
+    }
+
+    const bias = strategy.getBias?.(symbol, childKlines, childParams, childContext) ?? null;
+    if (bias) {
+      vote.vote = bias;
+      vote.source = "bias";
+      vote.confidence = BIAS_CONFIDENCE;
+    }
+
+    return vote;
+  }
+
+  private formatVote(vote: ChildVote): string {
+    if (!vote.vote) {
+      return `${vote.name}: 弃权 (${vote.reason})`;
+    }
+
+    const source = vote.source === "signal" ? "信号" : "趋势";
+    return `${vote.name}: ${vote.vote} [${source}] 置信度 ${vote.confidence.toFixed(2)} 权重 ${vote.weight}`;
+  }
+}
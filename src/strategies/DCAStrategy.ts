@@ -0,0 +1,360 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  StrategyStream,
+} from "../types/strategy";
+import { WindowedStrategyStream } from "./WindowedStrategyStream";
+import { rsi } from "../indicators";
+import { buildSafetyOrders, getDcaTakeProfitPrice } from "../utils/dcaPlan";
+
+/**
+ * DCA（安全单摊平）策略
+ *
+ * 1. 满足启动条件时以基础单开仓
+ * 2. 价格逆向运行时按逐步放大的偏离挂安全单，安全单金额按倍数放大
+ * 3. 止盈按持仓均价计算，安全单成交后止盈价随均价移动
+ * 4. 安全单数量和阶梯总资金均有上限
+ *
+ * 持仓期间的安全单和止盈由回测引擎/实盘引擎按信号中的 dcaPlan 管理
+ */
+export interface DCAParams extends BaseStrategyParams {
+  direction: "long" | "short";
+  startCondition: "immediate" | "rsi";
+  rsiPeriod: number;
+  rsiThreshold: number;            // 做多：RSI 低于该值启动；做空：RSI 高于 100 - 该值启动
+
+  baseOrderSize: number;           // 基础单金额（USDT）
+  safetyOrderSize: number;         // 第一张安全单金额（USDT）
+  safetyOrderDeviation: number;    // 第一张安全单的价格偏离（%）
+  stepScale: number;               // 偏离间距放大倍数
+  volumeScale: number;             // 安全单金额放大倍数
+  maxSafetyOrders: number;
+  maxCapital: number;              // 单轮最大资金占用（USDT，含基础单）
+
+  takeProfitPercent: number;       // 相对持仓均价的止盈（%）
+  stopLossPercent: number;         // 相对基础单价格的止损（%），0 表示不设止损
+}
+
+export const DEFAULT_DCA_PARAMS: DCAParams = {
+  direction: "long",
+  startCondition: "immediate",
+  rsiPeriod: 14,
+  rsiThreshold: 30,
+
+  baseOrderSize: 100,
+  safetyOrderSize: 100,
+  safetyOrderDeviation: 1,
+  stepScale: 1.5,
+  volumeScale: 1.5,
+  maxSafetyOrders: 5,
+  maxCapital: 2000,
+
+  takeProfitPercent: 1.5,
+  stopLossPercent: 0,
+};
+
+// 流式检测时保留的K线数量
+const STREAM_WINDOW_BARS = 300;
+
+export class DCAStrategy implements TradingStrategy<DCAParams> {
+  readonly meta: StrategyMeta = {
+    id: "dca",
+    name: "DCA 安全单摊平",
+    description:
+      "DCA 机器人模式。基础单开仓后按逐步放大的偏离挂安全单摊低均价，按均价止盈，限制安全单数量和总资金。",
+    version: "1.0.0",
+    category: "DCA",
+    author: "Vibe Trading",
+    timeframe: ["5m", "15m", "1h", "4h"],
+    riskLevel: "high",
+  };
+
+  getDefaultParams(): DCAParams {
+    return { ...DEFAULT_DCA_PARAMS };
+  }
+
+  createStream(): StrategyStream<DCAParams> {
+    return new WindowedStrategyStream(this, STREAM_WINDOW_BARS);
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return [
+      {
+        key: "direction",
+        label: "方向",
+        type: "select",
+        defaultValue: "long",
+        options: [
+          { value: "long", label: "做多" },
+          { value: "short", label: "做空" },
+        ],
+        category: "启动条件",
+      },
+      {
+        key: "startCondition",
+        label: "启动条件",
+        type: "select",
+        defaultValue: "immediate",
+        options: [
+          { value: "immediate", label: "立即（上一轮结束后马上开始）" },
+          { value: "rsi", label: "RSI 超卖/超买" },
+        ],
+        category: "启动条件",
+      },
+      {
+        key: "rsiPeriod",
+        label: "RSI 周期",
+        type: "number",
+        defaultValue: 14,
+        min: 2,
+        max: 50,
+        step: 1,
+        category: "启动条件",
+      },
+      {
+        key: "rsiThreshold",
+        label: "RSI 阈值",
+        type: "number",
+        defaultValue: 30,
+        min: 5,
+        max: 50,
+        step: 1,
+        description: "做多时 RSI 低于该值启动，做空时 RSI 高于 100 减该值启动",
+        category: "启动条件",
+      },
+      {
+        key: "baseOrderSize",
+        label: "基础单金额 (USDT)",
+        type: "number",
+        defaultValue: 100,
+        min: 5,
+        step: 5,
+        category: "阶梯",
+      },
+      {
+        key: "safetyOrderSize",
+        label: "安全单金额 (USDT)",
+        type: "number",
+        defaultValue: 100,
+        min: 5,
+        step: 5,
+        description: "第一张安全单的金额",
+        category: "阶梯",
+      },
+      {
+        key: "safetyOrderDeviation",
+        label: "安全单偏离 (%)",
+        type: "number",
+        defaultValue: 1,
+        min: 0.1,
+        max: 20,
+        step: 0.1,
+        description: "第一张安全单相对基础单的价格偏离",
+        category: "阶梯",
+      },
+      {
+        key: "stepScale",
+        label: "偏离倍数",
+        type: "number",
+        defaultValue: 1.5,
+        min: 1,
+        max: 3,
+        step: 0.1,
+        description: "每张安全单的偏离间距相对上一张的倍数",
+        category: "阶梯",
+      },
+      {
+        key: "volumeScale",
+        label: "金额倍数",
+        type: "number",
+        defaultValue: 1.5,
+        min: 1,
+        max: 3,
+        step: 0.1,
+        description: "每张安全单金额相对上一张的倍数",
+        category: "阶梯",
+      },
+      {
+        key: "maxSafetyOrders",
+        label: "最大安全单数",
+        type: "number",
+        defaultValue: 5,
+        min: 0,
+        max: 20,
+        step: 1,
+        category: "阶梯",
+      },
+      {
+        key: "maxCapital",
+        label: "最大资金占用 (USDT)",
+        type: "number",
+        defaultValue: 2000,
+        min: 10,
+        step: 10,
+        description: "基础单与全部安全单的总金额上限，超出的安全单不再挂出",
+        category: "阶梯",
+      },
+      {
+        key: "takeProfitPercent",
+        label: "止盈 (%)",
+        type: "number",
+        defaultValue: 1.5,
+        min: 0.1,
+        max: 20,
+        step: 0.1,
+        description: "相对持仓均价",
+        category: "止盈止损",
+      },
+      {
+        key: "stopLossPercent",
+        label: "止损 (%)",
+        type: "number",
+        defaultValue: 0,
+        min: 0,
+        max: 90,
+        step: 0.5,
+        description: "相对基础单价格，0 表示不设止损",
+        category: "止盈止损",
+      },
+    ];
+  }
+
+  validateParams(params: DCAParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (params.baseOrderSize <= 0) {
+      errors.push("基础单金额必须大于0");
+    }
+    if (params.baseOrderSize > params.maxCapital) {
+      errors.push("基础单金额不能超过最大资金占用");
+    }
+    if (params.safetyOrderSize <= 0) {
+      errors.push("安全单金额必须大于0");
+    }
+    if (params.safetyOrderDeviation <= 0) {
+      errors.push("安全单偏离必须大于0");
+    }
+    if (params.stepScale < 1 || params.volumeScale < 1) {
+      errors.push("偏离倍数和金额倍数不能小于1");
+    }
+    if (params.maxSafetyOrders < 0) {
+      errors.push("最大安全单数不能为负数");
+    }
+    if (params.takeProfitPercent <= 0) {
+      errors.push("止盈必须大于0");
+    }
+    if (params.stopLossPercent < 0) {
+      errors.push("止损不能为负数");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: DCAParams
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    if (klines.length === 0) {
+      return {
+        signal: null,
+        reason: "K线数据不足",
+        details: "",
+      };
+    }
+
+    const current = klines[klines.length - 1];
+    const isLong = params.direction === "long";
+
+    // 1. 启动条件
+    let startReason = "立即启动";
+    if (params.startCondition === "rsi") {
+      if (klines.length < params.rsiPeriod + 1) {
+        return {
+          signal: null,
+          reason: `K线数据不足，需要至少 ${params.rsiPeriod + 1} 根`,
+          details: "",
+        };
+      }
+
+      const rsiValue = rsi(klines.map((k) => k.close), params.rsiPeriod)[klines.length - 1];
+      const triggered = isLong
+        ? rsiValue < params.rsiThreshold
+        : rsiValue > 100 - params.rsiThreshold;
+      if (!triggered) {
+        return {
+          signal: null,
+          reason: "RSI 未达到启动阈值",
+          details: `RSI: ${rsiValue.toFixed(2)}`,
+        };
+      }
+      startReason = `RSI ${isLong ? "超卖" : "超买"} (${rsiValue.toFixed(2)})`;
+    }
+
+    // 2. 生成阶梯（基础单之外的资金分配给安全单）
+    const entryPrice = current.close;
+    const safetyOrders = buildSafetyOrders({
+      direction: params.direction,
+      entryPrice,
+      safetyOrderSize: params.safetyOrderSize,
+      deviationPercent: params.safetyOrderDeviation,
+      stepScale: params.stepScale,
+      volumeScale: params.volumeScale,
+      maxSafetyOrders: params.maxSafetyOrders,
+      maxCapital: params.maxCapital - params.baseOrderSize,
+    });
+    const stopLoss =
+      params.stopLossPercent > 0
+        ? entryPrice * (1 + ((isLong ? -1 : 1) * params.stopLossPercent) / 100)
+        : undefined;
+
+    const committed =
+      params.baseOrderSize + safetyOrders.reduce((sum, order) => sum + order.price * order.quantity, 0);
+    const lastSafety = safetyOrders[safetyOrders.length - 1];
+
+    const details = [
+      `基础单: ${params.baseOrderSize} USDT @ ${entryPrice.toFixed(4)}`,
+      `安全单: ${safetyOrders.length} 张${lastSafety ? `，最远 ${lastSafety.price.toFixed(4)}` : ""}`,
+      `资金占用: ${committed.toFixed(2)} USDT`,
+      `初始止盈: ${getDcaTakeProfitPrice(params.direction, entryPrice, params.takeProfitPercent).toFixed(4)}`,
+    ];
+    if (stopLoss !== undefined) {
+      details.push(`止损: ${stopLoss.toFixed(4)}`);
+    }
+
+    return {
+      signal: {
+        symbol,
+        direction: params.direction,
+        time: current.timestamp,
+        reason: `DCA ${startReason}`,
+        confidence: 0.6,
+        entryPrice,
+        dcaPlan: {
+          baseQuantity: params.baseOrderSize / entryPrice,
+          safetyOrders,
+          takeProfitPercent: params.takeProfitPercent,
+          stopLoss,
+        },
+      },
+      reason: `检测到 ${params.direction} DCA 启动信号: ${startReason}`,
+      details: details.join(" | "),
+    };
+  }
+}
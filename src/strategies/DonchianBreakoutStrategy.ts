@@ -0,0 +1,459 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  Signal,
+  StrategyStream,
+  StrategyStreamState,
+} from "../types/strategy";
+import { ATR, DonchianChannel, MarketRegimeClassifier } from "../indicators";
+import {
+  RegimeFilterParams,
+  DEFAULT_REGIME_FILTER_PARAMS,
+  getRegimeFilterConfigItems,
+  applyRegimeFilter,
+  createRegimeClassifier,
+  describeRegime,
+} from "./regimeFilter";
+
+/**
+ * 唐奇安通道突破策略（海龟交易法则）
+ *
+ * 1. 收盘价突破前 N 根K线的最高价（最低价）时开多（开空）
+ * 2. 仓位以 ATR（N 值）为单位：每单位承担 unitRiskPercent% 的权益风险
+ * 3. 价格每朝有利方向运行 addStepAtr × N 加仓一个单位，最多 maxUnits 个单位（由引擎按实际持仓计数）
+ * 4. 止损为最后一次入场价 ∓ stopAtrMultiplier × N（2N 法则），加仓后整体止损随之上移
+ * 5. 反向突破时反手
+ */
+export interface DonchianBreakoutParams extends BaseStrategyParams, RegimeFilterParams {
+  entryPeriod: number;         // 突破通道周期
+  atrPeriod: number;           // N 值（ATR）周期
+  unitRiskPercent: number;     // 每单位承担的权益风险（%）
+  addStepAtr: number;          // 加仓间隔（N 的倍数）
+  maxUnits: number;            // 最大持仓单位数
+  stopAtrMultiplier: number;   // 止损距离（N 的倍数）
+  signalValidBars: number;
+}
+
+export const DEFAULT_DONCHIAN_BREAKOUT_PARAMS: DonchianBreakoutParams = {
+  entryPeriod: 20,
+  atrPeriod: 20,
+  unitRiskPercent: 1,
+  addStepAtr: 0.5,
+  maxUnits: 4,
+  stopAtrMultiplier: 2,
+  signalValidBars: 1,
+  ...DEFAULT_REGIME_FILTER_PARAMS,
+};
+
+// 快照保留的K线数量（恢复时重放这些K线重建通道、N 值和市场状态）
+const STREAM_SNAPSHOT_BARS = 300;
+
+// 当前这一轮突破：加仓价位从首次突破的收盘价起每 addStepAtr × N 一档
+interface BreakoutLeg {
+  direction: "long" | "short";
+  entryPrice: number;
+  unitN: number;       // 首次突破时的 N 值（加仓间隔与止损均以此为准）
+  nextLevel: number;   // 下一档加仓价位的序号（从 1 开始）
+}
+
+/**
+ * 唐奇安突破的增量状态
+ * 突破判断使用不含当前K线的通道，因此先判断再更新指标。
+ * 流只根据行情给出开仓和加仓价位，不跟踪持仓：单位数由引擎按实际成交记录并受 maxUnits 限制，
+ * 没有同向持仓时引擎忽略加仓信号，止损由引擎按出场计划执行；
+ * 止损离场或开仓失败后，同向再次突破时重新发出开仓信号（该K线同时到达加仓价位时为 openIfFlat 的加仓信号）
+ */
+class DonchianBreakoutStream implements StrategyStream<DonchianBreakoutParams> {
+  private symbol = "";
+  private params: DonchianBreakoutParams = DEFAULT_DONCHIAN_BREAKOUT_PARAMS;
+  private timeframes: string[] = [];
+  private channel = new DonchianChannel(DEFAULT_DONCHIAN_BREAKOUT_PARAMS.entryPeriod);
+  private atr = new ATR(DEFAULT_DONCHIAN_BREAKOUT_PARAMS.atrPeriod);
+  private regime: MarketRegimeClassifier = createRegimeClassifier(DEFAULT_DONCHIAN_BREAKOUT_PARAMS);
+  private recent: KLineData[] = [];
+  private leg: BreakoutLeg | null = null;
+
+  init(symbol: string, params: DonchianBreakoutParams, timeframes: string[]): void {
+    if (timeframes.length === 0) {
+      throw new Error("At least one timeframe is required");
+    }
+
+    this.symbol = symbol;
+    this.params = params;
+    this.timeframes = [...timeframes];
+    this.channel = new DonchianChannel(params.entryPeriod);
+    this.atr = new ATR(params.atrPeriod);
+    this.regime = createRegimeClassifier(params);
+    this.recent = [];
+    this.leg = null;
+  }
+
+  onBar(bar: KLineData, timeframe: string): Signal[] {
+    // 只处理入场周期
+    if (timeframe !== this.timeframes[0]) {
+      return [];
+    }
+
+    const { signal } = this.process(bar);
+    return signal ? [signal] : [];
+  }
+
+  /**
+   * 处理一根已收盘K线，返回检测结果
+   */
+  process(bar: KLineData): SignalDetectionResult {
+    const last = this.recent[this.recent.length - 1];
+    if (last && bar.timestamp <= last.timestamp) {
+      return { signal: null, reason: "重复的K线", details: "" };
+    }
+
+    const channel = this.channel.value;
+    const n = this.atr.value;
+    const prevTimestamp = last?.timestamp;
+    this.updateIndicators(bar);
+
+    if (!Number.isFinite(channel.upper) || !Number.isFinite(n) || n <= 0) {
+      return { signal: null, reason: "指标预热中", details: "" };
+    }
+
+    const breakout: "long" | "short" | null =
+      bar.close > channel.upper ? "long" : bar.close < channel.lower ? "short" : null;
+    const channelDetails = `通道: ${channel.lower.toFixed(4)} - ${channel.upper.toFixed(4)}, N: ${n.toFixed(4)}`;
+
+    // 1. 本轮突破方向上到达加仓价位（同时也是同向突破时，没有持仓则按开仓处理）
+    const { regime, blockedReason } = applyRegimeFilter(this.regime.value, this.params);
+    const leg = this.leg;
+    if (leg && breakout !== (leg.direction === "long" ? "short" : "long")) {
+      const addResult = this.checkAddLevel(bar, leg, prevTimestamp, breakout !== null && !blockedReason);
+      if (addResult) {
+        return addResult;
+      }
+      if (!breakout) {
+        return {
+          signal: null,
+          reason: "未达到加仓价格",
+          details: `下一档加仓价: ${this.getLevelPrice(leg, leg.nextLevel).toFixed(4)}`,
+        };
+      }
+    }
+
+    // 2. 突破通道：开仓（已有同向持仓时引擎忽略，止损离场后可重新入场）
+    if (!breakout) {
+      return {
+        signal: null,
+        reason: "未突破通道",
+        details: channelDetails,
+      };
+    }
+
+    if (blockedReason) {
+      return {
+        signal: null,
+        reason: blockedReason,
+        details: regime ? describeRegime(regime) : channelDetails,
+      };
+    }
+
+    // 新方向的突破开始新一轮，同向突破沿用本轮的加仓价位
+    const reversed = this.leg !== null && this.leg.direction !== breakout;
+    if (!this.leg || reversed) {
+      this.leg = { direction: breakout, entryPrice: bar.close, unitN: n, nextLevel: 1 };
+    }
+
+    const stopDistance = n * this.params.stopAtrMultiplier;
+    const stopLoss = breakout === "long" ? bar.close - stopDistance : bar.close + stopDistance;
+    const reason = `${reversed ? "反向" : ""}突破 ${this.params.entryPeriod} 周期${breakout === "long" ? "高点" : "低点"}`;
+    const details = [channelDetails, `止损: ${stopLoss.toFixed(4)}`];
+    if (regime) {
+      details.push(describeRegime(regime));
+    }
+
+    return {
+      signal: {
+        ...this.createSignal(bar, breakout, n, stopLoss, "open", prevTimestamp, reason),
+        regime: regime?.regime,
+      },
+      reason: `检测到 ${breakout} 信号: ${reason}`,
+      details: details.join(" | "),
+    };
+  }
+
+  snapshot(): StrategyStreamState {
+    return {
+      symbol: this.symbol,
+      params: this.params,
+      timeframes: [...this.timeframes],
+      recent: [...this.recent],
+      leg: this.leg ? { ...this.leg } : null,
+    };
+  }
+
+  restore(state: StrategyStreamState): void {
+    this.init(
+      state.symbol as string,
+      state.params as DonchianBreakoutParams,
+      state.timeframes as string[]
+    );
+
+    // 用保留的K线重建指标，本轮突破直接恢复
+    for (const bar of (state.recent as KLineData[]) || []) {
+      this.updateIndicators(bar);
+    }
+    const leg = state.leg as BreakoutLeg | null;
+    this.leg = leg ? { ...leg } : null;
+  }
+
+  private updateIndicators(bar: KLineData): void {
+    this.channel.update(bar);
+    this.atr.update(bar);
+    this.regime.update(bar);
+    this.recent.push(bar);
+    if (this.recent.length > STREAM_SNAPSHOT_BARS) {
+      this.recent.shift();
+    }
+  }
+
+  private getLevelPrice(leg: BreakoutLeg, level: number): number {
+    const step = leg.unitN * this.params.addStepAtr * level;
+    return leg.direction === "long" ? leg.entryPrice + step : leg.entryPrice - step;
+  }
+
+  /**
+   * 收盘价越过下一档加仓价位时发出加仓信号（一根K线越过多档时只加一次），止损移到本次加仓价 ∓ 止损距离
+   */
+  private checkAddLevel(
+    bar: KLineData,
+    leg: BreakoutLeg,
+    prevTimestamp: number | undefined,
+    openIfFlat: boolean
+  ): SignalDetectionResult | null {
+    const beyond = (price: number) => (leg.direction === "long" ? bar.close >= price : bar.close <= price);
+    const addPrice = this.getLevelPrice(leg, leg.nextLevel);
+    if (!beyond(addPrice)) {
+      return null;
+    }
+
+    const level = leg.nextLevel;
+    while (beyond(this.getLevelPrice(leg, leg.nextLevel))) {
+      leg.nextLevel++;
+    }
+
+    const stopDistance = leg.unitN * this.params.stopAtrMultiplier;
+    const stopLoss = leg.direction === "long" ? bar.close - stopDistance : bar.close + stopDistance;
+    const reason = `顺势加仓（第 ${level} 档）`;
+    const signal = this.createSignal(bar, leg.direction, leg.unitN, stopLoss, "add", prevTimestamp, reason);
+    if (openIfFlat) {
+      signal.openIfFlat = true;
+    }
+    return {
+      signal,
+      reason: `检测到 ${leg.direction} 加仓信号: ${reason}`,
+      details: `加仓价: ${addPrice.toFixed(4)}, 新止损: ${stopLoss.toFixed(4)}`,
+    };
+  }
+
+  private createSignal(
+    bar: KLineData,
+    direction: "long" | "short",
+    unitN: number,
+    stopLoss: number,
+    action: "open" | "add",
+    prevTimestamp: number | undefined,
+    reason: string
+  ): Signal {
+    const barInterval = prevTimestamp !== undefined ? bar.timestamp - prevTimestamp : 0;
+
+    return {
+      symbol: this.symbol,
+      direction,
+      time: bar.timestamp,
+      reason,
+      confidence: action === "open" ? 0.6 : 0.65,
+      entryPrice: bar.close,
+      action,
+      unitSizing: {
+        riskPercent: this.params.unitRiskPercent,
+        riskDistance: unitN,
+        maxUnits: this.params.maxUnits,
+      },
+      // 只设置止损，由止损或反向突破离场
+      exitPlan: {
+        stopLoss,
+        takeProfits: [],
+        invalidationTime: bar.timestamp + barInterval * this.params.signalValidBars,
+      },
+    };
+  }
+}
+
+export class DonchianBreakoutStrategy implements TradingStrategy<DonchianBreakoutParams> {
+  readonly meta: StrategyMeta = {
+    id: "donchian_breakout",
+    name: "唐奇安通道突破",
+    description:
+      "海龟式突破策略。突破 N 周期通道入场，按 ATR 单位计算仓位，每 0.5N 顺势加仓，2N 止损。",
+    version: "1.0.0",
+    category: "趋势跟踪",
+    author: "Vibe Trading",
+    timeframe: ["15m", "1h", "4h", "1d"],
+    riskLevel: "high",
+  };
+
+  getDefaultParams(): DonchianBreakoutParams {
+    return { ...DEFAULT_DONCHIAN_BREAKOUT_PARAMS };
+  }
+
+  createStream(): StrategyStream<DonchianBreakoutParams> {
+    return new DonchianBreakoutStream();
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return [
+      {
+        key: "entryPeriod",
+        label: "突破周期",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 100,
+        step: 1,
+        description: "收盘价突破前 N 根K线的最高价/最低价时入场",
+        category: "入场",
+      },
+      {
+        key: "atrPeriod",
+        label: "ATR 周期",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 100,
+        step: 1,
+        description: "N 值（ATR）的计算周期",
+        category: "入场",
+      },
+      {
+        key: "unitRiskPercent",
+        label: "单位风险 (%)",
+        type: "number",
+        defaultValue: 1,
+        min: 0.1,
+        max: 5,
+        step: 0.1,
+        description: "每个单位承担的权益百分比，数量 = 权益 × 风险% / N",
+        category: "仓位",
+      },
+      {
+        key: "addStepAtr",
+        label: "加仓间隔 (N)",
+        type: "number",
+        defaultValue: 0.5,
+        min: 0.1,
+        max: 3,
+        step: 0.1,
+        description: "价格每朝有利方向运行该倍数的 N 加仓一个单位",
+        category: "仓位",
+      },
+      {
+        key: "maxUnits",
+        label: "最大单位数",
+        type: "number",
+        defaultValue: 4,
+        min: 1,
+        max: 10,
+        step: 1,
+        description: "包括首次开仓在内的最大持仓单位数",
+        category: "仓位",
+      },
+      {
+        key: "stopAtrMultiplier",
+        label: "止损距离 (N)",
+        type: "number",
+        defaultValue: 2,
+        min: 0.5,
+        max: 5,
+        step: 0.5,
+        description: "止损设在最后一次入场价反方向该倍数的 N 处",
+        category: "止损",
+      },
+      {
+        key: "signalValidBars",
+        label: "信号有效K线数",
+        type: "number",
+        defaultValue: 1,
+        min: 1,
+        max: 10,
+        step: 1,
+        description: "信号产生后多少根K线内未入场则失效",
+        category: "止损",
+      },
+      ...getRegimeFilterConfigItems(DEFAULT_DONCHIAN_BREAKOUT_PARAMS),
+    ];
+  }
+
+  validateParams(params: DonchianBreakoutParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (params.entryPeriod < 2) {
+      errors.push("突破周期必须大于1");
+    }
+    if (params.atrPeriod < 1) {
+      errors.push("ATR 周期必须大于0");
+    }
+    if (params.unitRiskPercent <= 0) {
+      errors.push("单位风险必须大于0");
+    }
+    if (params.addStepAtr <= 0) {
+      errors.push("加仓间隔必须大于0");
+    }
+    if (params.maxUnits < 1) {
+      errors.push("最大单位数至少为1");
+    }
+    if (params.stopAtrMultiplier <= 0) {
+      errors.push("止损距离必须大于0");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * 从头重放K线以还原本轮突破的加仓价位，只返回最后一根K线上的信号
+   */
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: DonchianBreakoutParams
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    const minBars = Math.max(params.entryPeriod, params.atrPeriod) + 1;
+    if (klines.length < minBars) {
+      return {
+        signal: null,
+        reason: `K线数据不足，需要至少 ${minBars} 根`,
+        details: "",
+      };
+    }
+
+    const stream = new DonchianBreakoutStream();
+    stream.init(symbol, params, ["entry"]);
+    for (let i = 0; i < klines.length - 1; i++) {
+      stream.process(klines[i]);
+    }
+
+    return stream.process(klines[klines.length - 1]);
+  }
+}
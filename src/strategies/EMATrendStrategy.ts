@@ -0,0 +1,785 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  MultiTimeframeContext,
+  Signal,
+  StrategyStream,
+  StrategyStreamState,
+} from "../types/strategy";
+import {
+  EMA,
+  MarketRegimeClassifier,
+  RegimeResult,
+  RSI,
+  SMA,
+  ema,
+  rsi,
+  sma,
+} from "../indicators";
+import { createPercentExitPlan } from "../utils/exitPlan";
+import {
+  RegimeFilterParams,
+  DEFAULT_REGIME_FILTER_PARAMS,
+  getRegimeFilterConfigItems,
+  evaluateRegimeFilter,
+  applyRegimeFilter,
+  createRegimeClassifier,
+  describeRegime,
+} from "./regimeFilter";
+
+/**
+ * EMA 趋势识别策略
+ * 多时间框架：大周期 EMA 排列确认趋势方向，小周期寻找回调进场点
+ *
+ * 进场条件（可单独开关，满足 minConditionsRequired 个即可）：
+ * 1. 价格位于短期 EMA 同侧
+ * 2. RSI 从超卖区反弹 / 超买区回落
+ * 3. 最近 N 根K线回踩过短期 EMA
+ * 4. 当前K线颜色与方向一致且实体足够
+ */
+export interface EMATrendParams extends BaseStrategyParams, RegimeFilterParams {
+  // 时间周期
+  trendTimeframe: string;   // 趋势周期
+  entryTimeframe: string;   // 入场周期
+
+  // 指标参数
+  emaShort: number;          // 短期 EMA 周期
+  emaLong: number;           // 长期 EMA 周期
+  rsiPeriod: number;         // RSI 周期
+  volumePeriod: number;      // 成交量均线周期
+  minTrendDistance: number;  // 短长 EMA 最小距离（%）
+
+  // 进场条件
+  rsiThreshold: number;             // RSI 分界值
+  emaTouchLookback: number;         // 回踩 EMA 的回看K线数
+  minCandleChangePercent: number;   // K线最小实体涨跌幅（%）
+  minConditionsRequired: number;    // 最少满足的进场条件数
+  enablePriceEMAFilter: boolean;
+  enableRSIFilter: boolean;
+  enableTouchedEmaFilter: boolean;
+  enableCandleColorFilter: boolean;
+
+  // 止损止盈
+  stopLossPercent: number;    // 止损百分比
+  takeProfitPercent: number;  // 止盈百分比
+  signalValidBars: number;    // 信号有效K线数（入场周期）
+}
+
+export const DEFAULT_EMA_TREND_PARAMS: EMATrendParams = {
+  trendTimeframe: "15m",
+  entryTimeframe: "5m",
+
+  emaShort: 20,
+  emaLong: 60,
+  rsiPeriod: 14,
+  volumePeriod: 20,
+  minTrendDistance: 0.15,
+
+  rsiThreshold: 50,
+  emaTouchLookback: 3,
+  minCandleChangePercent: 0.1,
+  minConditionsRequired: 2,
+  enablePriceEMAFilter: true,
+  enableRSIFilter: true,
+  enableTouchedEmaFilter: true,
+  enableCandleColorFilter: true,
+
+  stopLossPercent: 0.4,
+  takeProfitPercent: 1.5,
+  signalValidBars: 2,
+
+  ...DEFAULT_REGIME_FILTER_PARAMS,
+};
+
+// 流式检测快照保留的K线数量（恢复时重放这些K线重建指标）
+const STREAM_SNAPSHOT_BARS = 300;
+
+const TIMEFRAME_OPTIONS = [
+  { value: "1m", label: "1 分钟" },
+  { value: "5m", label: "5 分钟" },
+  { value: "15m", label: "15 分钟" },
+  { value: "30m", label: "30 分钟" },
+  { value: "1h", label: "1 小时" },
+  { value: "4h", label: "4 小时" },
+];
+
+/**
+ * 根据 EMA 排列判断趋势方向
+ * 短期 EMA 在长期 EMA 之上且价格在短期 EMA 之上为多头，反之为空头；两条 EMA 距离不足时无趋势
+ */
+export function getEMATrendDirection(
+  klines: KLineData[],
+  params: Pick<EMATrendParams, "emaShort" | "emaLong" | "minTrendDistance">
+): EMATrendDirection {
+  const closes = klines.map((k) => k.close);
+  return classifyEMATrend(
+    ema(closes, params.emaShort)[closes.length - 1],
+    ema(closes, params.emaLong)[closes.length - 1],
+    closes[closes.length - 1],
+    params
+  );
+}
+
+type EMATrendDirection = {
+  direction: "long" | "short" | "none";
+  emaShort: number;
+  emaLong: number;
+  distance: number;
+};
+
+// 入场周期进场条件的输入
+interface EntryInput {
+  current: KLineData;
+  prevTimestamp: number;  // 上一根K线的时间
+  emaShort: number;
+  rsi: number;
+  prevRsi: number;
+  volumeMA: number;
+  recent: KLineData[];    // 当前K线之前的 emaTouchLookback 根K线
+}
+
+// 一次检测所需的数据：批量检测从K线数组计算，流式检测读取增量指标的当前值
+interface EMATrendSource {
+  trendBars: number;
+  entryBars: number;
+  getTrend(): EMATrendDirection;
+  getEntry(): EntryInput;
+  getRegime(): { regime: RegimeResult | null; blockedReason: string | null };
+}
+
+function classifyEMATrend(
+  emaS: number,
+  emaL: number,
+  close: number,
+  params: Pick<EMATrendParams, "minTrendDistance">
+): EMATrendDirection {
+  if (!Number.isFinite(emaS) || !Number.isFinite(emaL) || emaL === 0) {
+    return { direction: "none", emaShort: NaN, emaLong: NaN, distance: 0 };
+  }
+
+  const distance = (Math.abs(emaS - emaL) / emaL) * 100;
+  let direction: "long" | "short" | "none" = "none";
+
+  if (distance >= params.minTrendDistance) {
+    if (emaS > emaL && close > emaS) {
+      direction = "long";
+    } else if (emaS < emaL && close < emaS) {
+      direction = "short";
+    }
+  }
+
+  return { direction, emaShort: emaS, emaLong: emaL, distance };
+}
+
+/**
+ * 单个周期的增量指标
+ */
+class EMATrendSeries {
+  bars = 0;
+  lastTimestamp = -Infinity;
+  prevTimestamp = NaN;
+  prevRsi = NaN;
+  readonly emaShort: EMA;
+  readonly emaLong: EMA;
+  readonly rsi: RSI;
+  readonly volumeMA: SMA;
+  readonly regime: MarketRegimeClassifier;
+  readonly recent: KLineData[] = []; // 最近 emaTouchLookback + 1 根K线（含当前K线）
+
+  constructor(private params: EMATrendParams) {
+    this.emaShort = new EMA(params.emaShort);
+    this.emaLong = new EMA(params.emaLong);
+    this.rsi = new RSI(params.rsiPeriod);
+    this.volumeMA = new SMA(params.volumePeriod);
+    this.regime = createRegimeClassifier(params);
+  }
+
+  update(bar: KLineData): void {
+    this.bars++;
+    this.prevTimestamp = this.lastTimestamp;
+    this.lastTimestamp = bar.timestamp;
+    this.prevRsi = this.rsi.value;
+
+    this.emaShort.update(bar.close);
+    this.emaLong.update(bar.close);
+    this.rsi.update(bar.close);
+    this.volumeMA.update(bar.volume);
+    this.regime.update(bar);
+
+    this.recent.push(bar);
+    if (this.recent.length > Math.max(this.params.emaTouchLookback, 0) + 1) {
+      this.recent.shift();
+    }
+  }
+
+  getTrend(): EMATrendDirection {
+    const current = this.recent[this.recent.length - 1];
+    return classifyEMATrend(this.emaShort.value, this.emaLong.value, current.close, this.params);
+  }
+
+  getEntry(): EntryInput {
+    return {
+      current: this.recent[this.recent.length - 1],
+      prevTimestamp: this.prevTimestamp,
+      emaShort: this.emaShort.value,
+      rsi: this.rsi.value,
+      prevRsi: this.prevRsi,
+      volumeMA: this.volumeMA.value,
+      recent: this.recent.slice(0, -1),
+    };
+  }
+}
+
+/**
+ * EMA 趋势策略的流式检测
+ * 每个周期维护增量 EMA / RSI / 成交量均线 / 市场状态，单根K线的计算量与历史长度无关，
+ * 信号与对同一段历史调用 detectSignal 的结果一致；快照只保留最近的K线，恢复时重放这些K线重新预热指标
+ */
+class EMATrendStream implements StrategyStream<EMATrendParams> {
+  private symbol = "";
+  private params: EMATrendParams = DEFAULT_EMA_TREND_PARAMS;
+  private timeframes: string[] = [];
+  private series: Record<string, EMATrendSeries> = {};
+  private history: Record<string, KLineData[]> = {};
+  private trendTimeframe = "";
+  private entryTimeframe = "";
+  private invalidReason: string | null = null;
+
+  constructor(private strategy: EMATrendStrategy) {}
+
+  init(symbol: string, params: EMATrendParams, timeframes: string[]): void {
+    if (timeframes.length === 0) {
+      throw new Error("At least one timeframe is required");
+    }
+
+    this.symbol = symbol;
+    this.params = params;
+    this.timeframes = [...timeframes];
+    this.series = {};
+    this.history = {};
+
+    // 与 detectSignal 相同：上下文缺少的周期退回到入场周期（第一个周期）的K线
+    this.trendTimeframe = timeframes.includes(params.trendTimeframe) ? params.trendTimeframe : timeframes[0];
+    this.entryTimeframe = timeframes.includes(params.entryTimeframe) ? params.entryTimeframe : timeframes[0];
+
+    const validation = this.strategy.validateParams(params);
+    this.invalidReason = validation.valid ? null : `参数验证失败: ${validation.errors.join(", ")}`;
+    for (const timeframe of timeframes) {
+      this.history[timeframe] = [];
+      if (!this.invalidReason) {
+        this.series[timeframe] = new EMATrendSeries(params);
+      }
+    }
+  }
+
+  onBar(bar: KLineData, timeframe: string): Signal[] {
+    const { signal } = this.process(bar, timeframe);
+    return signal ? [signal] : [];
+  }
+
+  /**
+   * 处理一根已收盘K线，入场周期（第一个周期）收盘时返回检测结果
+   */
+  process(bar: KLineData, timeframe: string): SignalDetectionResult {
+    const history = this.history[timeframe];
+    const last = history?.[history.length - 1];
+    if (!history || (last && bar.timestamp <= last.timestamp)) {
+      return { signal: null, reason: "重复的K线", details: "" };
+    }
+
+    history.push(bar);
+    if (history.length > STREAM_SNAPSHOT_BARS) {
+      history.shift();
+    }
+    this.series[timeframe]?.update(bar);
+
+    if (timeframe !== this.timeframes[0]) {
+      return { signal: null, reason: "非入场周期", details: "" };
+    }
+    if (this.invalidReason) {
+      return { signal: null, reason: this.invalidReason, details: "" };
+    }
+
+    const trend = this.series[this.trendTimeframe];
+    const entry = this.series[this.entryTimeframe];
+    return detectEMATrendSignal(
+      this.symbol,
+      {
+        trendBars: trend.bars,
+        entryBars: entry.bars,
+        getTrend: () => trend.getTrend(),
+        getEntry: () => entry.getEntry(),
+        getRegime: () => applyRegimeFilter(trend.regime.value, this.params),
+      },
+      this.params
+    );
+  }
+
+  snapshot(): StrategyStreamState {
+    const history: Record<string, KLineData[]> = {};
+    for (const timeframe of this.timeframes) {
+      history[timeframe] = [...this.history[timeframe]];
+    }
+
+    return {
+      symbol: this.symbol,
+      params: this.params,
+      timeframes: [...this.timeframes],
+      history,
+    };
+  }
+
+  restore(state: StrategyStreamState): void {
+    const timeframes = state.timeframes as string[];
+    this.init(state.symbol as string, state.params as EMATrendParams, timeframes);
+
+    // 按时间重放保留的K线（同一时刻高周期优先，与推送顺序一致）
+    const history = (state.history as Record<string, KLineData[]>) || {};
+    const bars = timeframes.flatMap((timeframe) =>
+      (history[timeframe] || []).map((bar) => ({ bar, timeframe }))
+    );
+    bars.sort(
+      (a, b) =>
+        a.bar.timestamp - b.bar.timestamp ||
+        timeframes.indexOf(b.timeframe) - timeframes.indexOf(a.timeframe)
+    );
+    for (const { bar, timeframe } of bars) {
+      this.process(bar, timeframe);
+    }
+  }
+}
+
+/**
+ * 按趋势过滤 → 回调进场 → 市场状态过滤的顺序检测信号（批量和流式检测共用）
+ */
+function detectEMATrendSignal(
+  symbol: string,
+  source: EMATrendSource,
+  params: EMATrendParams
+): SignalDetectionResult {
+  const minBars = params.emaLong + 10;
+  if (source.trendBars < minBars || source.entryBars < minBars) {
+    return {
+      signal: null,
+      reason: "数据不足",
+      details: `趋势周期:${source.trendBars}条, 入场周期:${source.entryBars}条, 需要${minBars}条`,
+    };
+  }
+
+  // 1. 趋势过滤
+  const trend = source.getTrend();
+  if (trend.direction === "none") {
+    return {
+      signal: null,
+      reason: "趋势不明确",
+      details: `EMA${params.emaShort}:${trend.emaShort.toFixed(2)}, EMA${params.emaLong}:${trend.emaLong.toFixed(2)}, 距离:${trend.distance.toFixed(2)}%`,
+    };
+  }
+
+  // 2. 回调进场
+  const input = source.getEntry();
+  const entry = checkEntry(input, trend.direction, params);
+  const directionLabel = trend.direction === "long" ? "多头" : "空头";
+  if (!entry.passed) {
+    return {
+      signal: null,
+      reason: `${directionLabel}趋势，但进场条件不满足`,
+      details: entry.details,
+    };
+  }
+
+  // 3. 市场状态过滤（基于趋势周期）
+  const { regime, blockedReason } = source.getRegime();
+  if (blockedReason) {
+    return {
+      signal: null,
+      reason: blockedReason,
+      details: regime ? describeRegime(regime) : "",
+    };
+  }
+
+  const current = input.current;
+  const barInterval = current.timestamp - input.prevTimestamp;
+  const exitPlan = createPercentExitPlan(
+    trend.direction,
+    current.close,
+    params.stopLossPercent,
+    params.takeProfitPercent
+  );
+  exitPlan.invalidationTime = current.timestamp + barInterval * params.signalValidBars;
+
+  const details = [entry.details];
+  if (regime) {
+    details.push(describeRegime(regime));
+  }
+
+  return {
+    signal: {
+      symbol,
+      direction: trend.direction,
+      time: current.timestamp,
+      reason: `${params.trendTimeframe}${directionLabel}趋势 + ${params.entryTimeframe}回调进场 (${entry.reason})`,
+      confidence: 0.85,
+      entryPrice: current.close,
+      exitPlan,
+      regime: regime?.regime,
+    },
+    reason: "信号触发",
+    details: details.join(" | "),
+  };
+}
+
+/**
+ * 检查入场周期的进场条件
+ * 关闭的条件视为已满足
+ */
+function checkEntry(
+  input: EntryInput,
+  direction: "long" | "short",
+  params: EMATrendParams
+): { passed: boolean; reason: string; details: string } {
+  const { current, emaShort: emaS, rsi: currentRSI, prevRsi: prevRSI, volumeMA } = input;
+  const isLong = direction === "long";
+
+  if (![emaS, currentRSI, prevRSI].every(Number.isFinite)) {
+    return { passed: false, reason: "指标计算失败", details: "EMA或RSI值无效" };
+  }
+
+  // 条件1：价格位于短期 EMA 同侧
+  const priceOnSide = isLong ? current.close > emaS : current.close < emaS;
+
+  // 条件2：RSI 从分界值一侧反转
+  const rsiReversal = isLong
+    ? currentRSI < params.rsiThreshold && currentRSI > prevRSI
+    : currentRSI > params.rsiThreshold && currentRSI < prevRSI;
+
+  // 条件3：最近 N 根K线回踩过短期 EMA
+  const touchedEma = input.recent.some((k) => (isLong ? k.low <= emaS : k.high >= emaS));
+
+  // 条件4：K线颜色与方向一致且实体足够
+  const candleChange = ((current.close - current.open) / current.open) * 100;
+  const candleConfirmed = isLong
+    ? candleChange >= params.minCandleChangePercent && current.close > current.open
+    : -candleChange >= params.minCandleChangePercent && current.close < current.open;
+
+  const conditions = [
+    { enabled: params.enablePriceEMAFilter, passed: priceOnSide, label: `价格${isLong ? ">" : "<"}EMA${params.emaShort}` },
+    { enabled: params.enableRSIFilter, passed: rsiReversal, label: `RSI${isLong ? "反弹" : "回落"}` },
+    { enabled: params.enableTouchedEmaFilter, passed: touchedEma, label: "回踩EMA" },
+    { enabled: params.enableCandleColorFilter, passed: candleConfirmed, label: isLong ? "阳线确认" : "阴线确认" },
+  ];
+
+  const passedCount = conditions.filter((c) => !c.enabled || c.passed).length;
+  const enabledCount = conditions.filter((c) => c.enabled).length || conditions.length;
+  const minRequired = Math.min(params.minConditionsRequired, enabledCount);
+  const failed = conditions.filter((c) => c.enabled && !c.passed).map((c) => c.label);
+
+  const volumeRatio = volumeMA > 0 ? current.volume / volumeMA : 0;
+  const details = `价格:${current.close.toFixed(2)}, RSI:${currentRSI.toFixed(1)}, EMA${params.emaShort}:${emaS.toFixed(2)}, 量比:${volumeRatio.toFixed(2)}${failed.length > 0 ? `, 未满足: ${failed.join("、")}` : ""}`;
+
+  return {
+    passed: passedCount >= minRequired,
+    reason: `${passedCount}/${enabledCount}条件满足, 需要${minRequired}个`,
+    details,
+  };
+}
+
+export class EMATrendStrategy implements TradingStrategy<EMATrendParams> {
+  readonly meta: StrategyMeta = {
+    id: "ema_trend_recognition",
+    name: "EMA趋势识别",
+    description:
+      "多时间框架策略：使用自定义周期EMA确认趋势方向，在小周期图中寻找回调进场点。结合RSI、成交量、K线颜色等多重过滤条件。",
+    version: "1.0.0",
+    category: "趋势跟踪",
+    author: "Vibe Trading",
+    timeframe: ["5m", "15m"],
+    requiredTimeframes: ["5m", "15m"],
+    riskLevel: "medium",
+  };
+
+  getDefaultParams(): EMATrendParams {
+    return { ...DEFAULT_EMA_TREND_PARAMS };
+  }
+
+  getRequiredTimeframes(params: EMATrendParams): string[] {
+    return [params.entryTimeframe, params.trendTimeframe];
+  }
+
+  createStream(): StrategyStream<EMATrendParams> {
+    return new EMATrendStream(this);
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return [
+      {
+        key: "trendTimeframe",
+        label: "趋势周期",
+        type: "select",
+        defaultValue: "15m",
+        options: TIMEFRAME_OPTIONS,
+        description: "用于判断趋势方向的时间周期",
+        category: "时间周期",
+      },
+      {
+        key: "entryTimeframe",
+        label: "入场周期",
+        type: "select",
+        defaultValue: "5m",
+        options: TIMEFRAME_OPTIONS,
+        description: "用于寻找回调进场点的时间周期",
+        category: "时间周期",
+      },
+      {
+        key: "emaShort",
+        label: "EMA短期周期",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 100,
+        step: 1,
+        category: "指标参数",
+      },
+      {
+        key: "emaLong",
+        label: "EMA长期周期",
+        type: "number",
+        defaultValue: 60,
+        min: 20,
+        max: 200,
+        step: 1,
+        category: "指标参数",
+      },
+      {
+        key: "rsiPeriod",
+        label: "RSI周期",
+        type: "number",
+        defaultValue: 14,
+        min: 2,
+        max: 50,
+        step: 1,
+        category: "指标参数",
+      },
+      {
+        key: "volumePeriod",
+        label: "成交量均线周期",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 100,
+        step: 1,
+        category: "指标参数",
+      },
+      {
+        key: "minTrendDistance",
+        label: "最小趋势距离 (%)",
+        type: "number",
+        defaultValue: 0.15,
+        min: 0,
+        max: 2,
+        step: 0.01,
+        description: "短期与长期 EMA 的最小距离，低于该值视为趋势不明确",
+        category: "指标参数",
+      },
+      {
+        key: "rsiThreshold",
+        label: "RSI 分界值",
+        type: "number",
+        defaultValue: 50,
+        min: 20,
+        max: 80,
+        step: 1,
+        description: "做多要求 RSI 低于该值后回升，做空要求高于该值后回落",
+        category: "进场条件",
+      },
+      {
+        key: "emaTouchLookback",
+        label: "回踩回看K线数",
+        type: "number",
+        defaultValue: 3,
+        min: 1,
+        max: 10,
+        step: 1,
+        category: "进场条件",
+      },
+      {
+        key: "minCandleChangePercent",
+        label: "K线最小涨跌幅 (%)",
+        type: "number",
+        defaultValue: 0.1,
+        min: 0,
+        max: 1,
+        step: 0.01,
+        category: "进场条件",
+      },
+      {
+        key: "minConditionsRequired",
+        label: "最少满足条件数",
+        type: "number",
+        defaultValue: 2,
+        min: 1,
+        max: 4,
+        step: 1,
+        category: "进场条件",
+      },
+      {
+        key: "enablePriceEMAFilter",
+        label: "价格与EMA位置",
+        type: "checkbox",
+        defaultValue: true,
+        category: "进场条件",
+      },
+      {
+        key: "enableRSIFilter",
+        label: "RSI 反转",
+        type: "checkbox",
+        defaultValue: true,
+        category: "进场条件",
+      },
+      {
+        key: "enableTouchedEmaFilter",
+        label: "回踩EMA",
+        type: "checkbox",
+        defaultValue: true,
+        category: "进场条件",
+      },
+      {
+        key: "enableCandleColorFilter",
+        label: "K线颜色确认",
+        type: "checkbox",
+        defaultValue: true,
+        category: "进场条件",
+      },
+      {
+        key: "stopLossPercent",
+        label: "止损 (%)",
+        type: "number",
+        defaultValue: 0.4,
+        min: 0.1,
+        max: 10,
+        step: 0.1,
+        category: "止损止盈",
+      },
+      {
+        key: "takeProfitPercent",
+        label: "止盈 (%)",
+        type: "number",
+        defaultValue: 1.5,
+        min: 0.1,
+        max: 20,
+        step: 0.1,
+        category: "止损止盈",
+      },
+      {
+        key: "signalValidBars",
+        label: "信号有效K线数",
+        type: "number",
+        defaultValue: 2,
+        min: 1,
+        max: 20,
+        step: 1,
+        description: "信号产生后超过该数量的入场周期K线仍未入场则失效",
+        category: "止损止盈",
+      },
+      ...getRegimeFilterConfigItems(DEFAULT_EMA_TREND_PARAMS),
+    ];
+  }
+
+  validateParams(params: EMATrendParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (params.emaShort >= params.emaLong) {
+      errors.push("EMA短期周期必须小于长期周期");
+    }
+    if (params.rsiPeriod < 2) {
+      errors.push("RSI周期不能小于2");
+    }
+    if (params.minConditionsRequired < 1 || params.minConditionsRequired > 4) {
+      errors.push("最少满足条件数必须在 1-4 之间");
+    }
+    if (params.stopLossPercent <= 0) {
+      errors.push("止损百分比必须大于0");
+    }
+    if (params.takeProfitPercent <= 0) {
+      errors.push("止盈百分比必须大于0");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * 趋势周期的 EMA 趋势方向（供组合策略作为趋势过滤）
+   */
+  getBias(
+    symbol: string,
+    klines: KLineData[],
+    params: EMATrendParams,
+    context?: MultiTimeframeContext
+  ): "long" | "short" | null {
+    const trendKlines = context?.klines[params.trendTimeframe] || klines;
+    if (trendKlines.length < params.emaLong + 10) {
+      return null;
+    }
+
+    const trend = getEMATrendDirection(trendKlines, params);
+    return trend.direction === "none" ? null : trend.direction;
+  }
+
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: EMATrendParams,
+    context?: MultiTimeframeContext
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    // 大周期判断趋势，小周期入场；没有多周期数据时使用同一序列
+    const trendKlines = context?.klines[params.trendTimeframe] || klines;
+    const entryKlines = context?.klines[params.entryTimeframe] || klines;
+
+    return detectEMATrendSignal(
+      symbol,
+      {
+        trendBars: trendKlines.length,
+        entryBars: entryKlines.length,
+        getTrend: () => getEMATrendDirection(trendKlines, params),
+        getEntry: () => this.getEntryInput(entryKlines, params),
+        getRegime: () => evaluateRegimeFilter(trendKlines, params),
+      },
+      params
+    );
+  }
+
+  /**
+   * 从入场周期K线计算进场条件的输入
+   */
+  private getEntryInput(klines: KLineData[], params: EMATrendParams): EntryInput {
+    const closes = klines.map((k) => k.close);
+    const lastIndex = klines.length - 1;
+    const rsiValues = rsi(closes, params.rsiPeriod);
+
+    return {
+      current: klines[lastIndex],
+      prevTimestamp: klines[lastIndex - 1].timestamp,
+      emaShort: ema(closes, params.emaShort)[lastIndex],
+      rsi: rsiValues[lastIndex],
+      prevRsi: rsiValues[lastIndex - 1],
+      volumeMA: sma(klines.map((k) => k.volume), params.volumePeriod)[lastIndex],
+      recent: klines.slice(Math.max(0, lastIndex - params.emaTouchLookback), lastIndex),
+    };
+  }
+}
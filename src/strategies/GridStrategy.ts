@@ -0,0 +1,239 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  GridPlan,
+  GridSpacing,
+} from "../types/strategy";
+import { buildGridLevels, isOutsideGrid } from "../utils/gridPlan";
+
+/**
+ * 网格交易策略
+ * 在上下边界之间按等差或等比间距挂一组限价单，买单成交后在上一格挂卖单，卖单成交后在下一格挂买单，
+ * 赚取区间震荡的价差；价格离开区间时停止网格并平掉剩余仓位
+ *
+ * 网格策略不产生方向信号，由回测引擎和实盘引擎通过 getGridPlan 以网格模式运行
+ */
+export interface GridParams extends BaseStrategyParams {
+  rangeMode: "manual" | "auto";
+  upperPrice: number;          // 手动区间上边界
+  lowerPrice: number;          // 手动区间下边界
+  autoRangeBars: number;       // 自动区间：取最近 N 根K线的最高价/最低价
+  gridCount: number;           // 格子数量
+  spacing: GridSpacing;
+  investment: number;          // 投入资金（USDT），平均分配到每格
+}
+
+export const DEFAULT_GRID_PARAMS: GridParams = {
+  rangeMode: "auto",
+  upperPrice: 0,
+  lowerPrice: 0,
+  autoRangeBars: 100,
+  gridCount: 10,
+  spacing: "arithmetic",
+  investment: 1000,
+};
+
+const SPACING_LABELS: Record<GridSpacing, string> = {
+  arithmetic: "等差",
+  geometric: "等比",
+};
+
+export class GridStrategy implements TradingStrategy<GridParams> {
+  readonly meta: StrategyMeta = {
+    id: "grid_trading",
+    name: "网格交易",
+    description:
+      "区间网格策略。在上下边界之间挂等差或等比的限价单阶梯，成交后在相邻一格挂反向单，价格离开区间时停止。",
+    version: "1.0.0",
+    category: "网格交易",
+    author: "Vibe Trading",
+    timeframe: ["1m", "5m", "15m", "1h"],
+    riskLevel: "medium",
+  };
+
+  getDefaultParams(): GridParams {
+    return { ...DEFAULT_GRID_PARAMS };
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return [
+      {
+        key: "rangeMode",
+        label: "区间模式",
+        type: "select",
+        defaultValue: "auto",
+        options: [
+          { value: "auto", label: "自动（最近K线高低点）" },
+          { value: "manual", label: "手动" },
+        ],
+        description: "网格上下边界的确定方式",
+        category: "区间",
+      },
+      {
+        key: "upperPrice",
+        label: "上边界",
+        type: "number",
+        defaultValue: 0,
+        min: 0,
+        step: 0.0001,
+        description: "手动模式下的网格上边界价格",
+        category: "区间",
+      },
+      {
+        key: "lowerPrice",
+        label: "下边界",
+        type: "number",
+        defaultValue: 0,
+        min: 0,
+        step: 0.0001,
+        description: "手动模式下的网格下边界价格",
+        category: "区间",
+      },
+      {
+        key: "autoRangeBars",
+        label: "自动区间K线数",
+        type: "number",
+        defaultValue: 100,
+        min: 10,
+        max: 1000,
+        step: 10,
+        description: "自动模式下取最近 N 根K线的最高价和最低价作为边界",
+        category: "区间",
+      },
+      {
+        key: "gridCount",
+        label: "网格数量",
+        type: "number",
+        defaultValue: 10,
+        min: 2,
+        max: 200,
+        step: 1,
+        description: "区间内划分的格子数量",
+        category: "网格",
+      },
+      {
+        key: "spacing",
+        label: "网格间距",
+        type: "select",
+        defaultValue: "arithmetic",
+        options: [
+          { value: "arithmetic", label: `${SPACING_LABELS.arithmetic}（每格价差相同）` },
+          { value: "geometric", label: `${SPACING_LABELS.geometric}（每格涨幅相同）` },
+        ],
+        category: "网格",
+      },
+      {
+        key: "investment",
+        label: "投入资金 (USDT)",
+        type: "number",
+        defaultValue: 1000,
+        min: 10,
+        step: 10,
+        description: "平均分配到每个格子",
+        category: "网格",
+      },
+    ];
+  }
+
+  validateParams(params: GridParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (params.rangeMode === "manual") {
+      if (params.lowerPrice <= 0) {
+        errors.push("下边界必须大于0");
+      }
+      if (params.upperPrice <= params.lowerPrice) {
+        errors.push("上边界必须大于下边界");
+      }
+    } else if (params.autoRangeBars < 2) {
+      errors.push("自动区间K线数至少为2");
+    }
+    if (params.gridCount < 2) {
+      errors.push("网格数量至少为2");
+    }
+    if (!(params.spacing in SPACING_LABELS)) {
+      errors.push(`未知的网格间距: ${params.spacing}`);
+    }
+    if (params.investment <= 0) {
+      errors.push("投入资金必须大于0");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  getGridPlan(symbol: string, klines: KLineData[], params: GridParams): GridPlan | null {
+    if (!this.validateParams(params).valid || klines.length === 0) {
+      return null;
+    }
+
+    let lowerPrice = params.lowerPrice;
+    let upperPrice = params.upperPrice;
+    if (params.rangeMode !== "manual") {
+      const recent = klines.slice(-params.autoRangeBars);
+      lowerPrice = Math.min(...recent.map((k) => k.low));
+      upperPrice = Math.max(...recent.map((k) => k.high));
+    }
+    if (!(lowerPrice > 0) || !(upperPrice > lowerPrice)) {
+      return null;
+    }
+
+    const levels = buildGridLevels(lowerPrice, upperPrice, params.gridCount, params.spacing);
+    const midPrice = (lowerPrice + upperPrice) / 2;
+
+    return {
+      lowerPrice,
+      upperPrice,
+      levels,
+      quantityPerGrid: params.investment / params.gridCount / midPrice,
+    };
+  }
+
+  /**
+   * 网格策略不产生方向信号，只返回网格区间说明（供扫描和调试查看）
+   */
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: GridParams
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    const plan = this.getGridPlan(symbol, klines, params);
+    if (!plan) {
+      return {
+        signal: null,
+        reason: "无法确定网格区间",
+        details: "",
+      };
+    }
+
+    const price = klines[klines.length - 1].close;
+    const step = plan.levels[1] - plan.levels[0];
+    const details = [
+      `区间: ${plan.lowerPrice.toFixed(4)} - ${plan.upperPrice.toFixed(4)}`,
+      `${params.gridCount} 格 (${SPACING_LABELS[params.spacing]})`,
+      `首格间距: ${step.toFixed(4)} (${((step / plan.lowerPrice) * 100).toFixed(2)}%)`,
+      `每格数量: ${plan.quantityPerGrid.toFixed(6)}`,
+    ];
+
+    return {
+      signal: null,
+      reason: isOutsideGrid(plan, price) ? "价格在网格区间之外" : "网格策略由引擎以挂单模式运行",
+      details: details.join(" | "),
+    };
+  }
+}
@@ -0,0 +1,739 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  Signal,
+  StrategyStream,
+  StrategyStreamState,
+} from "../types/strategy";
+import {
+  ATR,
+  BollingerBands,
+  BollingerValue,
+  MarketRegimeClassifier,
+  RegimeResult,
+  RSI,
+  SMA,
+  VWAP,
+  atr,
+  bollingerBands,
+  rsi,
+  sma,
+  vwap,
+} from "../indicators";
+import {
+  RegimeFilterParams,
+  DEFAULT_REGIME_FILTER_PARAMS,
+  getRegimeFilterConfigItems,
+  evaluateRegimeFilter,
+  applyRegimeFilter,
+  createRegimeClassifier,
+  describeRegime,
+} from "./regimeFilter";
+
+/**
+ * 均值回归策略
+ * 适用于震荡市，价格偏离均值后回归时入场，目标为均值
+ *
+ * 入场模型：
+ * 1. bollinger：收盘价跌破（突破）布林带后重新收回带内，目标中轨
+ * 2. rsi_divergence：RSI 超卖（超买）区出现背离，价格创新低（高）而 RSI 抬高（降低），目标均线
+ * 3. vwap_deviation：价格偏离时段 VWAP 超过阈值后开始回归，目标 VWAP
+ */
+export type MeanReversionEntryModel = "bollinger" | "rsi_divergence" | "vwap_deviation";
+
+export interface MeanReversionParams extends BaseStrategyParams, RegimeFilterParams {
+  entryModel: MeanReversionEntryModel;
+
+  // 布林带
+  bbPeriod: number;
+  bbStdDev: number;
+
+  // RSI 背离
+  rsiPeriod: number;
+  rsiOversold: number;
+  rsiOverbought: number;
+  divergenceLookback: number;  // 寻找前一个极值点的回看K线数
+  meanPeriod: number;          // 回归目标均线周期
+
+  // VWAP 偏离
+  vwapSessionHours: number;        // VWAP 重置周期（小时）
+  vwapDeviationPercent: number;    // 入场所需的最小偏离（%）
+
+  // 止损止盈
+  atrPeriod: number;
+  stopLossAtrMultiplier: number;   // 止损距离（ATR 倍数）
+  minRewardRisk: number;           // 最小盈亏比（到均值的距离 / 止损距离）
+  signalValidBars: number;
+}
+
+export const DEFAULT_MEAN_REVERSION_PARAMS: MeanReversionParams = {
+  entryModel: "bollinger",
+
+  bbPeriod: 20,
+  bbStdDev: 2,
+
+  rsiPeriod: 14,
+  rsiOversold: 30,
+  rsiOverbought: 70,
+  divergenceLookback: 20,
+  meanPeriod: 20,
+
+  vwapSessionHours: 24,
+  vwapDeviationPercent: 1,
+
+  atrPeriod: 14,
+  stopLossAtrMultiplier: 1.5,
+  minRewardRisk: 1,
+  signalValidBars: 3,
+
+  // 均值回归默认只在震荡市入场
+  ...DEFAULT_REGIME_FILTER_PARAMS,
+  allowTrending: false,
+  allowHighVolatility: false,
+};
+
+// 流式检测快照保留的K线数量（VWAP 偏离模型另外保留当前时段的全部K线）
+const STREAM_SNAPSHOT_BARS = 300;
+
+const ENTRY_MODEL_LABELS: Record<MeanReversionEntryModel, string> = {
+  bollinger: "布林带回归",
+  rsi_divergence: "RSI 背离",
+  vwap_deviation: "VWAP 偏离",
+};
+
+// 入场模型的判断结果
+interface EntrySetup {
+  direction: "long" | "short";
+  target: number;   // 均值目标价
+  reason: string;
+  details: string;
+}
+
+// 一次检测所需的数据：批量检测从完整K线计算后取最后一根，流式检测读取增量状态
+interface MeanReversionSource {
+  bars: number;
+  current: KLineData;
+  prev: KLineData;
+  getBands(): { band: BollingerValue; prevBand: BollingerValue };
+  getRSIWindow(): Array<{ kline: KLineData; rsi: number }>; // 回看区间起点到当前K线
+  getMean(): number;
+  getVWAP(): number;
+  getATR(): number;
+  getRegime(): { regime: RegimeResult | null; blockedReason: string | null };
+}
+
+/**
+ * 时段 VWAP 的起点是否在已有K线内（第一根K线之前开始的时段只累计了一部分成交量，不使用）
+ */
+function hasSessionStart(firstTimestamp: number, currentTimestamp: number, sessionMs: number): boolean {
+  return (
+    firstTimestamp % sessionMs === 0 ||
+    Math.floor(firstTimestamp / sessionMs) < Math.floor(currentTimestamp / sessionMs)
+  );
+}
+
+/**
+ * 均值回归的流式检测：各指标增量更新，时段 VWAP 在时段边界重新累计，
+ * 信号与对同一段历史调用 detectSignal 的结果一致；只使用第一个周期的K线
+ */
+class MeanReversionStream implements StrategyStream<MeanReversionParams> {
+  private symbol = "";
+  private params: MeanReversionParams = DEFAULT_MEAN_REVERSION_PARAMS;
+  private timeframes: string[] = [];
+  private history: KLineData[] = [];
+  private bars = 0;
+  private firstTimestamp = NaN;
+  // 指标在 init 时按参数重建
+  private bands = new BollingerBands();
+  private prevBand: BollingerValue = this.bands.value;
+  private rsi = new RSI(DEFAULT_MEAN_REVERSION_PARAMS.rsiPeriod);
+  private rsiWindow: Array<{ kline: KLineData; rsi: number }> = [];
+  private mean = new SMA(DEFAULT_MEAN_REVERSION_PARAMS.meanPeriod);
+  private vwap = new VWAP();
+  private atr = new ATR();
+  private regime: MarketRegimeClassifier = createRegimeClassifier(DEFAULT_MEAN_REVERSION_PARAMS);
+  private invalidReason: string | null = null;
+
+  constructor(private strategy: MeanReversionStrategy) {}
+
+  init(symbol: string, params: MeanReversionParams, timeframes: string[]): void {
+    if (timeframes.length === 0) {
+      throw new Error("At least one timeframe is required");
+    }
+
+    this.symbol = symbol;
+    this.params = params;
+    this.timeframes = [...timeframes];
+    this.history = [];
+    this.bars = 0;
+    this.firstTimestamp = NaN;
+    this.rsiWindow = [];
+
+    const validation = this.strategy.validateParams(params);
+    this.invalidReason = validation.valid ? null : `参数验证失败: ${validation.errors.join(", ")}`;
+    if (this.invalidReason) {
+      return;
+    }
+    this.bands = new BollingerBands(params.bbPeriod, params.bbStdDev);
+    this.prevBand = this.bands.value;
+    this.rsi = new RSI(params.rsiPeriod);
+    this.mean = new SMA(params.meanPeriod);
+    this.vwap = new VWAP(params.vwapSessionHours * 60 * 60 * 1000);
+    this.atr = new ATR(params.atrPeriod);
+    this.regime = createRegimeClassifier(params);
+  }
+
+  onBar(bar: KLineData, timeframe: string): Signal[] {
+    const { signal } = this.process(bar, timeframe);
+    return signal ? [signal] : [];
+  }
+
+  /**
+   * 处理一根已收盘K线，返回检测结果
+   */
+  process(bar: KLineData, timeframe: string): SignalDetectionResult {
+    const last = this.history[this.history.length - 1];
+    if (timeframe !== this.timeframes[0] || (last && bar.timestamp <= last.timestamp)) {
+      return { signal: null, reason: "非入场周期或重复的K线", details: "" };
+    }
+
+    this.history.push(bar);
+    this.bars++;
+    if (Number.isNaN(this.firstTimestamp)) {
+      this.firstTimestamp = bar.timestamp;
+    }
+    this.trimHistory();
+
+    if (this.invalidReason) {
+      return { signal: null, reason: this.invalidReason, details: "" };
+    }
+
+    this.prevBand = this.bands.value;
+    this.bands.update(bar.close);
+    this.rsiWindow.push({ kline: bar, rsi: this.rsi.update(bar.close) });
+    if (this.rsiWindow.length > this.params.divergenceLookback + 1) {
+      this.rsiWindow.shift();
+    }
+    this.mean.update(bar.close);
+    this.vwap.update(bar);
+    this.atr.update(bar);
+    this.regime.update(bar);
+
+    const sessionMs = this.params.vwapSessionHours * 60 * 60 * 1000;
+    const vwapValue = hasSessionStart(this.firstTimestamp, bar.timestamp, sessionMs) ? this.vwap.value : NaN;
+    return this.strategy.detectFromSource(
+      this.symbol,
+      {
+        bars: this.bars,
+        current: bar,
+        prev: this.history[this.history.length - 2],
+        getBands: () => ({ band: this.bands.value, prevBand: this.prevBand }),
+        getRSIWindow: () => this.rsiWindow,
+        getMean: () => this.mean.value,
+        getVWAP: () => vwapValue,
+        getATR: () => this.atr.value,
+        getRegime: () => applyRegimeFilter(this.regime.value, this.params),
+      },
+      this.params
+    );
+  }
+
+  snapshot(): StrategyStreamState {
+    return {
+      symbol: this.symbol,
+      params: this.params,
+      timeframes: [...this.timeframes],
+      history: [...this.history],
+    };
+  }
+
+  restore(state: StrategyStreamState): void {
+    const timeframes = state.timeframes as string[];
+    this.init(state.symbol as string, state.params as MeanReversionParams, timeframes);
+
+    // 重放保留的K线重建指标状态
+    for (const bar of (state.history as KLineData[]) || []) {
+      this.process(bar, timeframes[0]);
+    }
+  }
+
+  /**
+   * 快照只保留最近的K线；VWAP 偏离模型还保留当前时段的全部K线（以及时段开始前的一根），恢复后时段 VWAP 不变
+   */
+  private trimHistory(): void {
+    const sessionMs = this.params.vwapSessionHours * 60 * 60 * 1000;
+    const latest = this.history[this.history.length - 1].timestamp;
+    const sessionStart = Math.floor(latest / sessionMs) * sessionMs;
+    while (
+      this.history.length > STREAM_SNAPSHOT_BARS &&
+      (this.params.entryModel !== "vwap_deviation" || this.history[1].timestamp < sessionStart)
+    ) {
+      this.history.shift();
+    }
+  }
+}
+
+
+export class MeanReversionStrategy implements TradingStrategy<MeanReversionParams> {
+  readonly meta: StrategyMeta = {
+    id: "mean_reversion",
+    name: "均值回归",
+    description:
+      "震荡市均值回归策略。支持布林带回归、RSI 背离、VWAP 偏离三种入场模型，以均值作为止盈目标。",
+    version: "1.0.0",
+    category: "均值回归",
+    author: "Vibe Trading",
+    timeframe: ["5m", "15m", "1h"],
+    riskLevel: "medium",
+  };
+
+  getDefaultParams(): MeanReversionParams {
+    return { ...DEFAULT_MEAN_REVERSION_PARAMS };
+  }
+
+  createStream(): StrategyStream<MeanReversionParams> {
+    return new MeanReversionStream(this);
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return [
+      {
+        key: "entryModel",
+        label: "入场模型",
+        type: "select",
+        defaultValue: "bollinger",
+        options: [
+          { value: "bollinger", label: ENTRY_MODEL_LABELS.bollinger },
+          { value: "rsi_divergence", label: ENTRY_MODEL_LABELS.rsi_divergence },
+          { value: "vwap_deviation", label: ENTRY_MODEL_LABELS.vwap_deviation },
+        ],
+        description: "价格偏离均值的判断方式",
+        category: "入场模型",
+      },
+      {
+        key: "bbPeriod",
+        label: "布林带周期",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 100,
+        step: 1,
+        category: "布林带",
+      },
+      {
+        key: "bbStdDev",
+        label: "标准差倍数",
+        type: "number",
+        defaultValue: 2,
+        min: 1,
+        max: 4,
+        step: 0.1,
+        category: "布林带",
+      },
+      {
+        key: "rsiPeriod",
+        label: "RSI 周期",
+        type: "number",
+        defaultValue: 14,
+        min: 2,
+        max: 50,
+        step: 1,
+        category: "RSI 背离",
+      },
+      {
+        key: "rsiOversold",
+        label: "超卖线",
+        type: "number",
+        defaultValue: 30,
+        min: 5,
+        max: 50,
+        step: 1,
+        category: "RSI 背离",
+      },
+      {
+        key: "rsiOverbought",
+        label: "超买线",
+        type: "number",
+        defaultValue: 70,
+        min: 50,
+        max: 95,
+        step: 1,
+        category: "RSI 背离",
+      },
+      {
+        key: "divergenceLookback",
+        label: "背离回看K线数",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 100,
+        step: 1,
+        description: "在该范围内寻找前一个价格极值点",
+        category: "RSI 背离",
+      },
+      {
+        key: "meanPeriod",
+        label: "目标均线周期",
+        type: "number",
+        defaultValue: 20,
+        min: 5,
+        max: 200,
+        step: 1,
+        description: "RSI 背离模型以该周期 SMA 作为回归目标",
+        category: "RSI 背离",
+      },
+      {
+        key: "vwapSessionHours",
+        label: "VWAP 时段（小时）",
+        type: "number",
+        defaultValue: 24,
+        min: 1,
+        max: 168,
+        step: 1,
+        description: "VWAP 按该时长（UTC 对齐）重新累计，K线未覆盖时段起点时不入场",
+        category: "VWAP 偏离",
+      },
+      {
+        key: "vwapDeviationPercent",
+        label: "最小偏离 (%)",
+        type: "number",
+        defaultValue: 1,
+        min: 0.1,
+        max: 10,
+        step: 0.1,
+        category: "VWAP 偏离",
+      },
+      {
+        key: "atrPeriod",
+        label: "ATR 周期",
+        type: "number",
+        defaultValue: 14,
+        min: 2,
+        max: 50,
+        step: 1,
+        category: "止损止盈",
+      },
+      {
+        key: "stopLossAtrMultiplier",
+        label: "止损 ATR 倍数",
+        type: "number",
+        defaultValue: 1.5,
+        min: 0.5,
+        max: 5,
+        step: 0.1,
+        category: "止损止盈",
+      },
+      {
+        key: "minRewardRisk",
+        label: "最小盈亏比",
+        type: "number",
+        defaultValue: 1,
+        min: 0.5,
+        max: 5,
+        step: 0.1,
+        description: "到均值的距离与止损距离之比低于该值时不入场",
+        category: "止损止盈",
+      },
+      {
+        key: "signalValidBars",
+        label: "信号有效K线数",
+        type: "number",
+        defaultValue: 3,
+        min: 1,
+        max: 20,
+        step: 1,
+        category: "止损止盈",
+      },
+      ...getRegimeFilterConfigItems(DEFAULT_MEAN_REVERSION_PARAMS),
+    ];
+  }
+
+  validateParams(params: MeanReversionParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!(params.entryModel in ENTRY_MODEL_LABELS)) {
+      errors.push(`未知的入场模型: ${params.entryModel}`);
+    }
+    if (params.rsiOversold >= params.rsiOverbought) {
+      errors.push("超卖线必须小于超买线");
+    }
+    if (params.bbStdDev <= 0) {
+      errors.push("标准差倍数必须大于0");
+    }
+    if (params.vwapDeviationPercent <= 0) {
+      errors.push("VWAP 最小偏离必须大于0");
+    }
+    if (params.stopLossAtrMultiplier <= 0) {
+      errors.push("止损 ATR 倍数必须大于0");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: MeanReversionParams
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    const closes = klines.map((k) => k.close);
+    const lastIndex = klines.length - 1;
+    const sessionMs = params.vwapSessionHours * 60 * 60 * 1000;
+
+    return this.detectFromSource(
+      symbol,
+      {
+        bars: klines.length,
+        current: klines[lastIndex],
+        prev: klines[lastIndex - 1],
+        getBands: () => {
+          const bands = bollingerBands(closes, params.bbPeriod, params.bbStdDev);
+          return { band: bands[lastIndex], prevBand: bands[lastIndex - 1] };
+        },
+        getRSIWindow: () => {
+          const rsiValues = rsi(closes, params.rsiPeriod);
+          const start = Math.max(0, lastIndex - params.divergenceLookback);
+          return klines.slice(start).map((kline, i) => ({ kline, rsi: rsiValues[start + i] }));
+        },
+        getMean: () => sma(closes, params.meanPeriod)[lastIndex],
+        getVWAP: () =>
+          hasSessionStart(klines[0].timestamp, klines[lastIndex].timestamp, sessionMs)
+            ? vwap(klines, sessionMs)[lastIndex]
+            : NaN,
+        getATR: () => atr(klines, params.atrPeriod)[lastIndex],
+        getRegime: () => evaluateRegimeFilter(klines, params),
+      },
+      params
+    );
+  }
+
+  /**
+   * 按入场模型 → 止损与盈亏比 → 市场状态过滤的顺序检测信号（批量和流式检测共用，参数已通过验证）
+   */
+  detectFromSource(
+    symbol: string,
+    source: MeanReversionSource,
+    params: MeanReversionParams
+  ): SignalDetectionResult {
+    const minBars =
+      Math.max(params.bbPeriod, params.rsiPeriod + params.divergenceLookback, params.meanPeriod, params.atrPeriod) + 2;
+    if (source.bars < minBars) {
+      return {
+        signal: null,
+        reason: `K线数据不足，需要至少 ${minBars} 根`,
+        details: "",
+      };
+    }
+
+    // 1. 入场模型
+    let setup: EntrySetup | null;
+    switch (params.entryModel) {
+      case "rsi_divergence":
+        setup = this.checkRSIDivergence(source, params);
+        break;
+      case "vwap_deviation":
+        setup = this.checkVWAPDeviation(source, params);
+        break;
+      default:
+        setup = this.checkBollingerReentry(source);
+    }
+
+    if (!setup) {
+      return {
+        signal: null,
+        reason: `${ENTRY_MODEL_LABELS[params.entryModel]}条件未满足`,
+        details: "",
+      };
+    }
+
+    // 2. 止损与盈亏比
+    const { current, prev } = source;
+    const atrValue = source.getATR();
+    const stopDistance = atrValue * params.stopLossAtrMultiplier;
+    const rewardDistance =
+      setup.direction === "long" ? setup.target - current.close : current.close - setup.target;
+
+    if (!Number.isFinite(stopDistance) || stopDistance <= 0 || rewardDistance <= 0) {
+      return {
+        signal: null,
+        reason: "均值目标不在盈利方向",
+        details: setup.details,
+      };
+    }
+    if (rewardDistance / stopDistance < params.minRewardRisk) {
+      return {
+        signal: null,
+        reason: "盈亏比不足",
+        details: `${setup.details}, 盈亏比: ${(rewardDistance / stopDistance).toFixed(2)} < ${params.minRewardRisk}`,
+      };
+    }
+
+    // 3. 市场状态过滤
+    const { regime, blockedReason } = source.getRegime();
+    if (blockedReason) {
+      return {
+        signal: null,
+        reason: blockedReason,
+        details: regime ? describeRegime(regime) : "",
+      };
+    }
+
+    const barInterval = current.timestamp - prev.timestamp;
+    const stopLoss =
+      setup.direction === "long" ? current.close - stopDistance : current.close + stopDistance;
+    const details = [setup.details, `均值目标: ${setup.target.toFixed(4)}`, `止损: ${stopLoss.toFixed(4)}`];
+    if (regime) {
+      details.push(describeRegime(regime));
+    }
+
+    return {
+      signal: {
+        symbol,
+        direction: setup.direction,
+        time: current.timestamp,
+        reason: setup.reason,
+        confidence: Math.min(0.6 + (rewardDistance / stopDistance) * 0.1, 0.9),
+        entryPrice: current.close,
+        exitPlan: {
+          stopLoss,
+          takeProfits: [{ price: setup.target, sizeFraction: 1, label: "Mean" }],
+          invalidationTime: current.timestamp + barInterval * params.signalValidBars,
+        },
+        regime: regime?.regime,
+      },
+      reason: `检测到 ${setup.direction} 信号: ${setup.reason}`,
+      details: details.join(" | "),
+    };
+  }
+
+  /**
+   * 布林带回归：上一根收盘在带外，当前收盘回到带内
+   */
+  private checkBollingerReentry(source: MeanReversionSource): EntrySetup | null {
+    const { current, prev } = source;
+    const { band, prevBand } = source.getBands();
+
+    if (!Number.isFinite(band.middle) || !Number.isFinite(prevBand.middle)) {
+      return null;
+    }
+
+    const details = `布林带: [${band.lower.toFixed(4)}, ${band.upper.toFixed(4)}], 收盘: ${current.close}`;
+
+    if (prev.close < prevBand.lower && current.close > band.lower) {
+      return { direction: "long", target: band.middle, reason: "跌破布林下轨后收回", details };
+    }
+    if (prev.close > prevBand.upper && current.close < band.upper) {
+      return { direction: "short", target: band.middle, reason: "突破布林上轨后收回", details };
+    }
+
+    return null;
+  }
+
+  /**
+   * RSI 背离：当前K线创回看区间新低（高），RSI 高于（低于）前一个极值点且前一个极值点处于超卖（超买）区，
+   * 当前K线收阳（收阴）确认
+   */
+  private checkRSIDivergence(
+    source: MeanReversionSource,
+    params: MeanReversionParams
+  ): EntrySetup | null {
+    const window = source.getRSIWindow();
+    const mean = source.getMean();
+    const current = source.current;
+    const currentRSI = window[window.length - 1].rsi;
+
+    if (!Number.isFinite(currentRSI) || !Number.isFinite(mean)) {
+      return null;
+    }
+
+    // 回看区间内（不含最近 2 根）的最低点和最高点
+    let low = -1;
+    let high = -1;
+    for (let i = 0; i < window.length - 2; i++) {
+      if (low === -1 || window[i].kline.low < window[low].kline.low) low = i;
+      if (high === -1 || window[i].kline.high > window[high].kline.high) high = i;
+    }
+    if (low === -1 || high === -1) {
+      return null;
+    }
+
+    // 看涨背离：价格更低，RSI 更高
+    const prevLow = window[low].kline.low;
+    const prevLowRSI = window[low].rsi;
+    if (
+      current.low < prevLow &&
+      prevLowRSI < params.rsiOversold &&
+      currentRSI > prevLowRSI &&
+      current.close > current.open
+    ) {
+      return {
+        direction: "long",
+        target: mean,
+        reason: "RSI 超卖区看涨背离",
+        details: `前低: ${prevLow} (RSI ${prevLowRSI.toFixed(1)}), 当前低点: ${current.low} (RSI ${currentRSI.toFixed(1)})`,
+      };
+    }
+
+    // 看跌背离：价格更高，RSI 更低
+    const prevHigh = window[high].kline.high;
+    const prevHighRSI = window[high].rsi;
+    if (
+      current.high > prevHigh &&
+      prevHighRSI > params.rsiOverbought &&
+      currentRSI < prevHighRSI &&
+      current.close < current.open
+    ) {
+      return {
+        direction: "short",
+        target: mean,
+        reason: "RSI 超买区看跌背离",
+        details: `前高: ${prevHigh} (RSI ${prevHighRSI.toFixed(1)}), 当前高点: ${current.high} (RSI ${currentRSI.toFixed(1)})`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * VWAP 偏离：收盘价偏离时段 VWAP 超过阈值，且当前K线向 VWAP 方向收回
+   * 时段起点不在已有K线内时（VWAP 只累计了时段的一部分）不入场
+   */
+  private checkVWAPDeviation(
+    source: MeanReversionSource,
+    params: MeanReversionParams
+  ): EntrySetup | null {
+    const { current, prev } = source;
+    const vwapValue = source.getVWAP();
+
+    if (!Number.isFinite(vwapValue) || vwapValue === 0) {
+      return null;
+    }
+
+    const deviation = ((current.close - vwapValue) / vwapValue) * 100;
+    const details = `VWAP: ${vwapValue.toFixed(4)}, 偏离: ${deviation.toFixed(2)}%`;
+
+    if (deviation <= -params.vwapDeviationPercent && current.close > prev.close) {
+      return { direction: "long", target: vwapValue, reason: "价格低于 VWAP 后回升", details };
+    }
+    if (deviation >= params.vwapDeviationPercent && current.close < prev.close) {
+      return { direction: "short", target: vwapValue, reason: "价格高于 VWAP 后回落", details };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,359 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  LegSignal,
+  LinkedSignalDetectionResult,
+} from "../types/strategy";
+
+/**
+ * 配对交易策略（统计套利）
+ * 两个相关交易对（如 ETH / BTC）的对数价格做滚动 OLS 回归，残差即价差：
+ *   ln(A) = alpha + beta × ln(B) + spread
+ * 价差的 z-score 偏离过大时反向开仓，回归后平仓
+ *
+ * 1. z-score > 入场阈值：A 相对高估，做空价差（做空 A、做多 B）
+ * 2. z-score < -入场阈值：A 相对低估，做多价差（做多 A、做空 B）
+ * 3. |z-score| < 平仓阈值：价差回归，平仓
+ * 4. |z-score| > 止损阈值：价差继续发散，止损平仓（期间不再开仓）
+ *
+ * 对数价格回归的 beta 是收益率弹性，B 腿名义价值 = A 腿名义价值 × beta
+ */
+export interface PairsTradingParams extends BaseStrategyParams {
+  symbolA: string;           // 第一腿（被解释变量）
+  symbolB: string;           // 第二腿（对冲腿）
+  lookback: number;          // 回归窗口（K线数）
+  zScoreEntry: number;       // 入场阈值
+  zScoreExit: number;        // 平仓阈值
+  zScoreStop: number;        // 止损阈值
+  minCorrelation: number;    // 最小相关系数（低于该值不开仓）
+}
+
+export const DEFAULT_PAIRS_TRADING_PARAMS: PairsTradingParams = {
+  symbolA: "ETHUSDT",
+  symbolB: "BTCUSDT",
+  lookback: 100,
+  zScoreEntry: 2,
+  zScoreExit: 0.5,
+  zScoreStop: 4,
+  minCorrelation: 0.6,
+};
+
+// 回归结果
+interface SpreadStats {
+  alpha: number;
+  beta: number;
+  correlation: number;
+  spread: number;   // 当前K线的残差
+  zScore: number;
+}
+
+/**
+ * 对数价格滚动 OLS：用最近 lookback 根K线回归，返回当前价差的 z-score
+ * 残差均值为 0，z-score = 当前残差 / 残差标准差
+ */
+function calculateSpreadStats(
+  klinesA: KLineData[],
+  klinesB: KLineData[],
+  lookback: number
+): SpreadStats | null {
+  const y = klinesA.slice(-lookback).map((k) => Math.log(k.close));
+  const x = klinesB.slice(-lookback).map((k) => Math.log(k.close));
+  const n = y.length;
+
+  const meanX = x.reduce((sum, v) => sum + v, 0) / n;
+  const meanY = y.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) * (x[i] - meanX);
+    varianceY += (y[i] - meanY) * (y[i] - meanY);
+  }
+  if (varianceX === 0 || varianceY === 0) {
+    return null;
+  }
+
+  const beta = covariance / varianceX;
+  const alpha = meanY - beta * meanX;
+  const residuals = y.map((v, i) => v - alpha - beta * x[i]);
+  const residualStd = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / n);
+  if (residualStd === 0) {
+    return null;
+  }
+
+  const spread = residuals[n - 1];
+  return {
+    alpha,
+    beta,
+    correlation: covariance / Math.sqrt(varianceX * varianceY),
+    spread,
+    zScore: spread / residualStd,
+  };
+}
+
+export class PairsTradingStrategy implements TradingStrategy<PairsTradingParams> {
+  readonly meta: StrategyMeta = {
+    id: "pairs_trading",
+    name: "配对交易",
+    description:
+      "两个相关交易对的统计套利。滚动 OLS 计算对冲比例，价差 z-score 偏离时做多低估腿、做空高估腿，价差回归后同时平仓。",
+    version: "1.0.0",
+    category: "统计套利",
+    author: "Vibe Trading",
+    timeframe: ["15m", "1h", "4h"],
+    riskLevel: "medium",
+  };
+
+  getDefaultParams(): PairsTradingParams {
+    return { ...DEFAULT_PAIRS_TRADING_PARAMS };
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return [
+      {
+        key: "symbolA",
+        label: "第一腿",
+        type: "text",
+        defaultValue: "ETHUSDT",
+        description: "被解释变量，做多价差时买入",
+        category: "交易对",
+      },
+      {
+        key: "symbolB",
+        label: "第二腿（对冲）",
+        type: "text",
+        defaultValue: "BTCUSDT",
+        description: "对冲腿，名义价值按对冲比例分配",
+        category: "交易对",
+      },
+      {
+        key: "lookback",
+        label: "回归窗口",
+        type: "number",
+        defaultValue: 100,
+        min: 20,
+        max: 1000,
+        step: 10,
+        description: "滚动 OLS 使用的K线数量",
+        category: "价差",
+      },
+      {
+        key: "minCorrelation",
+        label: "最小相关系数",
+        type: "number",
+        defaultValue: 0.6,
+        min: 0,
+        max: 1,
+        step: 0.05,
+        description: "窗口内对数价格相关系数低于该值时不开仓",
+        category: "价差",
+      },
+      {
+        key: "zScoreEntry",
+        label: "入场 z-score",
+        type: "number",
+        defaultValue: 2,
+        min: 0.5,
+        max: 5,
+        step: 0.1,
+        category: "入场与出场",
+      },
+      {
+        key: "zScoreExit",
+        label: "平仓 z-score",
+        type: "number",
+        defaultValue: 0.5,
+        min: 0,
+        max: 3,
+        step: 0.1,
+        description: "价差回归到该范围内时平仓",
+        category: "入场与出场",
+      },
+      {
+        key: "zScoreStop",
+        label: "止损 z-score",
+        type: "number",
+        defaultValue: 4,
+        min: 1,
+        max: 10,
+        step: 0.1,
+        description: "价差继续发散超过该值时止损",
+        category: "入场与出场",
+      },
+    ];
+  }
+
+  validateParams(params: PairsTradingParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!params.symbolA || !params.symbolB) {
+      errors.push("必须指定两个交易对");
+    } else if (params.symbolA === params.symbolB) {
+      errors.push("两个交易对不能相同");
+    }
+    if (params.lookback < 20) {
+      errors.push("回归窗口不能少于20根K线");
+    }
+    if (params.zScoreExit >= params.zScoreEntry) {
+      errors.push("平仓 z-score 必须小于入场 z-score");
+    }
+    if (params.zScoreStop <= params.zScoreEntry) {
+      errors.push("止损 z-score 必须大于入场 z-score");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  getLegSymbols(params: PairsTradingParams): string[] {
+    return [params.symbolA, params.symbolB];
+  }
+
+  /**
+   * 回归只使用最近 lookback 根K线
+   */
+  getLinkedLookback(params: PairsTradingParams): number {
+    return params.lookback;
+  }
+
+  /**
+   * 单交易对检测：配对交易需要两条腿的K线，只能以多腿模式运行
+   */
+  detectSignal(symbol: string, klines: KLineData[], params: PairsTradingParams): SignalDetectionResult {
+    return {
+      signal: null,
+      reason: `配对交易需要同时提供 ${params.symbolA} 和 ${params.symbolB} 的K线`,
+      details: "请以多腿模式回测或运行该策略",
+    };
+  }
+
+  detectLinkedSignal(
+    klinesBySymbol: Record<string, KLineData[]>,
+    params: PairsTradingParams
+  ): LinkedSignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    const klinesA = klinesBySymbol[params.symbolA] || [];
+    const klinesB = klinesBySymbol[params.symbolB] || [];
+    const length = Math.min(klinesA.length, klinesB.length);
+    if (length < params.lookback) {
+      return {
+        signal: null,
+        reason: `K线数据不足，需要至少 ${params.lookback} 根`,
+        details: "",
+      };
+    }
+
+    const stats = calculateSpreadStats(klinesA, klinesB, params.lookback);
+    if (!stats) {
+      return {
+        signal: null,
+        reason: "价格没有波动，无法计算价差",
+        details: "",
+      };
+    }
+
+    const details = [
+      `对冲比例 β: ${stats.beta.toFixed(4)}`,
+      `相关系数: ${stats.correlation.toFixed(3)}`,
+      `价差: ${stats.spread.toFixed(5)}`,
+      `z-score: ${stats.zScore.toFixed(2)}`,
+    ].join("\n");
+
+    const barA = klinesA[klinesA.length - 1];
+    const barB = klinesB[klinesB.length - 1];
+    const groupId = `${params.symbolA}/${params.symbolB}`;
+    const absZScore = Math.abs(stats.zScore);
+
+    // 价差回归或继续发散：平仓
+    const exitReason =
+      absZScore <= params.zScoreExit
+        ? `价差回归 (z=${stats.zScore.toFixed(2)})`
+        : absZScore >= params.zScoreStop
+          ? `价差发散止损 (z=${stats.zScore.toFixed(2)})`
+          : null;
+    if (exitReason) {
+      return {
+        signal: {
+          groupId,
+          direction: stats.zScore > 0 ? "short" : "long",
+          action: "close",
+          time: barA.timestamp,
+          reason: exitReason,
+          confidence: 1,
+          legs: [],
+        },
+        reason: exitReason,
+        details,
+      };
+    }
+
+    if (absZScore < params.zScoreEntry) {
+      return {
+        signal: null,
+        reason: `价差未偏离 (|z|=${absZScore.toFixed(2)} < ${params.zScoreEntry})`,
+        details,
+      };
+    }
+    if (stats.beta <= 0 || stats.correlation < params.minCorrelation) {
+      return {
+        signal: null,
+        reason: `相关性不足 (相关系数 ${stats.correlation.toFixed(3)})，不开仓`,
+        details,
+      };
+    }
+
+    // A 相对高估做空价差，相对低估做多价差
+    const direction = stats.zScore > 0 ? "short" : "long";
+    const reason = `配对${direction === "long" ? "做多" : "做空"}价差 ${groupId} (z=${stats.zScore.toFixed(2)}, β=${stats.beta.toFixed(3)})`;
+    const confidence = Math.min(absZScore / params.zScoreStop, 1);
+    const legs: LegSignal[] = [
+      {
+        symbol: params.symbolA,
+        direction,
+        time: barA.timestamp,
+        reason,
+        confidence,
+        entryPrice: barA.close,
+        weight: 1,
+      },
+      {
+        symbol: params.symbolB,
+        direction: direction === "long" ? "short" : "long",
+        time: barB.timestamp,
+        reason,
+        confidence,
+        entryPrice: barB.close,
+        weight: stats.beta,
+      },
+    ];
+
+    return {
+      signal: {
+        groupId,
+        direction,
+        action: "open",
+        time: barA.timestamp,
+        reason,
+        confidence,
+        legs,
+      },
+      reason,
+      details,
+    };
+  }
+}
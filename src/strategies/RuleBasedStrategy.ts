@@ -0,0 +1,325 @@
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  MultiTimeframeContext,
+  ExitPlan,
+  Signal,
+  StrategyStream,
+} from "../types/strategy";
+import { RuleSet, RuleStrategyDefinition } from "../types/ruleStrategy";
+import { WindowedStrategyStream } from "./WindowedStrategyStream";
+import { atr } from "../indicators";
+import {
+  RuleEvaluator,
+  RULE_MAX_LOOKBACK_BARS,
+  collectRuleTimeframes,
+  parseRuleSet,
+} from "../utils/ruleEngine";
+import { TIMEFRAME_TO_MS, sortTimeframes } from "../utils/timeframeAligner";
+
+/**
+ * 规则策略
+ * 由 JSON 规则集（指标表达式 + 比较/交叉条件 + 与/或分组 + 出场规则）驱动，不需要编写代码
+ *
+ * 1. 做多/做空条件满足时在入场周期收盘价入场
+ * 2. 止损止盈按规则集的百分比、ATR 倍数或盈亏比计算
+ * 3. 平多/平空条件满足时发出平仓信号（action: "close"）
+ *
+ * 规则集存储在数据库中，运行时按 rule_ 前缀的ID注册到策略管理器
+ */
+export interface RuleStrategyParams extends BaseStrategyParams {
+  stopLossValue: number;         // 止损（百分比或 ATR 倍数，取决于规则集）
+  takeProfitValue: number;       // 止盈（百分比、ATR 倍数或盈亏比）
+  signalValidBars: number;
+}
+
+// 规则策略ID前缀（避免与内置策略冲突）
+export const RULE_STRATEGY_ID_PREFIX = "rule_";
+
+/**
+ * 数据库记录ID -> 策略ID
+ */
+export function getRuleStrategyId(recordId: string): string {
+  return `${RULE_STRATEGY_ID_PREFIX}${recordId}`;
+}
+
+// 流式检测时保留的K线数量：规则指标的最大回看之外多留 100 根，供 EMA、RSI 等递归指标预热
+const STREAM_WINDOW_BARS = RULE_MAX_LOOKBACK_BARS + 100;
+
+const STOP_LOSS_LABELS = {
+  percent: "止损 (%)",
+  atr: "止损 (ATR 倍数)",
+} as const;
+
+const TAKE_PROFIT_LABELS = {
+  percent: "止盈 (%)",
+  atr: "止盈 (ATR 倍数)",
+  risk_reward: "止盈 (盈亏比)",
+} as const;
+
+export class RuleBasedStrategy implements TradingStrategy<RuleStrategyParams> {
+  readonly meta: StrategyMeta;
+  readonly rules: RuleSet;
+
+  constructor(definition: RuleStrategyDefinition) {
+    const parsed = parseRuleSet(definition.rules);
+    if (!parsed.success) {
+      throw new Error(`Invalid rule set for strategy ${definition.id}: ${parsed.errors.join("; ")}`);
+    }
+    this.rules = parsed.data;
+
+    this.meta = {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description || "自定义规则策略",
+      version: "1.0.0",
+      category: "规则策略",
+      author: "自定义",
+      timeframe: [this.rules.entryTimeframe],
+      riskLevel: this.rules.riskLevel,
+    };
+  }
+
+  getDefaultParams(): RuleStrategyParams {
+    return {
+      stopLossValue: this.rules.exit.stopLossValue,
+      takeProfitValue: this.rules.exit.takeProfitValue,
+      signalValidBars: this.rules.exit.signalValidBars,
+    };
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    const { exit } = this.rules;
+    const items: StrategyConfigItem[] = [];
+
+    if (exit.stopLossType !== "none") {
+      items.push({
+        key: "stopLossValue",
+        label: STOP_LOSS_LABELS[exit.stopLossType],
+        type: "number",
+        defaultValue: exit.stopLossValue,
+        min: 0,
+        step: 0.1,
+        category: "出场",
+      });
+    }
+    if (exit.takeProfitType !== "none") {
+      items.push({
+        key: "takeProfitValue",
+        label: TAKE_PROFIT_LABELS[exit.takeProfitType],
+        type: "number",
+        defaultValue: exit.takeProfitValue,
+        min: 0,
+        step: 0.1,
+        category: "出场",
+      });
+    }
+    items.push({
+      key: "signalValidBars",
+      label: "信号有效K线数",
+      type: "number",
+      defaultValue: exit.signalValidBars,
+      min: 0,
+      max: 50,
+      step: 1,
+      description: "超过该数量的入场周期K线仍未成交则放弃信号，0 表示不失效",
+      category: "出场",
+    });
+
+    return items;
+  }
+
+  getRequiredTimeframes(): string[] {
+    const timeframes = new Set<string>([this.rules.entryTimeframe]);
+    collectRuleTimeframes(this.rules.longEntry, timeframes);
+    collectRuleTimeframes(this.rules.shortEntry, timeframes);
+    collectRuleTimeframes(this.rules.exit.longExit, timeframes);
+    collectRuleTimeframes(this.rules.exit.shortExit, timeframes);
+
+    return sortTimeframes([...timeframes]);
+  }
+
+  validateParams(params: RuleStrategyParams): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (this.rules.exit.stopLossType !== "none" && !(params.stopLossValue > 0)) {
+      errors.push("止损必须大于0");
+    }
+    if (this.rules.exit.takeProfitType !== "none" && !(params.takeProfitValue > 0)) {
+      errors.push("止盈必须大于0");
+    }
+    if (params.signalValidBars < 0) {
+      errors.push("信号有效K线数不能为负数");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  createStream(): StrategyStream<RuleStrategyParams> {
+    return new WindowedStrategyStream(this, STREAM_WINDOW_BARS);
+  }
+
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: RuleStrategyParams,
+    context?: MultiTimeframeContext
+  ): SignalDetectionResult {
+    const validation = this.validateParams(params);
+    if (!validation.valid) {
+      return {
+        signal: null,
+        reason: `参数验证失败: ${validation.errors.join(", ")}`,
+        details: "",
+      };
+    }
+
+    const { entryTimeframe, exit } = this.rules;
+    const entryKlines = context?.klines[entryTimeframe] || klines;
+    if (entryKlines.length < 2) {
+      return {
+        signal: null,
+        reason: "K线数据不足",
+        details: "",
+      };
+    }
+
+    const evaluator = new RuleEvaluator(
+      { ...context?.klines, [entryTimeframe]: entryKlines },
+      entryTimeframe
+    );
+    const current = entryKlines[entryKlines.length - 1];
+    const details: string[] = [];
+
+    // 1. 入场条件（先做多后做空）
+    for (const direction of ["long", "short"] as const) {
+      const group = direction === "long" ? this.rules.longEntry : this.rules.shortEntry;
+      if (!group) {
+        continue;
+      }
+
+      const result = evaluator.evaluateGroup(group);
+      details.push(`${direction === "long" ? "做多" : "做空"}: ${result.details.join(", ")}`);
+      if (!result.passed) {
+        continue;
+      }
+
+      const exitPlan = this.buildExitPlan(direction, current, entryKlines, params);
+      if (exitPlan === null) {
+        return {
+          signal: null,
+          reason: "ATR 数据不足，无法计算止损",
+          details: details.join(" | "),
+        };
+      }
+
+      return {
+        signal: {
+          symbol,
+          direction,
+          time: current.timestamp,
+          reason: `${this.meta.name}: ${direction === "long" ? "做多" : "做空"}条件满足`,
+          confidence: 0.6,
+          entryPrice: current.close,
+          exitPlan,
+        },
+        reason: `检测到 ${direction} 规则信号`,
+        details: details.join(" | "),
+      };
+    }
+
+    // 2. 平仓条件（没有对应持仓时引擎忽略平仓信号）
+    for (const direction of ["long", "short"] as const) {
+      const group = direction === "long" ? exit.longExit : exit.shortExit;
+      if (!group) {
+        continue;
+      }
+
+      const result = evaluator.evaluateGroup(group);
+      details.push(`${direction === "long" ? "平多" : "平空"}: ${result.details.join(", ")}`);
+      if (!result.passed) {
+        continue;
+      }
+
+      const signal: Signal = {
+        symbol,
+        direction,
+        time: current.timestamp,
+        reason: `${this.meta.name}: ${direction === "long" ? "平多" : "平空"}条件满足`,
+        confidence: 0.6,
+        entryPrice: current.close,
+        action: "close",
+      };
+      return {
+        signal,
+        reason: `检测到 ${direction === "long" ? "平多" : "平空"}规则信号`,
+        details: details.join(" | "),
+      };
+    }
+
+    return {
+      signal: null,
+      reason: "规则条件未满足",
+      details: details.join(" | "),
+    };
+  }
+
+  /**
+   * 按出场规则计算止损止盈（未设置止损时返回 undefined，由引擎按风控配置兜底；ATR 不足时返回 null）
+   */
+  private buildExitPlan(
+    direction: "long" | "short",
+    current: KLineData,
+    klines: KLineData[],
+    params: RuleStrategyParams
+  ): ExitPlan | undefined | null {
+    const { exit, entryTimeframe } = this.rules;
+    if (exit.stopLossType === "none") {
+      return undefined;
+    }
+
+    const sign = direction === "long" ? 1 : -1;
+    const entryPrice = current.close;
+
+    let atrValue = NaN;
+    if (exit.stopLossType === "atr" || exit.takeProfitType === "atr") {
+      atrValue = atr(klines, exit.atrPeriod)[klines.length - 1];
+      if (!Number.isFinite(atrValue)) {
+        return null;
+      }
+    }
+
+    const stopDistance =
+      exit.stopLossType === "percent"
+        ? (entryPrice * params.stopLossValue) / 100
+        : atrValue * params.stopLossValue;
+
+    let takeProfitDistance = 0;
+    if (exit.takeProfitType === "percent") {
+      takeProfitDistance = (entryPrice * params.takeProfitValue) / 100;
+    } else if (exit.takeProfitType === "atr") {
+      takeProfitDistance = atrValue * params.takeProfitValue;
+    } else if (exit.takeProfitType === "risk_reward") {
+      takeProfitDistance = stopDistance * params.takeProfitValue;
+    }
+
+    return {
+      stopLoss: entryPrice - sign * stopDistance,
+      takeProfits:
+        takeProfitDistance > 0
+          ? [{ price: entryPrice + sign * takeProfitDistance, sizeFraction: 1, label: "TP" }]
+          : [],
+      invalidationTime:
+        params.signalValidBars > 0
+          ? current.timestamp + params.signalValidBars * TIMEFRAME_TO_MS[entryTimeframe]
+          : undefined,
+    };
+  }
+}
@@ -5,7 +5,30 @@ import {
   SignalDetectionResult,
   KLineData,
   Signal,
+  SignalAnnotation,
+  MultiTimeframeContext,
+  StrategyStream,
+  StrategyStreamState,
 } from "../types/strategy";
+import { ATR, atr, MarketRegimeClassifier, RegimeResult } from "../indicators";
+import {
+  RegimeFilterParams,
+  DEFAULT_REGIME_FILTER_PARAMS,
+  getRegimeFilterConfigItems,
+  evaluateRegimeFilter,
+  applyRegimeFilter,
+  createRegimeClassifier,
+  describeRegime,
+} from "./regimeFilter";
+import {
+  LiquidityFVGTracker,
+  MarketStructureTracker,
+  StructureBreak,
+} from "../utils/liquidityFVGTracker";
+import { createExitPlanAnnotations } from "../utils/signalAnnotations";
+
+// 流式检测快照保留的K线数量（恢复时重放这些K线重建状态）
+const STREAM_SNAPSHOT_BARS = 500;
 
 /**
  * SMC 流动性 + FVG 回踩策略
@@ -16,7 +39,9 @@ import {
  * 2. 通过 FVG（公平价值缺口）回踩进行低风险入场
  * 3. 顺势捕捉结构性行情
  */
-export interface SMCLiquidityFVGParams extends BaseStrategyParams {
+export interface SMCLiquidityFVGParams
+  extends BaseStrategyParams,
+    RegimeFilterParams {
   // 时间框架配置
   mainTimeframe: string;     // 主周期（识别流动性）- 15m
   midTimeframe: string;      // 中周期（确认位移）- 5m
@@ -30,6 +55,10 @@ export interface SMCLiquidityFVGParams extends BaseStrategyParams {
   displacementThreshold: number; // 位移阈值（ATR倍数）
   displacementMinBars: number;  // 最少连续同向K线数
 
+  // 结构确认参数
+  requireCHoCH: boolean;        // 扫荡之后需要出现反向结构转变（CHoCH）
+  structureSwingLength: number; // 摆动点左右两侧的K线数
+
   // FVG 识别参数
   fvgMinSize: number;        // FVG 最小大小（百分比）
   fvgMaxSize: number;        // FVG 最大大小（百分比）
@@ -41,6 +70,8 @@ export interface SMCLiquidityFVGParams extends BaseStrategyParams {
   stopLossBuffer: number;    // 止损缓冲（百分比）
   takeProfitTP1: number;     // 第一目标（百分比）
   takeProfitTP2: number;     // 第二目标（百分比）
+  tp1SizeFraction: number;   // 第一目标平仓比例（0-1）
+  signalValidBars: number;   // 信号有效期（K线数，超过后未入场则失效）
 
   // 风险控制
   riskPercent: number;        // 单笔风险百分比
@@ -49,8 +80,7 @@ export interface SMCLiquidityFVGParams extends BaseStrategyParams {
 
   // 过滤条件
   minVolumeRatio: number;    // 最小成交量比
-  filterSideways: boolean;   // 是否过滤震荡市
-  adxThreshold: number;     // ADX 阈值（用于判断趋势强度）
+  filterSideways: boolean;   // 是否过滤震荡市（等同于不允许震荡市入场）
 }
 
 export const DEFAULT_SMC_PARAMS: SMCLiquidityFVGParams = {
@@ -64,6 +94,9 @@ export const DEFAULT_SMC_PARAMS: SMCLiquidityFVGParams = {
   displacementThreshold: 1.5,
   displacementMinBars: 3,
 
+  requireCHoCH: false,
+  structureSwingLength: 3,
+
   fvgMinSize: 0.01,
   fvgMaxSize: 0.5,
 
@@ -72,6 +105,8 @@ export const DEFAULT_SMC_PARAMS: SMCLiquidityFVGParams = {
   stopLossBuffer: 0.01,
   takeProfitTP1: 0.8,
   takeProfitTP2: 1.5,
+  tp1SizeFraction: 0.5,
+  signalValidBars: 5,
 
   riskPercent: 1,
   maxConsecutiveLosses: 3,
@@ -79,7 +114,7 @@ export const DEFAULT_SMC_PARAMS: SMCLiquidityFVGParams = {
 
   minVolumeRatio: 1.2,
   filterSideways: true,
-  adxThreshold: 20,
+  ...DEFAULT_REGIME_FILTER_PARAMS,
 };
 
 /**
@@ -126,6 +161,438 @@ interface LiquiditySweep {
   isConfirmed: boolean; // 是否确认假突破
 }
 
+/**
+ * 位移候选：连续同向K线（strength 为首根开盘价到末根收盘价的距离）
+ */
+interface DisplacementRun {
+  type: "bullish" | "bearish";
+  bars: KLineData[];
+  strength: number;
+}
+
+// 一次检测所需的数据：批量检测从完整K线计算，流式检测读取增量状态
+interface SMCSource {
+  mainBars: number;
+  midBars: number;
+  entryBars: number;
+  recentEntry: KLineData[]; // 最近 10 根入场周期K线（最后一根为当前K线）
+  getLiquidity(): { levelCount: number; latestSweep: LiquiditySweep | null };
+  findCHoCH(sweep: LiquiditySweep): StructureBreak | null;
+  findDisplacement(sweep: LiquiditySweep): DisplacementRun | null;
+  getRegime(): { regime: RegimeResult | null; blockedReason: string | null };
+}
+
+/**
+ * 用一根K线检查流动性区域是否被扫荡
+ */
+function checkSweep(
+  liquidity: LiquidityLevel,
+  kline: KLineData,
+  tolerance: number
+): LiquiditySweep | null {
+  // 扫高：检查是否是假突破（收盘价未站稳）
+  if (liquidity.type === "high" && kline.high > liquidity.price * tolerance) {
+    return {
+      type: "bullish", // 扫高，预期看跌
+      sweepPrice: kline.high,
+      originalLiquidity: liquidity,
+      sweepTimestamp: kline.timestamp,
+      isConfirmed: kline.close < liquidity.price * tolerance,
+    };
+  }
+
+  // 扫低：检查是否是假突破（收盘价未跌破）
+  if (liquidity.type === "low" && kline.low < liquidity.price / tolerance) {
+    return {
+      type: "bearish", // 扫低，预期看涨
+      sweepPrice: kline.low,
+      originalLiquidity: liquidity,
+      sweepTimestamp: kline.timestamp,
+      isConfirmed: kline.close > liquidity.price / tolerance,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 在连续同向K线中按起点从前到后查找第一个强度达到阈值、且不少于 minBars 根的后缀
+ */
+function findStrongSuffix(
+  run: KLineData[],
+  type: "bullish" | "bearish",
+  threshold: number,
+  minBars: number
+): DisplacementRun | null {
+  const close = run[run.length - 1].close;
+  for (let start = 0; start + minBars <= run.length; start++) {
+    const strength = Math.abs(close - run[start].open);
+    if (strength >= threshold) {
+      return { type, bars: run.slice(start), strength };
+    }
+  }
+  return null;
+}
+
+/**
+ * 主周期增量状态：确认流动性区域、检测扫荡，只保留确认区域所需的最近 2 * liquidityLookback + 1 根K线
+ * 批量检测取的是"区域最新的扫荡"（按区域顺序排在最后的扫荡），比它更早的区域不会再成为最新扫荡，直接丢弃
+ */
+class SMCLiquidityState {
+  bars = 0;
+  levelCount = 0;
+  latestSweep: LiquiditySweep | null = null;
+  readonly regime: MarketRegimeClassifier;
+  private window: KLineData[] = [];
+  private pending: LiquidityLevel[] = []; // 尚未被扫荡、仍可能成为最新扫荡的区域
+  private latestKey = -1;
+
+  constructor(private params: SMCLiquidityFVGParams) {
+    this.regime = createRegimeClassifier(params);
+  }
+
+  update(bar: KLineData): void {
+    const index = this.bars++;
+    const lookback = this.params.liquidityLookback;
+    const tolerance = 1 + this.params.liquidityTolerance;
+    this.regime.update(bar);
+    this.window.push(bar);
+    if (this.window.length > 2 * lookback + 1) {
+      this.window.shift();
+    }
+
+    // 1. 已有区域是否被本根K线扫荡
+    this.pending = this.pending.filter((level) => {
+      const sweep = checkSweep(level, bar, tolerance);
+      if (sweep) {
+        this.recordSweep(sweep);
+      }
+      return !sweep;
+    });
+
+    // 2. 确认 lookback 根之前的前高/前低（窗口恰好覆盖其左右各 lookback 根）
+    const pivotIndex = index - lookback;
+    if (pivotIndex < lookback) {
+      return;
+    }
+    const pivotOffset = this.window.length - 1 - lookback;
+    const pivot = this.window[pivotOffset];
+    const others = this.window.filter((_, j) => j !== pivotOffset);
+    const levels: LiquidityLevel[] = [];
+    if (others.every((k) => k.high <= pivot.high)) {
+      levels.push({ type: "high", price: pivot.high, timestamp: pivot.timestamp, index: pivotIndex });
+    }
+    if (others.every((k) => k.low >= pivot.low)) {
+      levels.push({ type: "low", price: pivot.low, timestamp: pivot.timestamp, index: pivotIndex });
+    }
+
+    for (const level of levels) {
+      this.levelCount++;
+      let sweep: LiquiditySweep | null = null;
+      for (let j = pivotOffset + 1; j < this.window.length && !sweep; j++) {
+        sweep = checkSweep(level, this.window[j], tolerance);
+      }
+      if (sweep) {
+        this.recordSweep(sweep);
+      } else {
+        this.pending.push(level);
+      }
+    }
+  }
+
+  /**
+   * 位移检测可能用到的最早时间：之后的中周期K线需要保留
+   */
+  getEarliestCandidateTime(): number {
+    let earliest = this.window[0]?.timestamp ?? Infinity;
+    if (this.latestSweep) {
+      earliest = Math.min(earliest, this.latestSweep.originalLiquidity.timestamp);
+    }
+    for (const level of this.pending) {
+      earliest = Math.min(earliest, level.timestamp);
+    }
+    return earliest;
+  }
+
+  private recordSweep(sweep: LiquiditySweep): void {
+    const key = getLevelKey(sweep.originalLiquidity);
+    if (key < this.latestKey) {
+      return;
+    }
+    this.latestSweep = sweep;
+    this.latestKey = key;
+    this.pending = this.pending.filter((level) => getLevelKey(level) > key);
+  }
+}
+
+// 区域在批量检测中的顺序（按K线索引，同一根K线前高在前）
+function getLevelKey(level: LiquidityLevel): number {
+  return level.index * 2 + (level.type === "low" ? 1 : 0);
+}
+
+/**
+ * 位移扫描：从起点之后逐根累积连续同向K线
+ * 只保留"最大后缀强度超过之前所有K线段"的K线段：强度达到阈值的第一段一定在其中
+ */
+class DisplacementScanner {
+  private records: Array<{ bars: KLineData[]; best: number }> = [];
+  private current: KLineData[] = [];
+
+  constructor(
+    readonly startTime: number,
+    readonly type: "bullish" | "bearish",
+    private minBars: number
+  ) {}
+
+  push(bar: KLineData): void {
+    const matches = this.type === "bullish" ? bar.close > bar.open : bar.close < bar.open;
+    if (matches) {
+      this.current.push(bar);
+      return;
+    }
+
+    if (this.current.length >= this.minBars) {
+      const close = this.current[this.current.length - 1].close;
+      let best = 0;
+      for (let start = 0; start + this.minBars <= this.current.length; start++) {
+        best = Math.max(best, Math.abs(close - this.current[start].open));
+      }
+      const previousBest = this.records[this.records.length - 1]?.best ?? -Infinity;
+      if (best > previousBest) {
+        this.records.push({ bars: this.current, best });
+      }
+    }
+    this.current = [];
+  }
+
+  find(threshold: number): DisplacementRun | null {
+    for (const record of this.records) {
+      if (record.best >= threshold) {
+        return findStrongSuffix(record.bars, this.type, threshold, this.minBars);
+      }
+    }
+    // 仍在延续的K线段（截至当前K线）
+    return this.current.length >= this.minBars
+      ? findStrongSuffix(this.current, this.type, threshold, this.minBars)
+      : null;
+  }
+}
+
+/**
+ * 中周期增量状态：ATR、市场结构，以及最早候选流动性区域之后的K线（用于查找位移）
+ */
+class SMCDisplacementState {
+  bars = 0;
+  readonly atr = new ATR(14);
+  private structure: MarketStructureTracker;
+  private lastCHoCH: Record<"bullish" | "bearish", StructureBreak | null> = { bullish: null, bearish: null };
+  private history: KLineData[] = [];
+  private scanner: DisplacementScanner | null = null;
+
+  constructor(private params: SMCLiquidityFVGParams) {
+    this.structure = new MarketStructureTracker(params.structureSwingLength);
+  }
+
+  update(bar: KLineData): void {
+    this.bars++;
+    this.atr.update(bar);
+    for (const structureBreak of this.structure.update(bar)) {
+      if (structureBreak.type === "choch") {
+        this.lastCHoCH[structureBreak.direction] = structureBreak;
+      }
+    }
+    this.history.push(bar);
+    this.scanner?.push(bar);
+  }
+
+  /**
+   * 丢弃不会再用于位移检测的K线
+   */
+  prune(earliestTime: number): void {
+    let count = 0;
+    while (count < this.history.length && this.history[count].timestamp <= earliestTime) {
+      count++;
+    }
+    if (count > 0) {
+      this.history.splice(0, count);
+    }
+  }
+
+  /**
+   * 扫荡之后与扫荡方向相反的最近一次 CHoCH（扫高后看跌转变，扫低后看涨转变）
+   */
+  findCHoCH(sweep: LiquiditySweep): StructureBreak | null {
+    const choch = this.lastCHoCH[sweep.type === "bullish" ? "bearish" : "bullish"];
+    return choch && choch.timestamp > sweep.sweepTimestamp ? choch : null;
+  }
+
+  /**
+   * 流动性区域之后第一段强度达到阈值（ATR 倍数）的位移
+   */
+  findDisplacement(sweep: LiquiditySweep): DisplacementRun | null {
+    const startTime = sweep.originalLiquidity.timestamp;
+    const type = sweep.type === "bullish" ? "bearish" : "bullish";
+    if (!this.scanner || this.scanner.startTime !== startTime || this.scanner.type !== type) {
+      this.scanner = new DisplacementScanner(startTime, type, this.params.displacementMinBars);
+      for (const bar of this.history) {
+        if (bar.timestamp > startTime) {
+          this.scanner.push(bar);
+        }
+      }
+    }
+
+    const threshold = (this.atr.value || 0) * this.params.displacementThreshold;
+    return this.scanner.find(threshold);
+  }
+}
+
+/**
+ * SMC 策略的流式检测
+ * 主周期增量确认流动性区域和扫荡，中周期增量维护 ATR、市场结构和位移候选，
+ * 信号与对同一段历史调用 detectSignal 的结果一致；快照只保留最近的K线，恢复时重放这些K线重建状态
+ */
+class SMCLiquidityFVGStream implements StrategyStream<SMCLiquidityFVGParams> {
+  private symbol = "";
+  private params: SMCLiquidityFVGParams = DEFAULT_SMC_PARAMS;
+  private timeframes: string[] = [];
+  private history: Record<string, KLineData[]> = {};
+  private roles = { main: "", mid: "", entry: "" };
+  private liquidity: SMCLiquidityState = new SMCLiquidityState(DEFAULT_SMC_PARAMS);
+  private displacement: SMCDisplacementState = new SMCDisplacementState(DEFAULT_SMC_PARAMS);
+  private entryBars = 0;
+  private recentEntry: KLineData[] = [];
+  private invalidReason: string | null = null;
+
+  constructor(private strategy: SMCLiquidityFVGStrategy) {}
+
+  init(symbol: string, params: SMCLiquidityFVGParams, timeframes: string[]): void {
+    if (timeframes.length === 0) {
+      throw new Error("At least one timeframe is required");
+    }
+
+    this.symbol = symbol;
+    this.params = params;
+    this.timeframes = [...timeframes];
+    this.history = {};
+    for (const timeframe of timeframes) {
+      this.history[timeframe] = [];
+    }
+
+    // 与 detectSignal 相同：缺少任一周期时三者都使用入场周期（第一个周期）的K线
+    const multi = [params.mainTimeframe, params.midTimeframe, params.lowTimeframe].every((timeframe) =>
+      timeframes.includes(timeframe)
+    );
+    this.roles = multi
+      ? { main: params.mainTimeframe, mid: params.midTimeframe, entry: params.lowTimeframe }
+      : { main: timeframes[0], mid: timeframes[0], entry: timeframes[0] };
+
+    const validation = this.strategy.validateParams(params);
+    this.invalidReason = validation.valid ? null : `参数验证失败: ${validation.errors.join(", ")}`;
+    this.liquidity = new SMCLiquidityState(params);
+    this.displacement = new SMCDisplacementState(params);
+    this.entryBars = 0;
+    this.recentEntry = [];
+  }
+
+  onBar(bar: KLineData, timeframe: string): Signal[] {
+    const { signal } = this.process(bar, timeframe);
+    return signal ? [signal] : [];
+  }
+
+  /**
+   * 处理一根已收盘K线，入场周期（第一个周期）收盘时返回检测结果
+   */
+  process(bar: KLineData, timeframe: string): SignalDetectionResult {
+    const history = this.history[timeframe];
+    const last = history?.[history.length - 1];
+    if (!history || (last && bar.timestamp <= last.timestamp)) {
+      return { signal: null, reason: "重复的K线", details: "" };
+    }
+
+    history.push(bar);
+    if (history.length > STREAM_SNAPSHOT_BARS) {
+      history.shift();
+    }
+
+    if (this.invalidReason) {
+      return { signal: null, reason: this.invalidReason, details: "" };
+    }
+    if (timeframe === this.roles.main) {
+      this.liquidity.update(bar);
+    }
+    if (timeframe === this.roles.mid) {
+      this.displacement.update(bar);
+    }
+    this.displacement.prune(this.liquidity.getEarliestCandidateTime());
+    if (timeframe === this.roles.entry) {
+      this.entryBars++;
+      this.recentEntry.push(bar);
+      if (this.recentEntry.length > 10) {
+        this.recentEntry.shift();
+      }
+    }
+
+    if (timeframe !== this.timeframes[0]) {
+      return { signal: null, reason: "非入场周期", details: "" };
+    }
+
+    const regimeParams = {
+      ...this.params,
+      allowRanging: this.params.allowRanging !== false && !this.params.filterSideways,
+    };
+    return this.strategy.detectFromSource(
+      this.symbol,
+      {
+        mainBars: this.liquidity.bars,
+        midBars: this.displacement.bars,
+        entryBars: this.entryBars,
+        recentEntry: this.recentEntry,
+        getLiquidity: () => ({
+          levelCount: this.liquidity.levelCount,
+          latestSweep: this.liquidity.latestSweep,
+        }),
+        findCHoCH: (sweep) => this.displacement.findCHoCH(sweep),
+        findDisplacement: (sweep) => this.displacement.findDisplacement(sweep),
+        getRegime: () => applyRegimeFilter(this.liquidity.regime.value, regimeParams),
+      },
+      this.params
+    );
+  }
+
+  snapshot(): StrategyStreamState {
+    const history: Record<string, KLineData[]> = {};
+    for (const timeframe of this.timeframes) {
+      history[timeframe] = [...this.history[timeframe]];
+    }
+
+    return {
+      symbol: this.symbol,
+      params: this.params,
+      timeframes: [...this.timeframes],
+      history,
+    };
+  }
+
+  restore(state: StrategyStreamState): void {
+    const timeframes = state.timeframes as string[];
+    this.init(state.symbol as string, state.params as SMCLiquidityFVGParams, timeframes);
+
+    // 按时间重放保留的K线（同一时刻高周期优先，与推送顺序一致）
+    const history = (state.history as Record<string, KLineData[]>) || {};
+    const bars = timeframes.flatMap((timeframe) =>
+      (history[timeframe] || []).map((bar) => ({ bar, timeframe }))
+    );
+    bars.sort(
+      (a, b) =>
+        a.bar.timestamp - b.bar.timestamp ||
+        timeframes.indexOf(b.timeframe) - timeframes.indexOf(a.timeframe)
+    );
+    for (const { bar, timeframe } of bars) {
+      this.process(bar, timeframe);
+    }
+  }
+}
+
 export class SMCLiquidityFVGStrategy
   implements TradingStrategy<SMCLiquidityFVGParams>
 {
@@ -138,6 +605,7 @@ export class SMCLiquidityFVGStrategy
     category: "Smart Money Concepts",
     author: "Vibe Trading",
     timeframe: ["1m", "5m", "15m"],
+    requiredTimeframes: ["1m", "5m", "15m"],
     riskLevel: "high",
   };
 
@@ -145,6 +613,14 @@ export class SMCLiquidityFVGStrategy
     return { ...DEFAULT_SMC_PARAMS };
   }
 
+  getRequiredTimeframes(params: SMCLiquidityFVGParams): string[] {
+    return [params.lowTimeframe, params.midTimeframe, params.mainTimeframe];
+  }
+
+  createStream(): StrategyStream<SMCLiquidityFVGParams> {
+    return new SMCLiquidityFVGStream(this);
+  }
+
   getConfigItems() {
     return [
       {
@@ -230,6 +706,25 @@ export class SMCLiquidityFVGStrategy
         description: "确认位移的最少连续同向K线数",
         category: "位移确认",
       },
+      {
+        key: "requireCHoCH",
+        label: "要求结构转变 (CHoCH)",
+        type: "checkbox" as const,
+        defaultValue: false,
+        description: "扫荡之后中周期需要出现反向的结构转变才入场",
+        category: "结构确认",
+      },
+      {
+        key: "structureSwingLength",
+        label: "摆动点确认K线数",
+        type: "number" as const,
+        defaultValue: 3,
+        min: 1,
+        max: 10,
+        step: 1,
+        description: "摆动高低点左右两侧需要的K线数量",
+        category: "结构确认",
+      },
       {
         key: "fvgMinSize",
         label: "FVG 最小大小 (%)",
@@ -296,6 +791,28 @@ export class SMCLiquidityFVGStrategy
         description: "第二止盈目标百分比",
         category: "止损止盈",
       },
+      {
+        key: "tp1SizeFraction",
+        label: "第一目标平仓比例",
+        type: "number" as const,
+        defaultValue: 0.5,
+        min: 0.1,
+        max: 1.0,
+        step: 0.1,
+        description: "到达第一目标时平掉的仓位比例，剩余仓位在第二目标平仓",
+        category: "止损止盈",
+      },
+      {
+        key: "signalValidBars",
+        label: "信号有效期 (K线数)",
+        type: "number" as const,
+        defaultValue: 5,
+        min: 1,
+        max: 50,
+        step: 1,
+        description: "信号发出后多少根K线内未入场则失效",
+        category: "止损止盈",
+      },
       {
         key: "riskPercent",
         label: "单笔风险 (%)",
@@ -334,9 +851,10 @@ export class SMCLiquidityFVGStrategy
         label: "过滤震荡市",
         type: "checkbox" as const,
         defaultValue: true,
-        description: "是否过滤震荡市场环境",
+        description: "是否过滤震荡市场环境（ADX 低于阈值或布林带收敛）",
         category: "过滤条件",
       },
+      ...getRegimeFilterConfigItems(DEFAULT_SMC_PARAMS),
     ];
   }
 
@@ -358,6 +876,12 @@ export class SMCLiquidityFVGStrategy
     if (params.entryFVGPercent <= 0 || params.entryFVGPercent >= 1) {
       errors.push("入场位置必须在 0-1 之间");
     }
+    if (params.tp1SizeFraction <= 0 || params.tp1SizeFraction > 1) {
+      errors.push("第一目标平仓比例必须在 0-1 之间");
+    }
+    if (params.takeProfitTP1 >= params.takeProfitTP2) {
+      errors.push("第一目标必须小于第二目标");
+    }
 
     return {
       valid: errors.length === 0,
@@ -368,7 +892,8 @@ export class SMCLiquidityFVGStrategy
   detectSignal(
     symbol: string,
     klines: KLineData[],
-    params: SMCLiquidityFVGParams
+    params: SMCLiquidityFVGParams,
+    context?: MultiTimeframeContext
   ): SignalDetectionResult {
     // 验证参数
     const validation = this.validateParams(params);
@@ -380,23 +905,73 @@ export class SMCLiquidityFVGStrategy
       };
     }
 
-    // 确保有足够的数据
-    const minBars = Math.max(
-      params.liquidityLookback + 20,
-      params.displacementMinBars + 10
+    // 主周期识别流动性，中周期确认位移，低周期入场；没有多周期数据时三者使用同一序列
+    const { mainKlines, midKlines, entryKlines } = this.resolveSeries(
+      klines,
+      params,
+      context
+    );
+
+    return this.detectFromSource(
+      symbol,
+      {
+        mainBars: mainKlines.length,
+        midBars: midKlines.length,
+        entryBars: entryKlines.length,
+        recentEntry: entryKlines.slice(-10),
+        getLiquidity: () => {
+          const levels = this.identifyLiquidityLevels(mainKlines, params);
+          const sweeps = this.detectLiquiditySweeps(mainKlines, levels, params);
+          return {
+            levelCount: levels.length,
+            latestSweep: sweeps.length > 0 ? sweeps[sweeps.length - 1] : null,
+          };
+        },
+        findCHoCH: (sweep) => this.findCHoCHAfterSweep(midKlines, sweep, params),
+        findDisplacement: (sweep) =>
+          this.detectDisplacement(
+            midKlines,
+            sweep,
+            this.findFirstBarAfter(midKlines, sweep.originalLiquidity.timestamp),
+            params
+          ),
+        getRegime: () =>
+          evaluateRegimeFilter(mainKlines, {
+            ...params,
+            allowRanging: params.allowRanging !== false && !params.filterSideways,
+          }),
+      },
+      params
     );
-    if (klines.length < minBars) {
+  }
+
+  /**
+   * 按检测数据生成信号（批量检测和流式检测共用，参数已通过验证）
+   */
+  detectFromSource(
+    symbol: string,
+    source: SMCSource,
+    params: SMCLiquidityFVGParams
+  ): SignalDetectionResult {
+    // 确保有足够的数据
+    const minMainBars = params.liquidityLookback + 20;
+    const minMidBars = params.displacementMinBars + 10;
+    if (
+      source.mainBars < minMainBars ||
+      source.midBars < minMidBars ||
+      source.entryBars < 2
+    ) {
       return {
         signal: null,
-        reason: `K线数据不足，需要至少 ${minBars} 根`,
+        reason: `K线数据不足，需要至少 ${Math.max(minMainBars, minMidBars)} 根`,
         details: "",
       };
     }
 
     // 1. 识别流动性区域
-    const liquidityLevels = this.identifyLiquidityLevels(klines, params);
+    const { levelCount, latestSweep } = source.getLiquidity();
 
-    if (liquidityLevels.length === 0) {
+    if (levelCount === 0) {
       return {
         signal: null,
         reason: "未识别到流动性区域",
@@ -405,13 +980,7 @@ export class SMCLiquidityFVGStrategy
     }
 
     // 2. 检测流动性扫荡
-    const sweeps = this.detectLiquiditySweeps(
-      klines,
-      liquidityLevels,
-      params
-    );
-
-    if (sweeps.length === 0) {
+    if (!latestSweep) {
       return {
         signal: null,
         reason: "未检测到流动性扫荡",
@@ -420,7 +989,6 @@ export class SMCLiquidityFVGStrategy
     }
 
     // 3. 确认假突破并查找最近的位移
-    const latestSweep = sweeps[sweeps.length - 1];
     if (!latestSweep.isConfirmed) {
       return {
         signal: null,
@@ -429,14 +997,23 @@ export class SMCLiquidityFVGStrategy
       };
     }
 
+    // 3.1 可选：扫荡之后需要出现反向的结构转变
+    let choch: StructureBreak | null = null;
+    if (params.requireCHoCH) {
+      choch = source.findCHoCH(latestSweep);
+      if (!choch) {
+        return {
+          signal: null,
+          reason: "扫荡后未出现结构转变 (CHoCH)",
+          details: "",
+        };
+      }
+    }
+
     // 4. 检测位移（在扫荡之后）
-    const displacement = this.detectDisplacement(
-      klines,
-      latestSweep,
-      params
-    );
+    const run = source.findDisplacement(latestSweep);
 
-    if (!displacement) {
+    if (!run) {
       return {
         signal: null,
         reason: "未检测到有效位移",
@@ -445,6 +1022,13 @@ export class SMCLiquidityFVGStrategy
     }
 
     // 5. 识别 FVG
+    const displacement: Displacement = {
+      type: run.type,
+      startTimestamp: run.bars[0].timestamp,
+      endTimestamp: run.bars[run.bars.length - 1].timestamp,
+      strength: run.strength,
+      fvgs: this.identifyFVGsInDisplacement(run.bars, params),
+    };
     if (displacement.fvgs.length === 0) {
       return {
         signal: null,
@@ -456,23 +1040,34 @@ export class SMCLiquidityFVGStrategy
     const latestFVG = displacement.fvgs[displacement.fvgs.length - 1];
 
     // 6. 检查价格是否回踩到 FVG 区域
-    const currentKline = klines[klines.length - 1];
+    const recentEntry = source.recentEntry;
+    const currentKline = recentEntry[recentEntry.length - 1];
     const isInFVGZone = this.checkPriceInFVGZone(
       currentKline,
       latestFVG,
       params
     );
 
+    // 扫荡、位移和 FVG 的图表标注
+    const annotations = this.buildAnnotations(
+      latestSweep,
+      displacement,
+      latestFVG,
+      run.bars,
+      currentKline.timestamp
+    );
+
     if (!isInFVGZone) {
       return {
         signal: null,
         reason: "价格未回踩到 FVG 入场区域",
         details: `FVG 区域: [${latestFVG.bottom}, ${latestFVG.top}], 当前价格: ${currentKline.close}`,
+        annotations,
       };
     }
 
     // 7. 应用过滤条件
-    const filterReason = this.applyFilters(klines, params);
+    const filterReason = this.applyFilters(recentEntry, params);
     if (filterReason) {
       return {
         signal: null,
@@ -481,28 +1076,102 @@ export class SMCLiquidityFVGStrategy
       };
     }
 
-    // 8. 生成交易信号
+    // 8. 市场状态过滤（基于主周期）
+    const { regime, blockedReason } = source.getRegime();
+    if (blockedReason) {
+      return {
+        signal: null,
+        reason: blockedReason,
+        details: regime ? describeRegime(regime) : "",
+      };
+    }
+
+    // 9. 生成交易信号
+    const barInterval =
+      currentKline.timestamp - recentEntry[recentEntry.length - 2].timestamp;
     const signal = this.generateSignal(
       symbol,
       latestSweep,
       displacement,
       latestFVG,
       currentKline,
+      barInterval,
       params
     );
+    if (regime) {
+      signal.regime = regime.regime;
+    }
+    signal.annotations = [...annotations, ...createExitPlanAnnotations(signal)];
 
     return {
       signal,
+      annotations: signal.annotations,
       reason: `检测到 ${signal.direction} 信号: ${signal.reason}`,
       details: this.generateSignalDetails(
         latestSweep,
         displacement,
         latestFVG,
-        params
+        regime,
+        params,
+        choch
       ),
     };
   }
 
+  /**
+   * 从多时间框架上下文中取出主/中/低周期K线
+   * 上下文缺少任一周期时，退回到单一序列
+   */
+  private resolveSeries(
+    klines: KLineData[],
+    params: SMCLiquidityFVGParams,
+    context?: MultiTimeframeContext
+  ): { mainKlines: KLineData[]; midKlines: KLineData[]; entryKlines: KLineData[] } {
+    const mainKlines = context?.klines[params.mainTimeframe];
+    const midKlines = context?.klines[params.midTimeframe];
+    const entryKlines = context?.klines[params.lowTimeframe];
+
+    if (!mainKlines || !midKlines || !entryKlines) {
+      return { mainKlines: klines, midKlines: klines, entryKlines: klines };
+    }
+
+    return { mainKlines, midKlines, entryKlines };
+  }
+
+  /**
+   * 查找扫荡之后与扫荡方向相反的 CHoCH（扫高后看跌转变，扫低后看涨转变）
+   */
+  private findCHoCHAfterSweep(
+    klines: KLineData[],
+    sweep: LiquiditySweep,
+    params: SMCLiquidityFVGParams
+  ): StructureBreak | null {
+    const tracker = new LiquidityFVGTracker(params.structureSwingLength);
+    tracker.process(klines, params.structureSwingLength, params.liquidityTolerance);
+
+    const direction = sweep.type === "bullish" ? "bearish" : "bullish";
+    const structureBreaks = tracker.getRecentStructureBreaks(Infinity);
+    for (let i = structureBreaks.length - 1; i >= 0; i--) {
+      const structureBreak = structureBreaks[i];
+      if (structureBreak.timestamp <= sweep.sweepTimestamp) {
+        break;
+      }
+      if (structureBreak.type === "choch" && structureBreak.direction === direction) {
+        return structureBreak;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 查找时间戳晚于指定时间的第一根K线索引
+   */
+  private findFirstBarAfter(klines: KLineData[], timestamp: number): number {
+    const index = klines.findIndex((k) => k.timestamp > timestamp);
+    return index === -1 ? klines.length : index;
+  }
+
   /**
    * 识别流动性区域（前高/前低）
    */
@@ -565,39 +1234,12 @@ export class SMCLiquidityFVGStrategy
     const sweeps: LiquiditySweep[] = [];
     const tolerance = 1 + params.liquidityTolerance;
 
-    // 从流动性区域之后开始检测
+    // 从流动性区域之后开始检测，取第一根突破的K线
     for (const liquidity of liquidityLevels) {
-      // 检查流动性区域之后是否有K线突破
       for (let i = liquidity.index + 1; i < klines.length; i++) {
-        const kline = klines[i];
-
-        // 检查扫高
-        if (liquidity.type === "high" && kline.high > liquidity.price * tolerance) {
-          // 检查是否是假突破（收盘价未站稳）
-          const isFakeBreakout = kline.close < liquidity.price * tolerance;
-
-          sweeps.push({
-            type: "bullish", // 扫高，预期看跌
-            sweepPrice: kline.high,
-            originalLiquidity: liquidity,
-            sweepTimestamp: kline.timestamp,
-            isConfirmed: isFakeBreakout,
-          });
-          break;
-        }
-
-        // 检查扫低
-        if (liquidity.type === "low" && kline.low < liquidity.price / tolerance) {
-          // 检查是否是假突破（收盘价未跌破）
-          const isFakeBreakout = kline.close > liquidity.price / tolerance;
-
-          sweeps.push({
-            type: "bearish", // 扫低，预期看涨
-            sweepPrice: kline.low,
-            originalLiquidity: liquidity,
-            sweepTimestamp: kline.timestamp,
-            isConfirmed: isFakeBreakout,
-          });
+        const sweep = checkSweep(liquidity, klines[i], tolerance);
+        if (sweep) {
+          sweeps.push(sweep);
           break;
         }
       }
@@ -607,84 +1249,35 @@ export class SMCLiquidityFVGStrategy
   }
 
   /**
-   * 检测位移
+   * 检测位移：扫荡之后第一段强度达到阈值的连续同向K线
    */
   private detectDisplacement(
     klines: KLineData[],
     sweep: LiquiditySweep,
+    startIndex: number,
     params: SMCLiquidityFVGParams
-  ): Displacement | null {
-    const startIndex = sweep.originalLiquidity.index + 1;
+  ): DisplacementRun | null {
     const atr = this.calculateATR(klines, 14);
     const threshold = atr * params.displacementThreshold;
+    // 扫高之后预期看跌，扫低之后预期看涨
+    const type = sweep.type === "bullish" ? "bearish" : "bullish";
 
     // 寻找扫荡之后的大实体或连续同向K线
     for (let i = startIndex; i < klines.length; i++) {
-      // 扫高之后预期看跌（bearish displacement）
-      if (sweep.type === "bullish") {
-        const bearishBars = this.countConsecutiveBars(
-          klines,
-          i,
-          "bearish",
-          params.displacementMinBars
-        );
-
-        if (bearishBars.length >= params.displacementMinBars) {
-          // 检查位移强度
-          const strength = this.calculateDisplacementStrength(
-            klines,
-            bearishBars
-          );
-
-          if (strength >= threshold) {
-            // 识别位移过程中的 FVG
-            const fvgs = this.identifyFVGsInDisplacement(
-              klines,
-              bearishBars,
-              params
-            );
-
-            return {
-              type: "bearish",
-              startTimestamp: klines[bearishBars[0]].timestamp,
-              endTimestamp: klines[bearishBars[bearishBars.length - 1]].timestamp,
-              strength,
-              fvgs,
-            };
-          }
-        }
-      }
+      const indices = this.countConsecutiveBars(
+        klines,
+        i,
+        type,
+        params.displacementMinBars
+      );
 
-      // 扫低之后预期看涨（bullish displacement）
-      if (sweep.type === "bearish") {
-        const bullishBars = this.countConsecutiveBars(
-          klines,
-          i,
-          "bullish",
-          params.displacementMinBars
-        );
-
-        if (bullishBars.length >= params.displacementMinBars) {
-          const strength = this.calculateDisplacementStrength(
-            klines,
-            bullishBars
-          );
-
-          if (strength >= threshold) {
-            const fvgs = this.identifyFVGsInDisplacement(
-              klines,
-              bullishBars,
-              params
-            );
-
-            return {
-              type: "bullish",
-              startTimestamp: klines[bullishBars[0]].timestamp,
-              endTimestamp: klines[bullishBars[bullishBars.length - 1]].timestamp,
-              strength,
-              fvgs,
-            };
-          }
+      if (indices.length >= params.displacementMinBars) {
+        // 检查位移强度
+        const bars = indices.map((index) => klines[index]);
+        const strength = this.calculateDisplacementStrength(bars);
+
+        if (strength >= threshold) {
+          return { type, bars, strength };
         }
       }
     }
@@ -730,14 +1323,11 @@ export class SMCLiquidityFVGStrategy
   /**
    * 计算位移强度
    */
-  private calculateDisplacementStrength(
-    klines: KLineData[],
-    barIndices: number[]
-  ): number {
-    if (barIndices.length === 0) return 0;
+  private calculateDisplacementStrength(bars: KLineData[]): number {
+    if (bars.length === 0) return 0;
 
-    const firstBar = klines[barIndices[0]];
-    const lastBar = klines[barIndices[barIndices.length - 1]];
+    const firstBar = bars[0];
+    const lastBar = bars[bars.length - 1];
 
     return Math.abs(lastBar.close - firstBar.open);
   }
@@ -746,15 +1336,14 @@ export class SMCLiquidityFVGStrategy
    * 识别位移过程中的 FVG
    */
   private identifyFVGsInDisplacement(
-    klines: KLineData[],
-    barIndices: number[],
+    bars: KLineData[],
     params: SMCLiquidityFVGParams
   ): FVG[] {
     const fvgs: FVG[] = [];
 
-    for (let i = 1; i < barIndices.length; i++) {
-      const bar1 = klines[barIndices[i - 1]];
-      const bar3 = klines[barIndices[i]];
+    for (let i = 1; i < bars.length; i++) {
+      const bar1 = bars[i - 1];
+      const bar3 = bars[i];
 
       // 看涨 FVG：K1 高点 < K3 低点
       if (bar1.high < bar3.low) {
@@ -815,29 +1404,18 @@ export class SMCLiquidityFVGStrategy
    * 应用过滤条件
    */
   private applyFilters(
-    klines: KLineData[],
+    recentBars: KLineData[],
     params: SMCLiquidityFVGParams
   ): string | null {
-    // 成交量过滤
-    const recentBars = klines.slice(-10);
+    // 成交量过滤（最近 10 根K线）
     const avgVolume =
       recentBars.reduce((sum, bar) => sum + bar.volume, 0) / recentBars.length;
-    const lastBar = klines[klines.length - 1];
+    const lastBar = recentBars[recentBars.length - 1];
 
     if (lastBar.volume < avgVolume * params.minVolumeRatio) {
       return "成交量不足";
     }
 
-    // 震荡市过滤（使用 ATR 相对于价格的比例）
-    if (params.filterSideways) {
-      const atr = this.calculateATR(klines, 14);
-      const atrPercent = atr / klines[klines.length - 1].close;
-
-      if (atrPercent < 0.002) {
-        return "震荡市场，ATR 过小";
-      }
-    }
-
     return null;
   }
 
@@ -850,6 +1428,7 @@ export class SMCLiquidityFVGStrategy
     displacement: Displacement,
     fvg: FVG,
     kline: KLineData,
+    barInterval: number,
     params: SMCLiquidityFVGParams
   ): Signal {
     const direction = fvg.type === "bullish" ? "long" : "short";
@@ -883,6 +1462,14 @@ export class SMCLiquidityFVGStrategy
       reason,
       confidence,
       entryPrice,
+      exitPlan: {
+        stopLoss,
+        takeProfits: [
+          { price: takeProfit1, sizeFraction: params.tp1SizeFraction, label: "TP1" },
+          { price: takeProfit2, sizeFraction: 1 - params.tp1SizeFraction, label: "TP2" },
+        ].filter((target) => target.sizeFraction > 0),
+        invalidationTime: kline.timestamp + barInterval * params.signalValidBars,
+      },
     };
   }
 
@@ -893,7 +1480,9 @@ export class SMCLiquidityFVGStrategy
     sweep: LiquiditySweep,
     displacement: Displacement,
     fvg: FVG,
-    params: SMCLiquidityFVGParams
+    regime: RegimeResult | null,
+    params: SMCLiquidityFVGParams,
+    choch: StructureBreak | null = null
   ): string {
     const details = [
       `流动性类型: ${sweep.originalLiquidity.type}`,
@@ -905,31 +1494,77 @@ export class SMCLiquidityFVGStrategy
       `FVG 强度: ${(fvg.strength * 100).toFixed(2)}%`,
       `入场位置: ${((fvg.bottom + (fvg.top - fvg.bottom) * params.entryFVGPercent)).toFixed(2)}`,
     ];
+    if (choch) {
+      details.push(`CHoCH: ${choch.direction} @ ${choch.price.toFixed(2)}`);
+    }
+    if (regime) {
+      details.push(describeRegime(regime));
+    }
 
     return details.join(" | ");
   }
 
   /**
-   * 计算 ATR（平均真实波幅）
+   * 生成信号依据的图表标注：被扫的流动性、扫荡点、位移区间和 FVG
+   * FVG 区域画到 endTime（当前K线）为止
    */
-  private calculateATR(klines: KLineData[], period: number): number {
-    if (klines.length < period + 1) return 0;
-
-    let sum = 0;
-    for (let i = klines.length - period; i < klines.length; i++) {
-      const high = klines[i].high;
-      const low = klines[i].low;
-      const prevClose = i > 0 ? klines[i - 1].close : klines[i].open;
-
-      const tr = Math.max(
-        high - low,
-        Math.abs(high - prevClose),
-        Math.abs(low - prevClose)
-      );
-      sum += tr;
+  private buildAnnotations(
+    sweep: LiquiditySweep,
+    displacement: Displacement,
+    fvg: FVG,
+    displacementBars: KLineData[],
+    endTime: number
+  ): SignalAnnotation[] {
+    const liquidity = sweep.originalLiquidity;
+
+    const annotations: SignalAnnotation[] = [
+      {
+        type: "liquidity",
+        side: liquidity.type,
+        price: liquidity.price,
+        startTime: liquidity.timestamp,
+        endTime: sweep.sweepTimestamp,
+        label: liquidity.type === "high" ? "前高流动性" : "前低流动性",
+      },
+      {
+        type: "sweep",
+        side: sweep.type === "bullish" ? "high" : "low",
+        price: sweep.sweepPrice,
+        time: sweep.sweepTimestamp,
+        label: "扫荡",
+      },
+    ];
+
+    if (displacementBars.length > 0) {
+      annotations.push({
+        type: "displacement",
+        direction: displacement.type,
+        high: Math.max(...displacementBars.map((k) => k.high)),
+        low: Math.min(...displacementBars.map((k) => k.low)),
+        startTime: displacement.startTimestamp,
+        endTime: displacement.endTimestamp,
+        label: `位移 ${displacement.strength.toFixed(2)}`,
+      });
     }
 
-    return sum / period;
+    annotations.push({
+      type: "fvg",
+      direction: fvg.type,
+      top: fvg.top,
+      bottom: fvg.bottom,
+      startTime: fvg.timestamp,
+      endTime: Math.max(endTime, fvg.timestamp),
+      label: "FVG",
+    });
+
+    return annotations;
+  }
+
+  /**
+   * 计算最新的 ATR（平均真实波幅），数据不足时为 0
+   */
+  private calculateATR(klines: KLineData[], period: number): number {
+    return atr(klines, period)[klines.length - 1] || 0;
   }
 
   // ============ 回测需要的辅助方法 ============
@@ -1026,26 +1661,21 @@ export class SMCLiquidityFVGStrategy
   }
 
   /**
-   * 回测：检测历史信号（简化版本）
+   * 回测：检测历史信号（逐根推送到流式检测，避免每根K线重新计算全部历史）
    */
   public detectHistoricalSignals(
     klines: KLineData[],
     params: SMCLiquidityFVGParams
   ): Array<{ signal: Signal; startIndex: number }> {
     const signals: Array<{ signal: Signal; startIndex: number }> = [];
-    const minBars = Math.max(
-      params.liquidityLookback + 20,
-      params.displacementMinBars + 10
-    );
-
-    for (let i = minBars; i < klines.length; i++) {
-      const historicalKlines = klines.slice(0, i);
-      const result = this.detectSignal("symbol", historicalKlines, params);
+    const stream = this.createStream();
+    stream.init("symbol", params, [params.lowTimeframe]);
 
-      if (result.signal) {
+    for (let i = 0; i < klines.length - 1; i++) {
+      for (const signal of stream.onBar(klines[i], params.lowTimeframe)) {
         signals.push({
-          signal: result.signal,
-          startIndex: i,
+          signal,
+          startIndex: i + 1,
         });
       }
     }
@@ -0,0 +1,313 @@
+import { createHash } from "crypto";
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+  ExitPlan,
+  Signal,
+  StrategyStream,
+} from "../types/strategy";
+import { WindowedStrategyStream } from "./WindowedStrategyStream";
+import { ScriptSandbox, ScriptSandboxLimits, DEFAULT_SCRIPT_SANDBOX_LIMITS } from "../utils/scriptSandbox";
+
+/**
+ * 脚本策略（仅服务端使用）
+ * 由用户上传的 JavaScript 脚本实现信号检测，脚本在沙箱中运行（无网络/文件访问，有 CPU 时间和内存上限）
+ *
+ * 脚本需要定义顶层函数：
+ * - detectSignal(symbol, klines, params)：返回 { signal, reason, details }，signal 为 null 或
+ *   { direction, entryPrice, confidence?, reason?, time?, action?, exitPlan? }
+ * - getConfigItems()：可选，返回参数配置项
+ * - getDefaultParams()：可选，返回默认参数（未定义时取配置项的默认值）
+ *
+ * 每次上传生成一个新版本，meta.codeHash 记录脚本的 SHA-256，回测结果据此追溯使用的脚本
+ *
+ * 每次 detectSignal 都会同步阻塞调用线程直到脚本返回（回测中每根K线一次）：回测通过 BacktestWorkerPool
+ * 在 worker 线程中运行；实盘和信号检测接口在主线程调用，受沙箱的主线程阻塞时间预算限制
+ */
+
+// 脚本策略ID前缀（避免与内置策略冲突）
+export const SCRIPT_STRATEGY_ID_PREFIX = "script_";
+
+/**
+ * 脚本标识 -> 策略ID
+ */
+export function getScriptStrategyId(scriptKey: string): string {
+  return `${SCRIPT_STRATEGY_ID_PREFIX}${scriptKey}`;
+}
+
+/**
+ * 计算脚本代码哈希（SHA-256）
+ */
+export function hashScriptCode(code: string): string {
+  return createHash("sha256").update(code, "utf8").digest("hex");
+}
+
+// 脚本策略定义
+export interface ScriptStrategyDefinition {
+  scriptKey: string;
+  name: string;
+  description?: string;
+  version: number;
+  code: string;
+  limits?: ScriptSandboxLimits;
+}
+
+// 流式检测时保留的K线数量（每根K线都要把窗口序列化给沙箱，不宜过大）
+const STREAM_WINDOW_BARS = 300;
+
+const CONFIG_ITEM_TYPES = ["number", "select", "checkbox", "text"] as const;
+
+export class ScriptStrategy implements TradingStrategy {
+  readonly meta: StrategyMeta;
+  private sandbox: ScriptSandbox;
+  private configItems: StrategyConfigItem[];
+  private defaultParams: BaseStrategyParams;
+
+  constructor(definition: ScriptStrategyDefinition) {
+    this.sandbox = new ScriptSandbox(definition.code, definition.limits || DEFAULT_SCRIPT_SANDBOX_LIMITS);
+
+    // 加载时校验脚本接口，并缓存配置项和默认参数
+    try {
+      const functions = this.sandbox.listFunctions();
+      if (!functions.includes("detectSignal")) {
+        throw new Error("Script must define a top-level function detectSignal(symbol, klines, params)");
+      }
+
+      this.configItems = functions.includes("getConfigItems")
+        ? normalizeConfigItems(this.sandbox.call("getConfigItems"))
+        : [];
+
+      const defaults: BaseStrategyParams = {};
+      for (const item of this.configItems) {
+        defaults[item.key] = item.defaultValue;
+      }
+      if (functions.includes("getDefaultParams")) {
+        const value = this.sandbox.call("getDefaultParams");
+        if (isRecord(value)) {
+          Object.assign(defaults, value);
+        }
+      }
+      this.defaultParams = defaults;
+    } catch (error) {
+      this.sandbox.dispose();
+      throw new Error(
+        `Invalid script for strategy ${definition.scriptKey}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    this.meta = {
+      id: getScriptStrategyId(definition.scriptKey),
+      name: definition.name,
+      description: definition.description || "自定义脚本策略",
+      version: String(definition.version),
+      category: "脚本策略",
+      author: "自定义",
+      timeframe: ["1m", "5m", "15m", "1h", "4h", "1d"],
+      riskLevel: "high",
+      codeHash: hashScriptCode(definition.code),
+    };
+  }
+
+  getDefaultParams(): BaseStrategyParams {
+    return { ...this.defaultParams };
+  }
+
+  getConfigItems(): StrategyConfigItem[] {
+    return this.configItems.map((item) => ({ ...item }));
+  }
+
+  createStream(): StrategyStream {
+    return new WindowedStrategyStream(this, STREAM_WINDOW_BARS);
+  }
+
+  /**
+   * 释放沙箱 worker（注销或被新版本替换时调用）
+   */
+  dispose(): void {
+    this.sandbox.dispose();
+  }
+
+  detectSignal(
+    symbol: string,
+    klines: KLineData[],
+    params: BaseStrategyParams
+  ): SignalDetectionResult {
+    if (klines.length === 0) {
+      return {
+        signal: null,
+        reason: "K线数据不足",
+        details: "",
+      };
+    }
+
+    let output: unknown;
+    try {
+      output = this.sandbox.call("detectSignal", [symbol, klines, params]);
+    } catch (error) {
+      return {
+        signal: null,
+        reason: `脚本执行失败: ${error instanceof Error ? error.message : String(error)}`,
+        details: "",
+      };
+    }
+
+    if (!isRecord(output)) {
+      return {
+        signal: null,
+        reason: "脚本返回格式无效",
+        details: "",
+      };
+    }
+
+    const reason = typeof output.reason === "string" ? output.reason : "";
+    const details = typeof output.details === "string" ? output.details : "";
+    if (output.signal === null || output.signal === undefined) {
+      return {
+        signal: null,
+        reason: reason || "无信号",
+        details,
+      };
+    }
+
+    const signal = this.normalizeSignal(symbol, klines[klines.length - 1], output.signal);
+    if (typeof signal === "string") {
+      return {
+        signal: null,
+        reason: `脚本信号无效: ${signal}`,
+        details,
+      };
+    }
+
+    return {
+      signal,
+      reason: reason || `检测到 ${signal.direction} 脚本信号`,
+      details,
+    };
+  }
+
+  /**
+   * 校验并整理脚本返回的信号，无效时返回错误说明
+   */
+  private normalizeSignal(symbol: string, current: KLineData, raw: unknown): Signal | string {
+    if (!isRecord(raw)) {
+      return "signal 必须是对象";
+    }
+    if (raw.direction !== "long" && raw.direction !== "short") {
+      return "direction 必须是 long 或 short";
+    }
+    if (raw.action !== undefined && raw.action !== "open" && raw.action !== "close") {
+      return "action 必须是 open 或 close";
+    }
+
+    const entryPrice = raw.entryPrice === undefined ? current.close : raw.entryPrice;
+    if (!isPositiveNumber(entryPrice)) {
+      return "entryPrice 必须是正数";
+    }
+
+    let exitPlan: ExitPlan | undefined;
+    if (raw.exitPlan !== undefined && raw.exitPlan !== null) {
+      const plan = normalizeExitPlan(raw.exitPlan);
+      if (typeof plan === "string") {
+        return plan;
+      }
+      exitPlan = plan;
+    }
+
+    const confidence = typeof raw.confidence === "number" && Number.isFinite(raw.confidence)
+      ? Math.min(1, Math.max(0, raw.confidence))
+      : 0.5;
+
+    return {
+      symbol,
+      direction: raw.direction,
+      time: typeof raw.time === "number" && Number.isFinite(raw.time) ? raw.time : current.timestamp,
+      reason: typeof raw.reason === "string" && raw.reason ? raw.reason : `${this.meta.name}: ${raw.direction}`,
+      confidence,
+      entryPrice,
+      exitPlan,
+      action: raw.action === "close" ? "close" : undefined,
+    };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * 校验脚本返回的出场计划
+ */
+function normalizeExitPlan(raw: unknown): ExitPlan | string {
+  if (!isRecord(raw)) {
+    return "exitPlan 必须是对象";
+  }
+  if (!isPositiveNumber(raw.stopLoss)) {
+    return "exitPlan.stopLoss 必须是正数";
+  }
+
+  const takeProfits: ExitPlan["takeProfits"] = [];
+  if (raw.takeProfits !== undefined) {
+    if (!Array.isArray(raw.takeProfits)) {
+      return "exitPlan.takeProfits 必须是数组";
+    }
+    for (const target of raw.takeProfits) {
+      if (!isRecord(target) || !isPositiveNumber(target.price) || !isPositiveNumber(target.sizeFraction)) {
+        return "exitPlan.takeProfits 的每一项需要正数 price 和 sizeFraction";
+      }
+      takeProfits.push({
+        price: target.price,
+        sizeFraction: Math.min(1, target.sizeFraction),
+        label: typeof target.label === "string" ? target.label : undefined,
+      });
+    }
+  }
+
+  return {
+    stopLoss: raw.stopLoss,
+    takeProfits,
+    invalidationTime: isPositiveNumber(raw.invalidationTime) ? raw.invalidationTime : undefined,
+  };
+}
+
+/**
+ * 校验脚本返回的配置项（跳过无效项）
+ */
+function normalizeConfigItems(raw: unknown): StrategyConfigItem[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("getConfigItems() must return an array");
+  }
+
+  const items: StrategyConfigItem[] = [];
+  for (const item of raw) {
+    if (!isRecord(item) || typeof item.key !== "string" || !item.key) {
+      continue;
+    }
+    const type = CONFIG_ITEM_TYPES.find((t) => t === item.type) || "number";
+    items.push({
+      key: item.key,
+      label: typeof item.label === "string" ? item.label : item.key,
+      type,
+      defaultValue: item.defaultValue,
+      min: typeof item.min === "number" ? item.min : undefined,
+      max: typeof item.max === "number" ? item.max : undefined,
+      step: typeof item.step === "number" ? item.step : undefined,
+      options: Array.isArray(item.options)
+        ? item.options.filter(isRecord).map((option) => ({
+            value: option.value,
+            label: String(option.label ?? option.value),
+          }))
+        : undefined,
+      description: typeof item.description === "string" ? item.description : undefined,
+      category: typeof item.category === "string" ? item.category : undefined,
+    });
+  }
+  return items;
+}
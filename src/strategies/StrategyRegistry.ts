@@ -0,0 +1,394 @@
+/**
+ * 策略注册表（单例，前后端共用）
+ * 扫描、信号检测、回测、执行引擎和前端选择器都从这里获取策略：
+ *
+ * 1. 可以直接注册实例，也可以注册工厂（首次使用时创建实例）
+ * 2. 同一策略ID可以注册多个版本，默认使用最后注册的版本，也可以按版本获取
+ * 3. 记录策略来源：内置、规则策略、上传的脚本
+ */
+
+import {
+  TradingStrategy,
+  StrategyMeta,
+  StrategyConfigItem,
+  BaseStrategyParams,
+  SignalDetectionResult,
+  KLineData,
+} from "../types/strategy";
+import { ParamValidationResult, validateStrategyParams } from "../utils/paramSchema";
+import { SMCLiquidityFVGStrategy } from "./SMCLiquidityFVGStrategy";
+import { EMATrendStrategy } from "./EMATrendStrategy";
+import { MeanReversionStrategy } from "./MeanReversionStrategy";
+import { DonchianBreakoutStrategy } from "./DonchianBreakoutStrategy";
+import { GridStrategy } from "./GridStrategy";
+import { DCAStrategy } from "./DCAStrategy";
+import { PairsTradingStrategy } from "./PairsTradingStrategy";
+import { CompositeStrategy, SMC_EMA_TREND_COMPOSITE } from "./CompositeStrategy";
+
+// 策略来源
+export type StrategySource = "builtin" | "rule" | "script";
+
+// 策略工厂
+export type StrategyFactory = () => TradingStrategy;
+
+export interface StrategyRegistrationOptions {
+  source?: StrategySource;       // 默认 builtin
+  version?: string;              // 默认取 meta.version（注册工厂时必填）
+  activate?: boolean;            // 是否设为默认版本（默认 true）
+}
+
+// 策略描述（/api/strategies 返回给前端）
+export interface StrategyDescriptor {
+  id: string;
+  version: string;               // 当前默认版本
+  versions: string[];            // 已注册的所有版本
+  source: StrategySource;
+  meta: StrategyMeta;
+  configItems: StrategyConfigItem[];
+  defaultParams: BaseStrategyParams;
+}
+
+interface StrategyEntry {
+  id: string;
+  version: string;
+  source: StrategySource;
+  factory: StrategyFactory;
+  instance: TradingStrategy | null;
+  lazy: boolean;                 // 由工厂创建（可释放后重建）
+}
+
+export class StrategyRegistry {
+  private static instance: StrategyRegistry;
+  private entries = new Map<string, Map<string, StrategyEntry>>();
+  private activeVersions = new Map<string, string>();
+
+  private constructor() {
+    this.registerBuiltinStrategies();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      StrategyRegistry.instance = new StrategyRegistry();
+    }
+    return StrategyRegistry.instance;
+  }
+
+  /**
+   * 注册内置策略
+   */
+  private registerBuiltinStrategies(): void {
+    this.register(new SMCLiquidityFVGStrategy());
+    this.register(new EMATrendStrategy());
+    this.register(new MeanReversionStrategy());
+    this.register(new DonchianBreakoutStrategy());
+    this.register(new GridStrategy());
+    this.register(new DCAStrategy());
+    this.register(new PairsTradingStrategy());
+
+    // 组合策略（按ID解析子策略，子策略使用各自的默认版本）
+    this.register(new CompositeStrategy(SMC_EMA_TREND_COMPOSITE, (id) => this.getStrategy(id)));
+  }
+
+  /**
+   * 注册策略实例
+   */
+  public register(strategy: TradingStrategy, options: StrategyRegistrationOptions = {}): void {
+    this.addEntry(
+      {
+        id: strategy.meta.id,
+        version: options.version ?? strategy.meta.version,
+        source: options.source ?? "builtin",
+        factory: () => strategy,
+        instance: strategy,
+        lazy: false,
+      },
+      options.activate ?? true
+    );
+  }
+
+  /**
+   * 注册策略工厂（首次获取时创建实例）
+   */
+  public registerFactory(
+    id: string,
+    factory: StrategyFactory,
+    options: StrategyRegistrationOptions & { version: string }
+  ): void {
+    this.addEntry(
+      {
+        id,
+        version: options.version,
+        source: options.source ?? "builtin",
+        factory,
+        instance: null,
+        lazy: true,
+      },
+      options.activate ?? true
+    );
+  }
+
+  /**
+   * 注销策略（不指定版本时注销所有版本），已创建的实例会被释放
+   */
+  public unregister(id: string, version?: string): void {
+    const versions = this.entries.get(id);
+    if (!versions) {
+      return;
+    }
+
+    const removed = version === undefined ? Array.from(versions.keys()) : [version];
+    for (const v of removed) {
+      const entry = versions.get(v);
+      if (entry) {
+        entry.instance?.dispose?.();
+        versions.delete(v);
+      }
+    }
+
+    if (versions.size === 0) {
+      this.entries.delete(id);
+      this.activeVersions.delete(id);
+      console.log(`策略 [${id}] 已注销`);
+      return;
+    }
+
+    // 默认版本被注销时回退到最后注册的版本
+    if (!versions.has(this.activeVersions.get(id) || "")) {
+      this.activeVersions.set(id, Array.from(versions.keys()).pop()!);
+    }
+  }
+
+  /**
+   * 释放已创建的实例（保留注册，下次获取时由工厂重新创建）
+   */
+  public release(id: string, version: string): void {
+    const entry = this.entries.get(id)?.get(version);
+    if (entry && entry.lazy && entry.instance) {
+      entry.instance.dispose?.();
+      entry.instance = null;
+    }
+  }
+
+  /**
+   * 获取策略（不指定版本时返回默认版本）
+   */
+  public getStrategy(id: string, version?: string): TradingStrategy | undefined {
+    const entry = this.getEntry(id, version);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (!entry.instance) {
+      try {
+        entry.instance = entry.factory();
+      } catch (error) {
+        console.warn(`Failed to create strategy [${id}@${entry.version}]:`, error);
+        return undefined;
+      }
+    }
+    return entry.instance;
+  }
+
+  /**
+   * 检查策略是否存在
+   */
+  public hasStrategy(id: string, version?: string): boolean {
+    return this.getEntry(id, version) !== undefined;
+  }
+
+  /**
+   * 策略ID列表
+   */
+  public getStrategyIds(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * 策略已注册的版本（按注册顺序）
+   */
+  public getVersions(id: string): string[] {
+    return Array.from(this.entries.get(id)?.keys() || []);
+  }
+
+  /**
+   * 策略当前的默认版本
+   */
+  public getActiveVersion(id: string): string | undefined {
+    return this.activeVersions.get(id);
+  }
+
+  /**
+   * 策略来源
+   */
+  public getSource(id: string): StrategySource | undefined {
+    return this.getEntry(id)?.source;
+  }
+
+  /**
+   * 所有策略（默认版本）
+   */
+  public getAllStrategies(): TradingStrategy[] {
+    const strategies: TradingStrategy[] = [];
+    for (const id of this.entries.keys()) {
+      const strategy = this.getStrategy(id);
+      if (strategy) {
+        strategies.push(strategy);
+      }
+    }
+    return strategies;
+  }
+
+  /**
+   * 所有策略的元信息
+   */
+  public getAllStrategyMetas(): StrategyMeta[] {
+    return this.getAllStrategies().map((s) => s.meta);
+  }
+
+  /**
+   * 策略描述（元信息、来源、版本、配置项和默认参数）
+   */
+  public describe(id: string, version?: string): StrategyDescriptor | undefined {
+    const entry = this.getEntry(id, version);
+    const strategy = this.getStrategy(id, version);
+    if (!entry || !strategy) {
+      return undefined;
+    }
+
+    return {
+      id,
+      version: entry.version,
+      versions: this.getVersions(id),
+      source: entry.source,
+      meta: strategy.meta,
+      configItems: strategy.getConfigItems(),
+      defaultParams: strategy.getDefaultParams(),
+    };
+  }
+
+  /**
+   * 所有策略的描述（默认版本）
+   */
+  public describeAll(): StrategyDescriptor[] {
+    return this.getStrategyIds()
+      .map((id) => this.describe(id))
+      .filter((descriptor): descriptor is StrategyDescriptor => descriptor !== undefined);
+  }
+
+  /**
+   * 检测信号
+   */
+  public detectSignal<T extends BaseStrategyParams>(
+    strategyId: string,
+    symbol: string,
+    klines: KLineData[],
+    params: T
+  ): SignalDetectionResult {
+    const strategy = this.getStrategy(strategyId);
+
+    if (!strategy) {
+      throw new Error(`策略 [${strategyId}] 不存在`);
+    }
+
+    return strategy.detectSignal(symbol, klines, params);
+  }
+
+  /**
+   * 获取策略的默认参数
+   */
+  public getDefaultParams<T extends BaseStrategyParams>(strategyId: string): T | null {
+    const strategy = this.getStrategy(strategyId);
+
+    if (!strategy) {
+      console.warn(`策略 [${strategyId}] 不存在`);
+      return null;
+    }
+
+    return strategy.getDefaultParams() as T;
+  }
+
+  /**
+   * 获取策略的配置项
+   */
+  public getConfigItems(strategyId: string): StrategyConfigItem[] {
+    const strategy = this.getStrategy(strategyId);
+
+    if (!strategy) {
+      console.warn(`策略 [${strategyId}] 不存在`);
+      return [];
+    }
+
+    return strategy.getConfigItems();
+  }
+
+  /**
+   * 验证策略参数（配置项生成的 schema + 策略自身的校验）
+   */
+  public validateParams<T extends BaseStrategyParams>(
+    strategyId: string,
+    params: T
+  ): { valid: boolean; errors: string[]; fieldErrors: Record<string, string[]> } {
+    const { valid, errors, fieldErrors } = this.resolveParams(strategyId, params);
+    return { valid, errors, fieldErrors };
+  }
+
+  /**
+   * 补齐默认值并校验策略参数，返回规范化后的参数
+   */
+  public resolveParams(
+    strategyId: string,
+    params: BaseStrategyParams | null | undefined,
+    version?: string
+  ): ParamValidationResult {
+    const strategy = this.getStrategy(strategyId, version);
+
+    if (!strategy) {
+      return {
+        valid: false,
+        params: params || {},
+        errors: [`策略 [${strategyId}] 不存在`],
+        fieldErrors: {},
+      };
+    }
+
+    return validateStrategyParams(strategy, params);
+  }
+
+  private getEntry(id: string, version?: string): StrategyEntry | undefined {
+    const versions = this.entries.get(id);
+    if (!versions) {
+      return undefined;
+    }
+    return versions.get(version ?? this.activeVersions.get(id) ?? "");
+  }
+
+  private addEntry(entry: StrategyEntry, activate: boolean): void {
+    let versions = this.entries.get(entry.id);
+    if (!versions) {
+      versions = new Map();
+      this.entries.set(entry.id, versions);
+    }
+
+    // 同一版本重复注册时覆盖（并释放旧实例）
+    const previous = versions.get(entry.version);
+    if (previous) {
+      console.warn(`策略 [${entry.id}@${entry.version}] 已存在，将被覆盖`);
+      if (previous.instance && previous.instance !== entry.instance) {
+        previous.instance.dispose?.();
+      }
+      versions.delete(entry.version);
+    }
+    versions.set(entry.version, entry);
+
+    if (activate || !this.activeVersions.has(entry.id)) {
+      this.activeVersions.set(entry.id, entry.version);
+    }
+    console.log(`策略 [${entry.id}@${entry.version}] 已注册 (${entry.source})`);
+  }
+}
+
+// 导出单例实例
+export const strategyRegistry = StrategyRegistry.getInstance();
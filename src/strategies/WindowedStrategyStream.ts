@@ -0,0 +1,109 @@
+import {
+  TradingStrategy,
+  StrategyStream,
+  StrategyStreamState,
+  BaseStrategyParams,
+  KLineData,
+  Signal,
+} from "../types/strategy";
+import { buildMultiTimeframeContext } from "../utils/timeframeAligner";
+
+/**
+ * 滑动窗口流式检测（通用适配器，用于没有增量状态的策略）
+ * 每个周期只保留最近 windowBars 根已收盘K线，入场周期收盘时在窗口上调用 detectSignal，
+ * 单根K线的计算量为 O(windowBars)，不随总历史增长，但并不是增量计算。
+ *
+ * 与对完整历史批量调用 detectSignal 的差异（只在依赖窗口之外历史的策略上出现）：
+ * - 递归指标（EMA、RSI、ATR 等）每次从窗口第一根K线重新起算，周期接近窗口长度时数值与完整历史不同
+ * - 按时段累计的指标（如时段 VWAP）只能看到窗口内的K线
+ * - 窗口之外的前高/前低等历史结构不可见
+ * 窗口内只用简单移动平均、固定回看的策略与批量检测结果一致；需要长历史的策略应实现自己的流式检测
+ */
+export class WindowedStrategyStream<T extends BaseStrategyParams = BaseStrategyParams>
+  implements StrategyStream<T>
+{
+  private symbol = "";
+  private params: T | null = null;
+  private timeframes: string[] = [];
+  private buffers: Record<string, KLineData[]> = {};
+
+  constructor(
+    private strategy: TradingStrategy<T>,
+    private windowBars: number = 200
+  ) {}
+
+  init(symbol: string, params: T, timeframes: string[]): void {
+    if (timeframes.length === 0) {
+      throw new Error("At least one timeframe is required");
+    }
+
+    this.symbol = symbol;
+    this.params = params;
+    this.timeframes = [...timeframes];
+    this.buffers = {};
+    for (const timeframe of timeframes) {
+      this.buffers[timeframe] = [];
+    }
+  }
+
+  onBar(bar: KLineData, timeframe: string): Signal[] {
+    const buffer = this.buffers[timeframe];
+    if (!this.params || !buffer) {
+      return [];
+    }
+
+    // 已推送过的K线直接忽略，便于恢复快照后重放历史
+    const last = buffer[buffer.length - 1];
+    if (last && bar.timestamp <= last.timestamp) {
+      return [];
+    }
+
+    buffer.push(bar);
+    if (buffer.length > this.windowBars) {
+      buffer.shift();
+    }
+
+    // 只有入场周期收盘时才检测信号
+    const entryTimeframe = this.timeframes[0];
+    if (timeframe !== entryTimeframe) {
+      return [];
+    }
+
+    const context =
+      this.timeframes.length > 1
+        ? buildMultiTimeframeContext(this.buffers, entryTimeframe)
+        : undefined;
+    const result = this.strategy.detectSignal(
+      this.symbol,
+      buffer,
+      this.params,
+      context
+    );
+
+    return result.signal ? [result.signal] : [];
+  }
+
+  snapshot(): StrategyStreamState {
+    const buffers: Record<string, KLineData[]> = {};
+    for (const timeframe of this.timeframes) {
+      buffers[timeframe] = [...this.buffers[timeframe]];
+    }
+
+    return {
+      symbol: this.symbol,
+      params: this.params,
+      timeframes: [...this.timeframes],
+      buffers,
+    };
+  }
+
+  restore(state: StrategyStreamState): void {
+    const timeframes = state.timeframes as string[];
+    this.init(state.symbol as string, state.params as T, timeframes);
+
+    const buffers = state.buffers as Record<string, KLineData[]>;
+    for (const timeframe of timeframes) {
+      this.buffers[timeframe] = [...(buffers[timeframe] || [])].slice(-this.windowBars);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { KLineData, MarketRegime, StrategyConfigItem } from "../types/strategy";
+import {
+  classifyMarketRegime,
+  MarketRegimeClassifier,
+  RegimeOptions,
+  RegimeResult,
+} from "../indicators";
+
+/**
+ * 市场状态过滤参数（任意策略的参数都可以混入）
+ */
+export interface RegimeFilterParams {
+  adxThreshold: number;             // ADX 阈值（用于判断趋势强度）
+  regimeAtrLookback: number;        // ATR 百分位统计窗口
+  regimeHighVolPercentile: number;  // 高波动的 ATR 百分位阈值
+  regimeMinBandwidth: number;       // 趋势所需的最小布林带宽度（%）
+  allowTrending: boolean;           // 允许在趋势市入场
+  allowRanging: boolean;            // 允许在震荡市入场
+  allowHighVolatility: boolean;     // 允许在高波动市入场
+}
+
+export const DEFAULT_REGIME_FILTER_PARAMS: RegimeFilterParams = {
+  adxThreshold: 20,
+  regimeAtrLookback: 100,
+  regimeHighVolPercentile: 90,
+  regimeMinBandwidth: 0.5,
+  allowTrending: true,
+  allowRanging: true,
+  allowHighVolatility: true,
+};
+
+// 市场状态显示名称
+export const REGIME_LABELS: Record<MarketRegime, string> = {
+  trending: "趋势",
+  ranging: "震荡",
+  high_volatility: "高波动",
+};
+
+/**
+ * 市场状态过滤的配置项
+ */
+export function getRegimeFilterConfigItems(
+  defaults: RegimeFilterParams = DEFAULT_REGIME_FILTER_PARAMS
+): StrategyConfigItem[] {
+  return [
+    {
+      key: "adxThreshold",
+      label: "ADX 趋势阈值",
+      type: "number",
+      defaultValue: defaults.adxThreshold,
+      min: 10,
+      max: 50,
+      step: 1,
+      description: "ADX 达到该值才认定为趋势市",
+      category: "市场状态",
+    },
+    {
+      key: "regimeAtrLookback",
+      label: "ATR 百分位窗口",
+      type: "number",
+      defaultValue: defaults.regimeAtrLookback,
+      min: 20,
+      max: 500,
+      step: 10,
+      description: "计算 ATR 百分位时参考的K线数量",
+      category: "市场状态",
+    },
+    {
+      key: "regimeHighVolPercentile",
+      label: "高波动百分位",
+      type: "number",
+      defaultValue: defaults.regimeHighVolPercentile,
+      min: 50,
+      max: 100,
+      step: 1,
+      description: "当前 ATR 高于该百分位视为高波动市",
+      category: "市场状态",
+    },
+    {
+      key: "regimeMinBandwidth",
+      label: "最小布林带宽度 (%)",
+      type: "number",
+      defaultValue: defaults.regimeMinBandwidth,
+      min: 0,
+      max: 10,
+      step: 0.1,
+      description: "布林带宽度低于该值时视为收敛（震荡）",
+      category: "市场状态",
+    },
+    {
+      key: "allowTrending",
+      label: "允许趋势市入场",
+      type: "checkbox",
+      defaultValue: defaults.allowTrending,
+      category: "市场状态",
+    },
+    {
+      key: "allowRanging",
+      label: "允许震荡市入场",
+      type: "checkbox",
+      defaultValue: defaults.allowRanging,
+      category: "市场状态",
+    },
+    {
+      key: "allowHighVolatility",
+      label: "允许高波动市入场",
+      type: "checkbox",
+      defaultValue: defaults.allowHighVolatility,
+      category: "市场状态",
+    },
+  ];
+}
+
+/**
+ * 判断当前市场状态是否允许入场
+ *
+ * @returns regime 为分类结果（数据不足时为 null，不拦截），blockedReason 为拦截原因
+ */
+export function evaluateRegimeFilter(
+  klines: KLineData[],
+  params: RegimeFilterParams
+): { regime: RegimeResult | null; blockedReason: string | null } {
+  return applyRegimeFilter(classifyMarketRegime(klines, getRegimeOptions(params)), params);
+}
+
+/**
+ * 创建增量的市场状态分类器（流式检测逐根推送K线，结果与 evaluateRegimeFilter 一致）
+ */
+export function createRegimeClassifier(params: RegimeFilterParams): MarketRegimeClassifier {
+  return new MarketRegimeClassifier(getRegimeOptions(params));
+}
+
+/**
+ * 按开关判断已分类的市场状态是否允许入场
+ */
+export function applyRegimeFilter(
+  regime: RegimeResult | null,
+  params: RegimeFilterParams
+): { regime: RegimeResult | null; blockedReason: string | null } {
+  if (!regime) {
+    return { regime: null, blockedReason: null };
+  }
+
+  // 未设置的开关视为允许
+  const allowed: Record<MarketRegime, boolean> = {
+    trending: params.allowTrending !== false,
+    ranging: params.allowRanging !== false,
+    high_volatility: params.allowHighVolatility !== false,
+  };
+
+  return {
+    regime,
+    blockedReason: allowed[regime.regime]
+      ? null
+      : `${REGIME_LABELS[regime.regime]}市场，不允许入场 (ADX: ${regime.adx.toFixed(1)})`,
+  };
+}
+
+/**
+ * 市场状态的文字描述（用于信号详情）
+ */
+export function describeRegime(regime: RegimeResult): string {
+  return `市场状态: ${REGIME_LABELS[regime.regime]} (ADX ${regime.adx.toFixed(1)}, ATR 百分位 ${regime.atrPercentile.toFixed(0)}%, 布林带宽 ${regime.bandwidthPercent.toFixed(2)}%)`;
+}
+
+function getRegimeOptions(params: RegimeFilterParams): RegimeOptions {
+  return {
+    adxThreshold: params.adxThreshold,
+    atrLookback: params.regimeAtrLookback,
+    highVolatilityPercentile: params.regimeHighVolPercentile,
+    minBandwidthPercent: params.regimeMinBandwidth,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * 规则策略加载（仅服务端使用）
+ * 从数据库读取规则策略，按 rule_ 前缀的ID注册到策略注册表
+ */
+
+import { ruleStrategyManager } from "../storage/database/tradingManager";
+import type { RuleStrategy } from "../storage/database/shared/schema";
+import type { RuleSet } from "../types/ruleStrategy";
+import { strategyRegistry } from "./StrategyRegistry";
+import { RuleBasedStrategy, getRuleStrategyId } from "./RuleBasedStrategy";
+
+let loaded = false;
+
+/**
+ * 注册（或覆盖）一条规则策略记录，规则集无效时抛出异常
+ */
+export function registerRuleStrategy(record: RuleStrategy): RuleBasedStrategy {
+  const strategy = new RuleBasedStrategy({
+    id: getRuleStrategyId(record.id),
+    name: record.name,
+    description: record.description,
+    rules: record.rules as RuleSet,
+  });
+
+  strategyRegistry.register(strategy, { source: "rule" });
+  return strategy;
+}
+
+/**
+ * 注销规则策略
+ */
+export function unregisterRuleStrategy(recordId: string): void {
+  strategyRegistry.unregister(getRuleStrategyId(recordId));
+}
+
+/**
+ * 加载数据库中所有启用的规则策略（每个进程只加载一次，之后由增删改接口维护）
+ * 数据库不可用时只记录警告，不影响内置策略
+ */
+export async function ensureRuleStrategiesLoaded(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  try {
+    const records = await ruleStrategyManager.getEnabledRuleStrategies();
+    for (const record of records) {
+      try {
+        registerRuleStrategy(record);
+      } catch (error) {
+        console.warn(`Skipping invalid rule strategy [${record.id}]:`, error);
+      }
+    }
+    loaded = true;
+    console.log(`Loaded ${records.length} rule strategies`);
+  } catch (error) {
+    console.warn("Failed to load rule strategies:", error);
+  }
+}
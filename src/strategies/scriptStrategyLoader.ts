@@ -0,0 +1,80 @@
+/**
+ * 脚本策略加载（仅服务端使用）
+ * 从数据库读取每个脚本的最新版本，按 script_ 前缀的ID注册到策略注册表
+ * 同一脚本的多个版本可以同时注册，旧版本的沙箱会被释放，按版本获取时再重新创建
+ */
+
+import { strategyScriptManager } from "../storage/database/tradingManager";
+import type { StrategyScript } from "../storage/database/shared/schema";
+import { strategyRegistry } from "./StrategyRegistry";
+import { ScriptStrategy, ScriptStrategyDefinition, getScriptStrategyId } from "./ScriptStrategy";
+
+let loaded = false;
+
+/**
+ * 注册（或覆盖）一个脚本版本，脚本无效时抛出异常
+ */
+export function registerScriptStrategy(record: StrategyScript): ScriptStrategy {
+  const definition: ScriptStrategyDefinition = {
+    scriptKey: record.scriptKey,
+    name: record.name,
+    description: record.description,
+    version: record.version,
+    code: record.code,
+  };
+  const strategy = new ScriptStrategy(definition);
+  const id = strategy.meta.id;
+  const version = strategy.meta.version;
+  const previousVersion = strategyRegistry.getActiveVersion(id);
+
+  // 首次获取时使用已校验过的实例，释放后再按定义重新创建
+  let initial: ScriptStrategy | null = strategy;
+  strategyRegistry.registerFactory(
+    id,
+    () => {
+      const instance = initial ?? new ScriptStrategy(definition);
+      initial = null;
+      return instance;
+    },
+    { source: "script", version }
+  );
+  strategyRegistry.getStrategy(id, version);
+
+  // 释放旧版本的沙箱
+  if (previousVersion && previousVersion !== version) {
+    strategyRegistry.release(id, previousVersion);
+  }
+  return strategy;
+}
+
+/**
+ * 注销脚本策略（所有版本）
+ */
+export function unregisterScriptStrategy(scriptKey: string): void {
+  strategyRegistry.unregister(getScriptStrategyId(scriptKey));
+}
+
+/**
+ * 加载数据库中所有脚本的最新版本（每个进程只加载一次，之后由上传/删除接口维护）
+ * 数据库不可用时只记录警告，不影响内置策略
+ */
+export async function ensureScriptStrategiesLoaded(): Promise<void> {
+  if (loaded) {
+    return;
+  }
+
+  try {
+    const records = await strategyScriptManager.getLatestScripts();
+    for (const record of records) {
+      try {
+        registerScriptStrategy(record);
+      } catch (error) {
+        console.warn(`Skipping invalid strategy script [${record.scriptKey}]:`, error);
+      }
+    }
+    loaded = true;
+    console.log(`Loaded ${records.length} strategy scripts`);
+  } catch (error) {
+    console.warn("Failed to load strategy scripts:", error);
+  }
+}
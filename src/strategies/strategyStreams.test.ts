@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import type { KLineData } from "../types/strategy";
+import type { RuleCondition } from "../types/ruleStrategy";
+import { DonchianBreakoutStrategy } from "./DonchianBreakoutStrategy";
+import { EMATrendStrategy } from "./EMATrendStrategy";
+import { SMCLiquidityFVGStrategy } from "./SMCLiquidityFVGStrategy";
+import { MeanReversionStrategy } from "./MeanReversionStrategy";
+import { PairsTradingStrategy } from "./PairsTradingStrategy";
+import { RuleBasedStrategy } from "./RuleBasedStrategy";
+import { aggregateKlines, createRandom, generateKlines } from "../test/fixtures";
+import { replayBatch, replayStream } from "../test/strategyReplay";
+
+const MINUTE = 60 * 1000;
+
+// 在K线之间加入跳空（生成的K线开盘价等于上一根收盘价，无法形成 FVG）
+function withGaps(klines: KLineData[], seed: number): KLineData[] {
+  const random = createRandom(seed);
+  let factor = 1;
+  return klines.map((k) => {
+    factor *= 1 + (random() - 0.5) * 0.02;
+    return { ...k, open: k.open * factor, high: k.high * factor, low: k.low * factor, close: k.close * factor };
+  });
+}
+
+describe("EMATrendStrategy stream", () => {
+  const strategy = new EMATrendStrategy();
+  const params = { ...strategy.getDefaultParams(), minConditionsRequired: 3 };
+
+  it.each([1, 2])("matches batch detection on two timeframes (seed %i)", (seed) => {
+    const klines = generateKlines(1000, { seed, intervalMs: 5 * MINUTE });
+    const series = { "5m": klines, "15m": aggregateKlines(klines, 3) };
+
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.length).toBeGreaterThan(0);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+
+  it("matches batch detection on a single timeframe", () => {
+    const series = { "1h": generateKlines(600, { seed: 3 }) };
+
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.length).toBeGreaterThan(0);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+});
+
+describe("SMCLiquidityFVGStrategy stream", () => {
+  const strategy = new SMCLiquidityFVGStrategy();
+  const base = {
+    ...strategy.getDefaultParams(),
+    liquidityLookback: 8,
+    minVolumeRatio: 0,
+    entryFVGPercent: 0.5,
+    fvgMinSize: 0,
+    fvgMaxSize: 1,
+  };
+
+  it.each([
+    { seed: 2, count: 1500, requireCHoCH: false, displacementThreshold: 1.5 },
+    { seed: 5, count: 600, requireCHoCH: true, displacementThreshold: 0.3, liquidityLookback: 5 },
+  ])("matches batch detection (%o)", ({ seed, count, ...overrides }) => {
+    const params = { ...base, ...overrides };
+    const series = { "1m": withGaps(generateKlines(count, { seed, intervalMs: MINUTE }), seed + 100) };
+
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.length).toBeGreaterThan(0);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+
+  it("matches batch detection on main/mid/low timeframes", () => {
+    const klines = withGaps(generateKlines(1200, { seed: 8, intervalMs: MINUTE }), 108);
+    const series = { "1m": klines, "5m": aggregateKlines(klines, 5), "15m": aggregateKlines(klines, 15) };
+    const params = { ...base, liquidityLookback: 3, displacementThreshold: 0.5, displacementMinBars: 2 };
+
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.length).toBeGreaterThan(0);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+});
+
+describe("MeanReversionStrategy stream", () => {
+  const strategy = new MeanReversionStrategy();
+
+  it.each(["bollinger", "rsi_divergence", "vwap_deviation"] as const)(
+    "matches batch detection (%s)",
+    (entryModel) => {
+      // 4 小时时段：1500 根 5m K线跨越多个 VWAP 时段边界
+      const series = { "5m": generateKlines(1500, { seed: 1, intervalMs: 5 * MINUTE }) };
+      const params = {
+        ...strategy.getDefaultParams(),
+        entryModel,
+        vwapSessionHours: 4,
+        vwapDeviationPercent: 0.5,
+        minRewardRisk: 0.5,
+        allowTrending: true,
+        allowHighVolatility: true,
+      };
+
+      const batch = replayBatch(strategy, series, params);
+      expect(batch.length).toBeGreaterThan(0);
+      expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+    }
+  );
+});
+
+describe("DonchianBreakoutStrategy stream", () => {
+  const strategy = new DonchianBreakoutStrategy();
+  const params = { ...strategy.getDefaultParams(), allowTrending: true, allowHighVolatility: true };
+  const series = { "1h": generateKlines(600, { seed: 1 }) };
+
+  it("matches batch detection", () => {
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.length).toBeGreaterThan(0);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+
+  it("emits add levels every addStepAtr × N from the breakout and leaves unit counting to the engine", () => {
+    const signals = replayStream(strategy.createStream(), series, params);
+    const [open] = signals;
+    const leg = signals.slice(1, signals.findIndex((signal) => signal.direction !== open.direction));
+    const adds = leg.filter((signal) => signal.action === "add");
+    const step = open.unitSizing!.riskDistance * params.addStepAtr;
+
+    // 流不跟踪持仓：同一轮内加仓价位超过 maxUnits，同向突破也会再次发出开仓信号（止损离场后可重新入场）
+    expect(adds.length).toBeGreaterThan(params.maxUnits);
+    expect(leg.some((signal) => signal.action === "open")).toBe(true);
+    adds.forEach((signal, i) => {
+      expect(signal.unitSizing?.maxUnits).toBe(params.maxUnits);
+      expect(signal.entryPrice).toBeGreaterThanOrEqual(open.entryPrice + step * (i + 1) - 1e-9);
+    });
+  });
+});
+
+describe("PairsTradingStrategy lookback window", () => {
+  const strategy = new PairsTradingStrategy();
+
+  it("detects the same signals on the last lookback bars as on the full history", () => {
+    const params = { ...strategy.getDefaultParams(), lookback: 60, zScoreEntry: 1.5, minCorrelation: 0.3 };
+    const klines = {
+      [params.symbolA]: generateKlines(500, { seed: 1 }),
+      [params.symbolB]: generateKlines(500, { seed: 2, startPrice: 2000 }),
+    };
+    const lookback = strategy.getLinkedLookback(params);
+    const detect = (window: number) =>
+      klines[params.symbolA].map((_, i) =>
+        strategy.detectLinkedSignal(
+          {
+            [params.symbolA]: klines[params.symbolA].slice(Math.max(0, i + 1 - window), i + 1),
+            [params.symbolB]: klines[params.symbolB].slice(Math.max(0, i + 1 - window), i + 1),
+          },
+          params
+        )
+      );
+
+    const full = detect(Infinity);
+    expect(full.some((result) => result.signal?.action === "open")).toBe(true);
+    expect(detect(lookback)).toEqual(full);
+  });
+});
+
+describe("WindowedStrategyStream", () => {
+  const createRuleStrategy = (longEntry: RuleCondition, shortEntry: RuleCondition) =>
+    new RuleBasedStrategy({
+      id: "rule_test",
+      name: "test",
+      description: "",
+      rules: {
+        entryTimeframe: "1h",
+        riskLevel: "medium",
+        longEntry: { type: "group", logic: "and", rules: [longEntry] },
+        shortEntry: { type: "group", logic: "and", rules: [shortEntry] },
+        exit: {
+          stopLossType: "percent",
+          stopLossValue: 2,
+          takeProfitType: "risk_reward",
+          takeProfitValue: 2,
+          atrPeriod: 14,
+          signalValidBars: 3,
+        },
+      },
+    });
+
+  it("matches batch detection when indicators fit in the window", () => {
+    // 窗口内只用简单均线的规则：窗口足够长时与批量检测一致
+    const fast = { kind: "indicator", indicator: "sma", period: 10 } as const;
+    const slow = { kind: "indicator", indicator: "sma", period: 30 } as const;
+    const strategy = createRuleStrategy(
+      { type: "condition", left: fast, operator: "crosses_above", right: slow },
+      { type: "condition", left: fast, operator: "crosses_below", right: slow }
+    );
+    const series = { "1h": generateKlines(800, { seed: 5 }) };
+    const params = strategy.getDefaultParams();
+
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.length).toBeGreaterThan(0);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+
+  it("matches batch detection for session VWAP and OBV rules", () => {
+    // 日内 VWAP 与 OBV 差值不依赖窗口起点
+    const close = { kind: "indicator", indicator: "close" } as const;
+    const vwap = { kind: "indicator", indicator: "vwap" } as const;
+    const obv = { kind: "indicator", indicator: "obv" } as const;
+    const strategy = createRuleStrategy(
+      { type: "condition", left: close, operator: "crosses_above", right: vwap },
+      { type: "condition", left: obv, operator: "crosses_below", right: { ...obv, offset: 5 } }
+    );
+    const series = { "1h": generateKlines(800, { seed: 6 }) };
+    const params = strategy.getDefaultParams();
+
+    const batch = replayBatch(strategy, series, params);
+    expect(batch.some((signal) => signal.direction === "long")).toBe(true);
+    expect(batch.some((signal) => signal.direction === "short")).toBe(true);
+    expect(replayStream(strategy.createStream(), series, params)).toEqual(batch);
+  });
+
+  it("rejects OBV compared with a fixed level", () => {
+    const obv = { kind: "indicator", indicator: "obv" } as const;
+    const level = { kind: "value", value: 0 } as const;
+    expect(() =>
+      createRuleStrategy(
+        { type: "condition", left: obv, operator: ">", right: level },
+        { type: "condition", left: obv, operator: "<", right: level }
+      )
+    ).toThrow(/OBV/);
+  });
+});
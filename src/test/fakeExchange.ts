@@ -0,0 +1,202 @@
+/**
+ * 测试用内存交易所：市价单按当前价格立即成交，其他订单挂单直到调用 fillOrder
+ */
+
+import {
+  AccountInfo,
+  Exchange,
+  ExchangeInfo,
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  PlaceOrderParams,
+  Position,
+  PositionSide,
+  Ticker24hr,
+} from "../types/exchange";
+
+export class FakeExchange implements Exchange {
+  orders = new Map<number, Order>();
+  positions = new Map<string, Position>();
+  prices = new Map<string, number>();
+  private nextOrderId = 1;
+
+  setPrice(symbol: string, price: number): void {
+    this.prices.set(symbol, price);
+  }
+
+  /**
+   * 挂单成交（按挂单价或触发价），同时更新持仓
+   */
+  fillOrder(orderId: number, price?: number): Order {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== OrderStatus.NEW) {
+      throw new Error(`Order ${orderId} is not open`);
+    }
+    return this.fill(order, price ?? (order.price || order.stopPrice || 0));
+  }
+
+  getOpenOrderIds(symbol: string): number[] {
+    return Array.from(this.orders.values())
+      .filter((order) => order.symbol === symbol && order.status === OrderStatus.NEW)
+      .map((order) => order.orderId);
+  }
+
+  async getExchangeInfo(): Promise<ExchangeInfo> {
+    return {
+      futuresType: "U_MARGINED",
+      timezone: "UTC",
+      serverTime: Date.now(),
+      rateLimits: [],
+      exchangeFilters: [],
+      assets: [],
+      symbols: [],
+    };
+  }
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    return {
+      totalWalletBalance: 1000,
+      totalUnrealizedProfit: 0,
+      totalMarginBalance: 1000,
+      totalPositionInitialMargin: 0,
+      totalOpenOrderInitialMargin: 0,
+      totalMaintMargin: 0,
+      accountEquity: 1000,
+      availableBalance: 1000,
+      maxWithdrawAmount: 1000,
+    };
+  }
+
+  async getPositions(symbol?: string): Promise<Position[]> {
+    return Array.from(this.positions.values()).filter(
+      (position) => position.positionAmt !== 0 && (!symbol || position.symbol === symbol)
+    );
+  }
+
+  async placeOrder(params: PlaceOrderParams): Promise<Order> {
+    const order: Order = {
+      symbol: params.symbol,
+      orderId: this.nextOrderId++,
+      price: params.price ?? 0,
+      origQty: params.quantity ?? 0,
+      executedQty: 0,
+      cumQuote: 0,
+      status: OrderStatus.NEW,
+      timeInForce: params.timeInForce ?? "GTC",
+      type: params.type,
+      side: params.side,
+      stopPrice: params.stopPrice,
+      time: Date.now(),
+      updateTime: Date.now(),
+      isWorking: true,
+      origOrderType: params.type,
+      positionSide: params.positionSide,
+    };
+    this.orders.set(order.orderId, order);
+
+    if (params.type === OrderType.MARKET) {
+      return { ...this.fill(order, this.prices.get(params.symbol) ?? 0) };
+    }
+    return { ...order };
+  }
+
+  async cancelOrder(symbol: string, orderId: number): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== OrderStatus.NEW) {
+      throw new Error(`Unknown order ${orderId}`);
+    }
+    order.status = OrderStatus.CANCELED;
+    return { ...order };
+  }
+
+  async getOrder(symbol: string, orderId: number): Promise<Order> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Unknown order ${orderId}`);
+    }
+    return { ...order };
+  }
+
+  async getOpenOrders(symbol?: string): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.status === OrderStatus.NEW && (!symbol || order.symbol === symbol))
+      .map((order) => ({ ...order }));
+  }
+
+  async getAllOrders(symbol: string): Promise<Order[]> {
+    return Array.from(this.orders.values()).filter((order) => order.symbol === symbol);
+  }
+
+  async get24hrTicker(): Promise<Ticker24hr[]> {
+    return [];
+  }
+
+  async changeLeverage(symbol: string, leverage: number) {
+    return { leverage, maxNotionalValue: 0, symbol };
+  }
+
+  async getKlines(): Promise<unknown[]> {
+    return [];
+  }
+
+  async subscribeKlines(): Promise<() => void> {
+    return () => {};
+  }
+
+  async subscribeAccountUpdate(): Promise<() => void> {
+    return () => {};
+  }
+
+  getExchangeId(): string {
+    return "fake";
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  private fill(order: Order, price: number): Order {
+    const positionSide = order.positionSide ?? PositionSide.LONG;
+    const key = `${order.symbol}_${positionSide}`;
+    const position = this.positions.get(key) ?? createPosition(order.symbol, positionSide);
+    const opening = (positionSide === PositionSide.LONG) === (order.side === OrderSide.BUY);
+    const size = Math.abs(position.positionAmt);
+    const quantity = opening ? order.origQty : Math.min(order.origQty, size);
+    const newSize = opening ? size + quantity : size - quantity;
+
+    if (opening && newSize > 0) {
+      position.entryPrice = (position.entryPrice * size + price * quantity) / newSize;
+    }
+    position.positionAmt = positionSide === PositionSide.LONG ? newSize : -newSize;
+    position.notional = newSize * price;
+    this.positions.set(key, position);
+
+    order.status = OrderStatus.FILLED;
+    order.executedQty = quantity;
+    order.cumQuote = quantity * price;
+    order.updateTime = Date.now();
+    return order;
+  }
+}
+
+function createPosition(symbol: string, positionSide: PositionSide): Position {
+  return {
+    symbol,
+    positionSide,
+    positionAmt: 0,
+    entryPrice: 0,
+    markPrice: 0,
+    unrealizedProfit: 0,
+    liquidationPrice: 0,
+    leverage: 1,
+    maxNotionalValue: 0,
+    marginType: "cross",
+    isolatedMargin: 0,
+    isAutoAddMargin: false,
+    notional: 0,
+    isolatedWallet: 0,
+    updateTime: Date.now(),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * 测试用数据：可复现的伪随机K线
+ */
+
+import type { KLineData } from "../types/strategy";
+
+/**
+ * 线性同余伪随机数（同一种子生成相同序列）
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * 生成随机游走K线（带缓慢的周期性趋势，便于触发趋势 / 突破类信号）
+ */
+export function generateKlines(
+  count: number,
+  options: { seed?: number; startTime?: number; intervalMs?: number; startPrice?: number } = {}
+): KLineData[] {
+  const { seed = 1, startTime = Date.UTC(2024, 0, 1), intervalMs = 60 * 60 * 1000, startPrice = 100 } = options;
+  const random = createRandom(seed);
+  const klines: KLineData[] = [];
+  let price = startPrice;
+
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    price *= 1 + Math.sin(i / 40) * 0.002 + (random() - 0.5) * 0.012;
+    const close = price;
+    klines.push({
+      timestamp: startTime + i * intervalMs,
+      open,
+      high: Math.max(open, close) * (1 + random() * 0.004),
+      low: Math.min(open, close) * (1 - random() * 0.004),
+      close,
+      volume: 100 + random() * 900,
+    });
+  }
+  return klines;
+}
+
+/**
+ * 将K线按固定根数合并为高周期K线（如 3 根 5m 合并为 1 根 15m），不足一组的尾部丢弃
+ */
+export function aggregateKlines(klines: KLineData[], factor: number): KLineData[] {
+  const result: KLineData[] = [];
+  for (let i = 0; i + factor <= klines.length; i += factor) {
+    const group = klines.slice(i, i + factor);
+    result.push({
+      timestamp: group[0].timestamp,
+      open: group[0].open,
+      high: Math.max(...group.map((k) => k.high)),
+      low: Math.min(...group.map((k) => k.low)),
+      close: group[group.length - 1].close,
+      volume: group.reduce((sum, k) => sum + k.volume, 0),
+    });
+  }
+  return result;
+}
@@ -0,0 +1,82 @@
+/**
+ * 测试用：按回测引擎的方式逐根K线运行策略，比较批量检测与流式检测的信号
+ */
+
+import type {
+  BaseStrategyParams,
+  KLineData,
+  MultiTimeframeContext,
+  Signal,
+  StrategyStream,
+  TradingStrategy,
+} from "../types/strategy";
+import {
+  buildMultiTimeframeContext,
+  countClosedBars,
+  sortTimeframes,
+  TIMEFRAME_TO_MS,
+} from "../utils/timeframeAligner";
+
+/**
+ * 批量检测：每根入场周期K线对截至当前的全部历史调用 detectSignal（最小周期为入场周期）
+ */
+export function replayBatch<T extends BaseStrategyParams>(
+  strategy: TradingStrategy<T>,
+  seriesByTimeframe: Record<string, KLineData[]>,
+  params: T
+): Signal[] {
+  const [stepTimeframe, ...higherTimeframes] = sortTimeframes(Object.keys(seriesByTimeframe));
+  const stepKlines = seriesByTimeframe[stepTimeframe];
+  const signals: Signal[] = [];
+
+  for (let i = 0; i < stepKlines.length; i++) {
+    const history = stepKlines.slice(0, i + 1);
+    const closeTime = stepKlines[i].timestamp + TIMEFRAME_TO_MS[stepTimeframe];
+
+    let context: MultiTimeframeContext | undefined;
+    if (higherTimeframes.length > 0) {
+      const visible: Record<string, KLineData[]> = { [stepTimeframe]: history };
+      for (const timeframe of higherTimeframes) {
+        const series = seriesByTimeframe[timeframe];
+        visible[timeframe] = series.slice(0, countClosedBars(series, timeframe, closeTime));
+      }
+      context = buildMultiTimeframeContext(visible, stepTimeframe);
+    }
+
+    const { signal } = strategy.detectSignal("TEST", history, params, context);
+    if (signal) {
+      signals.push(signal);
+    }
+  }
+  return signals;
+}
+
+/**
+ * 流式检测：按收盘时间推送K线，同一时刻收盘的高周期K线先于入场周期推送
+ */
+export function replayStream<T extends BaseStrategyParams>(
+  stream: StrategyStream<T>,
+  seriesByTimeframe: Record<string, KLineData[]>,
+  params: T
+): Signal[] {
+  const timeframes = sortTimeframes(Object.keys(seriesByTimeframe));
+  const [stepTimeframe, ...higherTimeframes] = timeframes;
+  const stepKlines = seriesByTimeframe[stepTimeframe];
+  const closedCounts: Record<string, number> = {};
+  const signals: Signal[] = [];
+
+  stream.init("TEST", params, timeframes);
+  for (const bar of stepKlines) {
+    const closeTime = bar.timestamp + TIMEFRAME_TO_MS[stepTimeframe];
+    for (const timeframe of higherTimeframes) {
+      const series = seriesByTimeframe[timeframe];
+      const count = countClosedBars(series, timeframe, closeTime, closedCounts[timeframe] || 0);
+      for (let j = closedCounts[timeframe] || 0; j < count; j++) {
+        stream.onBar(series[j], timeframe);
+      }
+      closedCounts[timeframe] = count;
+    }
+    signals.push(...stream.onBar(bar, stepTimeframe));
+  }
+  return signals;
+}
@@ -3,15 +3,21 @@
  * 支持策略测试功能
  */
 
-import { KLineData, Signal } from "./strategy";
+import { KLineData, MarketRegime, Signal, SignalAnnotation } from "./strategy";
+import type { RiskControlConfig } from "./execution";
 
 // 回测结果
 export interface BacktestResult {
   // 基本信息
   strategyId: string;
   strategyName: string;
+  strategyVersion?: string;
+  strategyHash?: string; // 脚本策略的代码哈希
+  presetId?: string; // 使用的参数预设
+  presetVersion?: number; // 使用的预设版本
   symbol: string;
   timeframe: string;
+  timeframes?: string[]; // 多时间框架回测使用的全部周期（从小到大，第一个为逐根推进的周期）
 
   // 时间范围
   startTime: number;
@@ -56,6 +62,12 @@ export interface BacktestResult {
   // 资金曲线
   equityCurve: EquityPoint[];
 
+  // 网格策略：按格子统计的收益
+  gridPairs?: GridPairResult[];
+
+  // 多交易对策略：按腿组合并的交易
+  legGroups?: LegGroupResult[];
+
   // 回测参数
   params: Record<string, any>;
 
@@ -73,6 +85,8 @@ export interface BacktestTrade {
   entryTime: number;
   entryPrice: number;
   entryReason: string;
+  entryRegime?: MarketRegime; // 入场时的市场状态
+  entryAnnotations?: SignalAnnotation[]; // 入场信号的图表标注（FVG、流动性、止损止盈线等）
 
   // 出场
   exitTime?: number;
@@ -92,6 +106,53 @@ export interface BacktestTrade {
   // 最大回撤（单笔）
   maxDrawdown?: number;
   maxProfit?: number;
+
+  // 网格策略：成交所在的格子序号
+  gridIndex?: number;
+
+  // DCA：已成交的安全单数量（入场价为摊平后的均价）
+  safetyOrdersFilled?: number;
+
+  // 多交易对策略：所属腿组交易（对应 LegGroupResult.id）
+  legGroupId?: string;
+}
+
+// 网格格子收益统计（相邻两个网格价格为一格）
+export interface GridPairResult {
+  index: number;
+  lowerPrice: number;
+  upperPrice: number;
+  completedTrades: number; // 完成的网格套利次数（开仓 + 平仓）
+  profit: number;          // 已实现净收益（含区间外平仓的亏损）
+}
+
+// 多腿交易（同一腿组各腿同时开平仓，收益合并计算）
+export interface LegGroupResult {
+  id: string;                    // 各腿交易的 legGroupId
+  groupId: string;               // 腿组标识（如 "ETHUSDT/BTCUSDT"）
+  direction: "long" | "short";   // 组合方向
+  symbols: string[];
+  entryTime: number;
+  exitTime: number;
+  entryReason: string;
+  exitReason: string;
+  profit: number;                // 各腿合并净收益（已扣手续费）
+}
+
+// 组合回测中单个交易对的贡献
+export interface SymbolContribution {
+  symbol: string;
+  totalTrades: number;
+  winRate: number;               // 胜率 %
+  netProfit: number;             // 已实现净收益（已扣手续费）
+  contributionPercent: number;   // 占组合净收益的比例 %（组合净收益为 0 时为 0）
+  correlationToPortfolio: number | null;  // 该交易对日收益与组合日收益的相关系数（样本不足时为 null）
+}
+
+// 各交易对日收益（已实现 + 浮动盈亏的日变化）的相关系数矩阵
+export interface CorrelationMatrix {
+  symbols: string[];
+  values: (number | null)[][];   // values[i][j] 为 symbols[i] 与 symbols[j] 的相关系数，样本不足或没有波动时为 null
 }
 
 // 资金曲线点
@@ -102,11 +163,19 @@ export interface EquityPoint {
   drawdownPercent: number;
 }
 
+// 入场成交模型（见 backtest/fillModels.ts）：信号K线收盘价 / 下一根K线开盘价 / 限价单穿价成交
+export type EntryFillModelType = "close" | "next_open" | "limit";
+
+// 出场触发模型：只看收盘价 / K线内最高最低价触及（同一根K线同时触及止损止盈时先止损）
+export type ExitFillModelType = "close" | "intrabar";
+
 // 回测配置
 export interface BacktestConfig {
   strategyId: string;
+  strategyVersion?: string; // 指定策略版本（不指定时使用注册表中的默认版本）
   symbol: string;
   timeframe: string;
+  timeframes?: string[]; // 额外的周期（与策略声明的周期合并），引擎按其中最小的周期逐根推进，高周期只暴露已收盘的K线
 
   // 时间范围
   startTime: number;
@@ -114,16 +183,22 @@ export interface BacktestConfig {
 
   // 资金管理
   initialBalance: number;
-  positionSize: number; // 仓位大小（USD或币数）
+  positionSize: number; // 仓位大小（USD或币数；多交易对策略为第一腿名义价值 USD）
   positionSizingMode: "fixed" | "percent" | "risk"; // 固定数量、百分比、风险金额
   riskPerTrade?: number; // 每笔风险金额（risk模式）
 
   // 交易成本
   commissionRate: number; // 手续费率
-  slippage: number; // 滑点（%）
+  slippage: number; // 滑点（%），作用于市价成交（入场、止损止盈、信号平仓、回测结束平仓）
+
+  // 成交模型
+  entryFill?: EntryFillModelType; // 默认 next_open
+  exitFill?: ExitFillModelType; // 默认 intrabar
 
   // 策略参数
   params: Record<string, any>;
+  presetId?: string; // 参数来自预设时记录预设ID和版本
+  presetVersion?: number;
 
   // 风控参数
   stopLossPercent?: number; // 止损百分比
@@ -137,10 +212,175 @@ export interface BacktestConfig {
   riskRewardRatio?: number; // 风险收益比
 }
 
+// 组合回测配置：多个交易对按统一时钟回放，共用一个账户余额
+// 仓位模式、手续费、成交模型等沿用单交易对配置，作用于每个交易对
+export interface PortfolioBacktestConfig extends Omit<BacktestConfig, "symbol"> {
+  symbols: string[];             // 交易对列表（同一时刻多个交易对出信号时按列表顺序处理）
+  maxOpenPositions: number;      // 最大同时持仓数
+  maxAllocationPercent?: number; // 单个交易对的最大名义价值（占当前权益 %）
+  riskControl?: Partial<RiskControlConfig>; // 实盘风控限制：单笔/总仓位上限、日亏损、回撤、每日交易次数、最小余额
+}
+
+// 组合回测结果（统计字段针对整个组合，symbol 为逗号分隔的交易对列表）
+export interface PortfolioBacktestResult extends BacktestResult {
+  symbols: string[];
+  contributions: SymbolContribution[];
+  correlation: CorrelationMatrix;
+  rejectedEntries: Record<string, number>; // 因组合限制放弃的入场次数（按原因）
+}
+
+// 参数优化搜索方式：网格遍历 / 随机采样 / 贝叶斯（TPE：按已有结果的好坏分布采样）
+export type OptimizationMode = "grid" | "random" | "bayesian";
+
+// 参数优化目标（越大越好）：净收益 / 夏普比率 / 盈利因子 / 回撤上限内的净收益
+export type OptimizationObjective = "net_profit" | "sharpe" | "profit_factor" | "max_drawdown";
+
+// 参数优化配置
+export interface OptimizationConfig {
+  base: BacktestConfig;            // 基准回测配置（未扫描的参数取 base.params）
+  params: string[];                // 扫描的参数（数字类型，取值来自 StrategyConfigItem 的 min / max / step）
+  mode: OptimizationMode;
+  objective: OptimizationObjective;
+  maxDrawdownLimit?: number;       // max_drawdown 目标的最大回撤上限（%），超过上限的组合不计分
+  iterations?: number;             // random / bayesian 的回测次数（默认 50，不超过组合总数）
+  concurrency?: number;            // 并行回测的 worker 数
+}
+
+// 单个参数的搜索范围
+export interface OptimizationParamRange {
+  key: string;
+  label: string;
+  values: number[];                // 从 min 到 max 按 step 取值
+}
+
+// 单次回测的优化结果（结果表的一行）
+export interface OptimizationRun {
+  params: Record<string, number>;  // 扫描参数的取值
+  score: number | null;            // 目标值，回测失败或超过回撤上限时为 null
+  netProfit: number;
+  sharpeRatio: number;
+  profitFactor: number;
+  maxDrawdownPercent: number;
+  totalTrades: number;
+  winRate: number;
+  resultId?: string;               // 持久化后的回测结果ID
+  error?: string;                  // 回测失败原因
+}
+
+// 结果表的指标列（也可以按扫描参数排序）
+export type OptimizationMetric =
+  | "score"
+  | "netProfit"
+  | "sharpeRatio"
+  | "profitFactor"
+  | "maxDrawdownPercent"
+  | "totalTrades"
+  | "winRate";
+
+// 两个参数的热力图：values[y][x] 为该组合（其他参数取最优）下的最佳目标值，未测试时为 null
+export interface OptimizationHeatmap {
+  xParam: string;
+  yParam: string;
+  xValues: number[];
+  yValues: number[];
+  values: (number | null)[][];
+}
+
+// 参数优化结果
+export interface OptimizationResult {
+  strategyId: string;
+  mode: OptimizationMode;
+  objective: OptimizationObjective;
+  ranges: OptimizationParamRange[];
+  totalCombinations: number;       // 搜索空间的组合总数
+  runs: OptimizationRun[];         // 按目标值从高到低排列
+  best: OptimizationRun | null;
+  heatmaps: OptimizationHeatmap[]; // 每两个扫描参数一张
+}
+
+// 前推窗口模式：滚动（样本内窗口长度固定，整体后移）/ 锚定（样本内起点固定，窗口逐步变长）
+export type WalkForwardMode = "rolling" | "anchored";
+
+// 前推分析配置
+export interface WalkForwardConfig {
+  optimization: OptimizationConfig; // 每个样本内窗口的优化配置（base 的时间范围为整个分析区间）
+  mode: WalkForwardMode;
+  inSampleDuration: number;         // 样本内窗口长度（毫秒，锚定模式为第一个窗口的长度）
+  outOfSampleDuration: number;      // 样本外窗口长度（毫秒），也是窗口每次后移的距离
+}
+
+// 单个前推窗口
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleStart: number;
+  outOfSampleEnd: number;
+  params: Record<string, number> | null; // 样本内最优参数，没有可用组合时为 null
+  inSample: OptimizationRun | null;       // 样本内最优组合的表现
+  outOfSample: OptimizationRun | null;    // 最优参数在样本外的表现
+  initialBalance: number;                 // 样本外回测的初始资金（承接上一窗口的期末权益）
+  efficiency: number | null;              // 样本外 / 样本内的日均收益率（复利折算）之比，样本内未盈利时为 null
+  error?: string;
+}
+
+// 参数在各窗口间的稳定性
+export interface ParameterStability {
+  key: string;
+  label: string;
+  values: number[];                // 各窗口选中的取值（跳过没有最优参数的窗口）
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  normalizedStd: number;           // 标准差 / 搜索范围宽度，0 表示每个窗口都选中同一取值
+  changes: number;                 // 相邻窗口取值发生变化的次数
+}
+
+// 前推分析结果
+export interface WalkForwardResult {
+  strategyId: string;
+  mode: WalkForwardMode;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  equityCurve: EquityPoint[];      // 各样本外窗口依次拼接的资金曲线
+  initialBalance: number;
+  finalBalance: number;
+  netProfit: number;
+  returnPercent: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  sharpeRatio: number;
+  totalTrades: number;
+  winRate: number;
+  efficiency: number | null;       // 前推效率：样本外日均收益率 / 样本内日均收益率（各窗口平均），样本内未盈利时为 null
+  parameterStability: ParameterStability[];
+}
+
+// 回测K线加载器（用于补齐策略声明但未提供的周期，以及多交易对策略其他腿的K线）
+export type BacktestKlineLoader = (
+  symbol: string,
+  timeframe: string,
+  startTime: number,
+  endTime: number
+) => Promise<KLineData[]>;
+
 // 回测引擎接口
 export interface BacktestEngine {
-  // 运行回测
-  run(config: BacktestConfig, klines: KLineData[]): Promise<BacktestResult>;
+  // 运行回测（多时间框架策略可额外传入各周期K线，多交易对策略可额外传入其他腿的K线）
+  run(
+    config: BacktestConfig,
+    klines: KLineData[],
+    timeframeKlines?: Record<string, KLineData[]>,
+    symbolKlines?: Record<string, KLineData[]>
+  ): Promise<BacktestResult>;
+
+  // 组合回测（klinesBySymbol 为各交易对 config.timeframe 周期的K线，timeframeKlines 按交易对提供其他周期）
+  runPortfolio(
+    config: PortfolioBacktestConfig,
+    klinesBySymbol: Record<string, KLineData[]>,
+    timeframeKlines?: Record<string, Record<string, KLineData[]>>
+  ): Promise<PortfolioBacktestResult>;
 
   // 获取回测进度（0-100）
   getProgress(): number;
@@ -5,6 +5,7 @@
 
 import { Exchange, OrderSide, PositionSide } from "./exchange";
 import { Signal } from "./strategy";
+import { GridPairResult } from "./backtest";
 
 // 交易任务状态
 export type TradeTaskStatus = "idle" | "running" | "paused" | "stopped" | "error";
@@ -42,6 +43,8 @@ export interface TradeTask {
   totalProfit: number;
   netProfit: number;
   winRate: number;
+  legGroupPnl?: number; // 多交易对策略：已平仓腿的合并盈亏（按成交均价计算，未扣手续费）
+  gridPairs?: Record<string, GridPairResult[]>; // 网格策略：各交易对按格子统计的已实现盈亏（按成交均价计算，未扣手续费）
 
   // 风控状态
   riskStatus: RiskControlStatus;
@@ -124,6 +127,12 @@ export interface SignalExecutionRecord {
   quantity: string;
   positionValue: string;
 
+  // 出场计划对应的止损止盈挂单
+  exitOrderIds?: string[];
+
+  // 多交易对策略：所属腿组（同一次开仓的各腿记录相同）
+  legGroupId?: string;
+
   // 时间戳
   timestamp: number;
 }
@@ -0,0 +1,106 @@
+/**
+ * 规则策略类型定义
+ * 用 JSON 描述的声明式策略：指标表达式 + 比较/交叉条件 + 与/或分组 + 出场规则
+ */
+
+import { StrategyMeta } from "./strategy";
+
+// 规则可用的指标
+export type RuleIndicator =
+  | "open"
+  | "high"
+  | "low"
+  | "close"
+  | "volume"
+  | "sma"
+  | "ema"
+  | "rsi"
+  | "atr"
+  | "adx"
+  | "plus_di"
+  | "minus_di"
+  | "macd"
+  | "macd_signal"
+  | "macd_histogram"
+  | "bb_upper"
+  | "bb_middle"
+  | "bb_lower"
+  | "donchian_upper"
+  | "donchian_middle"
+  | "donchian_lower"
+  | "vwap"
+  | "obv";
+
+// 指标的输入价格（均线、RSI、MACD、布林带）
+export type RulePriceSource = "open" | "high" | "low" | "close" | "volume";
+
+// 指标表达式
+export interface RuleIndicatorOperand {
+  kind: "indicator";
+  indicator: RuleIndicator;
+  period?: number;               // 周期（均线、RSI、ATR、ADX、布林带、唐奇安）
+  source?: RulePriceSource;      // 输入价格，默认收盘价
+  stdDev?: number;               // 布林带标准差倍数，默认 2
+  fastPeriod?: number;           // MACD 快线周期，默认 12
+  slowPeriod?: number;           // MACD 慢线周期，默认 26
+  signalPeriod?: number;         // MACD 信号线周期，默认 9
+  offset?: number;               // 向前偏移的K线数（0 为最新已收盘K线）
+}
+
+// 常数
+export interface RuleValueOperand {
+  kind: "value";
+  value: number;
+}
+
+export type RuleOperand = RuleIndicatorOperand | RuleValueOperand;
+
+// 比较 / 交叉运算符
+export type RuleOperator = ">" | ">=" | "<" | "<=" | "crosses_above" | "crosses_below";
+
+// 单个条件（左右两侧在同一周期上计算）
+export interface RuleCondition {
+  type: "condition";
+  timeframe?: string;            // 条件所在周期，默认入场周期
+  left: RuleOperand;
+  operator: RuleOperator;
+  right: RuleOperand;
+}
+
+// 条件分组（可嵌套）
+export interface RuleGroup {
+  type: "group";
+  logic: "and" | "or";
+  rules: RuleNode[];
+}
+
+export type RuleNode = RuleCondition | RuleGroup;
+
+// 出场规则
+export interface RuleExitConfig {
+  stopLossType: "none" | "percent" | "atr";
+  stopLossValue: number;         // 百分比或 ATR 倍数
+  takeProfitType: "none" | "percent" | "atr" | "risk_reward";
+  takeProfitValue: number;       // 百分比、ATR 倍数或盈亏比
+  atrPeriod: number;             // ATR 止损止盈使用的周期
+  signalValidBars: number;       // 信号有效K线数（0 表示不失效）
+  longExit?: RuleGroup;          // 平多条件
+  shortExit?: RuleGroup;         // 平空条件
+}
+
+// 规则集（存储在数据库中的策略内容）
+export interface RuleSet {
+  entryTimeframe: string;        // 入场周期（detectSignal 的 klines 对应的周期）
+  riskLevel: StrategyMeta["riskLevel"];
+  longEntry?: RuleGroup;         // 做多条件
+  shortEntry?: RuleGroup;        // 做空条件
+  exit: RuleExitConfig;
+}
+
+// 规则策略定义
+export interface RuleStrategyDefinition {
+  id: string;                    // 策略ID（rule_ 前缀）
+  name: string;
+  description: string;
+  rules: RuleSet;
+}
@@ -3,6 +3,8 @@
  * 用于统一管理不同的交易策略
  */
 
+import type { AlignedTimeframe } from "../utils/timeframeAligner";
+
 // K线数据结构
 export interface KLineData {
   timestamp: number;
@@ -13,6 +15,110 @@ export interface KLineData {
   volume: number;
 }
 
+// 止盈目标
+export interface TakeProfitTarget {
+  price: number;                 // 目标价格
+  sizeFraction: number;          // 平仓比例（占初始仓位，0-1）
+  label?: string;                // 目标名称（如 "TP1"）
+}
+
+// 出场计划（由策略根据结构位给出）
+export interface ExitPlan {
+  stopLoss: number;              // 止损价格
+  takeProfits: TakeProfitTarget[];  // 止盈目标（按触发顺序排列）
+  invalidationTime?: number;     // 信号失效时间（超过该时间未入场则放弃）
+}
+
+// 波动率单位仓位：数量 = 权益 × riskPercent% / riskDistance
+export interface UnitSizing {
+  riskPercent: number;   // 每个单位承担的权益百分比
+  riskDistance: number;  // 每单位数量对应的价格波动（如 ATR）
+  maxUnits?: number;     // 最大持仓单位数（开仓算一个单位，持仓已达该数量时忽略加仓信号）
+}
+
+// DCA 安全单（价格逆向运行到触发价时加仓）
+export interface SafetyOrder {
+  price: number;                 // 触发价格
+  quantity: number;              // 数量
+}
+
+// DCA 阶梯：基础单成交后按价格偏离挂安全单，止盈按持仓均价计算
+export interface DcaPlan {
+  baseQuantity: number;          // 基础单数量
+  safetyOrders: SafetyOrder[];   // 安全单（按触发顺序，价格逐步远离基础单）
+  takeProfitPercent: number;     // 止盈：相对持仓均价的百分比
+  stopLoss?: number;             // 止损价（可选，整个阶梯共用）
+}
+
+// 网格间距：等差 / 等比
+export type GridSpacing = "arithmetic" | "geometric";
+
+// 网格计划（网格策略提供，引擎以挂单网格模式运行）
+export interface GridPlan {
+  lowerPrice: number;            // 网格下边界
+  upperPrice: number;            // 网格上边界
+  levels: number[];              // 网格价格（从低到高，包含上下边界）
+  quantityPerGrid: number;       // 每格挂单数量
+}
+
+// 市场状态（趋势 / 震荡 / 高波动）
+export type MarketRegime = "trending" | "ranging" | "high_volatility";
+
+// 信号标注（用于图表叠加层），时间为毫秒时间戳
+// fvg：公允价值缺口区域；orderBlock：订单块区域；liquidity：流动性水平线；sweep：流动性扫荡标记；
+// displacement：位移区间；level：入场/止损/止盈价位线
+export type SignalAnnotation =
+  | {
+      type: "fvg";
+      direction: "bullish" | "bearish";
+      top: number;
+      bottom: number;
+      startTime: number;
+      endTime: number;
+      label?: string;
+    }
+  | {
+      type: "orderBlock";
+      direction: "bullish" | "bearish";
+      top: number;
+      bottom: number;
+      startTime: number;
+      endTime: number;
+      label?: string;
+    }
+  | {
+      type: "liquidity";
+      side: "high" | "low";
+      price: number;
+      startTime: number;
+      endTime: number;
+      label?: string;
+    }
+  | {
+      type: "sweep";
+      side: "high" | "low";          // 被扫荡的一侧
+      price: number;
+      time: number;
+      label?: string;
+    }
+  | {
+      type: "displacement";
+      direction: "bullish" | "bearish";
+      high: number;
+      low: number;
+      startTime: number;
+      endTime: number;
+      label?: string;
+    }
+  | {
+      type: "level";
+      role: "entry" | "stopLoss" | "takeProfit";
+      price: number;
+      startTime: number;
+      endTime: number;
+      label?: string;
+    };
+
 // 交易信号结构
 export interface Signal {
   symbol: string;
@@ -21,15 +127,54 @@ export interface Signal {
   reason: string;
   confidence: number;
   entryPrice: number;
+  exitPlan?: ExitPlan;
+  regime?: MarketRegime;  // 信号产生时的市场状态
+  action?: "open" | "add" | "close";  // open：开仓（默认，已有同向持仓时忽略）；add：对已有同向持仓加仓；close：平掉同向持仓
+  openIfFlat?: boolean;  // 加仓信号在没有同向持仓时按开仓处理（默认忽略）
+  unitSizing?: UnitSizing;  // 按波动率单位计算仓位（不提供时使用引擎的仓位配置）
+  dcaPlan?: DcaPlan;  // DCA 阶梯（提供时按基础单开仓，引擎负责安全单和均价止盈）
+  annotations?: SignalAnnotation[];  // 信号依据的图表标注（回测交易和信号复盘时绘制）
   executed?: boolean;
   notExecutedReason?: string;
 }
 
+// 多腿信号中的一条腿（entryPrice 为该交易对的参考价）
+export interface LegSignal extends Signal {
+  weight: number;  // 名义价值权重（相对第一条腿，第一条腿为 1）
+}
+
+// 多腿联动信号（如配对交易）：各腿同时开仓、同时平仓，盈亏按腿组合并计算
+export interface LinkedSignal {
+  groupId: string;               // 腿组标识（同一组合的开平仓使用相同ID，如 "ETHUSDT/BTCUSDT"）
+  direction: "long" | "short";   // 组合方向（配对交易：做多价差 = 做多第一腿、做空第二腿）
+  action: "open" | "close";      // open：开仓（已有同向腿组时忽略，反向时先平仓）；close：平掉该腿组（不区分方向，legs 可为空）
+  time: number;
+  reason: string;
+  confidence: number;
+  legs: LegSignal[];
+}
+
+// 多腿信号检测结果
+export interface LinkedSignalDetectionResult {
+  signal: LinkedSignal | null;
+  reason: string;
+  details: string;
+}
+
+// 多时间框架上下文（策略声明了多个周期时由调用方提供）
+export interface MultiTimeframeContext {
+  primaryTimeframe: string;                // detectSignal 的 klines 参数对应的周期
+  timeframes: string[];                    // 所有可用周期（从小到大排序）
+  klines: Record<string, KLineData[]>;     // 周期 -> K线数据
+  readonly aligned: AlignedTimeframe[];    // 低/中/主周期的对齐结果（按需计算）
+}
+
 // 交易信号检测结果
 export interface SignalDetectionResult {
   signal: Signal | null;
   reason: string;
   details: string;
+  annotations?: SignalAnnotation[];  // 结构化标注（没有信号时也可以提供，说明未入场的原因）
 }
 
 // 策略参数接口（所有策略的基类）
@@ -46,7 +191,9 @@ export interface StrategyMeta {
   category: string;              // 策略分类（如"趋势跟踪"、"均值回归"等）
   author?: string;               // 作者
   timeframe: string[];            // 支持的时间周期
+  requiredTimeframes?: string[];  // 检测信号需要同时提供的周期（多时间框架策略）
   riskLevel: "low" | "medium" | "high";  // 风险等级
+  codeHash?: string;              // 脚本策略的代码哈希（SHA-256），用于追溯回测使用的脚本版本
 }
 
 // 策略配置项（用于UI渲染）
@@ -75,16 +222,69 @@ export interface TradingStrategy<T extends BaseStrategyParams = BaseStrategyPara
   getConfigItems(): StrategyConfigItem[];
 
   // 检测交易信号
+  // klines 为入场周期的K线；多时间框架策略可从 context 中读取其他周期
   // 返回：检测到的信号或null，以及原因和详细信息
   detectSignal(
     symbol: string,
     klines: KLineData[],
-    params: T
+    params: T,
+    context?: MultiTimeframeContext
   ): SignalDetectionResult;
 
+  // 根据参数返回需要的周期（可选，未实现时使用 meta.requiredTimeframes）
+  getRequiredTimeframes?(params: T): string[];
+
   // 验证参数（可选）
   validateParams?(params: T): { valid: boolean; errors: string[] };
+
+  // 当前的方向倾向（可选，如趋势方向；组合策略在子策略没有入场信号时用它作为投票）
+  getBias?(
+    symbol: string,
+    klines: KLineData[],
+    params: T,
+    context?: MultiTimeframeContext
+  ): "long" | "short" | null;
+
+  // 创建流式检测实例（可选，实现后回测和实盘逐根K线增量计算，未实现时退回 detectSignal）
+  createStream?(): StrategyStream<T>;
+
+  // 生成网格计划（可选，实现后回测和实盘以挂单网格模式运行，不再使用 detectSignal 的信号）
+  // klines 为网格启动前的K线，返回 null 表示当前不启动网格
+  getGridPlan?(symbol: string, klines: KLineData[], params: T): GridPlan | null;
+
+  // 多交易对策略（可选，需同时实现 getLegSymbols 和 detectLinkedSignal）
+  // 实现后回测和实盘按腿组运行：各腿同时开平仓、合并计算盈亏，不再使用 detectSignal 的信号
+  getLegSymbols?(params: T): string[];
+
+  // 检测多腿信号：klinesBySymbol 为各腿按时间对齐的K线（长度相同，最后一根为当前K线）
+  detectLinkedSignal?(
+    klinesBySymbol: Record<string, KLineData[]>,
+    params: T
+  ): LinkedSignalDetectionResult;
+
+  // 多腿检测需要的K线数（可选，实现后回测每根K线只传入最近这么多根对齐K线，未实现时传入全部历史）
+  getLinkedLookback?(params: T): number;
+
+  // 释放策略占用的资源（可选，如脚本沙箱的 Worker），注销或被新版本替换时调用
+  dispose?(): void;
+}
+
+// 流式检测的可序列化状态
+export type StrategyStreamState = Record<string, unknown>;
+
+// 流式策略实例（每个交易对一个实例，持有增量计算状态）
+export interface StrategyStream<T extends BaseStrategyParams = BaseStrategyParams> {
+  // 初始化：timeframes 为需要推送的周期，第一个为入场周期
+  init(symbol: string, params: T, timeframes: string[]): void;
+
+  // 推送一根已收盘的K线，返回本根K线产生的信号
+  // 多时间框架时，同一时刻收盘的高周期K线应先于入场周期推送
+  onBar(bar: KLineData, timeframe: string): Signal[];
+
+  // 导出当前状态（用于暂停/恢复、断点续跑）
+  snapshot(): StrategyStreamState;
+
+  // 从快照恢复状态
+  restore(state: StrategyStreamState): void;
 }
 
-// 策略注册表类型
-export type StrategyRegistry = Map<string, TradingStrategy>;
@@ -0,0 +1,84 @@
+/**
+ * DCA 工具
+ * 生成安全单阶梯，以及回测引擎和实盘引擎共用的阶梯资金与止盈计算
+ */
+
+import { DcaPlan, SafetyOrder } from "../types/strategy";
+
+// 安全单阶梯配置
+export interface SafetyOrderLadderConfig {
+  direction: "long" | "short";
+  entryPrice: number;              // 基础单价格
+  safetyOrderSize: number;         // 第一张安全单金额（USDT）
+  deviationPercent: number;        // 第一张安全单相对基础单的价格偏离（%）
+  stepScale: number;               // 每张安全单偏离间距的放大倍数
+  volumeScale: number;             // 每张安全单金额的放大倍数
+  maxSafetyOrders: number;
+  maxCapital: number;              // 阶梯可用资金（USDT，不含基础单）
+}
+
+/**
+ * 生成安全单阶梯
+ * 第 n 张安全单的偏离为 deviation × (1 + stepScale + ... + stepScale^(n-1))，
+ * 金额为 safetyOrderSize × volumeScale^(n-1)，超出可用资金或偏离达到 100% 时停止
+ */
+export function buildSafetyOrders(config: SafetyOrderLadderConfig): SafetyOrder[] {
+  const orders: SafetyOrder[] = [];
+  const sign = config.direction === "long" ? -1 : 1;
+  let deviation = 0;
+  let step = config.deviationPercent;
+  let size = config.safetyOrderSize;
+  let committed = 0;
+
+  for (let i = 0; i < config.maxSafetyOrders; i++) {
+    deviation += step;
+    if (deviation >= 100 || committed + size > config.maxCapital) {
+      break;
+    }
+
+    const price = config.entryPrice * (1 + (sign * deviation) / 100);
+    orders.push({ price, quantity: size / price });
+    committed += size;
+
+    step *= config.stepScale;
+    size *= config.volumeScale;
+  }
+
+  return orders;
+}
+
+/**
+ * 整个阶梯（基础单 + 全部安全单）的名义价值
+ */
+export function getDcaNotional(plan: DcaPlan, entryPrice: number): number {
+  return plan.safetyOrders.reduce(
+    (sum, order) => sum + order.price * order.quantity,
+    plan.baseQuantity * entryPrice
+  );
+}
+
+/**
+ * 按比例缩放整个阶梯的数量（用于风控上限）
+ */
+export function scaleDcaPlan(plan: DcaPlan, factor: number): DcaPlan {
+  return {
+    ...plan,
+    baseQuantity: plan.baseQuantity * factor,
+    safetyOrders: plan.safetyOrders.map((order) => ({
+      price: order.price,
+      quantity: order.quantity * factor,
+    })),
+  };
+}
+
+/**
+ * 根据持仓均价计算止盈价
+ */
+export function getDcaTakeProfitPrice(
+  direction: "long" | "short",
+  averagePrice: number,
+  takeProfitPercent: number
+): number {
+  const sign = direction === "long" ? 1 : -1;
+  return averagePrice * (1 + (sign * takeProfitPercent) / 100);
+}
@@ -0,0 +1,91 @@
+/**
+ * 出场计划工具
+ * 统一处理信号自带的止损止盈，以及未提供出场计划时的百分比兜底
+ */
+
+import { ExitPlan, Signal } from "../types/strategy";
+
+/**
+ * 按百分比生成出场计划（用于策略未提供结构性止损止盈时）
+ *
+ * @param direction 交易方向
+ * @param entryPrice 入场价格
+ * @param stopLossPercent 止损百分比
+ * @param takeProfitPercent 止盈百分比（不提供则没有止盈目标）
+ * @returns 出场计划
+ */
+export function createPercentExitPlan(
+  direction: "long" | "short",
+  entryPrice: number,
+  stopLossPercent: number,
+  takeProfitPercent?: number
+): ExitPlan {
+  const sign = direction === "long" ? 1 : -1;
+
+  return {
+    stopLoss: entryPrice * (1 - sign * stopLossPercent / 100),
+    takeProfits: takeProfitPercent
+      ? [
+          {
+            price: entryPrice * (1 + sign * takeProfitPercent / 100),
+            sizeFraction: 1,
+            label: "TP",
+          },
+        ]
+      : [],
+  };
+}
+
+/**
+ * 获取信号的出场计划，信号未提供时使用百分比兜底
+ */
+export function resolveExitPlan(
+  signal: Signal,
+  fallbackStopLossPercent?: number,
+  fallbackTakeProfitPercent?: number
+): ExitPlan | null {
+  if (signal.exitPlan) {
+    return signal.exitPlan;
+  }
+
+  if (!fallbackStopLossPercent) {
+    return null;
+  }
+
+  return createPercentExitPlan(
+    signal.direction,
+    signal.entryPrice,
+    fallbackStopLossPercent,
+    fallbackTakeProfitPercent
+  );
+}
+
+/**
+ * 检查信号是否已过失效时间
+ */
+export function isSignalExpired(signal: Signal, now: number): boolean {
+  const invalidationTime = signal.exitPlan?.invalidationTime;
+  return invalidationTime !== undefined && now > invalidationTime;
+}
+
+/**
+ * 检查止损是否被触发
+ */
+export function isStopLossHit(
+  direction: "long" | "short",
+  price: number,
+  stopLoss: number
+): boolean {
+  return direction === "long" ? price <= stopLoss : price >= stopLoss;
+}
+
+/**
+ * 检查止盈目标是否被触发
+ */
+export function isTargetHit(
+  direction: "long" | "short",
+  price: number,
+  target: number
+): boolean {
+  return direction === "long" ? price >= target : price <= target;
+}
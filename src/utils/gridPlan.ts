@@ -0,0 +1,108 @@
+/**
+ * 网格工具
+ * 回测引擎和实盘引擎共用的网格价格计算与格子状态流转
+ *
+ * 相邻两个网格价格组成一格：每格只挂一张单，开仓单成交后在另一侧挂平仓单，
+ * 平仓单成交即完成一次网格套利，格子回到等待开仓的状态
+ */
+
+import { GridPlan, GridSpacing } from "../types/strategy";
+
+// 单个格子的运行状态
+export interface GridPairState {
+  index: number;                 // 格子序号（从下往上）
+  lowerPrice: number;
+  upperPrice: number;
+  entrySide: "buy" | "sell";     // 开仓方向：价格在格子上方时等待买入，在下方时等待卖出
+  holding: boolean;              // 开仓单是否已成交
+  entryTime?: number;
+  entryPrice?: number;
+}
+
+// 格子当前应挂的限价单
+export interface GridOrder {
+  side: "buy" | "sell";
+  price: number;
+  reduceOnly: boolean;           // 平仓单
+}
+
+/**
+ * 计算网格价格（从低到高，包含上下边界）
+ *
+ * @param gridCount 格子数量，价格数量为 gridCount + 1
+ * @param spacing 等差（每格价差相同）或等比（每格涨幅相同）
+ */
+export function buildGridLevels(
+  lowerPrice: number,
+  upperPrice: number,
+  gridCount: number,
+  spacing: GridSpacing
+): number[] {
+  if (!(lowerPrice > 0) || !(upperPrice > lowerPrice) || gridCount < 1) {
+    throw new Error(`Invalid grid range: ${lowerPrice} - ${upperPrice} (${gridCount} grids)`);
+  }
+
+  const levels: number[] = [];
+  if (spacing === "geometric") {
+    const ratio = Math.pow(upperPrice / lowerPrice, 1 / gridCount);
+    for (let i = 0; i <= gridCount; i++) {
+      levels.push(lowerPrice * Math.pow(ratio, i));
+    }
+  } else {
+    const step = (upperPrice - lowerPrice) / gridCount;
+    for (let i = 0; i <= gridCount; i++) {
+      levels.push(lowerPrice + step * i);
+    }
+  }
+
+  // 消除浮点误差，保证边界与配置一致
+  levels[gridCount] = upperPrice;
+  return levels;
+}
+
+/**
+ * 按当前价格初始化格子：价格上方的格子等待卖出开仓，其余格子等待买入开仓
+ */
+export function createGridPairs(plan: GridPlan, price: number): GridPairState[] {
+  const pairs: GridPairState[] = [];
+  for (let i = 0; i < plan.levels.length - 1; i++) {
+    pairs.push({
+      index: i,
+      lowerPrice: plan.levels[i],
+      upperPrice: plan.levels[i + 1],
+      entrySide: plan.levels[i] > price ? "sell" : "buy",
+      holding: false,
+    });
+  }
+  return pairs;
+}
+
+/**
+ * 获取格子当前应挂的限价单：买单挂在下沿，卖单挂在上沿
+ */
+export function getGridOrder(pair: GridPairState): GridOrder {
+  const side = pair.holding === (pair.entrySide === "buy") ? "sell" : "buy";
+
+  return {
+    side,
+    price: side === "buy" ? pair.lowerPrice : pair.upperPrice,
+    reduceOnly: pair.holding,
+  };
+}
+
+/**
+ * 价格是否已离开网格区间（网格停止运行）
+ */
+export function isOutsideGrid(plan: GridPlan, price: number): boolean {
+  return price > plan.upperPrice || price < plan.lowerPrice;
+}
+
+/**
+ * 一次网格套利（开仓 + 平仓）的毛利润
+ */
+export function getGridPairProfit(pair: GridPairState, exitPrice: number, quantity: number): number {
+  const entryPrice = pair.entryPrice ?? (pair.entrySide === "buy" ? pair.lowerPrice : pair.upperPrice);
+  return pair.entrySide === "buy"
+    ? (exitPrice - entryPrice) * quantity
+    : (entryPrice - exitPrice) * quantity;
+}
@@ -0,0 +1,84 @@
+/**
+ * 多腿工具
+ * 回测引擎和实盘引擎共用的腿组K线对齐、各腿数量分配和合并盈亏计算
+ *
+ * 腿组的仓位以"单位名义价值"表示：第 i 条腿的名义价值 = 单位名义价值 × weight_i，
+ * 风控上限作用于名义价值最大的一条腿
+ */
+
+import { KLineData, LinkedSignal, TradingStrategy } from "../types/strategy";
+
+// 多交易对策略（已确认实现了多腿接口）
+export type LinkedStrategy = TradingStrategy &
+  Required<Pick<TradingStrategy, "getLegSymbols" | "detectLinkedSignal">>;
+
+// 腿组中已成交的一条腿
+export interface LegPosition {
+  symbol: string;
+  direction: "long" | "short";
+  entryPrice: number;
+  quantity: number;
+}
+
+/**
+ * 策略是否以多腿模式运行
+ */
+export function isLinkedStrategy(strategy: TradingStrategy): strategy is LinkedStrategy {
+  return !!strategy.getLegSymbols && !!strategy.detectLinkedSignal;
+}
+
+/**
+ * 按时间对齐各腿K线：只保留所有交易对都有的时间点，结果按时间升序且长度相同
+ */
+export function alignLegKlines(
+  klinesBySymbol: Record<string, KLineData[]>,
+  symbols: string[]
+): Record<string, KLineData[]> {
+  const counts = new Map<number, number>();
+  for (const symbol of symbols) {
+    for (const kline of klinesBySymbol[symbol] || []) {
+      counts.set(kline.timestamp, (counts.get(kline.timestamp) || 0) + 1);
+    }
+  }
+
+  const result: Record<string, KLineData[]> = {};
+  for (const symbol of symbols) {
+    result[symbol] = (klinesBySymbol[symbol] || [])
+      .filter((kline) => counts.get(kline.timestamp) === symbols.length)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+  return result;
+}
+
+/**
+ * 单位名义价值上限：保证名义价值最大的一条腿不超过 maxLegNotional
+ */
+export function capLegNotional(signal: LinkedSignal, notional: number, maxLegNotional: number): number {
+  const maxWeight = Math.max(...signal.legs.map((leg) => leg.weight));
+  return maxWeight > 0 ? Math.min(notional, maxLegNotional / maxWeight) : 0;
+}
+
+/**
+ * 各腿数量（按腿的参考价把名义价值换算为数量）
+ */
+export function getLegQuantities(signal: LinkedSignal, notional: number): number[] {
+  return signal.legs.map((leg) =>
+    leg.entryPrice > 0 ? (notional * leg.weight) / leg.entryPrice : 0
+  );
+}
+
+/**
+ * 单条腿的盈亏（未扣手续费）
+ */
+export function getLegPnl(leg: LegPosition, price: number): number {
+  return leg.direction === "long"
+    ? (price - leg.entryPrice) * leg.quantity
+    : (leg.entryPrice - price) * leg.quantity;
+}
+
+/**
+ * 腿组合并盈亏（未扣手续费），缺少价格的腿按入场价计算
+ */
+export function getLinkedPnl(legs: LegPosition[], prices: Record<string, number>): number {
+  return legs.reduce((sum, leg) => sum + getLegPnl(leg, prices[leg.symbol] ?? leg.entryPrice), 0);
+}
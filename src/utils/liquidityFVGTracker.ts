@@ -4,6 +4,7 @@
  */
 
 import { KLineData } from "../types/strategy";
+import { ATR } from "../indicators";
 
 /**
  * 流动性水平结构
@@ -62,6 +63,182 @@ export interface Displacement {
   fvgs: FVG[];
 }
 
+/**
+ * 摆动高低点（左右各 swingLength 根K线确认）
+ */
+export interface SwingPoint {
+  type: "high" | "low";
+  price: number;
+  timestamp: number;
+  index: number;
+  confirmedIndex: number; // 确认时的K线索引（index + swingLength）
+  brokenAt?: number;      // 被收盘价突破的时间戳
+}
+
+/**
+ * 结构突破事件
+ * BOS：顺势突破前一摆动点；CHoCH：逆势突破，趋势发生转变
+ */
+export interface StructureBreak {
+  type: "bos" | "choch";
+  direction: "bullish" | "bearish";
+  price: number;          // 被突破的摆动点价格
+  swing: SwingPoint;
+  timestamp: number;
+  index: number;
+}
+
+/**
+ * 订单块
+ * 结构突破前最后一根反向K线的区间；收盘价反向穿越后转为突破块（breaker），支撑阻力角色互换
+ */
+export interface OrderBlock {
+  id: string;
+  type: "bullish" | "bearish"; // 形成时的方向
+  top: number;
+  bottom: number;
+  timestamp: number;
+  index: number;
+  structureBreak: StructureBreak; // 形成该订单块的结构突破
+  mitigated: boolean;     // 价格是否已回到区间内
+  mitigatedAt?: number;
+  breaker: boolean;       // 是否已转为突破块（作用方向与 type 相反）
+  brokenAt?: number;
+  invalidated: boolean;   // 突破块再次被反向穿越，失效
+}
+
+/**
+ * 市场结构跟踪器：逐根K线确认摆动点并识别结构突破（BOS / CHoCH）
+ * 摆动点在右侧 swingLength 根K线收盘后才确认，不使用未来数据；只保留确认摆动点所需的最近 2 * swingLength + 1 根K线
+ */
+export class MarketStructureTracker {
+  private window: KLineData[] = [];
+  private count = 0;
+  private swingPoints: SwingPoint[] = [];
+  private lastSwingHigh: SwingPoint | null = null; // 最近的摆动高点（结构突破的参考位）
+  private lastSwingLow: SwingPoint | null = null;
+  private trend: "bullish" | "bearish" | null = null; // 由最近一次结构突破决定
+  private structureBreaks: StructureBreak[] = [];
+
+  /**
+   * @param swingLength 摆动点左右两侧需要的K线数量
+   */
+  constructor(private swingLength: number = 5) {}
+
+  /**
+   * 推送一根已收盘K线，返回本根K线产生的结构突破
+   *
+   * @param detect 为 false 时只记录K线，不确认摆动点也不检查突破
+   */
+  public update(kline: KLineData, detect: boolean = true): StructureBreak[] {
+    const index = this.count++;
+    this.window.push(kline);
+    if (this.window.length > 2 * this.swingLength + 1) {
+      this.window.shift();
+    }
+    if (!detect) {
+      return [];
+    }
+
+    // 1. 确认 swingLength 根之前的摆动点（窗口恰好覆盖摆动点左右各 swingLength 根）
+    const pivotIndex = index - this.swingLength;
+    if (pivotIndex >= this.swingLength) {
+      const pivotOffset = this.window.length - 1 - this.swingLength;
+      const pivot = this.window[pivotOffset];
+      let isHigh = true;
+      let isLow = true;
+
+      for (let j = 0; j < this.window.length; j++) {
+        if (j === pivotOffset) continue;
+        if (this.window[j].high >= pivot.high) isHigh = false;
+        if (this.window[j].low <= pivot.low) isLow = false;
+      }
+
+      if (isHigh) {
+        this.lastSwingHigh = {
+          type: "high",
+          price: pivot.high,
+          timestamp: pivot.timestamp,
+          index: pivotIndex,
+          confirmedIndex: index,
+        };
+        this.swingPoints.push(this.lastSwingHigh);
+      }
+
+      if (isLow) {
+        this.lastSwingLow = {
+          type: "low",
+          price: pivot.low,
+          timestamp: pivot.timestamp,
+          index: pivotIndex,
+          confirmedIndex: index,
+        };
+        this.swingPoints.push(this.lastSwingLow);
+      }
+    }
+
+    // 2. 收盘价突破最近的摆动点
+    const breaks: StructureBreak[] = [];
+    if (this.lastSwingHigh && !this.lastSwingHigh.brokenAt && kline.close > this.lastSwingHigh.price) {
+      breaks.push(this.recordStructureBreak(kline, index, this.lastSwingHigh, "bullish"));
+    }
+    if (this.lastSwingLow && !this.lastSwingLow.brokenAt && kline.close < this.lastSwingLow.price) {
+      breaks.push(this.recordStructureBreak(kline, index, this.lastSwingLow, "bearish"));
+    }
+    return breaks;
+  }
+
+  /**
+   * 最近的摆动高点 / 低点
+   */
+  public getLastSwing(type: "high" | "low"): SwingPoint | null {
+    return type === "high" ? this.lastSwingHigh : this.lastSwingLow;
+  }
+
+  public getSwingPoints(count: number = 10): SwingPoint[] {
+    return this.swingPoints.slice(-count);
+  }
+
+  public getRecentStructureBreaks(count: number = 5): StructureBreak[] {
+    return this.structureBreaks.slice(-count);
+  }
+
+  public getTrend(): "bullish" | "bearish" | null {
+    return this.trend;
+  }
+
+  public reset(): void {
+    this.window = [];
+    this.count = 0;
+    this.swingPoints = [];
+    this.lastSwingHigh = null;
+    this.lastSwingLow = null;
+    this.trend = null;
+    this.structureBreaks = [];
+  }
+
+  private recordStructureBreak(
+    kline: KLineData,
+    index: number,
+    swing: SwingPoint,
+    direction: "bullish" | "bearish"
+  ): StructureBreak {
+    swing.brokenAt = kline.timestamp;
+
+    const structureBreak: StructureBreak = {
+      type: this.trend !== null && this.trend !== direction ? "choch" : "bos",
+      direction,
+      price: swing.price,
+      swing,
+      timestamp: kline.timestamp,
+      index,
+    };
+    this.structureBreaks.push(structureBreak);
+    this.trend = direction;
+    return structureBreak;
+  }
+}
+
 /**
  * 流动性和 FVG 跟踪器
  */
@@ -70,14 +247,23 @@ export class LiquidityFVGTracker {
   private activeFVGs: Map<string, FVG>; // 活跃的 FVG
   private sweeps: LiquiditySweep[];
   private displacements: Displacement[];
+  private structure: MarketStructureTracker;
+  private orderBlocks: Map<string, OrderBlock>;
   private lastProcessedIndex: number;
+  private atr: ATR;
 
-  constructor() {
+  /**
+   * @param swingLength 摆动点左右两侧需要的K线数量
+   */
+  constructor(swingLength: number = 5) {
     this.liquidityLevels = new Map();
     this.activeFVGs = new Map();
     this.sweeps = [];
     this.displacements = [];
+    this.structure = new MarketStructureTracker(swingLength);
+    this.orderBlocks = new Map();
     this.lastProcessedIndex = -1;
+    this.atr = new ATR(14);
   }
 
   /**
@@ -90,6 +276,7 @@ export class LiquidityFVGTracker {
   public process(klines: KLineData[], lookback: number, tolerance: number): void {
     // 只处理新的K线
     for (let i = this.lastProcessedIndex + 1; i < klines.length; i++) {
+      this.atr.update(klines[i]);
       this.processBar(klines, i, lookback, tolerance);
     }
     this.lastProcessedIndex = klines.length - 1;
@@ -107,9 +294,11 @@ export class LiquidityFVGTracker {
     lookback: number,
     tolerance: number
   ): void {
-    if (index < lookback) return;
-
-    const kline = klines[index];
+    if (index < lookback) {
+      // 结构跟踪器仍需记录K线，用于之后确认摆动点
+      this.structure.update(klines[index], false);
+      return;
+    }
 
     // 1. 识别新的流动性水平
     this.identifyLiquidityLevels(klines, index, lookback);
@@ -122,6 +311,87 @@ export class LiquidityFVGTracker {
 
     // 4. 检测位移
     this.detectDisplacement(klines, index);
+
+    // 5. 识别摆动点、结构突破和订单块
+    this.updateStructure(klines, index);
+  }
+
+  /**
+   * 更新市场结构，并以每次结构突破前最后一根反向K线作为订单块
+   */
+  private updateStructure(klines: KLineData[], index: number): void {
+    const current = klines[index];
+
+    // 突破时的反向摆动点即本轮走势的起点（记录突破不会改变摆动点）
+    for (const structureBreak of this.structure.update(current)) {
+      const origin = this.structure.getLastSwing(structureBreak.direction === "bullish" ? "low" : "high");
+      this.addOrderBlock(klines, index, structureBreak, origin);
+    }
+
+    this.updateOrderBlocks(current);
+  }
+
+  /**
+   * 从突破K线向前查找，直到本轮走势的起点（反向摆动点）
+   */
+  private addOrderBlock(
+    klines: KLineData[],
+    index: number,
+    structureBreak: StructureBreak,
+    origin: SwingPoint | null
+  ): void {
+    const direction = structureBreak.direction;
+    const searchStart = Math.min(origin?.index ?? structureBreak.swing.index, structureBreak.swing.index);
+    for (let i = index - 1; i >= searchStart; i--) {
+      const k = klines[i];
+      const isOpposite = direction === "bullish" ? k.close < k.open : k.close > k.open;
+      if (!isOpposite) continue;
+
+      const orderBlock: OrderBlock = {
+        id: `${k.timestamp}_${direction}`,
+        type: direction,
+        top: k.high,
+        bottom: k.low,
+        timestamp: k.timestamp,
+        index: i,
+        structureBreak,
+        mitigated: false,
+        breaker: false,
+        invalidated: false,
+      };
+      this.orderBlocks.set(orderBlock.id, orderBlock);
+      break;
+    }
+  }
+
+  /**
+   * 更新订单块：回到区间内视为已回踩，收盘价反向穿越后转为突破块，突破块再被穿越则失效
+   */
+  private updateOrderBlocks(current: KLineData): void {
+    for (const block of this.orderBlocks.values()) {
+      if (block.invalidated || block.timestamp >= current.timestamp) continue;
+
+      // 当前作为支撑（看涨订单块、看跌突破块）还是阻力
+      const actsAsSupport = (block.type === "bullish") !== block.breaker;
+
+      if (!block.breaker && !block.mitigated) {
+        const touched = actsAsSupport ? current.low <= block.top : current.high >= block.bottom;
+        if (touched) {
+          block.mitigated = true;
+          block.mitigatedAt = current.timestamp;
+        }
+      }
+
+      const broken = actsAsSupport ? current.close < block.bottom : current.close > block.top;
+      if (!broken) continue;
+
+      if (block.breaker) {
+        block.invalidated = true;
+      } else {
+        block.breaker = true;
+        block.brokenAt = current.timestamp;
+      }
+    }
   }
 
   /**
@@ -310,7 +580,7 @@ export class LiquidityFVGTracker {
     if (index < startIndex + 3) return;
 
     // 计算ATR
-    const atr = this.calculateATR(klines, 14, index);
+    const atr = this.atr.value || 0;
     const threshold = atr * 1.5;
 
     // 检查连续同向K线
@@ -421,29 +691,6 @@ export class LiquidityFVGTracker {
     }
   }
 
-  /**
-   * 计算 ATR
-   */
-  private calculateATR(klines: KLineData[], period: number, endIndex: number): number {
-    if (endIndex < period) return 0;
-
-    let sum = 0;
-    for (let i = endIndex - period + 1; i <= endIndex; i++) {
-      const high = klines[i].high;
-      const low = klines[i].low;
-      const prevClose = i > 0 ? klines[i - 1].close : klines[i].open;
-
-      const tr = Math.max(
-        high - low,
-        Math.abs(high - prevClose),
-        Math.abs(low - prevClose)
-      );
-      sum += tr;
-    }
-
-    return sum / period;
-  }
-
   /**
    * 获取所有活跃的流动性
    */
@@ -474,6 +721,41 @@ export class LiquidityFVGTracker {
     return this.displacements.slice(-count);
   }
 
+  /**
+   * 获取最近确认的摆动点
+   */
+  public getSwingPoints(count: number = 10): SwingPoint[] {
+    return this.structure.getSwingPoints(count);
+  }
+
+  /**
+   * 获取最近的结构突破事件（BOS / CHoCH）
+   */
+  public getRecentStructureBreaks(count: number = 5): StructureBreak[] {
+    return this.structure.getRecentStructureBreaks(count);
+  }
+
+  /**
+   * 获取当前结构趋势（尚未出现结构突破时为 null）
+   */
+  public getTrend(): "bullish" | "bearish" | null {
+    return this.structure.getTrend();
+  }
+
+  /**
+   * 获取有效的订单块（未被反向穿越）
+   */
+  public getActiveOrderBlocks(): OrderBlock[] {
+    return Array.from(this.orderBlocks.values()).filter(block => !block.breaker && !block.invalidated);
+  }
+
+  /**
+   * 获取有效的突破块（订单块被反向穿越后转换而来）
+   */
+  public getBreakerBlocks(): OrderBlock[] {
+    return Array.from(this.orderBlocks.values()).filter(block => block.breaker && !block.invalidated);
+  }
+
   /**
    * 检查价格是否在某个 FVG 的入场区域
    */
@@ -528,7 +810,10 @@ export class LiquidityFVGTracker {
     this.activeFVGs.clear();
     this.sweeps = [];
     this.displacements = [];
+    this.structure.reset();
+    this.orderBlocks.clear();
     this.lastProcessedIndex = -1;
+    this.atr.reset();
   }
 
   /**
@@ -547,8 +832,14 @@ export class LiquidityFVGTracker {
       totalSweeps: this.sweeps.length,
       confirmedSweeps: this.sweeps.filter(s => s.confirmed).length,
       totalDisplacements: this.displacements.length,
+      trend: this.structure.getTrend(),
+      totalStructureBreaks: this.structure.getRecentStructureBreaks(Infinity).length,
+      chochCount: this.structure.getRecentStructureBreaks(Infinity).filter(b => b.type === "choch").length,
+      activeOrderBlocksCount: this.getActiveOrderBlocks().length,
+      breakerBlocksCount: this.getBreakerBlocks().length,
       recentSweeps,
       recentDisplacements,
+      recentStructureBreaks: this.getRecentStructureBreaks(10),
     };
   }
 }
@@ -0,0 +1,130 @@
+/**
+ * 策略参数校验（前后端通用）
+ * 根据策略的 getConfigItems() 生成 zod schema（类型、最小/最大值、选项），
+ * 缺失的参数用 getDefaultParams() 补齐，再叠加策略自身的 validateParams
+ */
+
+import { z } from "zod";
+import { TradingStrategy, StrategyConfigItem, BaseStrategyParams } from "../types/strategy";
+
+// 参数校验结果
+export interface ParamValidationResult {
+  valid: boolean;
+  params: BaseStrategyParams;              // 补齐默认值并规范化后的参数
+  errors: string[];                        // 所有错误（带参数名）
+  fieldErrors: Record<string, string[]>;   // 参数键 -> 错误
+}
+
+// 策略级（不对应单个参数）的错误归到这个键
+export const GENERAL_PARAM_ERROR_KEY = "_general";
+
+// 表单/JSON 中的数字可能是字符串
+function toNumber(value: unknown): unknown {
+  if (typeof value === "string" && value.trim() !== "") {
+    return Number(value);
+  }
+  return value;
+}
+
+function isSameOption(a: unknown, b: unknown): boolean {
+  return a === b || String(a) === String(b);
+}
+
+/**
+ * 单个配置项的 schema
+ */
+function buildItemSchema(item: StrategyConfigItem): z.ZodType {
+  const label = item.label || item.key;
+
+  switch (item.type) {
+    case "number": {
+      let schema = z.number({ error: `${label}必须是数字` });
+      if (item.min !== undefined) {
+        schema = schema.min(item.min, `${label}不能小于 ${item.min}`);
+      }
+      if (item.max !== undefined) {
+        schema = schema.max(item.max, `${label}不能大于 ${item.max}`);
+      }
+      return z.preprocess(toNumber, schema);
+    }
+    case "select": {
+      const values = (item.options || []).map((option) => option.value);
+      if (values.length === 0) {
+        return z.unknown();
+      }
+      // 下拉框返回的是字符串，按选项值的原始类型规范化
+      return z
+        .unknown()
+        .refine((value) => values.some((v) => isSameOption(v, value)), {
+          error: `${label}必须是以下之一: ${values.join(", ")}`,
+        })
+        .transform((value) => values.find((v) => isSameOption(v, value)));
+    }
+    case "checkbox":
+      return z.boolean({ error: `${label}必须是布尔值` });
+    case "text":
+      return z.string({ error: `${label}必须是文本` });
+    default:
+      return z.unknown();
+  }
+}
+
+/**
+ * 由配置项生成参数 schema（未声明的参数原样保留）
+ */
+export function buildParamSchema(items: StrategyConfigItem[]) {
+  const shape: Record<string, z.ZodType> = {};
+  for (const item of items) {
+    shape[item.key] = buildItemSchema(item);
+  }
+  return z.looseObject(shape);
+}
+
+/**
+ * 补齐默认值并校验策略参数
+ */
+export function validateStrategyParams(
+  strategy: TradingStrategy,
+  params: BaseStrategyParams | null | undefined
+): ParamValidationResult {
+  const merged: BaseStrategyParams = { ...strategy.getDefaultParams() };
+  for (const [key, value] of Object.entries(params || {})) {
+    if (value !== undefined && value !== null) {
+      merged[key] = value;
+    }
+  }
+
+  const items = strategy.getConfigItems();
+  const fieldErrors: Record<string, string[]> = {};
+  const addError = (key: string, message: string) => {
+    (fieldErrors[key] ||= []).push(message);
+  };
+
+  const result = buildParamSchema(items).safeParse(merged);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const key = issue.path.length > 0 ? String(issue.path[0]) : GENERAL_PARAM_ERROR_KEY;
+      addError(key, issue.message);
+    }
+  }
+
+  const resolved: BaseStrategyParams = result.success ? result.data : merged;
+
+  // 策略自身的校验（参数之间的约束等），只在类型校验通过后执行
+  if (result.success && strategy.validateParams) {
+    const validation = strategy.validateParams(resolved);
+    for (const error of validation.errors) {
+      addError(GENERAL_PARAM_ERROR_KEY, error);
+    }
+  }
+
+  // 字段错误信息本身带参数名
+  const errors = Object.values(fieldErrors).flat();
+
+  return {
+    valid: errors.length === 0,
+    params: resolved,
+    errors,
+    fieldErrors,
+  };
+}
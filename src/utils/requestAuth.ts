@@ -0,0 +1,69 @@
+/**
+ * 接口鉴权（仅服务端使用）
+ * 应用没有登录系统，需要确认请求者身份的接口（如上传脚本）通过环境变量 API_USER_TOKENS 配置用户令牌：
+ *
+ *   API_USER_TOKENS="userA:令牌A,userB:令牌B"
+ *
+ * 请求头 Authorization: Bearer <令牌> 对应的用户即为请求者，未配置时这些接口不可用
+ * 其他按用户保存数据的接口（预设、优化结果）在未配置时所有请求归到默认用户
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+// 未配置令牌时使用的默认用户
+export const DEFAULT_USER_ID = "default";
+
+interface UserToken {
+  userId: string;
+  digest: Buffer;
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token, "utf8").digest();
+}
+
+function getUserTokens(): UserToken[] {
+  const raw = process.env.API_USER_TOKENS || "";
+  const tokens: UserToken[] = [];
+  for (const entry of raw.split(",")) {
+    const separator = entry.indexOf(":");
+    const userId = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (separator > 0 && userId && token) {
+      tokens.push({ userId, digest: digest(token) });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 是否配置了用户令牌
+ */
+export function isAuthConfigured(): boolean {
+  return getUserTokens().length > 0;
+}
+
+/**
+ * 按 Authorization 请求头识别用户，令牌无效时返回 null
+ */
+export function getAuthenticatedUserId(request: NextRequest): string | null {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  // 比较固定长度的摘要，避免按长度或前缀泄露令牌
+  const candidate = digest(match[1].trim());
+  const user = getUserTokens().find((entry) => timingSafeEqual(entry.digest, candidate));
+  return user ? user.userId : null;
+}
+
+/**
+ * 请求者的用户ID：配置了令牌时按令牌识别（无效时返回 null），未配置时为默认用户
+ * 不信任请求体或查询参数中的 userId
+ */
+export function getRequestUserId(request: NextRequest): string | null {
+  return isAuthConfigured() ? getAuthenticatedUserId(request) : DEFAULT_USER_ID;
+}
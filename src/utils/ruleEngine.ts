@@ -0,0 +1,548 @@
+/**
+ * 规则引擎
+ * 规则策略定义的 zod 校验，以及在K线上计算指标表达式、判断条件和分组
+ */
+
+import { z } from "zod";
+import { KLineData } from "../types/strategy";
+import {
+  RuleCondition,
+  RuleGroup,
+  RuleIndicator,
+  RuleIndicatorOperand,
+  RuleOperand,
+  RuleOperator,
+  RulePriceSource,
+  RuleSet,
+  RuleStrategyDefinition,
+} from "../types/ruleStrategy";
+import {
+  sma,
+  ema,
+  rsi,
+  atr,
+  adx,
+  macd,
+  bollingerBands,
+  donchianChannel,
+  vwap,
+  obv,
+} from "../indicators";
+import { TIMEFRAME_TO_MS } from "./timeframeAligner";
+
+// 指标名称（同时决定可用的指标集合）
+export const RULE_INDICATOR_LABELS: Record<RuleIndicator, string> = {
+  open: "开盘价",
+  high: "最高价",
+  low: "最低价",
+  close: "收盘价",
+  volume: "成交量",
+  sma: "SMA",
+  ema: "EMA",
+  rsi: "RSI",
+  atr: "ATR",
+  adx: "ADX",
+  plus_di: "+DI",
+  minus_di: "-DI",
+  macd: "MACD",
+  macd_signal: "MACD 信号线",
+  macd_histogram: "MACD 柱",
+  bb_upper: "布林上轨",
+  bb_middle: "布林中轨",
+  bb_lower: "布林下轨",
+  donchian_upper: "唐奇安上轨",
+  donchian_middle: "唐奇安中轨",
+  donchian_lower: "唐奇安下轨",
+  vwap: "日内 VWAP",
+  obv: "OBV",
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  ">": ">",
+  ">=": "≥",
+  "<": "<",
+  "<=": "≤",
+  crosses_above: "上穿",
+  crosses_below: "下穿",
+};
+
+// 各指标的默认周期（不需要周期的指标不在表中）
+export const RULE_INDICATOR_DEFAULT_PERIODS: Partial<Record<RuleIndicator, number>> = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  atr: 14,
+  adx: 14,
+  plus_di: 14,
+  minus_di: 14,
+  bb_upper: 20,
+  bb_middle: 20,
+  bb_lower: 20,
+  donchian_upper: 20,
+  donchian_middle: 20,
+  donchian_lower: 20,
+};
+
+// 使用输入价格的指标
+const SOURCE_INDICATORS: RuleIndicator[] = [
+  "sma",
+  "ema",
+  "rsi",
+  "macd",
+  "macd_signal",
+  "macd_histogram",
+  "bb_upper",
+  "bb_middle",
+  "bb_lower",
+];
+
+// 指标最多可回看的K线数：实盘引擎每个周期只保留最近 200 根K线，需要更长历史的指标在实盘中无法计算
+export const RULE_MAX_LOOKBACK_BARS = 200;
+
+// VWAP 按 UTC 日重置（与传入的K线数量无关）
+const VWAP_SESSION_MS = 24 * 60 * 60 * 1000;
+
+// ==================== 校验 ====================
+
+const timeframeSchema = z
+  .string()
+  .refine((timeframe) => timeframe in TIMEFRAME_TO_MS, { message: "不支持的周期" });
+
+const indicatorOperandSchema = z.object({
+  kind: z.literal("indicator"),
+  indicator: z.enum(Object.keys(RULE_INDICATOR_LABELS) as [RuleIndicator, ...RuleIndicator[]]),
+  period: z.number().int().min(1).max(RULE_MAX_LOOKBACK_BARS).optional(),
+  source: z.enum(["open", "high", "low", "close", "volume"]).optional(),
+  stdDev: z.number().positive().max(10).optional(),
+  fastPeriod: z.number().int().min(1).max(RULE_MAX_LOOKBACK_BARS).optional(),
+  slowPeriod: z.number().int().min(1).max(RULE_MAX_LOOKBACK_BARS).optional(),
+  signalPeriod: z.number().int().min(1).max(RULE_MAX_LOOKBACK_BARS).optional(),
+  offset: z.number().int().min(0).max(RULE_MAX_LOOKBACK_BARS).optional(),
+});
+
+const operandSchema = z.discriminatedUnion("kind", [
+  indicatorOperandSchema,
+  z.object({ kind: z.literal("value"), value: z.number() }),
+]);
+
+const conditionSchema = z
+  .object({
+    type: z.literal("condition"),
+    timeframe: timeframeSchema.optional(),
+    left: operandSchema,
+    operator: z.enum([">", ">=", "<", "<=", "crosses_above", "crosses_below"]),
+    right: operandSchema,
+  })
+  .refine(
+    // OBV 从第一根K线开始累计，绝对值随回测、实盘、检测接口的K线数量变化，只有两侧都是 OBV 时比较结果才一致
+    (condition) => isObvOperand(condition.left) === isObvOperand(condition.right),
+    { message: "OBV 只能与 OBV（如不同偏移）比较或交叉" }
+  );
+
+export const ruleGroupSchema: z.ZodType<RuleGroup> = z.lazy(() =>
+  z.object({
+    type: z.literal("group"),
+    logic: z.enum(["and", "or"]),
+    rules: z.array(z.union([conditionSchema, ruleGroupSchema])).min(1, "分组至少需要一个条件"),
+  })
+);
+
+const exitSchema = z
+  .object({
+    stopLossType: z.enum(["none", "percent", "atr"]),
+    stopLossValue: z.number().min(0),
+    takeProfitType: z.enum(["none", "percent", "atr", "risk_reward"]),
+    takeProfitValue: z.number().min(0),
+    atrPeriod: z.number().int().min(1).max(RULE_MAX_LOOKBACK_BARS),
+    signalValidBars: z.number().int().min(0),
+    longExit: ruleGroupSchema.optional(),
+    shortExit: ruleGroupSchema.optional(),
+  })
+  .refine((exit) => exit.takeProfitType === "none" || exit.stopLossType !== "none", {
+    message: "设置止盈时必须同时设置止损",
+  });
+
+export const ruleSetSchema = z
+  .object({
+    entryTimeframe: timeframeSchema,
+    riskLevel: z.enum(["low", "medium", "high"]),
+    longEntry: ruleGroupSchema.optional(),
+    shortEntry: ruleGroupSchema.optional(),
+    exit: exitSchema,
+  })
+  .refine((rules) => rules.longEntry || rules.shortEntry, {
+    message: "至少需要做多或做空条件之一",
+  })
+  .refine((rules) => getRuleSetLookback(rules) <= RULE_MAX_LOOKBACK_BARS, {
+    message: `指标（含偏移、交叉判断和日内 VWAP 的当日K线）需要的K线数不能超过 ${RULE_MAX_LOOKBACK_BARS} 根`,
+  })
+  .refine(
+    (rules) => {
+      // 入场周期必须是最小周期（引擎以最小周期作为入场周期）
+      const timeframes = new Set<string>();
+      collectRuleTimeframes(rules.longEntry, timeframes);
+      collectRuleTimeframes(rules.shortEntry, timeframes);
+      collectRuleTimeframes(rules.exit.longExit, timeframes);
+      collectRuleTimeframes(rules.exit.shortExit, timeframes);
+      return [...timeframes].every(
+        (timeframe) => TIMEFRAME_TO_MS[timeframe] >= TIMEFRAME_TO_MS[rules.entryTimeframe]
+      );
+    },
+    { message: "条件周期不能小于入场周期" }
+  );
+
+function isObvOperand(operand: RuleOperand): boolean {
+  return operand.kind === "indicator" && operand.indicator === "obv";
+}
+
+/**
+ * 指标表达式需要的K线数（周期 + 指标预热 + 偏移，交叉判断多需要一根；VWAP 需要覆盖当日时段）
+ */
+function getOperandLookback(operand: RuleOperand, crossing: boolean, timeframe: string): number {
+  if (operand.kind === "value") {
+    return 0;
+  }
+
+  let bars = 1;
+  if (operand.indicator === "vwap") {
+    bars = Math.ceil(VWAP_SESSION_MS / TIMEFRAME_TO_MS[timeframe]);
+  } else if (operand.indicator.startsWith("macd")) {
+    bars = (operand.slowPeriod ?? 26) + (operand.signalPeriod ?? 9);
+  } else if (operand.indicator === "adx" || operand.indicator === "plus_di" || operand.indicator === "minus_di") {
+    // ADX 在 DI 平滑之后再平滑一次
+    bars = (operand.period ?? 14) * 2;
+  } else if (RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator] !== undefined) {
+    bars = (operand.period ?? RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator]!) + 1;
+  }
+  return bars + (operand.offset ?? 0) + (crossing ? 1 : 0);
+}
+
+function getGroupLookback(group: RuleGroup | undefined, entryTimeframe: string): number {
+  let bars = 0;
+  for (const rule of group?.rules || []) {
+    if (rule.type === "group") {
+      bars = Math.max(bars, getGroupLookback(rule, entryTimeframe));
+    } else {
+      const crossing = rule.operator === "crosses_above" || rule.operator === "crosses_below";
+      const timeframe = rule.timeframe || entryTimeframe;
+      bars = Math.max(
+        bars,
+        getOperandLookback(rule.left, crossing, timeframe),
+        getOperandLookback(rule.right, crossing, timeframe)
+      );
+    }
+  }
+  return bars;
+}
+
+/**
+ * 规则集需要的最少K线数（各条件与 ATR 止损止盈中的最大值）
+ */
+function getRuleSetLookback(rules: RuleSet): number {
+  const atrBars = rules.exit.stopLossType === "atr" || rules.exit.takeProfitType === "atr"
+    ? rules.exit.atrPeriod + 1
+    : 0;
+  return Math.max(
+    atrBars,
+    getGroupLookback(rules.longEntry, rules.entryTimeframe),
+    getGroupLookback(rules.shortEntry, rules.entryTimeframe),
+    getGroupLookback(rules.exit.longExit, rules.entryTimeframe),
+    getGroupLookback(rules.exit.shortExit, rules.entryTimeframe)
+  );
+}
+
+export const ruleStrategyDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, "策略名称不能为空").max(255),
+  description: z.string().max(2000),
+  rules: ruleSetSchema,
+});
+
+/**
+ * 校验规则集（JSON 字符串或对象），返回中文错误信息
+ */
+export function parseRuleSet(
+  input: unknown
+): { success: true; data: RuleSet } | { success: false; errors: string[] } {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      return { success: false, errors: [`JSON 格式错误: ${error instanceof Error ? error.message : error}`] };
+    }
+  }
+
+  const result = ruleSetSchema.safeParse(value);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * 校验完整的规则策略定义（校验失败时抛出异常）
+ */
+export function parseRuleStrategyDefinition(input: unknown): RuleStrategyDefinition {
+  return ruleStrategyDefinitionSchema.parse(input);
+}
+
+// ==================== 计算 ====================
+
+// 条件判断结果
+export interface RuleEvaluation {
+  passed: boolean;
+  details: string[];             // 每个条件的判断说明
+}
+
+/**
+ * 收集规则用到的所有周期
+ */
+export function collectRuleTimeframes(group: RuleGroup | undefined, timeframes: Set<string>): void {
+  if (!group) {
+    return;
+  }
+  for (const rule of group.rules) {
+    if (rule.type === "group") {
+      collectRuleTimeframes(rule, timeframes);
+    } else if (rule.timeframe) {
+      timeframes.add(rule.timeframe);
+    }
+  }
+}
+
+/**
+ * 指标表达式的显示名称（如 "EMA(20)"、"收盘价[-1]"）
+ */
+export function formatRuleOperand(operand: RuleOperand): string {
+  if (operand.kind === "value") {
+    return String(operand.value);
+  }
+
+  let label = RULE_INDICATOR_LABELS[operand.indicator];
+  const args: (string | number)[] = [];
+  if (operand.indicator.startsWith("macd")) {
+    args.push(operand.fastPeriod ?? 12, operand.slowPeriod ?? 26, operand.signalPeriod ?? 9);
+  } else if (RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator] !== undefined) {
+    args.push(operand.period ?? RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator]!);
+  }
+  if (operand.indicator.startsWith("bb_")) {
+    args.push(operand.stdDev ?? 2);
+  }
+  if (operand.source && operand.source !== "close" && SOURCE_INDICATORS.includes(operand.indicator)) {
+    args.push(RULE_INDICATOR_LABELS[operand.source]);
+  }
+
+  if (args.length > 0) {
+    label += `(${args.join(",")})`;
+  }
+  if (operand.offset) {
+    label += `[-${operand.offset}]`;
+  }
+  return label;
+}
+
+/**
+ * 规则计算器
+ * 同一次检测中相同的指标表达式只计算一次
+ */
+export class RuleEvaluator {
+  private cache = new Map<string, number[]>();
+
+  /**
+   * @param series 周期 -> K线（最后一根为最新已收盘K线）
+   * @param defaultTimeframe 条件未指定周期时使用的周期
+   */
+  constructor(
+    private series: Record<string, KLineData[]>,
+    private defaultTimeframe: string
+  ) {}
+
+  evaluateGroup(group: RuleGroup): RuleEvaluation {
+    const details: string[] = [];
+    let passed = group.logic === "and";
+
+    for (const rule of group.rules) {
+      const result = rule.type === "group" ? this.evaluateGroup(rule) : this.evaluateCondition(rule);
+      details.push(...result.details);
+      passed = group.logic === "and" ? passed && result.passed : passed || result.passed;
+    }
+
+    return { passed, details };
+  }
+
+  evaluateCondition(condition: RuleCondition): RuleEvaluation {
+    const timeframe = condition.timeframe || this.defaultTimeframe;
+    const label = `${formatRuleOperand(condition.left)} ${RULE_OPERATOR_LABELS[condition.operator]} ${formatRuleOperand(condition.right)}`;
+    const prefix = condition.timeframe ? `[${timeframe}] ` : "";
+
+    const klines = this.series[timeframe];
+    if (!klines || klines.length === 0) {
+      return { passed: false, details: [`✗ ${prefix}${label}: 缺少 ${timeframe} K线`] };
+    }
+
+    const left = this.valueAt(timeframe, condition.left, 0);
+    const right = this.valueAt(timeframe, condition.right, 0);
+    if (!Number.isFinite(left) || !Number.isFinite(right)) {
+      return { passed: false, details: [`✗ ${prefix}${label}: 数据不足`] };
+    }
+
+    let passed: boolean;
+    switch (condition.operator) {
+      case ">":
+        passed = left > right;
+        break;
+      case ">=":
+        passed = left >= right;
+        break;
+      case "<":
+        passed = left < right;
+        break;
+      case "<=":
+        passed = left <= right;
+        break;
+      default: {
+        const prevLeft = this.valueAt(timeframe, condition.left, 1);
+        const prevRight = this.valueAt(timeframe, condition.right, 1);
+        passed =
+          Number.isFinite(prevLeft) &&
+          Number.isFinite(prevRight) &&
+          (condition.operator === "crosses_above"
+            ? prevLeft <= prevRight && left > right
+            : prevLeft >= prevRight && left < right);
+      }
+    }
+
+    return {
+      passed,
+      details: [
+        `${passed ? "✓" : "✗"} ${prefix}${label} (${formatNumber(left)} / ${formatNumber(right)})`,
+      ],
+    };
+  }
+
+  /**
+   * 表达式在最新K线向前 shift 根处的值（数据不足时为 NaN）
+   */
+  private valueAt(timeframe: string, operand: RuleOperand, shift: number): number {
+    if (operand.kind === "value") {
+      return operand.value;
+    }
+
+    const values = this.getValues(timeframe, operand);
+    const index = values.length - 1 - (operand.offset ?? 0) - shift;
+    return index >= 0 ? values[index] : NaN;
+  }
+
+  private getValues(timeframe: string, operand: RuleIndicatorOperand): number[] {
+    const key = JSON.stringify([
+      timeframe,
+      operand.indicator,
+      operand.period,
+      operand.source,
+      operand.stdDev,
+      operand.fastPeriod,
+      operand.slowPeriod,
+      operand.signalPeriod,
+    ]);
+    let values = this.cache.get(key);
+    if (!values) {
+      values = computeIndicator(this.series[timeframe], operand);
+      this.cache.set(key, values);
+    }
+    return values;
+  }
+}
+
+/**
+ * 在整段K线上计算指标（与K线等长，预热阶段为 NaN）
+ */
+function computeIndicator(klines: KLineData[], operand: RuleIndicatorOperand): number[] {
+  const period = operand.period ?? RULE_INDICATOR_DEFAULT_PERIODS[operand.indicator] ?? 14;
+  const source = getSourceValues(klines, operand.source || "close");
+
+  switch (operand.indicator) {
+    case "open":
+    case "high":
+    case "low":
+    case "close":
+    case "volume":
+      return getSourceValues(klines, operand.indicator);
+    case "sma":
+      return sma(source, period);
+    case "ema":
+      return ema(source, period);
+    case "rsi":
+      return rsi(source, period);
+    case "atr":
+      return atr(klines, period);
+    case "adx":
+      return adx(klines, period).map((value) => value.adx);
+    case "plus_di":
+      return adx(klines, period).map((value) => value.plusDI);
+    case "minus_di":
+      return adx(klines, period).map((value) => value.minusDI);
+    case "macd":
+    case "macd_signal":
+    case "macd_histogram": {
+      const values = macd(
+        source,
+        operand.fastPeriod ?? 12,
+        operand.slowPeriod ?? 26,
+        operand.signalPeriod ?? 9
+      );
+      if (operand.indicator === "macd") {
+        return values.map((value) => value.macd);
+      }
+      return operand.indicator === "macd_signal"
+        ? values.map((value) => value.signal)
+        : values.map((value) => value.histogram);
+    }
+    case "bb_upper":
+    case "bb_middle":
+    case "bb_lower": {
+      const field = operand.indicator === "bb_upper" ? "upper" : operand.indicator === "bb_middle" ? "middle" : "lower";
+      return bollingerBands(source, period, operand.stdDev ?? 2).map((value) => value[field]);
+    }
+    case "donchian_upper":
+    case "donchian_middle":
+    case "donchian_lower": {
+      const field =
+        operand.indicator === "donchian_upper" ? "upper" : operand.indicator === "donchian_middle" ? "middle" : "lower";
+      return donchianChannel(klines, period).map((value) => value[field]);
+    }
+    case "vwap":
+      return sessionVwap(klines);
+    case "obv":
+      return obv(klines);
+  }
+}
+
+/**
+ * 按 UTC 日重置的 VWAP：第一根K线所在的时段如果不是从头开始，该时段的值为 NaN，
+ * 保证任意长度的K线窗口（回测、流式窗口、实盘）算出的值相同
+ */
+function sessionVwap(klines: KLineData[]): number[] {
+  const values = vwap(klines, VWAP_SESSION_MS);
+  if (klines.length > 0 && klines[0].timestamp % VWAP_SESSION_MS !== 0) {
+    const firstSession = Math.floor(klines[0].timestamp / VWAP_SESSION_MS);
+    for (let i = 0; i < klines.length && Math.floor(klines[i].timestamp / VWAP_SESSION_MS) === firstSession; i++) {
+      values[i] = NaN;
+    }
+  }
+  return values;
+}
+
+function getSourceValues(klines: KLineData[], source: RulePriceSource): number[] {
+  return klines.map((k) => k[source]);
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 1000 ? value.toFixed(2) : value.toFixed(4);
+}
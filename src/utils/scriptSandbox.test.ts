@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ScriptSandbox } from "./scriptSandbox";
+
+const sandboxes: ScriptSandbox[] = [];
+
+function createSandbox(code: string): ScriptSandbox {
+  const sandbox = new ScriptSandbox(code, { timeoutMs: 500, memoryMb: 32 });
+  sandboxes.push(sandbox);
+  return sandbox;
+}
+
+afterEach(() => {
+  sandboxes.splice(0).forEach((sandbox) => sandbox.dispose());
+});
+
+describe("ScriptSandbox", () => {
+  it("calls top-level functions with JSON arguments", () => {
+    const sandbox = createSandbox("function add(a, b) { return { sum: a.x + b }; }");
+    expect(sandbox.call("add", [{ x: 1 }, 2])).toEqual({ sum: 3 });
+    expect(sandbox.listFunctions()).toEqual(["add"]);
+  });
+
+  it("exposes no host globals", () => {
+    const sandbox = createSandbox(`
+      function probe() {
+        return [typeof process, typeof require, typeof fetch, typeof __call, typeof module, typeof setTimeout];
+      }
+    `);
+    expect(sandbox.call("probe")).toEqual(Array(6).fill("undefined"));
+  });
+
+  it("does not leak host objects through constructor chains", () => {
+    // 上下文中的任何宿主对象都可以经由 constructor.constructor 拿到宿主 Function 并返回 process
+    const sandbox = createSandbox(`
+      function escape(input) {
+        var candidates = {
+          call: function () { return __call; },
+          global: function () { return globalThis; },
+          self: function () { return this; },
+          input: function () { return input; },
+          args: function () { return arguments; },
+          fn: function () { return escape; },
+        };
+        var leaked = [];
+        Object.keys(candidates).forEach(function (key) {
+          try {
+            var target = candidates[key]();
+            var process = target.constructor.constructor("return process")();
+            if (process) {
+              leaked.push(key);
+            }
+          } catch (error) {
+            // 拿不到宿主对象，或上下文内的 Function 禁止动态代码
+          }
+        });
+        return leaked;
+      }
+    `);
+    expect(sandbox.call("escape", [{ nested: [1, 2] }])).toEqual([]);
+  });
+
+  it("forbids dynamic code generation", () => {
+    const sandbox = createSandbox(`
+      function dynamic() { return new Function("return 1")(); }
+      function evaluate() { return eval("1 + 1"); }
+    `);
+    expect(() => sandbox.call("dynamic")).toThrow(/Code generation from strings disallowed/);
+    expect(() => sandbox.call("evaluate")).toThrow(/Code generation from strings disallowed/);
+  });
+
+  it("treats function names as data, not code", () => {
+    const sandbox = createSandbox("function ok() { return 1; }");
+    expect(() => sandbox.call("ok')(globalThis.x = 1) || ('")).toThrow(/is not defined/);
+    expect(sandbox.call("ok")).toBe(1);
+  });
+
+  it("terminates scripts that exceed the time limit and recovers", () => {
+    const sandbox = createSandbox("function spin() { while (true) {} } function ok() { return 2; }");
+    expect(() => sandbox.call("spin")).toThrow();
+    expect(sandbox.call("ok")).toBe(2);
+  });
+});
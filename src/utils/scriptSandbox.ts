@@ -0,0 +1,271 @@
+/**
+ * 脚本沙箱（仅服务端使用）
+ * 在独立的 worker 线程中用 vm 隔离上下文运行用户上传的策略脚本：
+ *
+ * 1. 上下文中只有 JS 内置对象，没有 require / process / fetch 等，无法访问网络和文件
+ * 2. 禁止 eval / new Function 等动态代码生成
+ * 3. 每次调用有 CPU 时间上限，worker 有内存上限，超限时终止 worker 并在下次调用时重建
+ *
+ * 策略接口是同步的，调用方线程通过 SharedArrayBuffer + Atomics.wait 同步等待 worker 返回，等待期间该线程完全阻塞。
+ * 在 Next.js 主线程上调用（实盘每根K线、信号检测接口）时，所有沙箱共用一个阻塞时间预算（每分钟累计
+ * MAIN_THREAD_BUDGET_MS），超出后调用直接失败，直到下一分钟；回测应放在 worker 线程中运行（BacktestWorkerPool），
+ * worker 线程内的调用不受预算限制。
+ * 宿主对象不能出现在上下文中（脚本可以经由其 constructor.constructor 拿到宿主的 Function，进而访问 process）：
+ * 函数名和参数以 JSON 字符串字面量拼进每次调用的代码，由上下文内的 JSON.parse 解析，返回值只接受字符串。
+ */
+
+import { Worker, MessageChannel, MessagePort, isMainThread, receiveMessageOnPort } from "worker_threads";
+
+// 沙箱资源限制
+export interface ScriptSandboxLimits {
+  timeoutMs: number;    // 单次调用的 CPU 时间上限
+  memoryMb: number;     // worker 堆内存上限
+}
+
+export const DEFAULT_SCRIPT_SANDBOX_LIMITS: ScriptSandboxLimits = {
+  timeoutMs: 1000,
+  memoryMb: 64,
+};
+
+// worker 启动和脚本加载的额外等待时间
+const STARTUP_GRACE_MS = 2000;
+
+// 主线程在 CPU 时间上限之外多等待的时间（让 worker 有机会返回 vm 的超时错误）
+const RESPONSE_MARGIN_MS = 100;
+
+// 主线程上脚本调用的阻塞时间预算（所有沙箱共用）
+const MAIN_THREAD_BUDGET_MS = 5000;
+const MAIN_THREAD_BUDGET_WINDOW_MS = 60 * 1000;
+
+const mainThreadBudget = { windowStart: 0, spentMs: 0 };
+
+/**
+ * 当前窗口剩余的主线程阻塞时间（不在主线程时不限制）
+ */
+function getRemainingBudget(now: number): number {
+  if (!isMainThread) {
+    return Infinity;
+  }
+  if (now - mainThreadBudget.windowStart >= MAIN_THREAD_BUDGET_WINDOW_MS) {
+    mainThreadBudget.windowStart = now;
+    mainThreadBudget.spentMs = 0;
+  }
+  return MAIN_THREAD_BUDGET_MS - mainThreadBudget.spentMs;
+}
+
+// 列出脚本定义的函数名（特殊调用名）
+const DESCRIBE_CALL = "__describe";
+
+// worker 线程代码：加载脚本后逐条处理调用请求
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+
+const { code, timeoutMs, signal, port } = workerData;
+const flag = new Int32Array(signal);
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: "afterEvaluate",
+});
+
+// 在上下文内执行的调用函数，name / input 为字符串字面量
+const CALL_FUNCTION =
+  "(function (name, input) {" +
+  "  try {" +
+  "    if (name === '${DESCRIBE_CALL}') {" +
+  "      return JSON.stringify({ ok: true, value: Object.keys(globalThis).filter(function (key) { return typeof globalThis[key] === 'function'; }) });" +
+  "    }" +
+  "    var fn = globalThis[name];" +
+  "    if (typeof fn !== 'function') {" +
+  "      return JSON.stringify({ ok: false, error: 'Function ' + name + ' is not defined' });" +
+  "    }" +
+  "    var value = fn.apply(null, JSON.parse(input));" +
+  "    return JSON.stringify({ ok: true, value: value === undefined ? null : value });" +
+  "  } catch (error) {" +
+  "    return JSON.stringify({ ok: false, error: String(error && error.message ? error.message : error) });" +
+  "  }" +
+  "})";
+
+let loadError = null;
+try {
+  new vm.Script(code, { filename: "strategy.js" }).runInContext(context, { timeout: timeoutMs });
+} catch (error) {
+  loadError = String(error && error.message ? error.message : error);
+}
+
+function respond(id, output) {
+  port.postMessage({ id, output });
+  Atomics.store(flag, 0, 1);
+  Atomics.notify(flag, 0);
+}
+
+parentPort.on("message", ({ id, name, input }) => {
+  if (loadError !== null) {
+    respond(id, JSON.stringify({ ok: false, error: "Script failed to load: " + loadError }));
+    return;
+  }
+
+  try {
+    const source = CALL_FUNCTION + "(" + JSON.stringify(String(name)) + ", " + JSON.stringify(String(input)) + ")";
+    const output = new vm.Script(source, { filename: "sandbox-call.js" }).runInContext(context, { timeout: timeoutMs });
+    respond(id, typeof output === "string" ? output : JSON.stringify({ ok: false, error: "Invalid script output" }));
+  } catch (error) {
+    respond(id, JSON.stringify({ ok: false, error: String(error && error.message ? error.message : error) }));
+  }
+});
+`;
+
+interface SandboxResponse {
+  ok: boolean;
+  value?: unknown;
+  error?: string;
+}
+
+export class ScriptSandbox {
+  private worker: Worker | null = null;
+  private port: MessagePort | null = null;
+  private flag: Int32Array | null = null;
+  private started = false;
+  private nextCallId = 1;
+
+  constructor(
+    private code: string,
+    private limits: ScriptSandboxLimits = DEFAULT_SCRIPT_SANDBOX_LIMITS
+  ) {}
+
+  /**
+   * 同步调用脚本中定义的顶层函数，参数和返回值必须可以 JSON 序列化
+   * 脚本抛出异常、超时、超出内存或主线程阻塞预算用尽时抛出 Error
+   */
+  call(name: string, args: unknown[] = []): unknown {
+    const startedAt = Date.now();
+    const budget = getRemainingBudget(startedAt);
+    if (budget <= 0) {
+      throw new Error(
+        `Script calls blocked the main thread for ${MAIN_THREAD_BUDGET_MS}ms within a minute, call ${name} skipped`
+      );
+    }
+
+    try {
+      return this.callWorker(name, args, budget);
+    } finally {
+      if (isMainThread) {
+        mainThreadBudget.spentMs += Date.now() - startedAt;
+      }
+    }
+  }
+
+  /**
+   * 脚本定义的顶层函数名
+   */
+  listFunctions(): string[] {
+    const names = this.call(DESCRIBE_CALL);
+    return Array.isArray(names) ? names.filter((name): name is string => typeof name === "string") : [];
+  }
+
+  /**
+   * 释放 worker
+   */
+  dispose(): void {
+    this.terminate();
+  }
+
+  private callWorker(name: string, args: unknown[], budget: number): unknown {
+    const worker = this.ensureWorker();
+    const flag = this.flag!;
+    const port = this.port!;
+    const id = this.nextCallId++;
+
+    Atomics.store(flag, 0, 0);
+    worker.postMessage({ id, name, input: JSON.stringify(args) });
+
+    const waitMs = this.limits.timeoutMs + RESPONSE_MARGIN_MS + (this.started ? 0 : STARTUP_GRACE_MS);
+    const deadline = Date.now() + Math.min(waitMs, budget);
+
+    while (true) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || Atomics.wait(flag, 0, 0, remaining) === "timed-out") {
+        this.terminate();
+        throw new Error(`Script call ${name} timed out after ${this.limits.timeoutMs}ms or exceeded the memory limit`);
+      }
+
+      // 丢弃超时调用遗留的旧响应
+      let received = receiveMessageOnPort(port);
+      while (received && received.message.id !== id) {
+        received = receiveMessageOnPort(port);
+      }
+      if (!received) {
+        Atomics.store(flag, 0, 0);
+        continue;
+      }
+
+      this.started = true;
+      const response = JSON.parse(received.message.output) as SandboxResponse;
+      if (!response.ok) {
+        throw new Error(response.error || `Script call ${name} failed`);
+      }
+      return response.value;
+    }
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    const signal = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+    const channel = new MessageChannel();
+    const memoryMb = Math.max(8, this.limits.memoryMb);
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      stdout: true,
+      stderr: true,
+      workerData: {
+        code: this.code,
+        timeoutMs: this.limits.timeoutMs,
+        signal,
+        port: channel.port2,
+      },
+      transferList: [channel.port2],
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryMb / 4)),
+        stackSizeMb: 4,
+      },
+    });
+    // 不阻止进程退出
+    worker.unref();
+    worker.on("error", (error) => {
+      console.warn("Script sandbox worker error:", error.message);
+    });
+    worker.on("exit", () => {
+      if (this.worker === worker) {
+        this.reset();
+      }
+    });
+
+    this.worker = worker;
+    this.port = channel.port1;
+    this.flag = new Int32Array(signal);
+    this.started = false;
+    return worker;
+  }
+
+  private terminate(): void {
+    const worker = this.worker;
+    this.reset();
+    if (worker) {
+      void worker.terminate();
+    }
+  }
+
+  private reset(): void {
+    this.port?.close();
+    this.worker = null;
+    this.port = null;
+    this.flag = null;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * 信号标注工具
+ * 生成入场/止损/止盈价位线等通用标注，以及市场结构（FVG、订单块、流动性）标注，供各策略和图表叠加层使用
+ */
+
+import { Signal, SignalAnnotation } from "../types/strategy";
+import type { LiquidityFVGTracker } from "./liquidityFVGTracker";
+
+/**
+ * 由信号的出场计划生成入场、止损、止盈价位线
+ *
+ * @param signal 交易信号
+ * @param endTime 价位线结束时间（默认取信号失效时间，没有时与信号时间相同）
+ * @returns 价位线标注（没有出场计划时只有入场线）
+ */
+export function createExitPlanAnnotations(signal: Signal, endTime?: number): SignalAnnotation[] {
+  const end = endTime ?? signal.exitPlan?.invalidationTime ?? signal.time;
+  const annotations: SignalAnnotation[] = [
+    {
+      type: "level",
+      role: "entry",
+      price: signal.entryPrice,
+      startTime: signal.time,
+      endTime: end,
+      label: "入场",
+    },
+  ];
+
+  if (signal.exitPlan) {
+    annotations.push({
+      type: "level",
+      role: "stopLoss",
+      price: signal.exitPlan.stopLoss,
+      startTime: signal.time,
+      endTime: end,
+      label: "SL",
+    });
+    for (const target of signal.exitPlan.takeProfits) {
+      annotations.push({
+        type: "level",
+        role: "takeProfit",
+        price: target.price,
+        startTime: signal.time,
+        endTime: end,
+        label: target.label || "TP",
+      });
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * 把跟踪器当前仍有效的市场结构转换为标注：未回补的 FVG、有效订单块和未被扫荡的流动性
+ *
+ * @param tracker 已处理完K线的跟踪器
+ * @param endTime 区域和水平线的结束时间（通常为最后一根K线）
+ */
+export function createMarketStructureAnnotations(
+  tracker: LiquidityFVGTracker,
+  endTime: number
+): SignalAnnotation[] {
+  const annotations: SignalAnnotation[] = [];
+
+  for (const fvg of tracker.getActiveFVGs()) {
+    annotations.push({
+      type: "fvg",
+      direction: fvg.type,
+      top: fvg.top,
+      bottom: fvg.bottom,
+      startTime: fvg.timestamp,
+      endTime,
+      label: "FVG",
+    });
+  }
+
+  for (const block of tracker.getActiveOrderBlocks()) {
+    annotations.push({
+      type: "orderBlock",
+      direction: block.type,
+      top: block.top,
+      bottom: block.bottom,
+      startTime: block.timestamp,
+      endTime,
+      label: "OB",
+    });
+  }
+
+  for (const level of tracker.getActiveLiquidityLevels()) {
+    annotations.push({
+      type: "liquidity",
+      side: level.type,
+      price: level.price,
+      startTime: level.timestamp,
+      endTime,
+    });
+  }
+
+  return annotations;
+}
@@ -0,0 +1,135 @@
+/**
+ * 策略参数预设工具（前后端通用）
+ * 预设 = 某个策略ID下命名保存的一组参数，每次保存生成一个新版本；
+ * 任务和回测记录使用的预设ID和版本号，便于复现
+ */
+
+import { TradingStrategy, BaseStrategyParams } from "../types/strategy";
+
+// 预设状态：active 可用；outdated 策略版本已变化且参数无法自动迁移，需要人工确认
+export type StrategyPresetStatus = "active" | "outdated";
+
+// 任务/回测引用的预设版本
+export interface PresetReference {
+  presetId: string;
+  presetVersion: number;
+}
+
+// 两个版本之间的参数差异
+export interface PresetParamChange {
+  key: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+// 接口返回的预设（附带最新版本的参数）
+export interface StrategyPresetRecord {
+  id: string;
+  strategyId: string;
+  name: string;
+  description: string;
+  latestVersion: number;
+  strategyVersion: string;
+  status: StrategyPresetStatus;
+  params: BaseStrategyParams;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+// 接口返回的预设版本（附带相对上一版本的差异）
+export interface StrategyPresetVersionRecord {
+  id: string;
+  presetId: string;
+  version: number;
+  params: BaseStrategyParams;
+  strategyVersion: string;
+  note: string;
+  createdAt: string;
+  changes: PresetParamChange[];
+}
+
+// 参数迁移结果
+export interface PresetMigrationResult {
+  params: BaseStrategyParams;
+  changes: PresetParamChange[];
+  errors: string[];
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 比较两组参数（按键名排序）
+ */
+export function diffPresetParams(
+  before: BaseStrategyParams,
+  after: BaseStrategyParams
+): PresetParamChange[] {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  const changes: PresetParamChange[] = [];
+
+  for (const key of keys) {
+    const inBefore = Object.prototype.hasOwnProperty.call(before, key);
+    const inAfter = Object.prototype.hasOwnProperty.call(after, key);
+
+    if (inBefore && !inAfter) {
+      changes.push({ key, type: "removed", before: before[key] });
+    } else if (!inBefore && inAfter) {
+      changes.push({ key, type: "added", after: after[key] });
+    } else if (!isSameValue(before[key], after[key])) {
+      changes.push({ key, type: "changed", before: before[key], after: after[key] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 把旧版本策略的参数迁移到当前策略版本：
+ * 当前版本新增的参数取默认值，已删除的参数丢弃，其余保留；迁移后的参数不通过校验时返回错误
+ */
+export function migratePresetParams(
+  strategy: TradingStrategy,
+  params: BaseStrategyParams
+): PresetMigrationResult {
+  const defaults = strategy.getDefaultParams();
+  const knownKeys = new Set([
+    ...Object.keys(defaults),
+    ...strategy.getConfigItems().map((item) => item.key),
+  ]);
+
+  const migrated: BaseStrategyParams = { ...defaults };
+  for (const [key, value] of Object.entries(params)) {
+    if (knownKeys.has(key)) {
+      migrated[key] = value;
+    }
+  }
+
+  const validation = strategy.validateParams
+    ? strategy.validateParams(migrated)
+    : { valid: true, errors: [] };
+
+  return {
+    params: migrated,
+    changes: diffPresetParams(params, migrated),
+    errors: validation.errors,
+  };
+}
+
+/**
+ * 参数值显示文本
+ */
+export function formatPresetValue(value: unknown): string {
+  if (value === undefined) {
+    return "-";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
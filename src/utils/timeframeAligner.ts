@@ -3,11 +3,16 @@
  * 用于将不同周期的K线数据对齐到同一时间轴
  */
 
-import { KLineData } from "../types/strategy";
+import {
+  KLineData,
+  MultiTimeframeContext,
+  TradingStrategy,
+  BaseStrategyParams,
+} from "../types/strategy";
 
 export interface AlignedTimeframe {
-  mainIndex: number;     // 主周期数据索引
-  midIndex: number;      // 中周期数据索引
+  mainIndex: number;     // 主周期数据索引（低周期K线收盘时最后一根已收盘的主周期K线，没有则为 -1）
+  midIndex: number;      // 中周期数据索引（同上）
   lowIndex: number;      // 低周期数据索引
   timestamp: number;     // 对齐的时间戳
 }
@@ -62,6 +67,8 @@ export function getBarStartTime(timestamp: number, timeframe: string): number {
 
 /**
  * 生成对齐的多时间框架索引映射
+ * 每根低周期K线对应的是在它收盘时已经收盘的最后一根中/主周期K线，
+ * 尚未收盘的高周期K线不会被映射，避免未来函数
  *
  * @param mainKlines 主周期K线数据
  * @param midKlines 中周期K线数据
@@ -81,38 +88,24 @@ export function alignTimeframes(
 ): AlignedTimeframe[] {
   const aligned: AlignedTimeframe[] = [];
 
-  // 以低周期数据为基础进行对齐（最小时间单位）
-  const mainRatio = getTimeframeRatio(mainTimeframe, lowTimeframe);
-  const midRatio = getTimeframeRatio(midTimeframe, lowTimeframe);
+  // 校验周期（低周期必须不大于中/主周期）
+  getTimeframeRatio(mainTimeframe, lowTimeframe);
+  getTimeframeRatio(midTimeframe, lowTimeframe);
 
-  // 为每个低周期K线找到对应的中周期和主周期K线
+  // 以低周期数据为基础进行对齐（最小时间单位），K线按时间升序时逐根推进已收盘数量
+  const lowMs = TIMEFRAME_TO_MS[lowTimeframe];
+  let midCount = 0;
+  let mainCount = 0;
   for (let lowIndex = 0; lowIndex < lowKlines.length; lowIndex++) {
-    const lowKline = lowKlines[lowIndex];
-    const lowTimestamp = getBarStartTime(lowKline.timestamp, lowTimeframe);
-
-    // 找到对应的中周期K线索引
-    let midIndex = -1;
-    for (let i = 0; i < midKlines.length; i++) {
-      const midTimestamp = getBarStartTime(midKlines[i].timestamp, midTimeframe);
-      if (Math.abs(midTimestamp - lowTimestamp) < TIMEFRAME_TO_MS[midTimeframe] / 2) {
-        midIndex = i;
-        break;
-      }
-    }
+    const lowTimestamp = getBarStartTime(lowKlines[lowIndex].timestamp, lowTimeframe);
+    const closeTime = lowTimestamp + lowMs;
 
-    // 找到对应的主周期K线索引
-    let mainIndex = -1;
-    for (let i = 0; i < mainKlines.length; i++) {
-      const mainTimestamp = getBarStartTime(mainKlines[i].timestamp, mainTimeframe);
-      if (Math.abs(mainTimestamp - lowTimestamp) < TIMEFRAME_TO_MS[mainTimeframe] / 2) {
-        mainIndex = i;
-        break;
-      }
-    }
+    midCount = countClosedBars(midKlines, midTimeframe, closeTime, midCount);
+    mainCount = countClosedBars(mainKlines, mainTimeframe, closeTime, mainCount);
 
     aligned.push({
-      mainIndex,
-      midIndex,
+      mainIndex: mainCount - 1,
+      midIndex: midCount - 1,
       lowIndex,
       timestamp: lowTimestamp,
     });
@@ -144,7 +137,7 @@ export function getTimeWindow(
 }
 
 /**
- * 检查主周期K线是否更新（新的主周期K线开始）
+ * 检查主周期K线是否更新（又有一根主周期K线收盘）
  *
  * @param aligned 对齐的时间框架数组
  * @param currentIndex 当前索引
@@ -322,3 +315,106 @@ export function lowIndexToMidIndex(
   const ratio = getTimeframeRatio(midTimeframe, lowTimeframe);
   return Math.floor(lowIndex / ratio);
 }
+
+/**
+ * 周期去重并按时长从小到大排序
+ *
+ * @param timeframes 周期列表
+ * @returns 排序后的周期列表
+ */
+export function sortTimeframes(timeframes: string[]): string[] {
+  return Array.from(new Set(timeframes)).sort((a, b) => {
+    const aMs = TIMEFRAME_TO_MS[a];
+    const bMs = TIMEFRAME_TO_MS[b];
+    if (!aMs || !bMs) {
+      throw new Error(`Invalid timeframe: ${a} or ${b}`);
+    }
+    return aMs - bMs;
+  });
+}
+
+/**
+ * 获取策略检测信号需要的周期（从小到大排序）
+ *
+ * @param strategy 策略实例
+ * @param params 策略参数
+ * @returns 周期列表，单周期策略返回空数组
+ */
+export function getStrategyTimeframes<T extends BaseStrategyParams>(
+  strategy: TradingStrategy<T>,
+  params: T
+): string[] {
+  const timeframes = strategy.getRequiredTimeframes
+    ? strategy.getRequiredTimeframes(params)
+    : strategy.meta.requiredTimeframes || [];
+
+  return sortTimeframes(timeframes);
+}
+
+/**
+ * 构建多时间框架上下文
+ * 最小周期作为低周期、最大周期作为主周期、次大周期作为中周期进行对齐，
+ * 对齐结果在首次访问时计算
+ *
+ * @param klinesByTimeframe 周期 -> K线数据
+ * @param primaryTimeframe 入场周期（detectSignal 的 klines 参数对应的周期）
+ * @returns 多时间框架上下文
+ */
+export function buildMultiTimeframeContext(
+  klinesByTimeframe: Record<string, KLineData[]>,
+  primaryTimeframe: string
+): MultiTimeframeContext {
+  const timeframes = sortTimeframes(Object.keys(klinesByTimeframe));
+  let aligned: AlignedTimeframe[] | null = null;
+
+  return {
+    primaryTimeframe,
+    timeframes,
+    klines: klinesByTimeframe,
+    get aligned(): AlignedTimeframe[] {
+      if (!aligned) {
+        const lowTimeframe = timeframes[0];
+        const mainTimeframe = timeframes[timeframes.length - 1];
+        const midTimeframe = timeframes[Math.max(0, timeframes.length - 2)];
+
+        aligned = alignTimeframes(
+          klinesByTimeframe[mainTimeframe],
+          klinesByTimeframe[midTimeframe],
+          klinesByTimeframe[lowTimeframe],
+          mainTimeframe,
+          midTimeframe,
+          lowTimeframe
+        );
+      }
+      return aligned;
+    },
+  };
+}
+
+/**
+ * 获取截至某一时刻已经收盘的K线数量（K线按时间升序排列）
+ * 用于回测时只暴露已收盘的大周期K线，避免未来函数
+ *
+ * @param klines K线数据
+ * @param timeframe K线周期
+ * @param time 当前时刻（毫秒）
+ * @param fromIndex 开始搜索的位置（逐根推进时传入上次结果以避免重复扫描）
+ * @returns 已收盘K线数量
+ */
+export function countClosedBars(
+  klines: KLineData[],
+  timeframe: string,
+  time: number,
+  fromIndex: number = 0
+): number {
+  const ms = TIMEFRAME_TO_MS[timeframe];
+  if (!ms) {
+    throw new Error(`Invalid timeframe: ${timeframe}`);
+  }
+
+  let count = fromIndex;
+  while (count < klines.length && klines[count].timestamp + ms <= time) {
+    count++;
+  }
+  return count;
+}